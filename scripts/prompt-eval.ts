@@ -0,0 +1,91 @@
+/**
+ * Headless prompt evaluation - runs saved prompt versions over a project's pinned
+ * fixtures and prints the diff statistics. Runs are stored like runs from the UI.
+ *
+ *   bun run eval:prompts --project <id> [--version <id or label>]...
+ *     [--base-url <url> --model <name> [--api-key <key>]] [--mock]
+ *
+ * Without --base-url the project's configured provider is used. --mock starts a
+ * local OpenAI-compatible server that returns each paragraph unchanged, to check
+ * the harness itself without a model. Exits non-zero if any fixture failed.
+ */
+import { parseArgs } from 'node:util';
+import { getAdapter } from '../src/llmAdapters';
+import { listPromptEvals, runPromptEval, type EvalChat } from '../src/promptEval';
+
+const { values } = parseArgs({
+  options: {
+    project: { type: 'string' },
+    version: { type: 'string', multiple: true },
+    'base-url': { type: 'string' },
+    model: { type: 'string' },
+    'api-key': { type: 'string' },
+    mock: { type: 'boolean', default: false }
+  }
+});
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(2);
+}
+
+// Answers every chat completion with the paragraph at the end of the last message
+function startMockServer() {
+  return Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const body = await req.json() as { model: string; messages: { content: string }[] };
+      const prompt = body.messages[body.messages.length - 1]?.content ?? '';
+      const content = prompt.slice(prompt.lastIndexOf('\n\n') + 2);
+      return Response.json({ model: body.model, choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }] });
+    }
+  });
+}
+
+const projectId = values.project || fail('--project is required');
+const evals = listPromptEvals(projectId);
+const versions = values.version?.length
+  ? values.version.map(ref => evals.versions.find(v => v.id === ref || v.label === ref) ?? fail(`Prompt version not found: ${ref}`))
+  : evals.versions;
+if (versions.length === 0) fail('The project has no saved prompt versions');
+
+const mockServer = values.mock ? startMockServer() : null;
+const baseUrl = mockServer ? `http://127.0.0.1:${mockServer.port}/v1` : values['base-url'];
+
+let chat: EvalChat | undefined;
+if (baseUrl) {
+  const model = values.model || (mockServer ? 'mock' : fail('--model is required with --base-url'));
+  const apiKey = values['api-key'] ?? process.env.OPENAI_API_KEY ?? '';
+  chat = async (messages) => {
+    const result = await getAdapter('openai').chat({ baseUrl, apiKey }, { model, messages, temperature: 0 });
+    if (!result.content) throw new Error('AI API returned empty content');
+    return { content: result.content, model: result.model };
+  };
+}
+
+try {
+  const runs = await runPromptEval(projectId, versions.map(v => v.id), chat);
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  console.table(runs.map(run => ({
+    version: run.versionLabel,
+    mode: run.mode,
+    model: run.model,
+    'edit ratio': percent(run.summary.editRatio),
+    'length delta': `${run.summary.lengthDelta > 0 ? '+' : ''}${percent(run.summary.lengthDelta)}`,
+    'commands kept': percent(run.summary.preservedCommands),
+    violations: run.summary.violations,
+    failures: run.summary.failures
+  })));
+
+  for (const run of runs) {
+    for (const output of run.outputs.filter(o => o.error)) {
+      console.error(`${run.versionLabel} / ${output.fixtureId}: ${output.error}`);
+    }
+  }
+  process.exitCode = runs.some(run => run.summary.failures > 0) ? 1 : 0;
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 2;
+} finally {
+  mockServer?.stop(true);
+}
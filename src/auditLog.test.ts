@@ -0,0 +1,50 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { rmSync, appendFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { appendAuditEntry, listAuditEntries, getAuditEntry, clearAuditLog, AuditLogError, type AuditEntry } from './auditLog';
+
+const projectId = `test-audit-log-${process.pid}`;
+
+const call = (fields: Partial<AuditEntry> = {}): Omit<AuditEntry, 'id' | 'timestamp'> => ({
+  mode: 'refine',
+  stream: false,
+  providerName: 'OpenAI',
+  model: 'gpt-4o',
+  temperature: 0.3,
+  maxTokens: 4000,
+  messages: [{ role: 'system', content: 'Edit.' }, { role: 'user', content: 'Polish: Text.' }],
+  status: 'ok',
+  latencyMs: 812,
+  ...fields
+});
+
+describe('auditLog', () => {
+  afterEach(() => {
+    rmSync(join(process.cwd(), 'projs', projectId), { recursive: true, force: true });
+  });
+
+  it('should list entries newest first without their messages', () => {
+    const first = appendAuditEntry(projectId, call({ response: `Polished   text.\n${'x'.repeat(300)}`, promptTokens: 12, completionTokens: 3 }));
+    const failed = appendAuditEntry(projectId, call({ status: 'error', error: 'API key not configured.', model: 'claude' }));
+    const replay = appendAuditEntry(projectId, call({ response: 'Other text.', replayOf: first.id }));
+
+    const entries = listAuditEntries(projectId);
+    expect(entries.map(e => e.id)).toEqual([replay.id, failed.id, first.id]);
+    expect(entries[1]).toMatchObject({ status: 'error', preview: 'API key not configured.' });
+    expect(entries[2]!.preview).toMatch(/^Polished text\. x+…$/);
+    expect(entries[2]).not.toHaveProperty('messages');
+    expect(entries[0]!.replayOf).toBe(first.id);
+
+    expect(getAuditEntry(projectId, first.id).messages[1]).toEqual({ role: 'user', content: 'Polish: Text.' });
+    expect(() => getAuditEntry(projectId, 'audit_missing')).toThrow(AuditLogError);
+  });
+
+  it('should skip a torn last line and clear the log', () => {
+    appendAuditEntry(projectId, call());
+    appendFileSync(join(process.cwd(), 'projs', projectId, 'audit-log.jsonl'), '{"id":"audit_cut', 'utf-8');
+    expect(listAuditEntries(projectId)).toHaveLength(1);
+
+    clearAuditLog(projectId);
+    expect(listAuditEntries(projectId)).toEqual([]);
+  });
+});
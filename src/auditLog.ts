@@ -0,0 +1,114 @@
+/**
+ * LLM audit log - every paragraph request (processWithAI and its streaming
+ * variant) is appended to the project's log with the exact messages, the
+ * parameters, the provider and model that answered, latency, usage and the raw
+ * reply or error. Entries can be replayed against another model or with edited
+ * messages; replays are logged too, pointing at the entry they replay.
+ */
+import { existsSync, readFileSync, writeFileSync, appendFileSync, mkdirSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { RequestError } from './requestError';
+import type { ChatMessage } from './llmAdapters';
+
+const PROJS_DIR = join(process.cwd(), 'projs');
+export const AUDIT_LOG_MAX_BYTES = 10 * 1024 * 1024; // Oldest entries are dropped past this
+const PREVIEW_CHARS = 200;
+
+export type AuditStatus = 'ok' | 'cached' | 'error' | 'aborted';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  mode: string;
+  stream: boolean;
+  providerId?: string;
+  providerName: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  messages: ChatMessage[];
+  status: AuditStatus;
+  response?: string; // Raw reply, before code fences are stripped or Diagnose JSON is parsed
+  error?: string;
+  latencyMs: number;
+  promptTokens?: number; // Summed over the provider calls of the request (e.g. a Diagnose repair)
+  completionTokens?: number;
+  cost?: number;
+  estimated?: boolean; // Some usage was counted from text length
+  failovers?: number; // Providers that failed before one answered
+  replayOf?: string; // Id of the replayed entry
+}
+
+// List view: no messages or full reply
+export type AuditSummary = Omit<AuditEntry, 'messages' | 'response'> & { preview: string };
+
+export class AuditLogError extends RequestError {
+  override name = 'AuditLogError';
+}
+
+function logFile(projectId: string): string {
+  return join(PROJS_DIR, projectId, 'audit-log.jsonl');
+}
+
+function readEntries(projectId: string): AuditEntry[] {
+  const file = logFile(projectId);
+  if (!existsSync(file)) return [];
+  const entries: AuditEntry[] = [];
+  for (const line of readFileSync(file, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // A line cut off by a crash mid-write
+    }
+  }
+  return entries;
+}
+
+// Keep the newest entries that fit in half the limit, so trimming is rare
+function trimLog(projectId: string) {
+  const kept: string[] = [];
+  let bytes = 0;
+  for (const entry of readEntries(projectId).reverse()) {
+    const line = JSON.stringify(entry);
+    bytes += Buffer.byteLength(line) + 1;
+    if (bytes > AUDIT_LOG_MAX_BYTES / 2) break;
+    kept.push(line);
+  }
+  writeFileSync(logFile(projectId), kept.reverse().map(line => `${line}\n`).join(''), 'utf-8');
+}
+
+export function appendAuditEntry(projectId: string, fields: Omit<AuditEntry, 'id' | 'timestamp'>): AuditEntry {
+  const entry: AuditEntry = {
+    id: `audit_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 6)}`,
+    timestamp: new Date().toISOString(),
+    ...fields
+  };
+  try {
+    const dir = join(PROJS_DIR, projectId);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    appendFileSync(logFile(projectId), JSON.stringify(entry) + '\n', 'utf-8');
+    if (statSync(logFile(projectId)).size > AUDIT_LOG_MAX_BYTES) trimLog(projectId);
+  } catch (error) {
+    console.error('Failed to write audit log:', error);
+  }
+  return entry;
+}
+
+// Newest first
+export function listAuditEntries(projectId: string): AuditSummary[] {
+  return readEntries(projectId).reverse().map(({ messages: _messages, response, ...entry }) => {
+    const text = (response ?? entry.error ?? '').replace(/\s+/g, ' ').trim();
+    return { ...entry, preview: text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}…` : text };
+  });
+}
+
+export function getAuditEntry(projectId: string, entryId: string): AuditEntry {
+  const entry = readEntries(projectId).find(e => e.id === entryId);
+  if (!entry) throw new AuditLogError('Audit log entry not found', 404);
+  return entry;
+}
+
+export function clearAuditLog(projectId: string): void {
+  if (existsSync(logFile(projectId))) writeFileSync(logFile(projectId), '', 'utf-8');
+}
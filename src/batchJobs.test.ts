@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createBatchJob,
+  pauseBatchJob,
+  resumeBatchJob,
+  cancelBatchJob,
+  reviewBatchItem,
+  deleteBatchJob,
+  getBatchJob,
+  BatchJobError,
+  type BatchProcessor
+} from './batchJobs';
+
+const items = ['one', 'two', 'three', 'four'].map((content, i) => ({ itemId: `para-${i + 1}`, content, lineStart: i * 3 + 1 }));
+
+// Processor whose calls stay open until released by the test
+function controlledProcessor() {
+  const calls: { content: string; resolve: (text: string) => void; signal: AbortSignal }[] = [];
+  const processor: BatchProcessor = (_job, item, signal) => new Promise((resolve, reject) => {
+    calls.push({ content: item.content, resolve, signal });
+    signal.addEventListener('abort', () => reject(new Error('Aborted')));
+  });
+  return { calls, processor };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('batchJobs', () => {
+  it('should respect the concurrency limit and complete once every item settles', async () => {
+    const { calls, processor } = controlledProcessor();
+    const job = createBatchJob({ projectId: 'p', filePath: '/paper/intro.tex', mode: 'refine', concurrency: 2, items }, processor);
+
+    expect(calls.map(c => c.content)).toEqual(['one', 'two']);
+
+    calls[0]!.resolve('ONE');
+    await flush();
+    expect(calls.map(c => c.content)).toEqual(['one', 'two', 'three']);
+
+    for (const call of calls.slice(1)) call.resolve(call.content.toUpperCase());
+    await flush();
+    calls[3]!.resolve('FOUR');
+    await flush();
+
+    expect(job.status).toBe('completed');
+    expect(job.items.map(i => i.result)).toEqual(['ONE', 'TWO', 'THREE', 'FOUR']);
+    expect(job.items.every(i => i.review === 'pending')).toBe(true);
+    deleteBatchJob(job.id);
+  });
+
+  it('should re-queue in-flight items on pause and run them on resume', async () => {
+    const { calls, processor } = controlledProcessor();
+    const job = createBatchJob({ projectId: 'p', filePath: '/paper/intro.tex', mode: 'quickfix', concurrency: 1, items: items.slice(0, 2) }, processor);
+
+    pauseBatchJob(job.id);
+    await flush();
+    expect(calls[0]!.signal.aborted).toBe(true);
+    expect(job.items[0]!.status).toBe('pending');
+    expect(calls).toHaveLength(1);
+
+    resumeBatchJob(job.id);
+    expect(calls).toHaveLength(2);
+    calls[1]!.resolve('ONE');
+    await flush();
+    calls[2]!.resolve('TWO');
+    await flush();
+
+    expect(job.status).toBe('completed');
+    expect(job.items.map(i => i.result)).toEqual(['ONE', 'TWO']);
+    deleteBatchJob(job.id);
+  });
+
+  it('should cancel pending and running items, and keep failures per item', async () => {
+    const { calls, processor } = controlledProcessor();
+    const failing: BatchProcessor = (job, item, signal) =>
+      item.content === 'one' ? Promise.reject(new Error('rate limited')) : processor(job, item, signal);
+    const job = createBatchJob({ projectId: 'p', filePath: '/paper/intro.tex', mode: 'refine', concurrency: 1, items: items.slice(0, 3) }, failing);
+
+    await flush();
+    expect(job.items[0]).toMatchObject({ status: 'failed', error: 'rate limited' });
+    expect(calls.map(c => c.content)).toEqual(['two']);
+
+    cancelBatchJob(job.id);
+    await flush();
+    expect(job.status).toBe('cancelled');
+    expect(job.items.map(i => i.status)).toEqual(['failed', 'cancelled', 'cancelled']);
+    deleteBatchJob(job.id);
+  });
+
+  it('should only allow reviewing finished items', async () => {
+    const { calls, processor } = controlledProcessor();
+    const job = createBatchJob({ projectId: 'p', filePath: '/paper/intro.tex', mode: 'refine', items: items.slice(0, 2) }, processor);
+
+    expect(() => reviewBatchItem(job.id, 'para-1', 'accepted')).toThrow(BatchJobError);
+    calls[0]!.resolve('ONE');
+    await flush();
+    expect(reviewBatchItem(job.id, 'para-1', 'accepted').items[0]!.review).toBe('accepted');
+
+    expect(deleteBatchJob(job.id)).toBe(true);
+    expect(getBatchJob(job.id)).toBeNull();
+  });
+
+  it('should reject empty jobs and modes that do not rewrite', () => {
+    expect(() => createBatchJob({ projectId: 'p', filePath: '/a.tex', mode: 'refine', items: [{ itemId: 'x', content: '  ', lineStart: 1 }] }))
+      .toThrow('No paragraphs to process');
+    expect(() => createBatchJob({ projectId: 'p', filePath: '/a.tex', mode: 'diagnose', items }))
+      .toThrow('Batch jobs only support modes that rewrite text');
+  });
+});
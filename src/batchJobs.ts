@@ -0,0 +1,247 @@
+/**
+ * Batch AI jobs - applies one mode to many paragraphs of a file in the background.
+ * Results are kept as suggestions on the job until each one is reviewed.
+ */
+import { streamWithAI, getModeOutput, getProjectPrompts, isBuiltinMode, type AIMode, type AIRequest } from './llmService';
+import { RequestError } from './requestError';
+
+export type BatchJobStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+export type BatchReview = 'pending' | 'accepted' | 'rejected';
+
+export interface BatchJobItem {
+  itemId: string;
+  content: string;
+  lineStart: number;
+  thoughts?: string;
+  status: BatchItemStatus;
+  result?: string;
+  error?: string;
+  review: BatchReview;
+}
+
+export interface BatchJob {
+  id: string;
+  projectId: string;
+  filePath: string;
+  mode: AIMode;
+  userPrompt?: string;
+  concurrency: number;
+  status: BatchJobStatus;
+  items: BatchJobItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateBatchJobOptions {
+  projectId: string;
+  filePath: string;
+  mode: AIMode;
+  userPrompt?: string; // Overrides the project's prompt for this mode
+  concurrency?: number;
+  items: { itemId: string; content: string; lineStart: number; thoughts?: string }[];
+}
+
+// Runs one item; must settle soon after the signal aborts
+export type BatchProcessor = (job: BatchJob, item: BatchJobItem, signal: AbortSignal) => Promise<string>;
+
+export class BatchJobError extends RequestError {
+  override name = 'BatchJobError';
+}
+
+const MAX_CONCURRENCY = 8;
+const DEFAULT_CONCURRENCY = 2;
+
+// Jobs live in memory: a server restart drops them, like an open SSE stream
+const jobs = new Map<string, BatchJob>();
+const controllers = new Map<string, Map<string, AbortController>>(); // jobId -> itemId -> in-flight request
+const processors = new Map<string, BatchProcessor>();
+
+// Same request the editor panel sends for a single paragraph, using the project's saved prompts
+const defaultProcessor: BatchProcessor = async (job, item, signal) => {
+  const prompts = getProjectPrompts(job.projectId);
+  const request: AIRequest = {
+    mode: job.mode,
+    content: item.content,
+    projectId: job.projectId,
+    systemPrompt: prompts.system,
+    userPrompt: job.userPrompt || (isBuiltinMode(job.mode) ? prompts[job.mode].user : undefined),
+    context: { filePath: job.filePath, lineStart: item.lineStart, thoughts: item.thoughts }
+  };
+  const result = await streamWithAI(request, () => {}, signal);
+  if (result.aborted) throw new Error('Aborted');
+  return result.content;
+};
+
+function touch(job: BatchJob) {
+  job.updatedAt = new Date().toISOString();
+}
+
+function clampConcurrency(value: unknown): number {
+  const n = typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : DEFAULT_CONCURRENCY;
+  return Math.min(MAX_CONCURRENCY, Math.max(1, n));
+}
+
+// Start pending items until the concurrency limit is reached; finish the job when nothing is left
+function schedule(job: BatchJob) {
+  if (job.status !== 'running') return;
+
+  const inFlight = controllers.get(job.id)!;
+  const pending = job.items.filter(item => item.status === 'pending');
+
+  if (pending.length === 0 && inFlight.size === 0) {
+    job.status = 'completed';
+    touch(job);
+    return;
+  }
+
+  for (const item of pending.slice(0, Math.max(0, job.concurrency - inFlight.size))) {
+    runItem(job, item);
+  }
+}
+
+function runItem(job: BatchJob, item: BatchJobItem) {
+  const controller = new AbortController();
+  controllers.get(job.id)!.set(item.itemId, controller);
+  item.status = 'running';
+  touch(job);
+
+  const processItem = processors.get(job.id) ?? defaultProcessor;
+  processItem(job, item, controller.signal)
+    .then(result => {
+      if (controller.signal.aborted) return;
+      item.status = 'done';
+      item.result = result;
+    })
+    .catch(error => {
+      if (controller.signal.aborted) return;
+      item.status = 'failed';
+      item.error = error instanceof Error ? error.message : String(error);
+    })
+    .finally(() => {
+      controllers.get(job.id)?.delete(item.itemId);
+      // Aborted by pause (cancel already marked it): run it again on resume
+      if (controller.signal.aborted && item.status === 'running') item.status = 'pending';
+      touch(job);
+      schedule(job);
+    });
+}
+
+export function createBatchJob(options: CreateBatchJobOptions, processor?: BatchProcessor): BatchJob {
+  if (!options.projectId || !options.filePath) {
+    throw new BatchJobError('projectId and filePath are required');
+  }
+  const items = (options.items || []).filter(item => item.content?.trim());
+  if (items.length === 0) {
+    throw new BatchJobError('No paragraphs to process');
+  }
+  // Rewrites become reviewable suggestions; other outputs have nothing to accept
+  let output: string;
+  try {
+    output = getModeOutput({ mode: options.mode, content: '', projectId: options.projectId });
+  } catch (error) {
+    throw new BatchJobError(error instanceof Error ? error.message : String(error));
+  }
+  if (output !== 'rewrite') {
+    throw new BatchJobError('Batch jobs only support modes that rewrite text');
+  }
+
+  const now = new Date().toISOString();
+  const job: BatchJob = {
+    id: `batch-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    projectId: options.projectId,
+    filePath: options.filePath,
+    mode: options.mode,
+    userPrompt: options.userPrompt || undefined,
+    concurrency: clampConcurrency(options.concurrency),
+    status: 'running',
+    items: items.map(item => ({
+      itemId: item.itemId,
+      content: item.content,
+      lineStart: item.lineStart,
+      thoughts: item.thoughts,
+      status: 'pending',
+      review: 'pending'
+    })),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  jobs.set(job.id, job);
+  controllers.set(job.id, new Map());
+  if (processor) processors.set(job.id, processor);
+  schedule(job);
+  return job;
+}
+
+export function getBatchJob(jobId: string): BatchJob | null {
+  return jobs.get(jobId) ?? null;
+}
+
+export function listBatchJobs(projectId: string, filePath?: string): BatchJob[] {
+  return [...jobs.values()]
+    .filter(job => job.projectId === projectId && (!filePath || job.filePath === filePath))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function requireJob(jobId: string): BatchJob {
+  const job = jobs.get(jobId);
+  if (!job) throw new BatchJobError('Batch job not found', 404);
+  return job;
+}
+
+// In-flight items are aborted and re-queued, so a paused job costs nothing
+export function pauseBatchJob(jobId: string): BatchJob {
+  const job = requireJob(jobId);
+  if (job.status !== 'running') return job;
+
+  job.status = 'paused';
+  touch(job);
+  for (const controller of controllers.get(job.id)!.values()) controller.abort();
+  return job;
+}
+
+export function resumeBatchJob(jobId: string): BatchJob {
+  const job = requireJob(jobId);
+  if (job.status !== 'paused') return job;
+
+  job.status = 'running';
+  touch(job);
+  schedule(job);
+  return job;
+}
+
+export function cancelBatchJob(jobId: string): BatchJob {
+  const job = requireJob(jobId);
+  if (job.status === 'completed' || job.status === 'cancelled') return job;
+
+  job.status = 'cancelled';
+  for (const controller of controllers.get(job.id)!.values()) controller.abort();
+  for (const item of job.items) {
+    if (item.status === 'pending' || item.status === 'running') item.status = 'cancelled';
+  }
+  touch(job);
+  return job;
+}
+
+export function reviewBatchItem(jobId: string, itemId: string, review: BatchReview): BatchJob {
+  const job = requireJob(jobId);
+  const item = job.items.find(i => i.itemId === itemId);
+  if (!item) throw new BatchJobError('Item not found in batch job', 404);
+  if (item.status !== 'done') throw new BatchJobError('Only finished items can be reviewed');
+
+  item.review = review;
+  touch(job);
+  return job;
+}
+
+export function deleteBatchJob(jobId: string): boolean {
+  const job = jobs.get(jobId);
+  if (!job) return false;
+
+  cancelBatchJob(jobId);
+  jobs.delete(jobId);
+  controllers.delete(jobId);
+  processors.delete(jobId);
+  return true;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { recordChange, listChanges, updateChangeReason, deleteChange, exportChanges, escapeLatex } from './changeLog';
+
+const projectId = `test-changelog-${process.pid}`;
+
+describe('changeLog', () => {
+  let root: string;
+  let mainPath: string;
+  let evalPath: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'changelog-'));
+    mainPath = join(root, 'main.tex');
+    evalPath = join(root, 'eval.tex');
+    writeFileSync(mainPath, '\\begin{document}\n\\section{Introduction}\nWe study overhead.\n\\input{eval}\n\\end{document}');
+    writeFileSync(evalPath, '\\section{Evaluation}\nWe run SPEC.\n\n\\subsection{Setup}\nA small machine.');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(join(process.cwd(), 'projs', projectId), { recursive: true, force: true });
+  });
+
+  it('should log accepted changes with their section and edit the reason', () => {
+    const setup = recordChange(projectId, { filePath: evalPath, lineStart: 5, lineEnd: 5, mode: 'refine', model: 'gpt-test', before: 'A small machine.', after: 'A 4-core machine.', reason: ' Reviewer 2 asked for the hardware ' }, mainPath);
+    expect(setup).toMatchObject({ section: { title: 'Setup', level: 2 }, reason: 'Reviewer 2 asked for the hardware', lineEnd: 5 });
+
+    const intro = recordChange(projectId, { filePath: mainPath, lineStart: 3, lineEnd: 3, mode: 'quickfix', before: 'We study overhead.', after: 'We study the overhead.' }, mainPath);
+    expect(intro.section?.title).toBe('Introduction');
+    expect(() => recordChange(projectId, { filePath: mainPath, lineStart: 3, lineEnd: 3, mode: 'refine', before: 'Same', after: 'Same' }, mainPath)).toThrow('as it was');
+
+    expect(updateChangeReason(projectId, intro.id, 'Grammar').reason).toBe('Grammar');
+    expect(updateChangeReason(projectId, intro.id, '  ').reason).toBeUndefined();
+    expect(() => updateChangeReason(projectId, 'missing', 'x')).toThrow('not found');
+
+    expect(deleteChange(projectId, intro.id)).toBe(true);
+    expect(listChanges(projectId).map(e => e.id)).toEqual([setup.id]);
+  });
+
+  it('should export a summary and a changelog grouped by section in document order', () => {
+    recordChange(projectId, { filePath: evalPath, lineStart: 5, lineEnd: 5, mode: 'compress', before: 'A small machine.', after: 'A machine.' }, mainPath);
+    recordChange(projectId, { filePath: mainPath, lineStart: 3, lineEnd: 3, mode: 'refine', model: 'gpt-test', before: 'We study overhead.', after: 'We measure overhead.', reason: 'Clarified the 50% claim' }, mainPath);
+    recordChange(projectId, { filePath: mainPath, lineStart: 3, lineEnd: 3, mode: 'refine', before: 'We measure overhead.', after: 'We measure the overhead.', reason: 'Clarified the 50% claim' }, null);
+
+    expect(exportChanges(projectId, { format: 'markdown', kind: 'summary', rootDir: root, mainPath })).toBe([
+      '# Summary of Changes',
+      '',
+      '## Introduction',
+      '',
+      '- Clarified the 50% claim',
+      '',
+      '### Setup',
+      '',
+      '- Shortened the text',
+      '',
+      '## Other changes',
+      '',
+      '- Clarified the 50% claim',
+      ''
+    ].join('\n'));
+
+    const latex = exportChanges(projectId, { format: 'latex', kind: 'summary', rootDir: root, mainPath });
+    expect(latex).toContain('\\subsection*{Introduction}\n\n\\begin{itemize}\n  \\item Clarified the 50\\% claim\n\\end{itemize}');
+    expect(latex).toContain('\\subsubsection*{Setup}');
+
+    const changelog = exportChanges(projectId, { format: 'markdown', kind: 'changelog', rootDir: root, mainPath });
+    expect(changelog).toContain('**main.tex, lines 3-3** (refine · gpt-test · ');
+    expect(changelog).toContain('Before:\n\n> We study overhead.\n\nAfter:\n\n> We measure overhead.');
+  });
+
+  it('should escape plain text for LaTeX', () => {
+    expect(escapeLatex('a_b & 10% of {x} \\ ~^')).toBe('a\\_b \\& 10\\% of \\{x\\} \\textbackslash{} \\textasciitilde{}\\textasciicircum{}');
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Revision changelog - every AI edit the author accepts is logged with its file,
+ * line range, section, mode, model, the text before and after, and an optional
+ * reason. The log exports as a changelog or as a camera-ready "summary of
+ * changes", grouped by section in document order, in Markdown or LaTeX.
+ */
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { parseDocumentOutline, findEnclosingSection, type DocumentOutline } from './latexOutline';
+import { RequestError } from './requestError';
+
+const PROJS_DIR = join(process.cwd(), 'projs');
+
+export interface ChangeLogEntry {
+  id: string;
+  timestamp: string;
+  filePath: string;
+  lineStart: number;
+  lineEnd: number;
+  section?: { title: string; level: number }; // Enclosing heading when the change was made
+  mode: string; // AI mode, or "thoughts" for paragraphs drafted from FW_THOUGHTS
+  model?: string;
+  before: string;
+  after: string;
+  reason?: string;
+}
+
+export type ChangeLogInput = Omit<ChangeLogEntry, 'id' | 'timestamp' | 'section'>;
+
+export type ChangeExportFormat = 'markdown' | 'latex';
+export type ChangeExportKind = 'changelog' | 'summary';
+
+export class ChangeLogError extends RequestError {
+  override name = 'ChangeLogError';
+}
+
+function changeLogFile(projectId: string): string {
+  return join(PROJS_DIR, projectId, 'changelog.json');
+}
+
+function readEntries(projectId: string): ChangeLogEntry[] {
+  const file = changeLogFile(projectId);
+  if (!existsSync(file)) return [];
+  try {
+    const data = JSON.parse(readFileSync(file, 'utf-8'));
+    return Array.isArray(data.entries) ? data.entries : [];
+  } catch (error) {
+    console.error('Failed to load changelog:', error);
+    return [];
+  }
+}
+
+function writeEntries(projectId: string, entries: ChangeLogEntry[]) {
+  const dir = join(PROJS_DIR, projectId);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(changeLogFile(projectId), JSON.stringify({ entries }, null, 2), 'utf-8');
+}
+
+export function listChanges(projectId: string): ChangeLogEntry[] {
+  return readEntries(projectId);
+}
+
+/**
+ * Log an accepted edit. The section is looked up in the main file's outline, so
+ * it still reads right after later edits move the lines around.
+ */
+export function recordChange(projectId: string, input: ChangeLogInput, mainPath: string | null): ChangeLogEntry {
+  if (!input.filePath || !input.mode) throw new ChangeLogError('filePath and mode are required');
+  if (input.before === input.after) throw new ChangeLogError('The change leaves the text as it was');
+
+  const section = mainPath ? findEnclosingSection(parseDocumentOutline(mainPath), input.filePath, input.lineStart) : null;
+  const entry: ChangeLogEntry = {
+    id: `change_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 6)}`,
+    timestamp: new Date().toISOString(),
+    filePath: input.filePath,
+    lineStart: input.lineStart,
+    lineEnd: Math.max(input.lineStart, input.lineEnd),
+    ...(section ? { section: { title: section.title, level: section.level } } : {}),
+    mode: input.mode,
+    ...(input.model ? { model: input.model } : {}),
+    before: input.before,
+    after: input.after,
+    ...(input.reason?.trim() ? { reason: input.reason.trim() } : {})
+  };
+
+  writeEntries(projectId, [...readEntries(projectId), entry]);
+  return entry;
+}
+
+export function updateChangeReason(projectId: string, entryId: string, reason: string): ChangeLogEntry {
+  const entries = readEntries(projectId);
+  const entry = entries.find(e => e.id === entryId);
+  if (!entry) throw new ChangeLogError('Change not found', 404);
+  entry.reason = reason.trim() || undefined;
+  writeEntries(projectId, entries);
+  return entry;
+}
+
+export function deleteChange(projectId: string, entryId: string): boolean {
+  const entries = readEntries(projectId);
+  const rest = entries.filter(e => e.id !== entryId);
+  if (rest.length === entries.length) return false;
+  writeEntries(projectId, rest);
+  return true;
+}
+
+// Export
+
+const OTHER_CHANGES = 'Other changes';
+
+// What an unexplained change did, for the summary of changes
+const MODE_DESCRIPTIONS: Record<string, string> = {
+  refine: 'Revised the wording',
+  quickfix: 'Fixed grammar and typos',
+  translate: 'Translated the draft',
+  compress: 'Shortened the text',
+  thoughts: 'Drafted the paragraph from notes'
+};
+
+function describeChange(entry: ChangeLogEntry): string {
+  return entry.reason || MODE_DESCRIPTIONS[entry.mode] || 'Revised the text';
+}
+
+/**
+ * Entries grouped by the section they were made in. Sections follow the
+ * document outline when one is given; sections no longer in it, and entries
+ * made outside any section, come last.
+ */
+export function groupChangesBySection(entries: ChangeLogEntry[], outline?: DocumentOutline): { title: string; level: number; entries: ChangeLogEntry[] }[] {
+  const groups: { title: string; level: number; entries: ChangeLogEntry[] }[] = [];
+  for (const entry of entries) {
+    const title = entry.section?.title || OTHER_CHANGES;
+    let group = groups.find(g => g.title === title);
+    if (!group) groups.push(group = { title, level: entry.section?.level ?? 1, entries: [] });
+    group.entries.push(entry);
+  }
+
+  const order = (title: string) => {
+    const index = outline?.sections.findIndex(s => s.title === title) ?? -1;
+    return title === OTHER_CHANGES ? Infinity : index < 0 ? outline?.sections.length ?? 0 : index;
+  };
+  for (const group of groups) group.entries.sort((a, b) => a.filePath.localeCompare(b.filePath) || a.lineStart - b.lineStart);
+  // Array.sort is stable, so groups with the same rank keep the order they were first logged in
+  return groups.sort((a, b) => order(a.title) - order(b.title));
+}
+
+// Plain text (reasons, model names, paths) for LaTeX
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}'
+};
+
+export function escapeLatex(text: string): string {
+  return text.replace(/[\\~^#$%&_{}]/g, char => LATEX_SPECIALS[char] ?? `\\${char}`);
+}
+
+function quoteMarkdown(text: string): string {
+  return text.trim().split('\n').map(line => `> ${line}`).join('\n');
+}
+
+/**
+ * Render the log. "changelog" lists every change with its location, mode,
+ * model and before/after text; "summary" is the camera-ready summary of
+ * changes, one bullet per distinct reason in each section.
+ */
+export function buildChangeSummary(
+  entries: ChangeLogEntry[],
+  options: { format: ChangeExportFormat; kind: ChangeExportKind; rootDir: string; outline?: DocumentOutline; title?: string }
+): string {
+  const { format, kind, rootDir } = options;
+  const latex = format === 'latex';
+  const groups = groupChangesBySection(entries, options.outline);
+  const title = options.title || (kind === 'summary' ? 'Summary of Changes' : 'Revision Changelog');
+  const lines: string[] = [];
+
+  if (latex) {
+    lines.push(`\\section*{${escapeLatex(title)}}`);
+  } else {
+    lines.push(`# ${title}`);
+  }
+  if (groups.length === 0) {
+    lines.push('', latex ? 'No changes were logged.' : '_No changes were logged._');
+    return lines.join('\n') + '\n';
+  }
+
+  for (const group of groups) {
+    // Section titles are LaTeX source already
+    lines.push('');
+    if (latex) {
+      lines.push(`\\${group.level > 1 ? 'subsubsection' : 'subsection'}*{${group.title}}`);
+    } else {
+      lines.push(`${'#'.repeat(Math.min(group.level + 1, 4))} ${group.title}`);
+    }
+
+    if (kind === 'summary') {
+      const descriptions = [...new Set(group.entries.map(describeChange))];
+      lines.push('');
+      if (latex) lines.push('\\begin{itemize}');
+      for (const description of descriptions) {
+        lines.push(latex ? `  \\item ${escapeLatex(description)}` : `- ${description}`);
+      }
+      if (latex) lines.push('\\end{itemize}');
+      continue;
+    }
+
+    for (const entry of group.entries) {
+      const location = `${relative(rootDir, entry.filePath)}, lines ${entry.lineStart}-${entry.lineEnd}`;
+      const meta = [entry.mode, entry.model, entry.timestamp.substring(0, 10)].filter(Boolean).join(' · ');
+      lines.push('');
+      if (latex) {
+        lines.push(`\\paragraph{${escapeLatex(location)}} ${escapeLatex(meta)}.`);
+        if (entry.reason) lines.push(`\\textit{${escapeLatex(entry.reason)}}`);
+        lines.push('\\begin{verbatim}', `Before: ${entry.before.trim()}`, '', `After: ${entry.after.trim()}`, '\\end{verbatim}');
+      } else {
+        lines.push(`**${location}** (${meta})`);
+        if (entry.reason) lines.push('', `Reason: ${entry.reason}`);
+        lines.push('', 'Before:', '', quoteMarkdown(entry.before), '', 'After:', '', quoteMarkdown(entry.after));
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function exportChanges(
+  projectId: string,
+  options: { format: ChangeExportFormat; kind: ChangeExportKind; rootDir: string; mainPath: string | null }
+): string {
+  const outline = options.mainPath ? parseDocumentOutline(options.mainPath) : undefined;
+  return buildChangeSummary(readEntries(projectId), { ...options, outline });
+}
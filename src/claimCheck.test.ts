@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runClaimCheck, getClaimReport, ClaimCheckError, type ClaimChat } from './claimCheck';
+
+const projectId = `test-claim-check-${process.pid}`;
+
+describe('claimCheck', () => {
+  let root: string;
+  let mainPath: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'claim-check-'));
+    mkdirSync(join(root, 'sections'));
+    mainPath = join(root, 'main.tex');
+    writeFileSync(mainPath, [
+      '\\begin{document}',
+      '\\begin{abstract}',
+      'Our cache makes key-value lookups 5$\\times$ faster.',
+      'It adds $<$1\\% memory overhead.',
+      '\\end{abstract}',
+      '\\input{sections/intro}',
+      '\\input{sections/eval}',
+      '\\end{document}'
+    ].join('\n'));
+    writeFileSync(join(root, 'sections', 'intro.tex'), [
+      '\\section{Introduction}',
+      'Lookups dominate the cost of key-value stores.',
+      '\\begin{itemize}',
+      '\\item A cache design that needs no changes to the application code.',
+      '\\end{itemize}'
+    ].join('\n'));
+    writeFileSync(join(root, 'sections', 'eval.tex'), [
+      '\\section{Evaluation}',
+      'On the lookup benchmark the cache makes key-value lookups 4.2$\\times$ faster than the baseline.',
+      '',
+      'The memory overhead of the cache is 0.6\\% of the heap.',
+      '',
+      '\\section{Conclusion}',
+      'Lookups are 5$\\times$ faster.'
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(join(process.cwd(), 'projs', projectId), { recursive: true, force: true });
+  });
+
+  it('should cross-check numbers and leave the rest unchecked without the model', async () => {
+    const report = await runClaimCheck(projectId, { mainPath, rootDir: root, semantic: false }, async () => { throw new Error('not called'); });
+
+    const [speedup, overhead, contribution] = report.claims;
+    // The conclusion restates the claim and does not count as evidence
+    expect(speedup).toMatchObject({ label: 'main.tex:3', origin: 'abstract', status: 'contradicted', method: 'numeric' });
+    expect(speedup!.quantities).toEqual([{
+      claimed: '5×',
+      status: 'contradicted',
+      found: '4.2×',
+      evidence: expect.objectContaining({ label: 'sections/eval.tex:2', section: 'Evaluation' })
+    }]);
+    expect(overhead!.quantities[0]).toMatchObject({ claimed: '<1%', status: 'supported', found: '0.6%' });
+    expect(contribution).toMatchObject({ kind: 'contribution', origin: 'introduction', label: 'sections/intro.tex:4', status: 'unchecked' });
+    expect(report.summary).toEqual({ supported: 1, contradicted: 1, missing: 0, unchecked: 1 });
+    expect(getClaimReport(projectId)).toEqual(report);
+  });
+
+  it('should let the model match the claims numbers cannot settle', async () => {
+    let prompt = '';
+    const chat: ClaimChat = async (messages) => {
+      prompt = messages[1]!.content;
+      return {
+        content: '```json\n{"claims": [{"id": "claim3", "status": "missing", "evidence": "sections/eval.tex:99", "note": "No passage covers application changes."}]}\n```',
+        model: 'test-model'
+      };
+    };
+    const report = await runClaimCheck(projectId, { mainPath, rootDir: root }, chat);
+
+    expect(prompt).toContain('### claim3 (introduction)\nA cache design that needs no changes to the application code.');
+    expect(prompt).not.toContain('### claim1');
+    expect(report.model).toBe('test-model');
+    expect(report.claims[2]).toMatchObject({ status: 'missing', method: 'semantic', evidence: [], note: 'No passage covers application changes.' });
+
+    writeFileSync(mainPath, '\\begin{document}\nNo claims here.\n\\end{document}');
+    await expect(runClaimCheck(projectId, { mainPath, rootDir: root }, chat)).rejects.toThrow(ClaimCheckError);
+  });
+});
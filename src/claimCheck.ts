@@ -0,0 +1,360 @@
+/**
+ * Claim-evidence check - takes the claims of the abstract and introduction
+ * (sentences with numbers like "5x" or "<1% overhead", and contribution list
+ * items) and looks for the statements or tables that back them in the later
+ * sections. Numbers are cross-checked deterministically, so "5x" in the abstract
+ * against "4.2x" in the evaluation is reported as a contradiction; the model only
+ * matches claims the numbers cannot settle.
+ */
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { chatWithAI } from './llmService';
+import { flattenDocument, type DocumentLine } from './latexOutline';
+import { rankParagraphs, excerpt } from './retrieval';
+import { extractJsonObject } from './diagnose';
+import { extractQuantities, crossCheckQuantity, supportsClaim, formatQuantity, type Quantity } from '../web/src/utils/claims';
+import { RequestError } from './requestError';
+import type { ChatMessage } from './llmAdapters';
+
+const PROJS_DIR = join(process.cwd(), 'projs');
+const MAX_CLAIMS = 40;
+const NUMERIC_CANDIDATES = 5; // Passages whose numbers a claim is checked against
+const SEMANTIC_CANDIDATES = 3; // Passages the model picks from
+const PASSAGE_CHARS = 800;
+
+export type ClaimStatus = 'supported' | 'contradicted' | 'missing' | 'unchecked';
+
+export interface ClaimEvidence {
+  label: string; // Anchor, e.g. "sections/eval.tex:40"
+  filePath: string;
+  line: number;
+  section?: string;
+  excerpt: string;
+}
+
+export interface QuantityCheck {
+  claimed: string; // e.g. "5×"
+  status: Exclude<ClaimStatus, 'unchecked'>;
+  found?: string; // The number the evidence reports
+  evidence?: ClaimEvidence;
+  byValueOnly?: boolean; // Found by its number alone, outside the passages about the claim
+}
+
+export interface ClaimFinding {
+  id: string;
+  text: string;
+  label: string;
+  filePath: string;
+  line: number;
+  origin: 'abstract' | 'introduction';
+  kind: 'numeric' | 'contribution';
+  status: ClaimStatus;
+  method?: 'numeric' | 'semantic'; // What settled the status
+  quantities: QuantityCheck[];
+  evidence: ClaimEvidence[];
+  note?: string; // The model's explanation
+}
+
+export interface ClaimReport {
+  createdAt: string;
+  model?: string; // Set when the model matched claims
+  claims: ClaimFinding[];
+  summary: Record<ClaimStatus, number>;
+}
+
+// Model turn; injectable for tests
+export type ClaimChat = (messages: ChatMessage[], projectId: string) => Promise<{ content: string; model: string }>;
+
+export class ClaimCheckError extends RequestError {
+  override name = 'ClaimCheckError';
+}
+
+const defaultChat: ClaimChat = async (messages, projectId) =>
+  chatWithAI(messages, { projectId, label: 'claim-check', temperature: 0, maxTokens: 4000 });
+
+function reportFile(projectId: string): string {
+  return join(PROJS_DIR, projectId, 'claim-check.json');
+}
+
+export function getClaimReport(projectId: string): ClaimReport | null {
+  const file = reportFile(projectId);
+  if (!existsSync(file)) return null;
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    console.error('Failed to load claim check:', error);
+    return null;
+  }
+}
+
+function writeReport(projectId: string, report: ClaimReport) {
+  const dir = join(PROJS_DIR, projectId);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(reportFile(projectId), JSON.stringify(report, null, 2), 'utf-8');
+}
+
+// Document segments
+
+type Region = 'abstract' | 'introduction' | 'body' | 'skip';
+
+// A run of source lines: a paragraph, list item or float
+interface Block {
+  region: Region;
+  section?: string;
+  lines: DocumentLine[];
+  content: string; // Lines joined by \n, comments removed
+}
+
+// Restating sections are not evidence for the claims they restate
+const SKIPPED_SECTION_RE = /related|conclu|summary|acknowledg|references|bibliograph/i;
+const HEADING_RE = /\\(section|subsection|subsubsection)\*?\s*\{([^}]*)\}/;
+const BREAK_ENV_RE = /^\\(?:begin|end)\{(?:abstract|itemize|enumerate|description)\}/;
+
+/**
+ * Split the document into blocks and tag each with where it sits: the abstract,
+ * the introduction, the sections that can hold evidence, or neither.
+ */
+function splitBlocks(lines: DocumentLine[]): Block[] {
+  const blocks: Block[] = [];
+  let region: Region = 'skip';
+  let sectionRegion: Region = 'skip';
+  let section: string | undefined;
+  let current: DocumentLine[] = [];
+
+  const flush = () => {
+    const content = current.map(l => l.text.replace(/(?<!\\)%.*$/, '')).join('\n');
+    if (content.trim()) blocks.push({ region, section, lines: current, content });
+    current = [];
+  };
+
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (/^\\begin\{thebibliography\}|^\\bibliography\{/.test(text)) break;
+
+    const heading = text.match(HEADING_RE);
+    if (heading) {
+      flush();
+      if (heading[1] === 'section') {
+        sectionRegion = /intro/i.test(heading[2]!) ? 'introduction' : SKIPPED_SECTION_RE.test(heading[2]!) ? 'skip' : 'body';
+      }
+      section = heading[2]!.trim();
+      region = sectionRegion;
+      // Text after the heading on the same line belongs to the section
+      const rest = text.slice(text.indexOf(heading[0]) + heading[0].length).trim();
+      if (rest) current.push({ ...line, text: rest });
+      continue;
+    }
+    if (/^\\begin\{abstract\}/.test(text)) {
+      flush();
+      region = 'abstract';
+      continue;
+    }
+    if (/^\\end\{abstract\}/.test(text)) {
+      flush();
+      region = sectionRegion;
+      continue;
+    }
+    if (!text || BREAK_ENV_RE.test(text) || text.startsWith('\\item')) {
+      flush();
+      if (BREAK_ENV_RE.test(text)) continue;
+    }
+    if (text) current.push(line);
+  }
+  flush();
+  return blocks;
+}
+
+// Source line of an offset into a block's content
+function lineAt(block: Block, offset: number): DocumentLine {
+  const index = block.content.slice(0, offset).split('\n').length - 1;
+  return block.lines[Math.min(index, block.lines.length - 1)]!;
+}
+
+function flat(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Sentences of a block with their offsets; decimals like 4.2 are not boundaries
+function sentences(block: Block): { text: string; offset: number }[] {
+  const result: { text: string; offset: number }[] = [];
+  let start = 0;
+  const push = (end: number) => {
+    const raw = block.content.slice(start, end);
+    const lead = raw.length - raw.trimStart().length;
+    if (raw.trim()) result.push({ text: raw.trim(), offset: start + lead });
+  };
+  for (const match of block.content.matchAll(/[.!?](?=\s+[A-Z\\$])/g)) {
+    push(match.index! + 1);
+    start = match.index! + 1;
+  }
+  push(block.content.length);
+  return result;
+}
+
+interface Claim {
+  finding: ClaimFinding;
+  quantities: Quantity[];
+}
+
+function extractClaims(blocks: Block[], rootDir: string): Claim[] {
+  const claims: Claim[] = [];
+  for (const block of blocks) {
+    if (block.region !== 'abstract' && block.region !== 'introduction') continue;
+    const origin = block.region;
+    const isItem = block.content.trimStart().startsWith('\\item');
+
+    // A contribution item is one claim; elsewhere, each sentence with a number is
+    const parts = isItem && origin === 'introduction'
+      ? [{ text: block.content.trim().replace(/^\\item(?:\[[^\]]*\])?\s*/, ''), offset: 0 }]
+      : sentences(block).filter(s => extractQuantities(s.text).length > 0);
+    for (const part of parts) {
+      const quantities = extractQuantities(part.text);
+      if (quantities.length === 0 && flat(part.text).split(' ').length < 6) continue;
+      const at = lineAt(block, part.offset);
+      claims.push({
+        quantities,
+        finding: {
+          id: `claim${claims.length + 1}`,
+          text: flat(part.text),
+          label: `${relative(rootDir, at.filePath)}:${at.line}`,
+          filePath: at.filePath,
+          line: at.line,
+          origin,
+          kind: quantities.length > 0 ? 'numeric' : 'contribution',
+          status: 'unchecked',
+          quantities: [],
+          evidence: []
+        }
+      });
+    }
+  }
+  return claims.slice(0, MAX_CLAIMS);
+}
+
+function evidenceAt(block: Block, offset: number, rootDir: string): ClaimEvidence {
+  const at = lineAt(block, offset);
+  return {
+    label: `${relative(rootDir, at.filePath)}:${at.line}`,
+    filePath: at.filePath,
+    line: at.line,
+    section: block.section,
+    excerpt: excerpt(block.content.slice(Math.max(0, offset - 60)))
+  };
+}
+
+// Numbers of the passages about the claim, then (for exact numbers) anywhere in the body
+function checkNumbers(claim: Claim, body: Block[], rootDir: string) {
+  const candidates = rankParagraphs(claim.finding.text, body, NUMERIC_CANDIDATES).map(r => r.paragraph);
+  const numbersIn = (blocks: Block[]) => blocks.flatMap(block => extractQuantities(block.content).map(quantity => ({ quantity, block })));
+  const nearby = numbersIn(candidates);
+  const everywhere = numbersIn(body);
+
+  claim.finding.quantities = claim.quantities.map(quantity => {
+    let result = crossCheckQuantity(quantity, nearby);
+    let byValueOnly = false;
+    if (result.status !== 'supported' && quantity.bound !== 'below' && quantity.bound !== 'above') {
+      const elsewhere = everywhere.find(c => supportsClaim(quantity, c.quantity));
+      if (elsewhere) {
+        result = { status: 'supported', match: elsewhere };
+        byValueOnly = true;
+      }
+    }
+    return {
+      claimed: formatQuantity(quantity),
+      status: result.status,
+      ...(result.match && {
+        found: formatQuantity(result.match.quantity),
+        evidence: evidenceAt(result.match.block, result.match.quantity.index, rootDir)
+      }),
+      ...(byValueOnly && { byValueOnly })
+    };
+  });
+
+  const statuses = claim.finding.quantities.map(q => q.status);
+  claim.finding.status = statuses.includes('contradicted') ? 'contradicted' : statuses.every(s => s === 'supported') ? 'supported' : 'missing';
+  claim.finding.method = 'numeric';
+  claim.finding.evidence = claim.finding.quantities.flatMap(q => q.evidence ? [q.evidence] : []);
+}
+
+// Semantic matching
+
+const CLAIM_CHECK_INSTRUCTIONS = `**Task:** For each claim from the paper's abstract or introduction, decide whether the candidate passages from the later sections back it.
+- "supported": a passage shows or measures what the claim says.
+- "contradicted": a passage states something incompatible with the claim.
+- "missing": no passage backs the claim.
+Judge only from the passages given. Reply with a JSON object and nothing else:
+{"claims": [{"id": "claim1", "status": "supported", "evidence": "sections/eval.tex:40", "note": "one short sentence"}]}
+"evidence" is the anchor of the passage you relied on, or null.`;
+
+async function matchSemantically(projectId: string, claims: Claim[], body: Block[], rootDir: string, chat: ClaimChat): Promise<string> {
+  const candidates = new Map(claims.map(claim => [
+    claim.finding.id,
+    rankParagraphs(claim.finding.text, body, SEMANTIC_CANDIDATES).map(r => ({ block: r.paragraph, evidence: evidenceAt(r.paragraph, 0, rootDir) }))
+  ]));
+
+  const prompt = claims.map(claim => {
+    const passages = candidates.get(claim.finding.id)!.map(c => `[${c.evidence.label}]${c.block.section ? ` (${c.block.section})` : ''}\n${c.block.content.slice(0, PASSAGE_CHARS)}`);
+    return `### ${claim.finding.id} (${claim.finding.origin})\n${claim.finding.text}\n\nCandidate passages:\n${passages.join('\n\n') || '(none)'}`;
+  }).join('\n\n');
+
+  const result = await chat([
+    { role: 'system', content: CLAIM_CHECK_INSTRUCTIONS },
+    { role: 'user', content: prompt }
+  ], projectId);
+
+  const json = extractJsonObject(result.content);
+  if (json === null) throw new ClaimCheckError('Claim check reply does not contain a JSON object', 502);
+
+  let verdicts: unknown;
+  try {
+    verdicts = (JSON.parse(json) as { claims?: unknown }).claims;
+  } catch (error) {
+    throw new ClaimCheckError(`Invalid JSON in claim check reply: ${error instanceof Error ? error.message : String(error)}`, 502);
+  }
+
+  for (const entry of Array.isArray(verdicts) ? verdicts : []) {
+    const claim = claims.find(c => c.finding.id === entry?.id);
+    if (!claim || !['supported', 'contradicted', 'missing'].includes(entry.status)) continue;
+    // Anchors outside the candidates are ignored
+    const evidence = candidates.get(claim.finding.id)!.find(c => c.evidence.label === entry.evidence)?.evidence;
+    claim.finding.status = entry.status;
+    claim.finding.method = 'semantic';
+    if (evidence && !claim.finding.evidence.some(e => e.label === evidence.label)) claim.finding.evidence.push(evidence);
+    if (typeof entry.note === 'string' && entry.note.trim()) claim.finding.note = entry.note.trim();
+  }
+  return result.model;
+}
+
+/**
+ * Check the paper's claims. Numeric claims are settled by their numbers; the
+ * model (unless semantic is false) matches contribution claims and numeric
+ * claims whose numbers appear nowhere. Claims nobody could settle stay unchecked.
+ */
+export async function runClaimCheck(
+  projectId: string,
+  options: { mainPath: string; rootDir: string; semantic?: boolean },
+  chat: ClaimChat = defaultChat
+): Promise<ClaimReport> {
+  const blocks = splitBlocks(flattenDocument(options.mainPath));
+  const claims = extractClaims(blocks, options.rootDir);
+  if (claims.length === 0) throw new ClaimCheckError('No claims found; the abstract and introduction need numbers or a list of contributions');
+  const body = blocks.filter(b => b.region === 'body');
+
+  for (const claim of claims) {
+    if (claim.quantities.length > 0) checkNumbers(claim, body, options.rootDir);
+  }
+
+  let model: string | undefined;
+  const open = claims.filter(c => c.finding.kind === 'contribution' || c.finding.status === 'missing');
+  if (options.semantic !== false && open.length > 0 && body.length > 0) {
+    model = await matchSemantically(projectId, open, body, options.rootDir, chat);
+  }
+
+  const findings = claims.map(c => c.finding);
+  const summary: Record<ClaimStatus, number> = { supported: 0, contradicted: 0, missing: 0, unchecked: 0 };
+  for (const finding of findings) summary[finding.status]++;
+
+  const report: ClaimReport = { createdAt: new Date().toISOString(), ...(model && { model }), claims: findings, summary };
+  writeReport(projectId, report);
+  return report;
+}
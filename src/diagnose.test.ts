@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { parseDiagnoseResponse, locateQuote, DiagnoseParseError } from './diagnose';
+
+const text = 'We present X, a system that is very fast.\nIt beats all prior work by a wide margin.';
+
+describe('diagnose', () => {
+  describe('parseDiagnoseResponse', () => {
+    it('should parse issues and keep their exact quotes', () => {
+      const raw = JSON.stringify({
+        summary: 'Claims lack evidence.',
+        issues: [
+          { severity: 'high', category: 'claim', quote: 'It beats all prior work', message: 'Unsupported claim.', suggestion: 'Cite numbers.' },
+          { severity: 'low', category: 'clarity', quote: 'very fast', message: 'Vague.' }
+        ]
+      });
+
+      const result = parseDiagnoseResponse(raw, text);
+
+      expect(result.summary).toBe('Claims lack evidence.');
+      expect(result.issues).toHaveLength(2);
+      expect(result.issues[0]).toMatchObject({ severity: 'high', category: 'claim', quote: 'It beats all prior work', suggestion: 'Cite numbers.' });
+      expect(result.issues[1]?.suggestion).toBeUndefined();
+      expect(result.issues[0]?.id).not.toBe(result.issues[1]?.id);
+    });
+
+    it('should accept fenced JSON with surrounding prose', () => {
+      const raw = 'Here you go:\n```json\n{"summary":"ok","issues":[]}\n```';
+      expect(parseDiagnoseResponse(raw, text)).toEqual({ summary: 'ok', issues: [] });
+    });
+
+    it('should drop issues whose quote is not in the text and default unknown enums', () => {
+      const raw = JSON.stringify({
+        issues: [
+          { severity: 'critical', category: 'style', quote: 'a system that', message: 'Weak opener.' },
+          { severity: 'high', category: 'logic', quote: 'not in the paragraph', message: 'Hallucinated.' },
+          { severity: 'high', category: 'logic', quote: 'very fast' }
+        ]
+      });
+
+      const result = parseDiagnoseResponse(raw, text);
+
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0]).toMatchObject({ severity: 'medium', category: 'clarity' });
+      expect(result.summary).toBe('Found 1 issue.');
+    });
+
+    it('should throw DiagnoseParseError for non-JSON or schema mismatches', () => {
+      expect(() => parseDiagnoseResponse('The text is fine.', text)).toThrow(DiagnoseParseError);
+      expect(() => parseDiagnoseResponse('{"issues": "none"}', text)).toThrow(DiagnoseParseError);
+      expect(() => parseDiagnoseResponse('{"issues": [}', text)).toThrow(DiagnoseParseError);
+    });
+  });
+
+  describe('locateQuote', () => {
+    it('should match across reflowed whitespace and return the source span', () => {
+      expect(locateQuote(text, 'very fast. It beats')).toBe('very fast.\nIt beats');
+      expect(locateQuote(text, 'X, a system')).toBe('X, a system');
+      expect(locateQuote(text, '   ')).toBeNull();
+    });
+  });
+});
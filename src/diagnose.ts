@@ -0,0 +1,126 @@
+/**
+ * Structured Diagnose output - schema instructions for the model and validation
+ * of its JSON reply into issues anchored to exact spans of the diagnosed text.
+ */
+
+export type IssueSeverity = 'high' | 'medium' | 'low';
+export type IssueCategory = 'logic' | 'clarity' | 'claim' | 'structure';
+
+export const ISSUE_SEVERITIES: IssueSeverity[] = ['high', 'medium', 'low'];
+export const ISSUE_CATEGORIES: IssueCategory[] = ['logic', 'clarity', 'claim', 'structure'];
+
+export interface DiagnoseIssue {
+  id: string;
+  severity: IssueSeverity;
+  category: IssueCategory;
+  quote: string; // Exact span of the diagnosed text the issue is about
+  message: string;
+  suggestion?: string;
+}
+
+export interface DiagnoseResult {
+  summary: string;
+  issues: DiagnoseIssue[];
+}
+
+export class DiagnoseParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiagnoseParseError';
+  }
+}
+
+// Appended to whatever system prompt the project uses, so custom prompts keep working
+export const DIAGNOSE_SCHEMA_INSTRUCTIONS = `**Output Format (Strictly Follow):**
+Reply with a single JSON object and nothing else (no prose, no code fences):
+{
+  "summary": "<one or two sentences on the overall state of the text>",
+  "issues": [
+    {
+      "severity": "high" | "medium" | "low",
+      "category": "logic" | "clarity" | "claim" | "structure",
+      "quote": "<exact, verbatim span copied from the text; keep it short, at most one sentence>",
+      "message": "<what is wrong and why it matters>",
+      "suggestion": "<optional: how to fix it>"
+    }
+  ]
+}
+Categories: "logic" = reasoning gaps or non-sequiturs; "clarity" = hard-to-follow wording; "claim" = unsupported or overstated claims; "structure" = ordering, missing or misplaced elements.
+Every "quote" MUST appear character-for-character in the text. Return an empty "issues" array if there is nothing to fix.`;
+
+/**
+ * Models often wrap JSON in fences or add a sentence before it; take the outermost
+ * object. Returns null when there is none, so callers can raise their own error.
+ */
+export function extractJsonObject(raw: string): string | null {
+  const text = raw.trim().replace(/^```[\w-]*\s*\n?/, '').replace(/\n?```\s*$/, '');
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start === -1 || end <= start ? null : text.slice(start, end + 1);
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find the quote in the source text. Falls back to a whitespace-insensitive match
+ * (models reflow line breaks) and returns the span as it appears in the source.
+ */
+export function locateQuote(content: string, quote: string): string | null {
+  if (!quote.trim()) return null;
+  if (content.includes(quote)) return quote;
+
+  const words = collapseWhitespace(quote).split(' ').map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const match = content.match(new RegExp(words.join('\\s+')));
+  return match ? match[0] : null;
+}
+
+/**
+ * Validate a Diagnose reply against the schema. Throws DiagnoseParseError when the
+ * reply is not usable at all; individual malformed or unanchored issues are dropped.
+ */
+export function parseDiagnoseResponse(raw: string, content: string): DiagnoseResult {
+  const json = extractJsonObject(raw);
+  if (json === null) throw new DiagnoseParseError('Response does not contain a JSON object');
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new DiagnoseParseError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const obj = data as { summary?: unknown; issues?: unknown };
+  if (!Array.isArray(obj.issues)) {
+    throw new DiagnoseParseError('"issues" must be an array');
+  }
+
+  const issues: DiagnoseIssue[] = [];
+  obj.issues.forEach((entry, index) => {
+    if (!entry || typeof entry !== 'object') return;
+    const item = entry as Record<string, unknown>;
+    if (typeof item.quote !== 'string' || typeof item.message !== 'string' || !item.message.trim()) return;
+
+    const quote = locateQuote(content, item.quote);
+    if (!quote) return; // Cannot anchor it, so it cannot be highlighted or acted on
+
+    const severity = ISSUE_SEVERITIES.includes(item.severity as IssueSeverity) ? item.severity as IssueSeverity : 'medium';
+    const category = ISSUE_CATEGORIES.includes(item.category as IssueCategory) ? item.category as IssueCategory : 'clarity';
+
+    issues.push({
+      id: `issue-${Date.now().toString(36)}-${index}`,
+      severity,
+      category,
+      quote,
+      message: item.message.trim(),
+      ...(typeof item.suggestion === 'string' && item.suggestion.trim() && { suggestion: item.suggestion.trim() })
+    });
+  });
+
+  const summary = typeof obj.summary === 'string' && obj.summary.trim()
+    ? obj.summary.trim()
+    : `Found ${issues.length} issue${issues.length === 1 ? '' : 's'}.`;
+
+  return { summary, issues };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getGlossary, saveGlossary, scanGlossary, fixGlossaryViolations, GlossaryError } from './glossary';
+import type { ProjectConfig } from '../web/src/types';
+
+const projectId = `test-glossary-${process.pid}`;
+
+describe('glossary', () => {
+  let root: string;
+  let config: ProjectConfig;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'glossary-'));
+    config = { projectId, sectionsDir: root, backupsDir: join(root, 'backups'), bibFiles: [] };
+    mkdirSync(join(root, 'sections'));
+    writeFileSync(join(root, 'main.tex'), '\\begin{document}\n\\input{sections/b-intro}\n\\input{sections/a-eval}\n\\end{document}\n');
+    writeFileSync(join(root, 'sections', 'b-intro.tex'), 'A trusted execution environment (TEE) holds the data set.\n');
+    writeFileSync(join(root, 'sections', 'a-eval.tex'), 'The TEE runs each BPF program.\n');
+    writeFileSync(join(root, 'notes.tex'), 'Loose TEE notes.\n');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(join(process.cwd(), 'projs', projectId), { recursive: true, force: true });
+  });
+
+  it('should save a cleaned-up glossary and reject duplicate terms', () => {
+    const saved = saveGlossary(projectId, [
+      { term: ' dataset ', variants: ['data set', ' ', 'data set', 'dataset'], notes: '' },
+      { term: '', variants: ['x'] }
+    ]);
+    expect(saved).toEqual([{ id: expect.stringMatching(/^term_/), term: 'dataset', variants: ['data set'] }]);
+    expect(getGlossary(projectId)).toEqual(saved);
+
+    expect(() => saveGlossary(projectId, [{ term: 'TEE' }, { term: 'tee' }])).toThrow(GlossaryError);
+  });
+
+  it('should scan every .tex file, in document order first, and fix violations in place', async () => {
+    saveGlossary(projectId, [
+      { term: 'dataset', variants: ['data set'] },
+      { term: 'eBPF program', variants: ['BPF program'] },
+      { term: 'trusted execution environment', variants: [], acronym: 'TEE' }
+    ]);
+
+    const { violations, filesScanned } = scanGlossary(projectId, config);
+    expect(filesScanned).toBe(4);
+    // The acronym is spelled out in the introduction, which the main file includes before the evaluation
+    expect(violations.map(v => [v.filePath.slice(root.length + 1), v.match])).toEqual([
+      ['sections/b-intro.tex', 'data set'],
+      ['sections/a-eval.tex', 'BPF program']
+    ]);
+
+    const result = await fixGlossaryViolations(projectId, config, violations);
+    expect(result).toMatchObject({ applied: 2, skipped: 0 });
+    expect(readFileSync(join(root, 'sections', 'a-eval.tex'), 'utf-8')).toBe('The TEE runs each eBPF program.\n');
+    expect(scanGlossary(projectId, config).violations).toEqual([]);
+
+    await expect(fixGlossaryViolations(projectId, config, [{ ...violations[0]!, filePath: '/etc/hosts' }])).rejects.toThrow(GlossaryError);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Project glossary - canonical terms, their forbidden variants, acronyms and
+ * notes. The glossary is added to every AI prompt, and the terminology scanner
+ * checks all .tex files of the project for variants and undefined acronyms.
+ */
+import { existsSync, readFileSync, writeFileSync, mkdirSync, readdirSync, statSync } from 'node:fs';
+import { join, resolve, extname } from 'node:path';
+import { parseDocumentOutline, findMainFile } from './latexOutline';
+import { writeFileWithBackup } from './projectConfig';
+import { findGlossaryViolations, applyGlossaryFixes, type GlossaryTerm, type GlossaryViolation } from '../web/src/utils/glossary';
+import { RequestError } from './requestError';
+import type { ProjectConfig } from '../web/src/types';
+
+const PROJS_DIR = join(process.cwd(), 'projs');
+
+export class GlossaryError extends RequestError {
+  override name = 'GlossaryError';
+}
+
+function glossaryFile(projectId: string): string {
+  return join(PROJS_DIR, projectId, 'glossary.json');
+}
+
+export function getGlossary(projectId: string): GlossaryTerm[] {
+  const file = glossaryFile(projectId);
+  if (!existsSync(file)) return [];
+  try {
+    const data = JSON.parse(readFileSync(file, 'utf-8'));
+    return Array.isArray(data.terms) ? data.terms : [];
+  } catch (error) {
+    console.error('Failed to load glossary:', error);
+    return [];
+  }
+}
+
+function normalizeTerm(raw: Partial<GlossaryTerm>): GlossaryTerm | null {
+  const term = typeof raw.term === 'string' ? raw.term.trim() : '';
+  if (!term) return null;
+  const variants = Array.isArray(raw.variants)
+    ? [...new Set(raw.variants.map(v => String(v).trim()).filter(v => v && v !== term))]
+    : [];
+  const acronym = typeof raw.acronym === 'string' ? raw.acronym.trim() : '';
+  const notes = typeof raw.notes === 'string' ? raw.notes.trim() : '';
+  return {
+    id: raw.id || `term_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 6)}`,
+    term,
+    variants,
+    ...(acronym ? { acronym } : {}),
+    ...(notes ? { notes } : {})
+  };
+}
+
+// Replaces the whole glossary; rows without a term are dropped
+export function saveGlossary(projectId: string, terms: Partial<GlossaryTerm>[]): GlossaryTerm[] {
+  if (!Array.isArray(terms)) throw new GlossaryError('terms must be a list');
+  const normalized = terms.map(normalizeTerm).filter((t): t is GlossaryTerm => t !== null);
+  const seen = new Set<string>();
+  for (const t of normalized) {
+    const key = t.term.toLowerCase();
+    if (seen.has(key)) throw new GlossaryError(`"${t.term}" is in the glossary twice`);
+    seen.add(key);
+  }
+
+  const dir = join(PROJS_DIR, projectId);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(glossaryFile(projectId), JSON.stringify({ terms: normalized }, null, 2), 'utf-8');
+  return normalized;
+}
+
+function listTexFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const name of readdirSync(dir).sort()) {
+    if (name.startsWith('.') || name.toLowerCase() === 'output') continue;
+    const full = join(dir, name);
+    if (statSync(full).isDirectory()) files.push(...listTexFiles(full));
+    else if (extname(name) === '.tex') files.push(full);
+  }
+  return files;
+}
+
+/**
+ * Every .tex file of the project, in document order where the main file reaches
+ * it (so acronyms count as defined from their first use in the paper), then the rest.
+ */
+function projectTexFiles(config: ProjectConfig): string[] {
+  if (!existsSync(config.sectionsDir)) return [];
+  const all = listTexFiles(config.sectionsDir);
+  const mainPath = findMainFile(config);
+  const ordered = mainPath ? parseDocumentOutline(mainPath).files.map(f => f.path).filter(p => all.includes(p)) : [];
+  return [...ordered, ...all.filter(p => !ordered.includes(p))];
+}
+
+export function scanGlossary(projectId: string, config: ProjectConfig): { violations: GlossaryViolation[]; filesScanned: number } {
+  const terms = getGlossary(projectId);
+  const files = projectTexFiles(config);
+  if (terms.length === 0) return { violations: [], filesScanned: files.length };
+  const violations = findGlossaryViolations(files.map(path => ({ path, content: readFileSync(path, 'utf-8') })), terms);
+  return { violations, filesScanned: files.length };
+}
+
+/**
+ * Apply scanner fixes, backing up each file once before it is written. Fixes
+ * for text that changed since the scan are skipped.
+ */
+export async function fixGlossaryViolations(projectId: string, config: ProjectConfig, fixes: GlossaryViolation[]): Promise<{ applied: number; skipped: number; files: string[] }> {
+  const root = resolve(config.sectionsDir);
+  const byFile = new Map<string, GlossaryViolation[]>();
+  for (const fix of fixes) {
+    const path = resolve(fix.filePath);
+    if (!path.startsWith(`${root}/`) || extname(path) !== '.tex') throw new GlossaryError(`Not a .tex file of this project: ${fix.filePath}`);
+    byFile.set(path, [...(byFile.get(path) ?? []), fix]);
+  }
+
+  let applied = 0;
+  let skipped = 0;
+  const files: string[] = [];
+  for (const [path, fileFixes] of byFile) {
+    if (!existsSync(path)) {
+      skipped += fileFixes.length;
+      continue;
+    }
+    const result = applyGlossaryFixes(readFileSync(path, 'utf-8'), fileFixes);
+    applied += result.applied;
+    skipped += result.skipped;
+    if (result.applied > 0) {
+      await writeFileWithBackup(path, result.content, projectId, true);
+      files.push(path);
+    }
+  }
+  return { applied, skipped, files };
+}
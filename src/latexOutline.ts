@@ -0,0 +1,199 @@
+/**
+ * LaTeX document outline - walks the main file and its \input/\include tree
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { ProjectConfig } from "../web/src/types";
+
+export interface OutlineSection {
+  id: string;
+  level: number;
+  title: string;
+  lineStart: number;
+  filePath: string;
+  thoughts?: string[]; // FW_THOUGHTS notes of the paragraphs under this heading, in order
+}
+
+export interface DocumentOutline {
+  sections: OutlineSection[];
+  // Every file reached from the root, in document order, with the number of
+  // sections that precede it in the document
+  files: { path: string; sectionsBefore: number }[];
+}
+
+export interface DocumentLine {
+  filePath: string;
+  line: number; // 1-based, within filePath
+  text: string;
+}
+
+const SECTION_REGEX = /\\(section|subsection|subsubsection)\*?\s*\{([^}]*)\}/;
+const INPUT_REGEX = /\\(?:input|include)\s*\{([^}]*)\}/;
+const SECTION_LEVELS: Record<string, number> = { section: 1, subsection: 2, subsubsection: 3 };
+
+// \input{intro} may omit the extension
+function resolveTexPath(filePath: string): string {
+  if (!existsSync(filePath) && existsSync(filePath + '.tex')) {
+    return filePath + '.tex';
+  }
+  return filePath;
+}
+
+/**
+ * Parse sections in document order, following \input and \include recursively
+ */
+export function parseDocumentOutline(rootPath: string): DocumentOutline {
+  const visited = new Set<string>();
+  const sections: OutlineSection[] = [];
+  const files: DocumentOutline['files'] = [];
+
+  function parseFile(filePath: string) {
+    const resolvedPath = resolveTexPath(filePath);
+
+    if (!existsSync(resolvedPath)) {
+      console.warn(`[ParseSections] File not found: ${filePath} -> ${resolvedPath}`);
+      return;
+    }
+
+    // Avoid circular dependencies
+    if (visited.has(resolvedPath)) {
+      return;
+    }
+    visited.add(resolvedPath);
+    files.push({ path: resolvedPath, sectionsBefore: sections.length });
+
+    const lines = readFileSync(resolvedPath, 'utf-8').split('\n');
+    const currentDir = dirname(resolvedPath);
+    let thoughtLines: string[] | null = null;
+    let pendingNote: string | null = null;
+
+    // Paragraph notes go under the heading the paragraph is in (or starts with),
+    // so the outline can show the paper's argument
+    const attachNote = () => {
+      const section = sections[sections.length - 1];
+      if (section && pendingNote) (section.thoughts ??= []).push(pendingNote);
+      pendingNote = null;
+    };
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+      if (trimmed === '% [FW_THOUGHTS]') {
+        thoughtLines = [];
+        return;
+      }
+      if (thoughtLines) {
+        if (trimmed !== '% [/FW_THOUGHTS]') {
+          thoughtLines.push(line.replace(/^\s*%\s?/, ''));
+          return;
+        }
+        attachNote();
+        pendingNote = thoughtLines.join('\n').trim() || null;
+        thoughtLines = null;
+        return;
+      }
+
+      if (trimmed.startsWith('%')) return; // Skip comments
+
+      const sectionMatch = SECTION_REGEX.exec(line);
+      const level = sectionMatch ? SECTION_LEVELS[sectionMatch[1] || ''] ?? 0 : 0;
+      if (sectionMatch && level > 0) {
+        const title = (sectionMatch[2] || '').trim();
+        sections.push({
+          id: `section_${sections.length}`,
+          level,
+          title,
+          lineStart: index + 1,
+          filePath: resolvedPath
+        });
+      }
+      if (trimmed) attachNote();
+
+      const inputMatch = INPUT_REGEX.exec(line);
+      const includePath = (inputMatch?.[1] || '').trim();
+      if (includePath) {
+        // Resolve relative to current file's directory
+        const fullIncludePath = join(currentDir, includePath);
+        parseFile(fullIncludePath);
+      }
+    });
+    attachNote();
+  }
+
+  parseFile(rootPath);
+  return { sections, files };
+}
+
+/**
+ * The document's body in reading order: \input and \include are replaced by the
+ * lines of the included file (resolved the same way as the outline). Comment
+ * lines, the preamble and anything after \end{document} are dropped; \title is kept.
+ */
+export function flattenDocument(rootPath: string): DocumentLine[] {
+  const visited = new Set<string>();
+  const lines: DocumentLine[] = [];
+  let inBody = false;
+  let ended = false;
+
+  function visit(filePath: string, isRoot = false) {
+    const resolvedPath = resolveTexPath(filePath);
+    if (!existsSync(resolvedPath) || visited.has(resolvedPath)) return;
+    visited.add(resolvedPath);
+
+    const currentDir = dirname(resolvedPath);
+    const fileLines = readFileSync(resolvedPath, 'utf-8').split('\n');
+    // A root without \begin{document} is a fragment: all of it is body
+    if (isRoot) inBody = !fileLines.some(l => /^\s*\\begin\{document\}/.test(l));
+
+    for (let index = 0; index < fileLines.length && !ended; index++) {
+      const text = fileLines[index]!;
+      if (text.trim().startsWith('%')) continue;
+      if (/^\s*\\begin\{document\}/.test(text)) {
+        inBody = true;
+        continue;
+      }
+      if (/^\s*\\end\{document\}/.test(text)) {
+        ended = true;
+        break;
+      }
+      if (!inBody) {
+        if (/^\s*\\title\b/.test(text)) lines.push({ filePath: resolvedPath, line: index + 1, text });
+        continue;
+      }
+
+      const includePath = (INPUT_REGEX.exec(text)?.[1] || '').trim();
+      if (includePath) {
+        visit(join(currentDir, includePath));
+      } else {
+        lines.push({ filePath: resolvedPath, line: index + 1, text });
+      }
+    }
+  }
+
+  visit(rootPath, true);
+  return lines;
+}
+
+/**
+ * Locate the project's root .tex file: the configured main file, then common names
+ */
+export function findMainFile(config: ProjectConfig): string | null {
+  const candidates = Array.from(new Set([config.mainFile, 'main.tex', 'paper.tex', 'document.tex'].filter(Boolean) as string[]));
+  for (const name of candidates) {
+    const path = join(config.sectionsDir, name);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+/**
+ * The section enclosing a line. When the line comes before the file's first
+ * heading (e.g. an \input chunk that continues a section), falls back to the
+ * last section opened before the file was included.
+ */
+export function findEnclosingSection(outline: DocumentOutline, filePath: string, line: number): OutlineSection | null {
+  const inFile = outline.sections.filter(s => s.filePath === filePath && s.lineStart <= line);
+  if (inFile.length > 0) return inFile[inFile.length - 1] ?? null;
+
+  const file = outline.files.find(f => f.path === filePath);
+  return file && file.sectionsBefore > 0 ? outline.sections[file.sectionsBefore - 1] ?? null : null;
+}
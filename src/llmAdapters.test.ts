@@ -0,0 +1,301 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type ServerResponse, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { getAdapter, LLMError } from './llmAdapters';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>; // Parsed JSON, empty without a body
+}
+
+type Handler = (req: RecordedRequest, res: ServerResponse) => void;
+
+let server: Server;
+let baseUrl = '';
+let handler: Handler = (_req, res) => { res.statusCode = 404; res.end(); };
+let requests: RecordedRequest[] = [];
+
+function sendJson(res: ServerResponse, data: unknown, status = 200) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const recorded = { method: req.method || '', url: req.url || '', headers: req.headers, body: raw ? JSON.parse(raw) : {} };
+      requests.push(recorded);
+      handler(recorded, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+const messages = [
+  { role: 'system' as const, content: 'Be terse.' },
+  { role: 'user' as const, content: 'Hello' }
+];
+
+describe('llmAdapters', () => {
+  describe('openai', () => {
+    it('should send chat completions and map usage', async () => {
+      handler = (_req, res) => sendJson(res, {
+        id: 'x', object: 'chat.completion', created: 0, model: 'gpt-4o',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hi there' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 }
+      });
+
+      const result = await getAdapter('openai').chat(
+        { baseUrl: `${baseUrl}/v1`, apiKey: 'sk-test' },
+        { model: 'gpt-4o', messages, temperature: 0.2, maxTokens: 50 }
+      );
+
+      expect(result).toEqual({ content: 'Hi there', model: 'gpt-4o', usage: { promptTokens: 12, completionTokens: 3 } });
+      expect(requests[0]?.url).toBe('/v1/chat/completions');
+      expect(requests[0]?.headers.authorization).toBe('Bearer sk-test');
+      expect(requests[0]?.body).toMatchObject({ model: 'gpt-4o', messages, temperature: 0.2, max_tokens: 50 });
+    });
+
+    it('should sample several completions with n', async () => {
+      handler = (_req, res) => sendJson(res, {
+        id: 'x', object: 'chat.completion', created: 0, model: 'gpt-4o',
+        choices: [
+          { index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' },
+          { index: 1, message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }
+        ]
+      });
+
+      const result = await getAdapter('openai').chat({ baseUrl: `${baseUrl}/v1`, apiKey: 'sk-test' }, { model: 'gpt-4o', messages, n: 2 });
+
+      expect(result).toMatchObject({ content: 'Hi', choices: ['Hi', 'Hello'] });
+      expect(requests[0]?.body.n).toBe(2);
+    });
+
+    it('should list models sorted by id', async () => {
+      handler = (_req, res) => sendJson(res, { object: 'list', data: [{ id: 'gpt-4o' }, { id: 'gpt-4.1' }] });
+
+      const models = await getAdapter().listModels({ baseUrl: `${baseUrl}/v1/chat/completions`, apiKey: 'sk-test' });
+
+      expect(models).toEqual(['gpt-4.1', 'gpt-4o']);
+      expect(requests[0]?.url).toBe('/v1/models');
+    });
+
+    it('should map HTTP failures to a non-retryable LLMError', async () => {
+      handler = (_req, res) => sendJson(res, { error: { message: 'Invalid API key' } }, 401);
+
+      const error = await getAdapter('openai')
+        .chat({ baseUrl: `${baseUrl}/v1`, apiKey: 'bad' }, { model: 'gpt-4o', messages })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(LLMError);
+      expect(error.status).toBe(401);
+      expect(error.retryable).toBe(false);
+      expect(error.message).toContain('API error 401');
+    });
+  });
+
+  describe('anthropic', () => {
+    it('should move the system prompt out of messages and merge same-role turns', async () => {
+      handler = (_req, res) => sendJson(res, {
+        content: [{ type: 'text', text: 'Hello' }, { type: 'text', text: ' back' }],
+        usage: { input_tokens: 20, output_tokens: 2 }
+      });
+
+      const result = await getAdapter('anthropic').chat(
+        { baseUrl: `${baseUrl}/v1`, apiKey: 'ak-test' },
+        { model: 'claude-test', messages: [...messages, { role: 'user', content: 'Again' }], maxTokens: 100 }
+      );
+
+      expect(result).toEqual({ content: 'Hello back', model: 'claude-test', usage: { promptTokens: 20, completionTokens: 2 } });
+      const req = requests[0]!;
+      expect(req.url).toBe('/v1/messages');
+      expect(req.headers['x-api-key']).toBe('ak-test');
+      expect(req.headers['anthropic-version']).toBe('2023-06-01');
+      expect(req.body.system).toBe('Be terse.');
+      expect(req.body.max_tokens).toBe(100);
+      expect(req.body.messages).toEqual([{ role: 'user', content: 'Hello\n\nAgain' }]);
+    });
+
+    it('should stream text deltas from SSE events', async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        const events = [
+          { type: 'message_start', message: { usage: { input_tokens: 7 } } },
+          { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } },
+          { type: 'content_block_delta', delta: { type: 'text_delta', text: 'lo' } },
+          { type: 'message_delta', usage: { output_tokens: 2 } },
+          { type: 'message_stop' }
+        ];
+        for (const event of events) {
+          res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        }
+        res.end();
+      };
+
+      const deltas: string[] = [];
+      const result = await getAdapter('anthropic').streamChat(
+        { baseUrl, apiKey: 'ak-test' },
+        { model: 'claude-test', messages },
+        text => deltas.push(text)
+      );
+
+      expect(deltas).toEqual(['Hel', 'lo']);
+      expect(result.content).toBe('Hello');
+      expect(result.usage).toEqual({ promptTokens: 7, completionTokens: 2 });
+      expect(requests[0]?.body.stream).toBe(true);
+    });
+
+    it('should stop reading the stream when the caller aborts', async () => {
+      let closed: () => void = () => {};
+      const connectionClosed = new Promise<void>(resolve => { closed = resolve; });
+      handler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } })}\n\n`);
+        // Never ends on its own, like a long generation
+        res.on('close', () => closed());
+      };
+
+      const controller = new AbortController();
+      const deltas: string[] = [];
+      const error = await getAdapter('anthropic').streamChat(
+        { baseUrl, apiKey: 'ak-test' },
+        { model: 'claude-test', messages, signal: controller.signal },
+        text => {
+          deltas.push(text);
+          controller.abort();
+        }
+      ).catch(e => e);
+
+      expect(deltas).toEqual(['Hel']);
+      expect(error).not.toBeInstanceOf(LLMError);
+      await connectionClosed;
+    });
+
+    it('should report a malformed stream event as a protocol error', async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.end('data: {"type": "content_block_delta", "delta": \n\n');
+      };
+
+      const error = await getAdapter('anthropic')
+        .streamChat({ baseUrl, apiKey: 'ak-test' }, { model: 'claude-test', messages }, () => {})
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(LLMError);
+      expect(error.message).toContain('Malformed stream event');
+      expect(error.message).not.toContain('Connection failed');
+    });
+
+    it('should list models and flag overload errors as retryable', async () => {
+      handler = (_req, res) => sendJson(res, { data: [{ id: 'claude-b' }, { id: 'claude-a' }] });
+      expect(await getAdapter('anthropic').listModels({ baseUrl, apiKey: 'ak-test' })).toEqual(['claude-a', 'claude-b']);
+      expect(requests[0]?.url).toBe('/v1/models?limit=1000');
+
+      handler = (_req, res) => sendJson(res, { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }, 529);
+      const error = await getAdapter('anthropic')
+        .chat({ baseUrl, apiKey: 'ak-test' }, { model: 'claude-test', messages })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(LLMError);
+      expect(error.message).toBe('API error 529: Overloaded');
+      expect(error.retryable).toBe(true);
+    });
+  });
+
+  describe('ollama', () => {
+    it('should call the native chat API even when given a /v1 URL', async () => {
+      handler = (_req, res) => sendJson(res, { message: { role: 'assistant', content: 'Hi' }, done: true, prompt_eval_count: 9, eval_count: 1 });
+
+      const adapter = getAdapter('ollama');
+      const result = await adapter.chat({ baseUrl: `${baseUrl}/v1`, apiKey: '' }, { model: 'llama3', messages, temperature: 0.1, maxTokens: 64 });
+
+      expect(adapter.requiresApiKey).toBe(false);
+      expect(result).toEqual({ content: 'Hi', model: 'llama3', usage: { promptTokens: 9, completionTokens: 1 } });
+      expect(requests[0]?.url).toBe('/api/chat');
+      expect(requests[0]?.headers.authorization).toBeUndefined();
+      expect(requests[0]?.body).toMatchObject({ model: 'llama3', stream: false, options: { temperature: 0.1, num_predict: 64 } });
+    });
+
+    it('should stream newline-delimited JSON', async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        res.write('{"message":{"content":"Hel"},"done":false}\n{"message":{"content":"lo"},');
+        res.write('"done":false}\n{"message":{"content":""},"done":true,"prompt_eval_count":4,"eval_count":2}\n');
+        res.end();
+      };
+
+      const deltas: string[] = [];
+      const result = await getAdapter('ollama').streamChat({ baseUrl, apiKey: '' }, { model: 'llama3', messages }, text => deltas.push(text));
+
+      expect(deltas).toEqual(['Hel', 'lo']);
+      expect(result.content).toBe('Hello');
+      expect(result.usage).toEqual({ promptTokens: 4, completionTokens: 2 });
+    });
+
+    it('should list local models from /api/tags', async () => {
+      handler = (_req, res) => sendJson(res, { models: [{ name: 'qwen2.5:7b' }, { name: 'llama3:8b' }] });
+
+      expect(await getAdapter('ollama').listModels({ baseUrl, apiKey: '' })).toEqual(['llama3:8b', 'qwen2.5:7b']);
+      expect(requests[0]?.url).toBe('/api/tags');
+    });
+  });
+
+  describe('azure', () => {
+    it('should list deployments with the api-key header', async () => {
+      handler = (_req, res) => sendJson(res, { data: [{ id: 'prod-gpt4o' }, { id: 'dev-mini' }] });
+
+      const models = await getAdapter('azure').listModels({ baseUrl: `${baseUrl}/openai/deployments/x`, apiKey: 'az-key' });
+
+      expect(models).toEqual(['dev-mini', 'prod-gpt4o']);
+      expect(requests[0]?.url).toBe('/openai/deployments?api-version=2022-12-01');
+      expect(requests[0]?.headers['api-key']).toBe('az-key');
+    });
+
+    it('should route chat to the deployment named by the model', async () => {
+      handler = (_req, res) => sendJson(res, {
+        id: 'x', object: 'chat.completion', created: 0, model: 'gpt-4o',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }]
+      });
+
+      const result = await getAdapter('azure').chat(
+        { baseUrl, apiKey: 'az-key', apiVersion: '2024-06-01' },
+        { model: 'prod-gpt4o', messages }
+      );
+
+      expect(result.content).toBe('ok');
+      expect(requests[0]?.url).toBe('/openai/deployments/prod-gpt4o/chat/completions?api-version=2024-06-01');
+      expect(requests[0]?.headers['api-key']).toBe('az-key');
+    });
+  });
+
+  describe('LLMError', () => {
+    it('should treat rate limits, server errors and network failures as retryable', () => {
+      expect(new LLMError('openai', 'x', 429).retryable).toBe(true);
+      expect(new LLMError('openai', 'x', 503).retryable).toBe(true);
+      expect(new LLMError('openai', 'Network error').retryable).toBe(true);
+      expect(new LLMError('openai', 'x', 400).retryable).toBe(false);
+      expect(new LLMError('openai', 'x', 404).retryable).toBe(false);
+    });
+
+    it('should report unreachable servers as network errors', async () => {
+      const error = await getAdapter('ollama').listModels({ baseUrl: 'http://127.0.0.1:1', apiKey: '' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(LLMError);
+      expect(error.status).toBeUndefined();
+      expect(error.retryable).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,530 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+
+// Wire protocol spoken by an LLMProvider. 'openai' also covers any
+// OpenAI-compatible server (vLLM, llama.cpp server, OpenRouter, ...).
+export type ProviderKind = 'openai' | 'anthropic' | 'ollama' | 'azure';
+
+export const PROVIDER_KINDS: ProviderKind[] = ['openai', 'anthropic', 'ollama', 'azure'];
+
+export interface AdapterConfig {
+  baseUrl: string;
+  apiKey: string;
+  apiVersion?: string; // Azure only
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatParams {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  timeout?: number;
+  signal?: AbortSignal;
+  n?: number; // Completions to sample in one call; only adapters with supportsN honour it
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatResult {
+  content: string;
+  model: string;
+  usage?: ChatUsage;
+  choices?: string[]; // Every sampled completion when n > 1; content is the first
+}
+
+export interface LLMAdapter {
+  kind: ProviderKind;
+  requiresApiKey: boolean;
+  supportsN: boolean; // Can sample several completions per request (ChatParams.n)
+  chat(config: AdapterConfig, params: ChatParams): Promise<ChatResult>;
+  // Calls onDelta for each text chunk; resolves with the full text once the stream ends
+  streamChat(config: AdapterConfig, params: ChatParams, onDelta: (text: string) => void): Promise<ChatResult>;
+  listModels(config: AdapterConfig): Promise<string[]>;
+}
+
+/**
+ * Provider-neutral error. Every adapter maps its protocol's failures to this so
+ * callers can show one message format and decide whether a retry makes sense.
+ */
+export class LLMError extends Error {
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly kind: ProviderKind;
+
+  constructor(kind: ProviderKind, message: string, status?: number) {
+    super(status ? `API error ${status}: ${message}` : message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = status;
+    // No status means the request never got an answer (network, timeout)
+    this.retryable = status === undefined || status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+}
+
+const DEFAULT_TIMEOUT = 30000;
+const DEFAULT_MAX_TOKENS = 4000;
+
+function trimUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+  return !!signal?.aborted || (error instanceof Error && error.name === 'AbortError');
+}
+
+function toNetworkError(kind: ProviderKind, error: unknown, signal?: AbortSignal): unknown {
+  if (error instanceof LLMError || isAbortError(error, signal)) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new LLMError(kind, `Connection failed: ${message}`);
+}
+
+// fetch() with a timeout that only guards the wait for response headers
+async function fetchWithTimeout(url: string, init: RequestInit, timeout: number, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(`Request timed out after ${timeout}ms`)), timeout);
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (!signal?.aborted && controller.signal.aborted) {
+      throw new Error(`Request timed out after ${timeout}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+async function readErrorMessage(res: Response): Promise<string> {
+  const text = await res.text().catch(() => '');
+  try {
+    const data = JSON.parse(text);
+    return data?.error?.message || data?.error || data?.message || text || res.statusText;
+  } catch {
+    return text || res.statusText;
+  }
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('This operation was aborted', 'AbortError');
+}
+
+/**
+ * Yields complete lines from a streamed response body (for SSE and NDJSON).
+ * fetchWithTimeout's signal stops covering the request once headers arrive,
+ * so an abort cancels the body read here, which also closes the connection.
+ */
+async function* readLines(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const onAbort = () => { reader.cancel(signal?.reason).catch(() => {}); };
+  signal?.addEventListener('abort', onAbort);
+  let buffer = '';
+  let finished = false;
+
+  try {
+    if (signal?.aborted) throw abortReason(signal);
+    while (true) {
+      const { done, value } = await reader.read();
+      if (signal?.aborted) throw abortReason(signal);
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) yield line.replace(/\r$/, '');
+    }
+    finished = true;
+    if (buffer) yield buffer;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    // The caller stopped early (error event, abort): stop downloading the rest
+    if (!finished) reader.cancel().catch(() => {});
+  }
+}
+
+// A stream line that is not valid JSON means the server broke the protocol, not the connection
+function parseStreamEvent<T>(kind: ProviderKind, text: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new LLMError(kind, `Malformed stream event: ${text.trim().slice(0, 200)}`, 502);
+  }
+}
+
+// ============ OpenAI-compatible ============
+
+function mapOpenAIError(kind: ProviderKind, error: unknown, signal?: AbortSignal): unknown {
+  if (isAbortError(error, signal) || error instanceof OpenAI.APIUserAbortError) return error;
+  if (error instanceof OpenAI.APIError) {
+    return new LLMError(kind, error.message, error.status);
+  }
+  return toNetworkError(kind, error, signal);
+}
+
+function createOpenAIAdapter(kind: 'openai' | 'azure', makeClient: (config: AdapterConfig, model: string, timeout: number) => OpenAI): LLMAdapter {
+  return {
+    kind,
+    requiresApiKey: true,
+    supportsN: true,
+
+    async chat(config, params) {
+      const client = makeClient(config, params.model, params.timeout ?? DEFAULT_TIMEOUT);
+      try {
+        const response = await client.chat.completions.create({
+          model: params.model,
+          messages: params.messages,
+          temperature: params.temperature,
+          max_tokens: params.maxTokens ?? DEFAULT_MAX_TOKENS,
+          ...(params.n && params.n > 1 ? { n: params.n } : {})
+        }, { signal: params.signal });
+
+        return {
+          content: response.choices[0]?.message?.content || '',
+          model: params.model,
+          usage: response.usage
+            ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+            : undefined,
+          ...(params.n && params.n > 1 ? { choices: response.choices.map(c => c.message?.content || '') } : {})
+        };
+      } catch (error) {
+        throw mapOpenAIError(kind, error, params.signal);
+      }
+    },
+
+    async streamChat(config, params, onDelta) {
+      const client = makeClient(config, params.model, params.timeout ?? DEFAULT_TIMEOUT);
+      let content = '';
+      let usage: ChatUsage | undefined;
+      try {
+        const stream = await client.chat.completions.create({
+          model: params.model,
+          messages: params.messages,
+          temperature: params.temperature,
+          max_tokens: params.maxTokens ?? DEFAULT_MAX_TOKENS,
+          stream: true,
+          stream_options: { include_usage: true } // Final chunk carries token counts
+        }, { signal: params.signal });
+
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            onDelta(delta);
+          }
+          if (chunk.usage) {
+            usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+          }
+        }
+      } catch (error) {
+        throw mapOpenAIError(kind, error, params.signal);
+      }
+      return { content, model: params.model, usage };
+    },
+
+    async listModels(config) {
+      const client = makeClient(config, '', 10000);
+      try {
+        const models: string[] = [];
+        for await (const model of await client.models.list()) {
+          models.push(model.id);
+        }
+        return models.sort((a, b) => a.localeCompare(b));
+      } catch (error) {
+        throw mapOpenAIError(kind, error);
+      }
+    }
+  };
+}
+
+const openaiAdapter = createOpenAIAdapter('openai', (config, _model, timeout) => new OpenAI({
+  apiKey: config.apiKey,
+  baseURL: trimUrl(config.baseUrl).replace(/\/chat\/completions$/, ''),
+  timeout
+}));
+
+// ============ Azure OpenAI ============
+
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+function azureEndpoint(baseUrl: string): string {
+  // Accept both "https://x.openai.azure.com" and a pasted ".../openai/deployments/..." URL
+  return trimUrl(baseUrl).replace(/\/openai(\/.*)?$/, '');
+}
+
+const azureChatAdapter = createOpenAIAdapter('azure', (config, model, timeout) => new AzureOpenAI({
+  apiKey: config.apiKey,
+  endpoint: azureEndpoint(config.baseUrl),
+  apiVersion: config.apiVersion || DEFAULT_AZURE_API_VERSION,
+  // For Azure the "model" is the deployment name
+  deployment: model || undefined,
+  timeout
+}));
+
+const azureAdapter: LLMAdapter = {
+  ...azureChatAdapter,
+
+  // Azure lists deployments (what requests are routed by), not base models
+  async listModels(config) {
+    const url = `${azureEndpoint(config.baseUrl)}/openai/deployments?api-version=2022-12-01`;
+    let res: Response;
+    try {
+      res = await fetchWithTimeout(url, { headers: { 'api-key': config.apiKey } }, 10000);
+    } catch (error) {
+      throw toNetworkError('azure', error);
+    }
+    if (!res.ok) throw new LLMError('azure', await readErrorMessage(res), res.status);
+
+    const data = await res.json() as { data?: { id: string }[] };
+    return (data.data || []).map(d => d.id).sort((a, b) => a.localeCompare(b));
+  }
+};
+
+// ============ Anthropic Messages API ============
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+function anthropicBase(baseUrl: string): string {
+  return (trimUrl(baseUrl) || 'https://api.anthropic.com').replace(/\/messages$/, '').replace(/\/v1$/, '');
+}
+
+function anthropicHeaders(config: AdapterConfig): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'x-api-key': config.apiKey,
+    'anthropic-version': ANTHROPIC_VERSION
+  };
+}
+
+// Anthropic takes the system prompt separately and requires alternating user/assistant turns
+function toAnthropicBody(params: ChatParams, stream: boolean) {
+  const system = params.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const messages: { role: 'user' | 'assistant'; content: string }[] = [];
+
+  for (const m of params.messages) {
+    if (m.role === 'system') continue;
+    const last = messages[messages.length - 1];
+    if (last && last.role === m.role) {
+      last.content += `\n\n${m.content}`;
+    } else {
+      messages.push({ role: m.role, content: m.content });
+    }
+  }
+
+  return {
+    model: params.model,
+    max_tokens: params.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: params.temperature,
+    ...(system && { system }),
+    messages,
+    ...(stream && { stream: true })
+  };
+}
+
+async function anthropicRequest(config: AdapterConfig, params: ChatParams, stream: boolean): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetchWithTimeout(`${anthropicBase(config.baseUrl)}/v1/messages`, {
+      method: 'POST',
+      headers: anthropicHeaders(config),
+      body: JSON.stringify(toAnthropicBody(params, stream))
+    }, params.timeout ?? DEFAULT_TIMEOUT, params.signal);
+  } catch (error) {
+    throw toNetworkError('anthropic', error, params.signal);
+  }
+  if (!res.ok) throw new LLMError('anthropic', await readErrorMessage(res), res.status);
+  return res;
+}
+
+interface AnthropicStreamEvent {
+  type?: string;
+  delta?: { type?: string; text?: string };
+  message?: { usage?: { input_tokens?: number } };
+  usage?: { output_tokens?: number };
+  error?: { type?: string; message?: string };
+}
+
+const anthropicAdapter: LLMAdapter = {
+  kind: 'anthropic',
+  requiresApiKey: true,
+  supportsN: false,
+
+  async chat(config, params) {
+    const res = await anthropicRequest(config, params, false);
+    const data = await res.json() as {
+      content?: { type: string; text?: string }[];
+      usage?: { input_tokens: number; output_tokens: number };
+    };
+
+    return {
+      content: (data.content || []).filter(b => b.type === 'text').map(b => b.text || '').join(''),
+      model: params.model,
+      usage: data.usage ? { promptTokens: data.usage.input_tokens, completionTokens: data.usage.output_tokens } : undefined
+    };
+  },
+
+  async streamChat(config, params, onDelta) {
+    const res = await anthropicRequest(config, params, true);
+    let content = '';
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    try {
+      for await (const line of readLines(res.body!, params.signal)) {
+        if (!line.startsWith('data:')) continue;
+        const event = parseStreamEvent<AnthropicStreamEvent>('anthropic', line.slice(5));
+
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+          content += event.delta.text;
+          onDelta(event.delta.text);
+        } else if (event.type === 'message_start') {
+          promptTokens = event.message?.usage?.input_tokens ?? 0;
+        } else if (event.type === 'message_delta') {
+          completionTokens = event.usage?.output_tokens ?? completionTokens;
+        } else if (event.type === 'error') {
+          throw new LLMError('anthropic', event.error?.message || 'Stream error', event.error?.type === 'overloaded_error' ? 529 : 500);
+        }
+      }
+    } catch (error) {
+      throw toNetworkError('anthropic', error, params.signal);
+    }
+
+    return { content, model: params.model, usage: { promptTokens, completionTokens } };
+  },
+
+  async listModels(config) {
+    let res: Response;
+    try {
+      res = await fetchWithTimeout(`${anthropicBase(config.baseUrl)}/v1/models?limit=1000`, { headers: anthropicHeaders(config) }, 10000);
+    } catch (error) {
+      throw toNetworkError('anthropic', error);
+    }
+    if (!res.ok) throw new LLMError('anthropic', await readErrorMessage(res), res.status);
+
+    const data = await res.json() as { data?: { id: string }[] };
+    return (data.data || []).map(m => m.id).sort((a, b) => a.localeCompare(b));
+  }
+};
+
+// ============ Ollama (native API) ============
+
+function ollamaBase(baseUrl: string): string {
+  // People often paste the OpenAI-compatible ".../v1" URL; the native API lives at the root
+  return (trimUrl(baseUrl) || 'http://localhost:11434').replace(/\/api(\/chat)?$/, '').replace(/\/v1$/, '');
+}
+
+function ollamaHeaders(config: AdapterConfig): Record<string, string> {
+  // Local servers need no key, but a reverse proxy in front of one might
+  return {
+    'Content-Type': 'application/json',
+    ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` })
+  };
+}
+
+async function ollamaRequest(config: AdapterConfig, params: ChatParams, stream: boolean): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetchWithTimeout(`${ollamaBase(config.baseUrl)}/api/chat`, {
+      method: 'POST',
+      headers: ollamaHeaders(config),
+      body: JSON.stringify({
+        model: params.model,
+        messages: params.messages,
+        stream,
+        options: {
+          temperature: params.temperature,
+          num_predict: params.maxTokens ?? DEFAULT_MAX_TOKENS
+        }
+      })
+    }, params.timeout ?? DEFAULT_TIMEOUT, params.signal);
+  } catch (error) {
+    throw toNetworkError('ollama', error, params.signal);
+  }
+  if (!res.ok) throw new LLMError('ollama', await readErrorMessage(res), res.status);
+  return res;
+}
+
+interface OllamaChatChunk {
+  message?: { content?: string };
+  done?: boolean;
+  error?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+function ollamaUsage(chunk: OllamaChatChunk): ChatUsage | undefined {
+  if (chunk.prompt_eval_count === undefined && chunk.eval_count === undefined) return undefined;
+  return { promptTokens: chunk.prompt_eval_count ?? 0, completionTokens: chunk.eval_count ?? 0 };
+}
+
+const ollamaAdapter: LLMAdapter = {
+  kind: 'ollama',
+  requiresApiKey: false,
+  supportsN: false,
+
+  async chat(config, params) {
+    const res = await ollamaRequest(config, params, false);
+    const data = await res.json() as OllamaChatChunk;
+    return { content: data.message?.content || '', model: params.model, usage: ollamaUsage(data) };
+  },
+
+  async streamChat(config, params, onDelta) {
+    const res = await ollamaRequest(config, params, true);
+    let content = '';
+    let usage: ChatUsage | undefined;
+
+    try {
+      // Ollama streams newline-delimited JSON objects
+      for await (const line of readLines(res.body!, params.signal)) {
+        if (!line.trim()) continue;
+        const chunk = parseStreamEvent<OllamaChatChunk>('ollama', line);
+        if (chunk.error) throw new LLMError('ollama', chunk.error, 500);
+
+        const delta = chunk.message?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (chunk.done) usage = ollamaUsage(chunk);
+      }
+    } catch (error) {
+      throw toNetworkError('ollama', error, params.signal);
+    }
+
+    return { content, model: params.model, usage };
+  },
+
+  async listModels(config) {
+    let res: Response;
+    try {
+      res = await fetchWithTimeout(`${ollamaBase(config.baseUrl)}/api/tags`, { headers: ollamaHeaders(config) }, 10000);
+    } catch (error) {
+      throw toNetworkError('ollama', error);
+    }
+    if (!res.ok) throw new LLMError('ollama', await readErrorMessage(res), res.status);
+
+    const data = await res.json() as { models?: { name: string }[] };
+    return (data.models || []).map(m => m.name).sort((a, b) => a.localeCompare(b));
+  }
+};
+
+const ADAPTERS: Record<ProviderKind, LLMAdapter> = {
+  openai: openaiAdapter,
+  azure: azureAdapter,
+  anthropic: anthropicAdapter,
+  ollama: ollamaAdapter
+};
+
+// Providers saved before `kind` existed are OpenAI-compatible
+export function getAdapter(kind?: ProviderKind): LLMAdapter {
+  return ADAPTERS[kind || 'openai'] || openaiAdapter;
+}
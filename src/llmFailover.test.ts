@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { LLMError } from './llmAdapters';
+import { withFailover, backoffDelay, type FailoverEvent } from './llmFailover';
+import { BudgetExceededError } from './usageTracker';
+import type { LLMConfig } from './llmService';
+
+const primary: LLMConfig = { kind: 'openai', baseUrl: 'https://a', apiKey: 'k', model: 'gpt-4o', providerId: 'a', providerName: 'OpenAI' };
+const fallback: LLMConfig = { kind: 'anthropic', baseUrl: 'https://b', apiKey: 'k', model: 'claude', providerId: 'b', providerName: 'Anthropic' };
+
+function setup(maxRetries = 2) {
+  const delays: number[] = [];
+  const events: FailoverEvent[] = [];
+  const options = {
+    maxRetries,
+    baseDelayMs: 100,
+    sleep: async (ms: number) => { delays.push(ms); },
+    onFailover: (event: FailoverEvent) => { events.push(event); }
+  };
+  return { delays, events, options };
+}
+
+describe('llmFailover', () => {
+  it('should double the delay on every retry', () => {
+    expect([0, 1, 2].map(retry => backoffDelay(retry, 500))).toEqual([500, 1000, 2000]);
+  });
+
+  it('should retry retryable errors on the same provider with backoff', async () => {
+    const { delays, events, options } = setup();
+    let calls = 0;
+    const result = await withFailover([primary, fallback], async (config) => {
+      calls++;
+      if (calls < 3) throw new LLMError('openai', 'Rate limited', 429);
+      return config.model;
+    }, options);
+
+    expect(result.value).toBe('gpt-4o');
+    expect(delays).toEqual([100, 200]);
+    expect(events).toEqual([]);
+  });
+
+  it('should fall over to the next provider once retries run out and record why', async () => {
+    const { delays, events, options } = setup(1);
+    const result = await withFailover([primary, fallback], async (config) => {
+      if (config.providerId === 'a') throw new LLMError('openai', 'Overloaded', 503);
+      return config.model;
+    }, options);
+
+    expect(result.value).toBe('claude');
+    expect(result.config).toBe(fallback);
+    expect(delays).toEqual([100]);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ provider: 'OpenAI', model: 'gpt-4o', status: 503, attempts: 2, next: 'Anthropic / claude' });
+    expect(result.failovers).toEqual(events);
+  });
+
+  it('should skip a provider whose budget is spent without retrying it', async () => {
+    const { delays, options } = setup();
+    const result = await withFailover([primary, fallback], async (config) => {
+      if (config.providerId === 'a') throw new BudgetExceededError('OpenAI', 12, 10);
+      return config.model;
+    }, options);
+
+    expect(result.value).toBe('claude');
+    expect(delays).toEqual([]);
+  });
+
+  it('should rethrow non-retryable errors and the last error when the chain runs out', async () => {
+    const { options } = setup(0);
+    await expect(withFailover([primary, fallback], async () => {
+      throw new LLMError('openai', 'Bad request', 400);
+    }, options)).rejects.toThrow('API error 400: Bad request');
+
+    const { events, options: exhausted } = setup(0);
+    await expect(withFailover([primary, fallback], async () => {
+      throw new LLMError('openai', 'Down', 500);
+    }, exhausted)).rejects.toThrow('API error 500: Down');
+    expect(events.map(e => e.next)).toEqual(['Anthropic / claude', undefined]);
+  });
+
+  it('should not retry once canRetry says output was already sent', async () => {
+    const { options } = setup();
+    let calls = 0;
+    await expect(withFailover([primary, fallback], async () => {
+      calls++;
+      throw new LLMError('openai', 'Connection reset');
+    }, { ...options, canRetry: () => false })).rejects.toThrow('Connection reset');
+    expect(calls).toBe(1);
+  });
+});
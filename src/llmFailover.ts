@@ -0,0 +1,180 @@
+/**
+ * Provider failover - retry retryable errors with exponential backoff, then
+ * move down an ordered list of fallback providers/models.
+ */
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { LLMError } from './llmAdapters';
+import { BudgetExceededError } from './usageTracker';
+import type { LLMConfig } from './llmService';
+
+const PROJS_DIR = join(process.cwd(), 'projs');
+const FAILOVER_SETTINGS_FILE = join(PROJS_DIR, 'llm-failover.json');
+const FAILOVER_LOG_FILE = join(PROJS_DIR, 'llm-failover-log.json');
+const MAX_LOG_ENTRIES = 200;
+
+export interface FailoverTarget {
+  providerId: string;
+  model: string;
+}
+
+export interface FailoverSettings {
+  enabled: boolean;
+  chain: FailoverTarget[]; // Tried in order after the active provider
+  maxRetries: number; // Per provider, before moving on
+  baseDelayMs: number; // Doubles on every retry
+}
+
+export const DEFAULT_FAILOVER_SETTINGS: FailoverSettings = {
+  enabled: false,
+  chain: [],
+  maxRetries: 2,
+  baseDelayMs: 1000
+};
+
+export interface FailoverEvent {
+  timestamp: string;
+  provider: string; // The provider that failed
+  model: string;
+  reason: string;
+  status?: number;
+  attempts: number;
+  next?: string; // "Provider / model" tried next; missing when the chain ran out
+}
+
+export function getFailoverSettings(): FailoverSettings {
+  try {
+    if (existsSync(FAILOVER_SETTINGS_FILE)) {
+      return normalizeFailoverSettings(JSON.parse(readFileSync(FAILOVER_SETTINGS_FILE, 'utf-8')));
+    }
+  } catch (error) {
+    console.error('Failed to load failover settings:', error);
+  }
+  return { ...DEFAULT_FAILOVER_SETTINGS };
+}
+
+function normalizeFailoverSettings(data: Partial<FailoverSettings>): FailoverSettings {
+  const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+  return {
+    enabled: data.enabled === true,
+    chain: Array.isArray(data.chain)
+      ? data.chain.filter(t => t && typeof t.providerId === 'string' && typeof t.model === 'string' && t.model)
+      : [],
+    maxRetries: clamp(data.maxRetries, 0, 5, DEFAULT_FAILOVER_SETTINGS.maxRetries),
+    baseDelayMs: clamp(data.baseDelayMs, 100, 30000, DEFAULT_FAILOVER_SETTINGS.baseDelayMs)
+  };
+}
+
+export function saveFailoverSettings(settings: Partial<FailoverSettings>): FailoverSettings {
+  const normalized = normalizeFailoverSettings({ ...getFailoverSettings(), ...settings });
+  if (!existsSync(PROJS_DIR)) mkdirSync(PROJS_DIR, { recursive: true });
+  writeFileSync(FAILOVER_SETTINGS_FILE, JSON.stringify(normalized, null, 2), 'utf-8');
+  return normalized;
+}
+
+// Newest first
+export function getFailoverLog(): FailoverEvent[] {
+  try {
+    if (existsSync(FAILOVER_LOG_FILE)) {
+      const data = JSON.parse(readFileSync(FAILOVER_LOG_FILE, 'utf-8'));
+      return Array.isArray(data) ? data : [];
+    }
+  } catch (error) {
+    console.error('Failed to load failover log:', error);
+  }
+  return [];
+}
+
+export function recordFailoverEvent(event: FailoverEvent): void {
+  console.warn(`[Failover] ${event.provider} / ${event.model} failed after ${event.attempts} attempt(s): ${event.reason}${event.next ? ` -> trying ${event.next}` : ''}`);
+  try {
+    if (!existsSync(PROJS_DIR)) mkdirSync(PROJS_DIR, { recursive: true });
+    const log = [event, ...getFailoverLog()].slice(0, MAX_LOG_ENTRIES);
+    writeFileSync(FAILOVER_LOG_FILE, JSON.stringify(log, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Failed to save failover log:', error);
+  }
+}
+
+// Errors worth another provider: overloads, outages, timeouts, and spent budgets
+export function isFailoverError(error: unknown): boolean {
+  return (error instanceof LLMError && error.retryable) || error instanceof BudgetExceededError;
+}
+
+export function backoffDelay(retry: number, baseDelayMs: number): number {
+  return baseDelayMs * 2 ** retry;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+export interface FailoverOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  signal?: AbortSignal;
+  canRetry?: () => boolean; // False once retrying would repeat output (e.g. a stream already sent text)
+  onFailover?: (event: FailoverEvent) => void;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+function describe(config: LLMConfig): string {
+  return config.providerName || config.kind || 'openai';
+}
+
+/**
+ * Runs attempt against each config in order. A retryable error is retried on the
+ * same config with exponential backoff; once retries run out (or the budget is
+ * spent) the next config takes over. Any other error is thrown immediately.
+ */
+export async function withFailover<T>(
+  configs: LLMConfig[],
+  attempt: (config: LLMConfig) => Promise<T>,
+  options: FailoverOptions
+): Promise<{ value: T; config: LLMConfig; failovers: FailoverEvent[] }> {
+  const wait = options.sleep ?? sleep;
+  const failovers: FailoverEvent[] = [];
+
+  for (let i = 0; i < configs.length; i++) {
+    const config = configs[i]!;
+    for (let retry = 0; ; retry++) {
+      try {
+        return { value: await attempt(config), config, failovers };
+      } catch (error) {
+        if (options.signal?.aborted || !isFailoverError(error) || options.canRetry?.() === false) throw error;
+
+        if (error instanceof LLMError && retry < options.maxRetries) {
+          await wait(backoffDelay(retry, options.baseDelayMs), options.signal);
+          if (options.signal?.aborted) throw error;
+          continue;
+        }
+
+        const next = configs[i + 1];
+        const event: FailoverEvent = {
+          timestamp: new Date().toISOString(),
+          provider: describe(config),
+          model: config.model,
+          reason: error instanceof Error ? error.message : String(error),
+          status: error instanceof LLMError ? error.status : undefined,
+          attempts: retry + 1,
+          next: next ? `${describe(next)} / ${next.model}` : undefined
+        };
+        failovers.push(event);
+        options.onFailover?.(event);
+        if (!next) throw error;
+        break;
+      }
+    }
+  }
+  throw new Error('No LLM provider configured');
+}
@@ -1,27 +1,59 @@
-import OpenAI from 'openai';
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
+import { getAdapter, type ChatMessage, type ChatUsage, type LLMAdapter, type ProviderKind } from './llmAdapters';
+import { DIAGNOSE_SCHEMA_INSTRUCTIONS, DiagnoseParseError, parseDiagnoseResponse, type DiagnoseIssue } from './diagnose';
+import { getProjectConfig } from './projectConfig';
+import { getCachedResponse, putCachedResponse, responseCacheKey, type CacheKeyParts } from './responseCache';
+import { BudgetExceededError, computeCost, estimateUsage, getMonthlySpend, readUsageRecords, recordUsage, type ModelPricing, type UsageRecord } from './usageTracker';
+import { getFailoverSettings, recordFailoverEvent, withFailover, type FailoverEvent, type FailoverSettings } from './llmFailover';
+import { renderPromptTemplate, resolveTemplateValues, usesTemplateVariables, type PaperContext, type PromptContext, type TemplateValues } from './promptTemplate';
+import { getGlossary } from './glossary';
+import { getActiveStylePrompt } from './styleProfile';
+import { appendAuditEntry, getAuditEntry, AuditLogError, type AuditEntry } from './auditLog';
+import { RequestError } from './requestError';
+import { formatGlossaryPrompt } from '../web/src/utils/glossary';
+import { stripMarkdownCodeFences } from '../web/src/utils/fences';
 
 const PROJS_DIR = join(process.cwd(), 'projs');
 const LLM_CONFIG_FILE = join(PROJS_DIR, 'llm-config.json');
 const LLM_PROVIDERS_FILE = join(PROJS_DIR, 'llm-providers.json');
 
 export interface LLMConfig {
+  kind?: ProviderKind;
   baseUrl: string;
   apiKey: string;
   model: string;
+  apiVersion?: string;
+  providerId?: string; // Set when the config comes from a saved provider; used for usage accounting
+  providerName?: string;
 }
 
 // New: LLM Provider for multi-API management
 export interface LLMProvider {
   id: string;
   name: string;
+  kind?: ProviderKind; // Missing on providers saved before adapters existed: treated as 'openai'
   baseUrl: string;
   apiKey: string;
+  apiVersion?: string; // Azure OpenAI api-version
   models: string[];
   selectedModel: string;
   isActive: boolean;
   createdAt: number;
+  pricing?: Record<string, ModelPricing>; // Per model, USD per million tokens
+  monthlyBudget?: number; // USD; calls are refused once the month's spend reaches it
+}
+
+function providerConfig(provider: LLMProvider, model: string): LLMConfig {
+  return {
+    kind: provider.kind,
+    baseUrl: provider.baseUrl,
+    apiKey: provider.apiKey,
+    model,
+    apiVersion: provider.apiVersion,
+    providerId: provider.id,
+    providerName: provider.name
+  };
 }
 
 // Load config from file, fallback to environment variables
@@ -30,11 +62,7 @@ export function getLLMConfig(): LLMConfig {
   const providers = getLLMProviders();
   const activeProvider = providers.find(p => p.isActive);
   if (activeProvider) {
-    return {
-      baseUrl: activeProvider.baseUrl,
-      apiKey: activeProvider.apiKey,
-      model: activeProvider.selectedModel
-    };
+    return providerConfig(activeProvider, activeProvider.selectedModel);
   }
 
   // Fallback to legacy config file
@@ -181,42 +209,43 @@ export function setActiveProvider(id: string): boolean {
   return saveLLMProviders(providers);
 }
 
-// Fetch models from OpenAI-compatible API
-export async function fetchModelsFromAPI(baseUrl: string, apiKey: string): Promise<string[]> {
+// Fetch the model list using the provider's native listing endpoint
+export async function fetchModelsFromAPI(baseUrl: string, apiKey: string, kind?: ProviderKind, apiVersion?: string): Promise<string[]> {
   try {
-    const normalizedUrl = baseUrl.replace(/\/+$/, '').replace(/\/chat\/completions\/?$/, '');
-    const client = new OpenAI({
-      apiKey,
-      baseURL: normalizedUrl,
-      timeout: 10000
-    });
-
-    const response = await client.models.list();
-    const models: string[] = [];
-
-    for await (const model of response) {
-      models.push(model.id);
-    }
-
-    // Sort models alphabetically
-    return models.sort((a, b) => a.localeCompare(b));
+    return await getAdapter(kind).listModels({ baseUrl, apiKey, apiVersion });
   } catch (error) {
     console.error('Failed to fetch models:', error);
     throw error;
   }
 }
 
-export type AIMode = 'diagnose' | 'refine' | 'quickfix';
+export type BuiltinAIMode = 'diagnose' | 'refine' | 'quickfix' | 'translate' | 'compress';
+// Custom modes are defined per project in prompts.json and referenced by "custom:<slug>"
+export type AIMode = BuiltinAIMode | `custom:${string}`;
+
+export const BUILTIN_AI_MODES: BuiltinAIMode[] = ['diagnose', 'refine', 'quickfix', 'translate', 'compress'];
+
+export interface CustomAIMode {
+  id: `custom:${string}`;
+  name: string;
+  icon: string; // lucide icon name, rendered by the web client
+  userPrompt: string;
+  temperature: number;
+  output: 'rewrite' | 'commentary'; // rewrite = diffable replacement text
+}
 
 export interface AIRequest {
   mode: AIMode;
   content: string;
+  projectId?: string; // Required to resolve custom modes
   systemPrompt?: string;
   userPrompt?: string;
   history?: { role: 'user' | 'ai'; content: string }[];
+  context?: PromptContext; // Where the paragraph lives, for {{variable}} expansion
+  noCache?: boolean; // Force regeneration: skip the response cache lookup (the new reply is still stored)
 }
 
-const DEFAULT_PROMPTS: Record<AIMode, { system: string; user: string }> = {
+const DEFAULT_PROMPTS: Record<BuiltinAIMode, { system: string; user: string }> = {
   diagnose: {
     system: `You are an expert academic writing reviewer for top-tier computer science conferences (IEEE S&P, USENIX Security, OSDI, CCS).
 
@@ -229,7 +258,7 @@ Provide constructive feedback on:
 4. Any structural issues or missing elements
 
 Be specific and constructive. Point out both strengths and areas for improvement.`,
-    user: 'Please analyze and diagnose the following text. Discuss the structure, logic flow, and identify any issues with clarity or argumentation. Provide specific and constructive feedback.'
+    user: 'Please analyze and diagnose the following text. Identify concrete issues with logic flow, clarity, unsupported claims, and structure, quoting the exact span each issue refers to.'
   },
   refine: {
     system: `You are a strict and professional academic editor for top-tier computer security and systems conferences (IEEE S&P, USENIX Security, OSDI, CCS). Your goal is to refine the text to meet high publication standards.
@@ -280,9 +309,48 @@ Do NOT:
 
 Return only the corrected text with minimal changes.`,
     user: 'Please fix any grammar, spelling, punctuation, or syntax errors in the following text. Do not change the meaning or structure. Return only the corrected text.'
+  },
+  translate: {
+    system: `You are a bilingual (Chinese-English) academic editor for top-tier computer security and systems conferences (IEEE S&P, USENIX Security, OSDI, CCS).
+
+**Task:** Translate a Chinese or mixed Chinese-English draft paragraph into publication-grade English.
+
+**Guidelines:**
+- Write what a native English author would write for this venue: concise, precise, active voice. Do not translate word by word.
+- Keep the meaning. Do not add claims, results or citations that are not in the draft.
+- Keep technical terms that are already in English as they are.
+
+Return ONLY the English LaTeX text without any explanations.`,
+    user: 'Please translate the following draft into publication-grade English LaTeX. Return only the translated text.'
+  },
+  compress: {
+    system: `You are an academic editor for top-tier computer security and systems conferences (IEEE S&P, USENIX Security, OSDI, CCS). The paper is over the page limit.
+
+**Task:** Shorten the text while keeping what it says.
+
+**Guidelines:**
+- Cut redundancy first: repeated points, filler phrases, needless signposting, and long-winded constructions.
+- Keep every claim, number and comparison unless the target cannot be met otherwise; then drop the least important detail.
+- Change as little as possible: keep the author's sentences where they are already tight.
+
+Return ONLY the shortened text without any explanations.`,
+    user: 'Please shorten the following text without losing its claims. Return only the shortened text.'
   }
 };
 
+// Always appended to Translate, since the shared system prompt usually replaces the mode's own
+const TRANSLATE_INSTRUCTIONS = `**LaTeX (Strictly Follow):**
+- Keep every LaTeX command, environment, \\cite, \\ref, \\label and math expression ($...$, \\[...\\]) exactly as written; translate only the prose around them.
+- Translate Chinese text inside arguments such as \\textbf{...} or \\emph{...}, but keep the command.
+- Drop LaTeX comments (lines starting with %).
+- The reply must contain no Chinese characters.`;
+
+// Always appended to Compress: a shorter paragraph must still compile and keep its references
+const COMPRESS_INSTRUCTIONS = `**LaTeX (Strictly Follow):**
+- Keep every \\cite, \\ref, \\label and math expression exactly as written, unless the sentence that holds it is removed entirely.
+- Keep LaTeX comments (lines starting with %) unchanged.
+- Never make the text longer.`;
+
 // Export for use by API endpoints
 export { DEFAULT_PROMPTS };
 
@@ -292,6 +360,47 @@ export interface ProjectPrompts {
   diagnose: { user: string };
   refine: { user: string };
   quickfix: { user: string };
+  translate: { user: string };
+  compress: { user: string };
+  customModes: CustomAIMode[];
+  context: PaperContext; // Value for {{venue}}
+}
+
+export function isBuiltinMode(mode: string): mode is BuiltinAIMode {
+  return (BUILTIN_AI_MODES as string[]).includes(mode);
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'mode';
+}
+
+// Drop malformed entries and fill defaults so the client can rely on every field
+function normalizeCustomModes(raw: unknown): CustomAIMode[] {
+  if (!Array.isArray(raw)) return [];
+
+  const modes: CustomAIMode[] = [];
+  const seen = new Set<string>();
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const m = entry as Partial<CustomAIMode>;
+    const name = typeof m.name === 'string' ? m.name.trim() : '';
+    if (!name) continue;
+
+    let id = typeof m.id === 'string' && /^custom:[\w-]+$/.test(m.id) ? m.id : `custom:${slugify(name)}` as const;
+    for (let n = 2; seen.has(id); n++) id = `custom:${slugify(name)}-${n}`;
+    seen.add(id);
+
+    const temperature = typeof m.temperature === 'number' && Number.isFinite(m.temperature) ? m.temperature : 0.3;
+    modes.push({
+      id,
+      name,
+      icon: typeof m.icon === 'string' && m.icon ? m.icon : 'sparkles',
+      userPrompt: typeof m.userPrompt === 'string' ? m.userPrompt : '',
+      temperature: Math.min(2, Math.max(0, temperature)),
+      output: m.output === 'commentary' ? 'commentary' : 'rewrite'
+    });
+  }
+  return modes;
 }
 
 // Default shared system prompt
@@ -344,7 +453,13 @@ export function getProjectPrompts(projectId: string): ProjectPrompts {
         system: data.system || DEFAULT_SHARED_SYSTEM,
         diagnose: { user: data.diagnose?.user || DEFAULT_PROMPTS.diagnose.user },
         refine: { user: data.refine?.user || DEFAULT_PROMPTS.refine.user },
-        quickfix: { user: data.quickfix?.user || DEFAULT_PROMPTS.quickfix.user }
+        quickfix: { user: data.quickfix?.user || DEFAULT_PROMPTS.quickfix.user },
+        translate: { user: data.translate?.user || DEFAULT_PROMPTS.translate.user },
+        compress: { user: data.compress?.user || DEFAULT_PROMPTS.compress.user },
+        customModes: normalizeCustomModes(data.customModes),
+        context: {
+          venue: typeof data.context?.venue === 'string' ? data.context.venue : ''
+        }
       };
     }
   } catch (error) {
@@ -355,7 +470,11 @@ export function getProjectPrompts(projectId: string): ProjectPrompts {
     system: DEFAULT_SHARED_SYSTEM,
     diagnose: { user: DEFAULT_PROMPTS.diagnose.user },
     refine: { user: DEFAULT_PROMPTS.refine.user },
-    quickfix: { user: DEFAULT_PROMPTS.quickfix.user }
+    quickfix: { user: DEFAULT_PROMPTS.quickfix.user },
+    translate: { user: DEFAULT_PROMPTS.translate.user },
+    compress: { user: DEFAULT_PROMPTS.compress.user },
+    customModes: [],
+    context: { venue: '' }
   };
 }
 
@@ -375,7 +494,13 @@ export function saveProjectPrompts(projectId: string, prompts: Partial<ProjectPr
       system: prompts.system ?? current.system,
       diagnose: { user: prompts.diagnose?.user ?? current.diagnose.user },
       refine: { user: prompts.refine?.user ?? current.refine.user },
-      quickfix: { user: prompts.quickfix?.user ?? current.quickfix.user }
+      quickfix: { user: prompts.quickfix?.user ?? current.quickfix.user },
+      translate: { user: prompts.translate?.user ?? current.translate.user },
+      compress: { user: prompts.compress?.user ?? current.compress.user },
+      customModes: prompts.customModes ? normalizeCustomModes(prompts.customModes) : current.customModes,
+      context: {
+        venue: prompts.context?.venue ?? current.context.venue
+      }
     };
 
     writeFileSync(promptsFile, JSON.stringify(merged, null, 2), 'utf-8');
@@ -389,61 +514,639 @@ export function saveProjectPrompts(projectId: string, prompts: Partial<ProjectPr
 // Export default shared system prompt for reset
 export { DEFAULT_SHARED_SYSTEM };
 
-export async function processWithAI(request: AIRequest): Promise<{ content: string; model: string }> {
-  const config = getLLMConfig();
-
-  if (!config.apiKey) {
+function getAdapterForConfig(config: LLMConfig) {
+  const adapter = getAdapter(config.kind);
+  if (adapter.requiresApiKey && !config.apiKey) {
     throw new Error('API key not configured. Please set up your LLM API key in Settings.');
   }
+  return adapter;
+}
+
+function getProviderForConfig(config: LLMConfig): LLMProvider | undefined {
+  return config.providerId ? getLLMProviders().find(p => p.id === config.providerId) : undefined;
+}
 
-  const baseURL = config.baseUrl.replace(/\/chat\/completions\/?$/, '');
-  const client = new OpenAI({
-    apiKey: config.apiKey,
-    baseURL,
-    timeout: 30000 // Increased timeout for long content
+// Hard stop before calling a provider whose monthly budget is spent
+function assertWithinBudget(config: LLMConfig) {
+  const provider = getProviderForConfig(config);
+  if (!provider?.monthlyBudget) return;
+
+  const spent = getMonthlySpend(readUsageRecords(), provider.id);
+  if (spent >= provider.monthlyBudget) {
+    throw new BudgetExceededError(provider.name, spent, provider.monthlyBudget);
+  }
+}
+
+// Record one provider call; without reported usage the tokens are estimated from the text
+function trackUsage(config: LLMConfig, request: { projectId?: string; mode: string }, messages: ChatMessage[], response: { content: string; usage?: ChatUsage }): UsageRecord {
+  const provider = getProviderForConfig(config);
+  const usage = response.usage ?? estimateUsage(messages, response.content);
+  const record: UsageRecord = {
+    timestamp: new Date().toISOString(),
+    projectId: request.projectId,
+    providerId: provider?.id,
+    providerName: provider?.name || config.kind || 'openai',
+    model: config.model,
+    mode: request.mode,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    cost: computeCost(usage, provider?.pricing?.[config.model]),
+    ...(response.usage ? {} : { estimated: true })
+  };
+  recordUsage(record);
+  return record;
+}
+
+function auditProvider(config: LLMConfig) {
+  const provider = getProviderForConfig(config);
+  return { providerId: provider?.id, providerName: provider?.name || config.kind || 'openai', model: config.model };
+}
+
+function auditUsage(records: UsageRecord[]) {
+  if (records.length === 0) return {};
+  return {
+    promptTokens: records.reduce((sum, r) => sum + r.promptTokens, 0),
+    completionTokens: records.reduce((sum, r) => sum + r.completionTokens, 0),
+    cost: records.reduce((sum, r) => sum + r.cost, 0),
+    ...(records.some(r => r.estimated) ? { estimated: true } : {})
+  };
+}
+
+// Audit log entry of one paragraph request; each provider call it makes adds its usage
+function beginAudit(request: AIRequest, mode: ModeSettings, messages: ChatMessage[], options: { stream: boolean; maxTokens: number }) {
+  const started = Date.now();
+  const usage: UsageRecord[] = [];
+  const finish = (config: LLMConfig, fields: Pick<AuditEntry, 'status'> & Partial<Pick<AuditEntry, 'response' | 'error' | 'model' | 'failovers'>>) => {
+    if (!request.projectId) return;
+    appendAuditEntry(request.projectId, {
+      mode: request.mode,
+      stream: options.stream,
+      ...auditProvider(config),
+      temperature: mode.temperature,
+      maxTokens: options.maxTokens,
+      messages,
+      latencyMs: Date.now() - started,
+      ...auditUsage(usage),
+      ...fields
+    });
+  };
+  return {
+    track: (record: UsageRecord) => { usage.push(record); },
+    finish,
+    fail: (config: LLMConfig, error: unknown) => finish(config, { status: 'error', error: error instanceof Error ? error.message : String(error) })
+  };
+}
+
+export class AIModeError extends RequestError {
+  override name = 'AIModeError';
+}
+
+interface ModeSettings {
+  system: string;
+  user: string;
+  temperature: number;
+  output: 'rewrite' | 'commentary' | 'diagnosis';
+}
+
+const CUSTOM_OUTPUT_INSTRUCTIONS: Record<CustomAIMode['output'], string> = {
+  rewrite: 'Return ONLY the revised text, without any explanations.',
+  commentary: 'Reply with your comments on the text. Do NOT return a rewritten version of the whole text.'
+};
+
+function resolveMode(request: AIRequest): ModeSettings {
+  if (isBuiltinMode(request.mode)) {
+    return {
+      ...DEFAULT_PROMPTS[request.mode],
+      temperature: request.mode === 'quickfix' ? 0.1 : request.mode === 'translate' || request.mode === 'compress' ? 0.2 : 0.3,
+      output: request.mode === 'diagnose' ? 'diagnosis' : 'rewrite'
+    };
+  }
+
+  const custom = request.projectId
+    ? getProjectPrompts(request.projectId).customModes.find(m => m.id === request.mode)
+    : undefined;
+  if (!custom) {
+    throw new AIModeError(`Unknown AI mode: ${request.mode}`);
+  }
+  return {
+    system: DEFAULT_SHARED_SYSTEM,
+    user: custom.userPrompt,
+    temperature: custom.temperature,
+    output: custom.output
+  };
+}
+
+async function resolvePromptVariables(request: AIRequest, paperContext?: PaperContext): Promise<TemplateValues> {
+  return resolveTemplateValues({
+    content: request.content,
+    context: request.context,
+    config: request.projectId ? await getProjectConfig(request.projectId) : null,
+    paperContext: paperContext
+      ?? (request.projectId ? getProjectPrompts(request.projectId).context : { venue: '' }),
+    style: request.projectId ? getActiveStylePrompt(request.projectId) : '',
+    glossary: request.projectId ? formatGlossaryPrompt(getGlossary(request.projectId)) : ''
   });
+}
 
-  const systemPrompt = request.systemPrompt || DEFAULT_PROMPTS[request.mode].system;
-  const userContent = `${request.userPrompt || DEFAULT_PROMPTS[request.mode].user}\n\n${request.content}`;
+// Variables are only resolved when a prompt uses them: that walks the whole document outline
+async function buildRequestMessages(request: AIRequest, mode: ModeSettings): Promise<ChatMessage[]> {
+  const templates = [request.systemPrompt || mode.system, request.userPrompt || mode.user];
+  const variables = templates.some(t => usesTemplateVariables(t)) ? await resolvePromptVariables(request) : undefined;
+  return buildMessages(request, mode, variables);
+}
 
-  const historyMessages = request.history?.map(m => ({
+// How a mode's reply is used: a rewrite, commentary, or Diagnose issues
+export function getModeOutput(request: AIRequest): ModeSettings['output'] {
+  return resolveMode(request).output;
+}
+
+function buildMessages(
+  request: AIRequest,
+  mode: ModeSettings = resolveMode(request),
+  variables?: TemplateValues
+): ChatMessage[] {
+  const render = (template: string) => (variables ? renderPromptTemplate(template, variables) : template);
+
+  const systemTemplate = request.systemPrompt || mode.system;
+  let systemPrompt = render(systemTemplate);
+  // The project glossary applies to every mode; prompts that place {{glossary}} themselves get it once
+  const placesGlossary = [systemTemplate, request.userPrompt || mode.user].some(t => usesTemplateVariables(t, 'glossary'));
+  const glossary = request.projectId && !placesGlossary ? formatGlossaryPrompt(getGlossary(request.projectId)) : '';
+  if (glossary) systemPrompt += `\n\n${glossary}`;
+  if (mode.output === 'diagnosis') {
+    systemPrompt += `\n\n${DIAGNOSE_SCHEMA_INSTRUCTIONS}`;
+  } else if (request.mode === 'translate') {
+    systemPrompt += `\n\n${TRANSLATE_INSTRUCTIONS}`;
+  } else if (request.mode === 'compress') {
+    systemPrompt += `\n\n${COMPRESS_INSTRUCTIONS}`;
+  } else if (!isBuiltinMode(request.mode)) {
+    systemPrompt += `\n\n${CUSTOM_OUTPUT_INSTRUCTIONS[mode.output]}`;
+  }
+  const userContent = `${render(request.userPrompt || mode.user)}\n\n${request.content}`;
+
+  const historyMessages: ChatMessage[] = request.history?.map(m => ({
     role: m.role === 'ai' ? 'assistant' : 'user',
     content: m.content
-  })) as OpenAI.Chat.Completions.ChatCompletionMessageParam[] || [];
+  })) || [];
+
+  return [
+    { role: 'system', content: systemPrompt },
+    ...historyMessages,
+    { role: 'user', content: userContent }
+  ];
+}
+
+export interface AIResult {
+  content: string;
+  model: string;
+  issues?: DiagnoseIssue[]; // Diagnose mode only; content then holds the summary
+  cached?: boolean; // Served from the response cache without calling the provider
+  failovers?: FailoverEvent[]; // Providers that failed before one answered
+}
 
+// Validate a Diagnose reply; if it does not match the schema, ask the model once to repair it.
+// Also returns the reply that parsed, which is what gets cached.
+async function finalizeDiagnose(adapter: LLMAdapter, config: LLMConfig, request: AIRequest, messages: ChatMessage[], raw: string, onUsage?: (record: UsageRecord) => void) {
   try {
-    const response = await client.chat.completions.create({
+    return { result: parseDiagnoseResponse(raw, request.content), raw };
+  } catch (error) {
+    if (!(error instanceof DiagnoseParseError)) throw error;
+
+    const repairMessages: ChatMessage[] = [
+      ...messages,
+      { role: 'assistant', content: raw },
+      { role: 'user', content: `Your reply did not match the required format (${error.message}). Reply again with only the JSON object.` }
+    ];
+    const repaired = await adapter.chat(config, {
       model: config.model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        ...historyMessages,
-        { role: 'user', content: userContent }
-      ],
-      temperature: request.mode === 'quickfix' ? 0.1 : 0.3,
-      max_tokens: 4000
+      messages: repairMessages,
+      temperature: 0,
+      maxTokens: 4000,
+      timeout: 30000
     });
+    onUsage?.(trackUsage(config, request, repairMessages, repaired));
+
+    try {
+      return { result: parseDiagnoseResponse(repaired.content, request.content), raw: repaired.content };
+    } catch (retryError) {
+      if (retryError instanceof DiagnoseParseError) {
+        throw new Error(`Diagnose response could not be parsed: ${retryError.message}`);
+      }
+      throw retryError;
+    }
+  }
+}
 
-    const content = response.choices[0]?.message?.content;
+// Cache identity of a request; null when it cannot be cached (no project to store it in)
+function getCacheKeyParts(request: AIRequest, mode: ModeSettings, config: LLMConfig, messages: ChatMessage[]): CacheKeyParts | null {
+  if (!request.projectId) return null;
+  return {
+    provider: `${config.kind || 'openai'}:${config.baseUrl}`,
+    model: config.model,
+    mode: request.mode,
+    temperature: mode.temperature,
+    system: messages[0]?.content ?? '',
+    user: messages[messages.length - 1]?.content ?? '',
+    history: messages.slice(1, -1).map(m => ({ role: m.role, content: m.content }))
+  };
+}
+
+// A cached reply goes through the same parsing as a fresh one; Diagnose issues get new ids
+function readCachedResult(request: AIRequest, mode: ModeSettings, cacheParts: CacheKeyParts | null): { result: AIResult; raw: string } | null {
+  if (!cacheParts || request.noCache) return null;
+
+  const entry = getCachedResponse(request.projectId!, responseCacheKey(cacheParts));
+  if (!entry) return null;
+
+  if (mode.output === 'diagnosis') {
+    try {
+      const { summary, issues } = parseDiagnoseResponse(entry.response, request.content);
+      return { result: { content: summary, model: entry.model, issues, cached: true }, raw: entry.response };
+    } catch {
+      return null; // Stored before the schema changed: fetch a fresh reply
+    }
+  }
+  return { result: { content: stripMarkdownCodeFences(entry.response), model: entry.model, cached: true }, raw: entry.response };
+}
+
+function writeCachedResult(request: AIRequest, cacheParts: CacheKeyParts | null, raw: string) {
+  if (cacheParts) putCachedResponse(request.projectId!, responseCacheKey(cacheParts), cacheParts, raw);
+}
+
+// Active provider first, then the failover chain when enabled
+function getAttemptConfigs(settings: FailoverSettings): LLMConfig[] {
+  const primary = getLLMConfig();
+  if (!settings.enabled) return [primary];
+
+  const providers = getLLMProviders();
+  const fallbacks = settings.chain
+    .map(target => {
+      const provider = providers.find(p => p.id === target.providerId);
+      return provider ? providerConfig(provider, target.model) : null;
+    })
+    .filter((c): c is LLMConfig => c !== null && !(c.providerId === primary.providerId && c.model === primary.model));
+  return [primary, ...fallbacks];
+}
+
+function getFailoverOptions(settings: FailoverSettings, signal?: AbortSignal) {
+  return {
+    maxRetries: settings.enabled ? settings.maxRetries : 0,
+    baseDelayMs: settings.baseDelayMs,
+    signal,
+    onFailover: settings.enabled ? recordFailoverEvent : undefined
+  };
+}
+
+// Names the fallback that answered, so clients can tell it apart from the active provider
+function answeredBy(config: LLMConfig, failovers: FailoverEvent[]): string {
+  return failovers.length ? `${config.model} via ${config.providerName || config.kind || 'openai'}` : config.model;
+}
+
+export async function processWithAI(request: AIRequest): Promise<AIResult> {
+  const failoverSettings = getFailoverSettings();
+  const configs = getAttemptConfigs(failoverSettings);
+  const mode = resolveMode(request);
+  const messages = await buildRequestMessages(request, mode);
+  const audit = beginAudit(request, mode, messages, { stream: false, maxTokens: 4000 });
+
+  const cached = readCachedResult(request, mode, getCacheKeyParts(request, mode, configs[0]!, messages));
+  if (cached) {
+    audit.finish(configs[0]!, { status: 'cached', model: cached.result.model, response: cached.raw });
+    return cached.result;
+  }
+
+  let current = configs[0]!;
+  try {
+    const { value: response, config, failovers } = await withFailover(configs, async (config) => {
+      current = config;
+      const adapter = getAdapterForConfig(config);
+      assertWithinBudget(config);
+      const response = await adapter.chat(config, {
+        model: config.model,
+        messages,
+        temperature: mode.temperature,
+        maxTokens: 4000,
+        timeout: 30000 // Increased timeout for long content
+      });
+      audit.track(trackUsage(config, request, messages, response));
+      return response;
+    }, getFailoverOptions(failoverSettings));
+
+    if (!response.content) {
+      throw new Error('AI API returned empty content');
+    }
+
+    const model = answeredBy(config, failovers);
+    const cacheParts = getCacheKeyParts(request, mode, config, messages);
+    const failoverInfo = failovers.length ? { failovers } : {};
+    const auditFailovers = failovers.length ? { failovers: failovers.length } : {};
+
+    if (mode.output === 'diagnosis') {
+      const { result: { summary, issues }, raw } = await finalizeDiagnose(getAdapter(config.kind), config, request, messages, response.content, audit.track);
+      writeCachedResult(request, cacheParts, raw);
+      audit.finish(config, { status: 'ok', response: raw, ...auditFailovers });
+      return { content: summary, model, issues, ...failoverInfo };
+    }
+
+    writeCachedResult(request, cacheParts, response.content);
+    audit.finish(config, { status: 'ok', response: response.content, ...auditFailovers });
+    return {
+      content: stripMarkdownCodeFences(response.content),
+      model,
+      ...failoverInfo
+    };
+  } catch (error) {
+    audit.fail(current, error);
+    throw error;
+  }
+}
+
+// Streaming variant of processWithAI: onDelta receives each token chunk as it arrives.
+// If the signal aborts mid-stream, resolves with the partial text instead of throwing.
+// Failover only happens before the first chunk; after that an error ends the stream.
+export async function streamWithAI(
+  request: AIRequest,
+  onDelta: (text: string) => void,
+  signal?: AbortSignal
+): Promise<AIResult & { aborted: boolean }> {
+  const failoverSettings = getFailoverSettings();
+  const configs = getAttemptConfigs(failoverSettings);
+  const mode = resolveMode(request);
+  const messages = await buildRequestMessages(request, mode);
+  const audit = beginAudit(request, mode, messages, { stream: true, maxTokens: 8000 });
+
+  const cached = readCachedResult(request, mode, getCacheKeyParts(request, mode, configs[0]!, messages));
+  if (cached) {
+    audit.finish(configs[0]!, { status: 'cached', model: cached.result.model, response: cached.raw });
+    // Replay the stored reply as a single chunk so clients handle it like a live stream
+    onDelta(cached.raw);
+    return { ...cached.result, aborted: false };
+  }
+
+  let content = '';
+  let current = configs[0]!;
+  let answered: { config: LLMConfig; failovers: FailoverEvent[] };
+  try {
+    const { value: response, ...rest } = await withFailover(configs, async (config) => {
+      current = config;
+      const adapter = getAdapterForConfig(config);
+      assertWithinBudget(config);
+      const response = await adapter.streamChat(config, {
+        model: config.model,
+        messages,
+        temperature: mode.temperature,
+        maxTokens: 8000,
+        // The timeout only covers waiting for the first byte; long generations keep streaming
+        timeout: 60000,
+        signal
+      }, (text) => {
+        content += text;
+        onDelta(text);
+      });
+      audit.track(trackUsage(config, request, messages, response));
+      return response;
+    }, { ...getFailoverOptions(failoverSettings, signal), canRetry: () => !content });
+    content = response.content;
+    answered = rest;
+  } catch (error) {
+    if (signal?.aborted) {
+      // Tokens generated before the cancel are still billed
+      if (content) audit.track(trackUsage(current, request, messages, { content }));
+      audit.finish(current, { status: 'aborted', response: content });
+      // A partial Diagnose reply is truncated JSON, so there is nothing useful to keep
+      if (mode.output === 'diagnosis') return { content: '', model: current.model, aborted: true };
+      return { content: stripMarkdownCodeFences(content), model: current.model, aborted: true };
+    }
+    audit.fail(current, error);
+    throw error;
+  }
+
+  const { config, failovers } = answered;
+  try {
     if (!content) {
       throw new Error('AI API returned empty content');
     }
 
+    const model = answeredBy(config, failovers);
+    const cacheParts = getCacheKeyParts(request, mode, config, messages);
+    const failoverInfo = failovers.length ? { failovers } : {};
+    const auditFailovers = failovers.length ? { failovers: failovers.length } : {};
+
+    if (mode.output === 'diagnosis') {
+      const { result: { summary, issues }, raw } = await finalizeDiagnose(getAdapter(config.kind), config, request, messages, content, audit.track);
+      writeCachedResult(request, cacheParts, raw);
+      audit.finish(config, { status: 'ok', response: raw, ...auditFailovers });
+      return { content: summary, model, issues, aborted: false, ...failoverInfo };
+    }
+
+    writeCachedResult(request, cacheParts, content);
+    audit.finish(config, { status: 'ok', response: content, ...auditFailovers });
     return {
       content: stripMarkdownCodeFences(content),
-      model: config.model
+      model,
+      aborted: false,
+      ...failoverInfo
     };
   } catch (error) {
-    if (error instanceof OpenAI.APIError) {
-      throw new Error(`API error ${error.status}: ${error.message}`);
-    }
+    audit.fail(config, error);
     throw error;
   }
 }
 
-function stripMarkdownCodeFences(text: string): string {
-  const trimmed = text.trim();
-  const match = trimmed.match(/^\s*```[\w-]*\s*\n([\s\S]*?)\n```\s*$/);
-  return (match?.[1] ?? trimmed).trim();
+/**
+ * One chat call outside the paragraph modes (e.g. the research agent). Goes through
+ * the same failover, budget check and usage accounting; usage is recorded under label.
+ */
+export async function chatWithAI(
+  messages: ChatMessage[],
+  options: { projectId?: string; label: string; temperature?: number; maxTokens?: number; signal?: AbortSignal }
+): Promise<AIResult> {
+  const failoverSettings = getFailoverSettings();
+  const { value: response, config, failovers } = await withFailover(getAttemptConfigs(failoverSettings), async (config) => {
+    const adapter = getAdapterForConfig(config);
+    assertWithinBudget(config);
+    const response = await adapter.chat(config, {
+      model: config.model,
+      messages,
+      temperature: options.temperature ?? 0.3,
+      maxTokens: options.maxTokens ?? 4000,
+      timeout: 60000,
+      signal: options.signal
+    });
+    trackUsage(config, { projectId: options.projectId, mode: options.label }, messages, response);
+    return response;
+  }, getFailoverOptions(failoverSettings, options.signal));
+
+  if (!response.content) {
+    throw new Error('AI API returned empty content');
+  }
+  return { content: response.content, model: answeredBy(config, failovers), ...(failovers.length ? { failovers } : {}) };
+}
+
+export interface CompareTarget {
+  providerId: string;
+  model: string;
+}
+
+export interface CompareCandidate extends CompareTarget {
+  providerName: string;
+  content?: string;
+  error?: string; // Set instead of content when this target failed
+  cached?: boolean;
+}
+
+/**
+ * Send one rewrite request to several provider/model pairs at once, for a
+ * side-by-side comparison. Each target is called as configured, without
+ * failover, so a candidate always comes from the model it is labelled with;
+ * a failing target reports its error without failing the others.
+ */
+export async function compareWithAI(request: AIRequest, targets: CompareTarget[]): Promise<CompareCandidate[]> {
+  const mode = resolveMode(request);
+  if (mode.output !== 'rewrite') {
+    throw new AIModeError('Only modes that return a rewrite can be compared');
+  }
+  const providers = getLLMProviders();
+  const messages = await buildRequestMessages(request, mode);
+
+  return Promise.all(targets.map(async (target): Promise<CompareCandidate> => {
+    const provider = providers.find(p => p.id === target.providerId);
+    const candidate: CompareCandidate = { ...target, providerName: provider?.name || target.providerId };
+    if (!provider) return { ...candidate, error: 'Provider not found' };
+
+    const config = providerConfig(provider, target.model);
+    const cacheParts = getCacheKeyParts(request, mode, config, messages);
+    try {
+      const cached = readCachedResult(request, mode, cacheParts);
+      if (cached) return { ...candidate, content: cached.result.content, cached: true };
+
+      const adapter = getAdapterForConfig(config);
+      assertWithinBudget(config);
+      const response = await adapter.chat(config, {
+        model: config.model,
+        messages,
+        temperature: mode.temperature,
+        maxTokens: 4000,
+        timeout: 60000
+      });
+      trackUsage(config, request, messages, response);
+      if (!response.content) throw new Error('AI API returned empty content');
+
+      writeCachedResult(request, cacheParts, response.content);
+      return { ...candidate, content: stripMarkdownCodeFences(response.content) };
+    } catch (error) {
+      return { ...candidate, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+}
+
+export interface AIVariants {
+  variants: { content: string; temperature: number }[];
+  model: string;
+  sampling: 'n' | 'parallel'; // One call with the provider's n parameter, or one call per variant
+  failovers?: FailoverEvent[];
+}
+
+const MAX_VARIANTS = 5;
+const VARIANT_TEMPERATURE_STEP = 0.25;
+const MIN_SAMPLED_TEMPERATURE = 0.7; // n samples at the mode's low temperature barely differ
+
+/**
+ * Several rewrites of the same request, for picking and mixing. Providers that
+ * support n sample them in one call; others get parallel calls at rising
+ * temperatures, starting from the mode's own. Variants are not cached.
+ */
+export async function generateVariants(request: AIRequest, count: number): Promise<AIVariants> {
+  const mode = resolveMode(request);
+  if (mode.output !== 'rewrite') {
+    throw new AIModeError('Only modes that return a rewrite have variants');
+  }
+  count = Math.min(MAX_VARIANTS, Math.max(2, Math.round(count) || 2));
+  const failoverSettings = getFailoverSettings();
+  const messages = await buildRequestMessages(request, mode);
+
+  const { value, config, failovers } = await withFailover(getAttemptConfigs(failoverSettings), async (config) => {
+    const adapter = getAdapterForConfig(config);
+    assertWithinBudget(config);
+    const call = async (temperature: number, n?: number) => {
+      const response = await adapter.chat(config, { model: config.model, messages, temperature, maxTokens: 4000, timeout: 60000, n });
+      trackUsage(config, request, messages, response);
+      return response;
+    };
+
+    if (adapter.supportsN) {
+      const temperature = Math.max(mode.temperature, MIN_SAMPLED_TEMPERATURE);
+      const response = await call(temperature, count);
+      return { sampling: 'n' as const, variants: (response.choices ?? [response.content]).map(content => ({ content, temperature })) };
+    }
+    const temperatures = Array.from({ length: count }, (_, i) => Math.min(1, Math.round((mode.temperature + i * VARIANT_TEMPERATURE_STEP) * 100) / 100));
+    const responses = await Promise.all(temperatures.map(t => call(t)));
+    return { sampling: 'parallel' as const, variants: responses.map((r, i) => ({ content: r.content, temperature: temperatures[i]! })) };
+  }, getFailoverOptions(failoverSettings));
+
+  const variants = value.variants
+    .map(v => ({ ...v, content: stripMarkdownCodeFences(v.content) }))
+    .filter(v => v.content.trim());
+  if (variants.length === 0) {
+    throw new Error('AI API returned empty content');
+  }
+  return { variants, model: answeredBy(config, failovers), sampling: value.sampling, ...(failovers.length ? { failovers } : {}) };
+}
+
+const CHAT_ROLES = new Set<ChatMessage['role']>(['system', 'user', 'assistant']);
+
+/**
+ * Send a logged request again, to another provider/model or with edited
+ * messages. It goes straight to that model, without the cache or failover, so
+ * the reply comes from the model it is labelled with. The replay is logged as a
+ * new entry, also when the call fails.
+ */
+export async function replayAuditEntry(
+  projectId: string,
+  entryId: string,
+  options: { providerId?: string; model?: string; messages?: ChatMessage[]; temperature?: number } = {}
+): Promise<AuditEntry> {
+  const entry = getAuditEntry(projectId, entryId);
+  if (options.messages && !(Array.isArray(options.messages) && options.messages.length > 0 && options.messages.every(m => CHAT_ROLES.has(m?.role) && typeof m.content === 'string'))) {
+    throw new AuditLogError('Messages must be a non-empty list of system, user or assistant messages');
+  }
+
+  let config = getLLMConfig();
+  const providerId = options.providerId || entry.providerId;
+  if (providerId) {
+    const provider = getLLMProviders().find(p => p.id === providerId);
+    if (!provider) throw new AuditLogError('Provider not found', 404);
+    config = providerConfig(provider, options.model || entry.model);
+  } else if (options.model) {
+    config = { ...config, model: options.model };
+  }
+
+  const messages = options.messages ?? entry.messages;
+  const temperature = options.temperature ?? entry.temperature;
+  const started = Date.now();
+  const base = { mode: entry.mode, stream: false, ...auditProvider(config), temperature, maxTokens: entry.maxTokens, messages, replayOf: entry.id };
+  try {
+    const adapter = getAdapterForConfig(config);
+    assertWithinBudget(config);
+    const response = await adapter.chat(config, { model: config.model, messages, temperature, maxTokens: entry.maxTokens, timeout: 60000 });
+    const usage = trackUsage(config, { projectId, mode: 'replay' }, messages, response);
+    return appendAuditEntry(projectId, { ...base, status: 'ok', response: response.content, latencyMs: Date.now() - started, ...auditUsage([usage]) });
+  } catch (error) {
+    return appendAuditEntry(projectId, { ...base, status: 'error', error: error instanceof Error ? error.message : String(error), latencyMs: Date.now() - started });
+  }
+}
+
+/**
+ * The exact messages a request would send, with every {{variable}} expanded.
+ * paperContext overrides the saved venue so unsaved edits can be previewed.
+ */
+export async function previewPrompt(
+  request: AIRequest,
+  paperContext?: PaperContext
+): Promise<{ messages: ChatMessage[]; variables: TemplateValues }> {
+  const mode = resolveMode(request);
+  const variables = await resolvePromptVariables(request, paperContext);
+  return { messages: buildMessages(request, mode, variables), variables };
 }
 
 export async function loadAICache(projectPath: string): Promise<Record<string, any[]>> {
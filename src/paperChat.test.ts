@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { askPaper, listPaperChat, clearPaperChat, retrievePassages, PaperChatError, type PaperChat } from './paperChat';
+import type { ChatMessage } from './llmAdapters';
+
+const projectId = `test-paper-chat-${process.pid}`;
+
+describe('paperChat', () => {
+  let root: string;
+  let mainPath: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'paper-chat-'));
+    mkdirSync(join(root, 'sections'));
+    mainPath = join(root, 'main.tex');
+    writeFileSync(mainPath, '\\begin{document}\n\\input{sections/intro}\n\\input{sections/eval}\n\\end{document}');
+    writeFileSync(join(root, 'sections', 'intro.tex'), [
+      '\\section{Introduction}',
+      'Enclaves leak secrets through page faults.',
+      '',
+      '\\section{Threat Model}',
+      'The attacker controls the operating system kernel.'
+    ].join('\n'));
+    writeFileSync(join(root, 'sections', 'eval.tex'), [
+      '\\section{Evaluation}',
+      'We measure overhead on SPEC CPU.',
+      '',
+      'The prototype blocks every page fault attack we tried.'
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(join(process.cwd(), 'projs', projectId), { recursive: true, force: true });
+  });
+
+  it('should retrieve passages with section numbers, following "Section N" references', () => {
+    const passages = retrievePassages('Is the threat model consistent with Section 3?', mainPath, root);
+    expect(passages.map(p => [p.label, p.section])).toEqual([
+      ['sections/intro.tex:4', '2 Threat Model'],
+      ['sections/eval.tex:1', '3 Evaluation']
+    ]);
+  });
+
+  it('should answer from the retrieved passages and mark the cited ones', async () => {
+    let sent: ChatMessage[] = [];
+    const chat: PaperChat = async (messages) => {
+      sent = messages;
+      return { content: 'Page faults are blocked [sections/eval.tex:4].', model: 'test-model' };
+    };
+
+    const messages = await askPaper(projectId, 'Where do we claim page fault attacks are blocked?', { mainPath, rootDir: root }, chat);
+    expect(sent[sent.length - 1]!.content).toContain('[sections/eval.tex:1] (Section 3 Evaluation)\n\\section{Evaluation}');
+
+    const answer = messages[1]!;
+    expect(answer).toMatchObject({ role: 'assistant', model: 'test-model' });
+    // The anchor points inside the passage that starts at line 1
+    expect(answer.sources!.filter(s => s.cited).map(s => s.label)).toEqual(['sections/eval.tex:1']);
+
+    // The follow-up carries the earlier turns
+    await askPaper(projectId, 'And in the introduction?', { mainPath, rootDir: root }, chat);
+    expect(sent.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(listPaperChat(projectId)).toHaveLength(4);
+
+    clearPaperChat(projectId);
+    expect(listPaperChat(projectId)).toEqual([]);
+
+    const unmatched = await askPaper(projectId, 'zebra', { mainPath, rootDir: root }, async () => { throw new Error('not called'); });
+    expect(unmatched[1]!.sources).toEqual([]);
+    await expect(askPaper(projectId, ' ', { mainPath, rootDir: root }, chat)).rejects.toThrow(PaperChatError);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Paper chat - questions about the whole paper ("where do we claim X?", "which
+ * evaluation backs contribution 3?"). Each question retrieves the best matching
+ * paragraphs with BM25, the model answers from those passages only, and cites
+ * them as [file.tex:line] anchors the editor can jump to.
+ */
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { chatWithAI, getProjectPrompts } from './llmService';
+import { parseDocumentOutline, findEnclosingSection, type DocumentOutline } from './latexOutline';
+import { readParagraphs, rankParagraphs, excerpt } from './retrieval';
+import { splitAnchors, resolveAnchor } from '../web/src/utils/paperChat';
+import { RequestError } from './requestError';
+import type { ChatMessage } from './llmAdapters';
+
+const PROJS_DIR = join(process.cwd(), 'projs');
+const MAX_SOURCES = 8;
+const HISTORY_TURNS = 6; // Earlier messages sent along for follow-up questions
+
+export interface PaperChatSource {
+  label: string; // Anchor, e.g. "sections/eval.tex:42"
+  filePath: string;
+  lineStart: number;
+  section?: string; // e.g. "6 Evaluation"
+  excerpt: string;
+  score: number;
+  cited: boolean; // Whether the answer points into this passage
+}
+
+export interface PaperChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources?: PaperChatSource[]; // assistant only: the retrieved passages
+  model?: string;
+  createdAt: string;
+}
+
+// Model turn; injectable for tests
+export type PaperChat = (messages: ChatMessage[], projectId: string) => Promise<{ content: string; model: string }>;
+
+export class PaperChatError extends RequestError {
+  override name = 'PaperChatError';
+}
+
+const defaultChat: PaperChat = async (messages, projectId) =>
+  chatWithAI(messages, { projectId, label: 'paper-chat', temperature: 0.2, maxTokens: 2000 });
+
+const PAPER_CHAT_INSTRUCTIONS = `**Task:** Answer the author's question about their paper, using only the numbered passages from the paper below.
+- Cite every claim with the anchor of the passage it comes from, in square brackets, e.g. [sections/eval.tex:42]. You may point at a later line inside a passage.
+- When passages disagree (e.g. the threat model and a later section), say so and cite both.
+- If the passages do not answer the question, say so plainly; do not guess what the rest of the paper says.
+- Be brief: a few sentences or a short list, in Markdown.`;
+
+function chatFile(projectId: string): string {
+  return join(PROJS_DIR, projectId, 'paper-chat.json');
+}
+
+export function listPaperChat(projectId: string): PaperChatMessage[] {
+  const file = chatFile(projectId);
+  if (!existsSync(file)) return [];
+  try {
+    const data = JSON.parse(readFileSync(file, 'utf-8'));
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    console.error('Failed to load paper chat:', error);
+    return [];
+  }
+}
+
+function writeChat(projectId: string, messages: PaperChatMessage[]) {
+  const dir = join(PROJS_DIR, projectId);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(chatFile(projectId), JSON.stringify(messages, null, 2), 'utf-8');
+}
+
+export function clearPaperChat(projectId: string) {
+  writeChat(projectId, []);
+}
+
+// "6", "6.2", ... per outline section id, counting as LaTeX does
+function numberSections(outline: DocumentOutline): Map<string, string> {
+  const numbers = new Map<string, string>();
+  const counters: number[] = [];
+  for (const section of outline.sections) {
+    counters.length = section.level;
+    counters[section.level - 1] = (counters[section.level - 1] ?? 0) + 1;
+    numbers.set(section.id, Array.from(counters, c => c ?? 0).join('.'));
+  }
+  return numbers;
+}
+
+/**
+ * Find the passages for a question. Each paragraph is searched together with
+ * its section heading, and "Section 6" in the question adds that heading's
+ * words to the query.
+ */
+export function retrievePassages(question: string, mainPath: string, rootDir: string): (PaperChatSource & { content: string })[] {
+  const outline = parseDocumentOutline(mainPath);
+  const numbers = numberSections(outline);
+  const headings = new Map(outline.sections.map(s => [numbers.get(s.id)!, s.title]));
+
+  const referenced = [...question.matchAll(/\b(?:section|sec\.|§)\s*(\d+(?:\.\d+)*)/gi)].map(m => headings.get(m[1]!)).filter(Boolean);
+  const query = [question, ...referenced].join(' ');
+
+  const paragraphs = readParagraphs(mainPath).map(paragraph => {
+    const section = findEnclosingSection(outline, paragraph.filePath, paragraph.lineStart);
+    const heading = section ? `${numbers.get(section.id)} ${section.title}` : undefined;
+    return { ...paragraph, text: paragraph.content, heading, content: `${heading ?? ''}\n${paragraph.content}` };
+  });
+
+  return rankParagraphs(query, paragraphs, MAX_SOURCES).map(({ paragraph, score }) => ({
+    label: `${relative(rootDir, paragraph.filePath)}:${paragraph.lineStart}`,
+    filePath: paragraph.filePath,
+    lineStart: paragraph.lineStart,
+    section: paragraph.heading,
+    excerpt: excerpt(paragraph.text),
+    score: Math.round(score * 100) / 100,
+    cited: false,
+    content: paragraph.text
+  }));
+}
+
+export async function askPaper(
+  projectId: string,
+  question: string,
+  options: { mainPath: string; rootDir: string },
+  chat: PaperChat = defaultChat
+): Promise<PaperChatMessage[]> {
+  if (!question?.trim()) throw new PaperChatError('Ask a question');
+  const history = listPaperChat(projectId);
+  const stamp = Date.now().toString(36);
+  const asked: PaperChatMessage = { id: `msg_${stamp}_q`, role: 'user', content: question.trim(), createdAt: new Date().toISOString() };
+
+  // A follow-up ("and in the evaluation?") searches with the previous question too
+  const previous = [...history].reverse().find(m => m.role === 'user');
+  const passages = retrievePassages(previous ? `${asked.content} ${previous.content}` : asked.content, options.mainPath, options.rootDir);
+
+  let answer: PaperChatMessage;
+  if (passages.length === 0) {
+    answer = {
+      id: `msg_${stamp}_a`,
+      role: 'assistant',
+      content: 'No passage in the paper matches this question. Try the words the paper itself uses.',
+      sources: [],
+      createdAt: new Date().toISOString()
+    };
+  } else {
+    const context = passages.map((p, i) => `[${i + 1}] [${p.label}]${p.section ? ` (Section ${p.section})` : ''}\n${p.content}`).join('\n\n');
+    const result = await chat([
+      { role: 'system', content: `${getProjectPrompts(projectId).system}\n\n${PAPER_CHAT_INSTRUCTIONS}` },
+      ...history.slice(-HISTORY_TURNS).map(m => ({ role: m.role, content: m.content })),
+      { role: 'user', content: `**Passages:**\n\n${context}\n\n**Question:** ${asked.content}` }
+    ], projectId);
+
+    const sources = passages.map(({ content: _content, ...source }) => source);
+    for (const segment of splitAnchors(result.content)) {
+      if (!('anchor' in segment)) continue;
+      const source = resolveAnchor(segment.anchor, sources);
+      if (source) source.cited = true;
+    }
+    answer = { id: `msg_${stamp}_a`, role: 'assistant', content: result.content.trim(), sources, model: result.model, createdAt: new Date().toISOString() };
+  }
+
+  const messages = [...history, asked, answer];
+  writeChat(projectId, messages);
+  return messages;
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { flattenDocument } from './latexOutline';
+import {
+  chunkDocument,
+  parseReviewReport,
+  startPaperReview,
+  listPaperReviews,
+  deletePaperReview,
+  BUILT_IN_RUBRICS,
+  type PaperReview,
+  type ReviewChat
+} from './paperReview';
+
+const projectId = `test-paper-review-${process.pid}`;
+const rubric = BUILT_IN_RUBRICS.find(r => r.id === 'usenix')!;
+
+const REPORT = JSON.stringify({
+  summary: 'Proposes X.',
+  strengths: ['Clear threat model'],
+  weaknesses: ['No comparison with Y', ''],
+  questions: ['How does X scale?'],
+  scores: { overall: { score: 3, justification: 'Solid but narrow' }, Novelty: 9, merit: { score: 'high' } }
+});
+
+async function settled(review: PaperReview) {
+  for (let i = 0; i < 100 && review.status === 'running'; i++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return review;
+}
+
+describe('paperReview', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'review-'));
+    mkdirSync(join(root, 'sections'));
+    writeFileSync(join(root, 'main.tex'), [
+      '\\documentclass{article}',
+      '\\input{macros}',
+      '\\title{Paper X}',
+      '\\begin{document}',
+      '% TODO: drop this',
+      '\\input{sections/intro}',
+      '\\section{Design}',
+      'Design text.',
+      '\\end{document}',
+      'Trailing notes.'
+    ].join('\n'));
+    writeFileSync(join(root, 'macros.tex'), '\\newcommand{\\sys}{X}');
+    writeFileSync(join(root, 'sections', 'intro.tex'), '\\section{Intro}\nFirst paragraph.\n\nSecond paragraph.');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(join(process.cwd(), 'projs', projectId), { recursive: true, force: true });
+  });
+
+  it('should flatten the body in reading order, following \\input', () => {
+    const lines = flattenDocument(join(root, 'main.tex'));
+    expect(lines.map(l => l.text)).toEqual([
+      '\\title{Paper X}',
+      '\\section{Intro}',
+      'First paragraph.',
+      '',
+      'Second paragraph.',
+      '\\section{Design}',
+      'Design text.'
+    ]);
+    expect(lines[2]).toMatchObject({ filePath: join(root, 'sections', 'intro.tex'), line: 2 });
+  });
+
+  it('should cut chunks at paragraph breaks and mark the file each one starts in', () => {
+    const chunks = chunkDocument(flattenDocument(join(root, 'main.tex')), root, 50);
+    expect(chunks).toEqual([
+      '% File: main.tex\n\\title{Paper X}\n% File: sections/intro.tex\n\\section{Intro}\nFirst paragraph.',
+      '% File: sections/intro.tex\nSecond paragraph.\n% File: main.tex\n\\section{Design}\nDesign text.'
+    ]);
+  });
+
+  it('should match scores to the rubric and clamp them to its scale', () => {
+    const report = parseReviewReport(`Here is my review:\n${REPORT}`, rubric);
+    expect(report.weaknesses).toEqual(['No comparison with Y']);
+    expect(report.scores.map(s => s.score)).toEqual([3, 5, null, null, null]);
+    expect(report.scores[0]!.justification).toBe('Solid but narrow');
+    expect(() => parseReviewReport('I cannot review this.', rubric)).toThrow('JSON');
+  });
+
+  it('should summarize long papers part by part and save numbered versions', async () => {
+    const calls: string[] = [];
+    const chat: ReviewChat = async (messages) => {
+      const user = messages[messages.length - 1]!.content;
+      calls.push(user.split('\n')[0]!);
+      return { content: user.startsWith('Part') ? 'Notes.' : REPORT, model: 'test-model' };
+    };
+    const options = { projectId, mainPath: join(root, 'main.tex'), rootDir: root, rubricId: 'usenix', maxChunkChars: 50 };
+
+    const first = await settled(startPaperReview({ ...options, label: 'submission' }, chat));
+    expect(calls).toEqual(['Part 1 of 2:', 'Part 2 of 2:', 'You read the paper in 2 parts. Your notes, in reading order:']);
+    expect(first).toMatchObject({ status: 'completed', version: 1, label: 'submission', progress: { done: 3, total: 3 }, model: 'test-model' });
+
+    const second = await settled(startPaperReview({ ...options, maxChunkChars: undefined }, chat));
+    expect(second.version).toBe(2);
+    expect(calls[calls.length - 1]).toBe('Paper:');
+
+    expect(listPaperReviews(projectId).map(r => r.version)).toEqual([2, 1]);
+    expect(deletePaperReview(projectId, first.id)).toBe(true);
+    expect(listPaperReviews(projectId).map(r => r.version)).toEqual([2]);
+  });
+
+  it('should keep a failed review out of the saved versions', async () => {
+    const chat: ReviewChat = async () => ({ content: 'Sorry, no.', model: 'test-model' });
+    const review = await settled(startPaperReview({ projectId, mainPath: join(root, 'main.tex'), rootDir: root, rubricId: 'sp' }, chat));
+
+    expect(review.status).toBe('failed');
+    expect(review.version).toBeUndefined();
+    expect(deletePaperReview(projectId, review.id)).toBe(true);
+    expect(listPaperReviews(projectId)).toEqual([]);
+    expect(() => startPaperReview({ projectId, mainPath: join(root, 'main.tex'), rootDir: root, rubricId: 'nope' }, chat)).toThrow('Unknown rubric');
+  });
+});
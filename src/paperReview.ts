@@ -0,0 +1,405 @@
+/**
+ * Whole-paper mock review - reads the document from the main file (following
+ * \input like the outline), splits it to fit the context window, and asks for a
+ * reviewer-style report scored on a venue rubric. Finished reviews are stored as
+ * numbered versions in the project so reports before and after a revision can be compared.
+ */
+import { existsSync, readFileSync, writeFileSync, mkdirSync, readdirSync, rmSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { chatWithAI } from './llmService';
+import { flattenDocument, type DocumentLine } from './latexOutline';
+import { extractJsonObject } from './diagnose';
+import { RequestError } from './requestError';
+import type { ChatMessage } from './llmAdapters';
+
+const PROJS_DIR = join(process.cwd(), 'projs');
+const RUBRICS_FILE = join(PROJS_DIR, 'review-rubrics.json');
+const MAX_CHUNK_CHARS = 40000; // ~10k tokens, leaves room for the prompt and reply
+
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string;
+  max: number; // Scores run from 1 to max
+}
+
+export interface ReviewRubric {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  criteria: RubricCriterion[];
+}
+
+export interface ReviewScore {
+  criterionId: string;
+  name: string;
+  score: number | null; // null when the model gave no usable score
+  max: number;
+  justification: string;
+}
+
+export interface ReviewReport {
+  summary: string;
+  strengths: string[];
+  weaknesses: string[];
+  questions: string[];
+  scores: ReviewScore[];
+}
+
+export interface PaperReview extends Partial<ReviewReport> {
+  id: string;
+  projectId: string;
+  version?: number; // Assigned when the review is saved
+  label?: string; // e.g. "before rebuttal"
+  status: 'running' | 'completed' | 'failed';
+  progress: { done: number; total: number }; // Model calls
+  rubric: ReviewRubric; // Snapshot, so later rubric edits do not change old reviews
+  model?: string;
+  chunks?: number;
+  words?: number;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+// Model turn; injectable for tests
+export type ReviewChat = (messages: ChatMessage[], projectId: string, signal: AbortSignal) => Promise<{ content: string; model: string }>;
+
+export class PaperReviewError extends RequestError {
+  override name = 'PaperReviewError';
+}
+
+export const BUILT_IN_RUBRICS: ReviewRubric[] = [
+  {
+    id: 'sp',
+    name: 'IEEE S&P',
+    builtIn: true,
+    criteria: [
+      { id: 'overall', name: 'Overall merit', description: '1 reject, 2 weak reject, 3 major revision, 4 weak accept, 5 accept', max: 5 },
+      { id: 'novelty', name: 'Novelty', description: 'New problem, technique or insight compared to prior work', max: 5 },
+      { id: 'soundness', name: 'Technical soundness', description: 'Threat model, design and claims hold up; no gaps in the security argument', max: 5 },
+      { id: 'evaluation', name: 'Evaluation', description: 'Experiments support the claims; baselines, datasets and metrics are appropriate', max: 5 },
+      { id: 'presentation', name: 'Presentation', description: 'Clear motivation, structure and writing', max: 5 }
+    ]
+  },
+  {
+    id: 'usenix',
+    name: 'USENIX Security',
+    builtIn: true,
+    criteria: [
+      { id: 'overall', name: 'Overall merit', description: '1 reject, 2 weak reject, 3 weak accept, 4 accept, 5 strong accept', max: 5 },
+      { id: 'novelty', name: 'Novelty', description: 'Advances the state of the art beyond incremental improvements', max: 5 },
+      { id: 'merit', name: 'Technical merit', description: 'Correct, rigorous and reproducible; limitations are acknowledged', max: 5 },
+      { id: 'impact', name: 'Impact', description: 'Likely to matter to practitioners or future research', max: 5 },
+      { id: 'writing', name: 'Writing quality', description: 'Readable, well organized, precise', max: 5 }
+    ]
+  },
+  {
+    id: 'systems',
+    name: 'Systems (OSDI/SOSP)',
+    builtIn: true,
+    criteria: [
+      { id: 'overall', name: 'Overall merit', description: '1 reject, 2 weak reject, 3 weak accept, 4 accept, 5 strong accept', max: 5 },
+      { id: 'novelty', name: 'Novelty', description: 'New system design, abstraction or insight', max: 5 },
+      { id: 'design', name: 'Design and implementation', description: 'Design choices are justified and the implementation is credible', max: 5 },
+      { id: 'evaluation', name: 'Evaluation', description: 'Realistic workloads, fair baselines, claims backed by data', max: 5 },
+      { id: 'presentation', name: 'Presentation', description: 'Clear motivation, structure and writing', max: 5 }
+    ]
+  }
+];
+
+// Reviews in progress (and failed ones until dismissed); finished ones live on disk
+const running = new Map<string, { review: PaperReview; controller: AbortController }>();
+
+const defaultChat: ReviewChat = async (messages, projectId, signal) =>
+  chatWithAI(messages, { projectId, label: 'review', temperature: 0.3, maxTokens: 6000, signal });
+
+function reviewsDir(projectId: string): string {
+  return join(PROJS_DIR, projectId, 'reviews');
+}
+
+function reviewFilePath(projectId: string, version: number): string {
+  return join(reviewsDir(projectId), `review-v${version}.json`);
+}
+
+// Rubrics
+
+function normalizeRubric(data: Partial<ReviewRubric>): ReviewRubric | null {
+  if (!data || typeof data.name !== 'string' || !data.name.trim() || !Array.isArray(data.criteria)) return null;
+  const criteria = data.criteria
+    .filter(c => c && typeof c.name === 'string' && c.name.trim())
+    .map((c, index) => ({
+      id: typeof c.id === 'string' && c.id ? c.id : `criterion_${index + 1}`,
+      name: c.name.trim(),
+      description: typeof c.description === 'string' ? c.description.trim() : '',
+      max: typeof c.max === 'number' && c.max >= 2 ? Math.min(10, Math.round(c.max)) : 5
+    }));
+  if (criteria.length === 0) return null;
+  return {
+    id: typeof data.id === 'string' && data.id ? data.id : `rubric_${Date.now()}`,
+    name: data.name.trim(),
+    criteria
+  };
+}
+
+export function getCustomRubrics(): ReviewRubric[] {
+  try {
+    if (existsSync(RUBRICS_FILE)) {
+      const data = JSON.parse(readFileSync(RUBRICS_FILE, 'utf-8'));
+      if (Array.isArray(data)) return data.map(normalizeRubric).filter((r): r is ReviewRubric => r !== null);
+    }
+  } catch (error) {
+    console.error('Failed to load review rubrics:', error);
+  }
+  return [];
+}
+
+export function saveCustomRubrics(rubrics: Partial<ReviewRubric>[]): ReviewRubric[] {
+  const builtInIds = new Set(BUILT_IN_RUBRICS.map(r => r.id));
+  const normalized = rubrics
+    .map(normalizeRubric)
+    .filter((r): r is ReviewRubric => r !== null && !builtInIds.has(r.id));
+  if (!existsSync(PROJS_DIR)) mkdirSync(PROJS_DIR, { recursive: true });
+  writeFileSync(RUBRICS_FILE, JSON.stringify(normalized, null, 2), 'utf-8');
+  return normalized;
+}
+
+export function getRubrics(): ReviewRubric[] {
+  return [...BUILT_IN_RUBRICS, ...getCustomRubrics()];
+}
+
+// Paper text
+
+/**
+ * Pack the document into chunks of at most maxChars, cutting at paragraph breaks
+ * where possible. A "% File:" line marks where each file (and each chunk) starts,
+ * so the model can tell which part of the paper it is reading.
+ */
+export function chunkDocument(lines: DocumentLine[], rootDir: string, maxChars = MAX_CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  const marker = (filePath: string) => `% File: ${relative(rootDir, filePath)}`;
+  let current: DocumentLine[] = [];
+  let size = 0;
+  let lastBreak = -1; // Index in current just after the last blank line
+
+  const flush = (upTo: number) => {
+    const text = current.slice(0, upTo)
+      .map((line, i) => (i === 0 || line.filePath !== current[i - 1]!.filePath ? `${marker(line.filePath)}\n${line.text}` : line.text))
+      .join('\n')
+      .trim();
+    if (text) chunks.push(text);
+    current = current.slice(upTo);
+    size = current.reduce((sum, l) => sum + l.text.length + 1, 0);
+    lastBreak = -1;
+  };
+
+  for (const line of lines) {
+    current.push(line);
+    size += line.text.length + 1;
+    if (!line.text.trim()) lastBreak = current.length;
+    if (size > maxChars) {
+      flush(lastBreak > 0 && lastBreak < current.length ? lastBreak : current.length);
+    }
+  }
+  flush(current.length);
+  return chunks;
+}
+
+// Prompts
+
+function rubricInstructions(rubric: ReviewRubric): string {
+  return rubric.criteria
+    .map(c => `- "${c.id}" (${c.name}, 1-${c.max}): ${c.description}`)
+    .join('\n');
+}
+
+function reviewerPrompt(rubric: ReviewRubric, venue: string): string {
+  return `You are an experienced, critical but fair program committee member for ${venue || rubric.name}. Review the submitted paper the way you would for the real program committee: judge the contribution, not the typesetting, and be specific about what is missing.`;
+}
+
+function reportInstructions(rubric: ReviewRubric): string {
+  return `**Output Format (Strictly Follow):**
+Reply with a single JSON object and nothing else (no prose, no code fences):
+{
+  "summary": "<what the paper does and claims, in 3-5 sentences>",
+  "strengths": ["<specific strength>", ...],
+  "weaknesses": ["<specific weakness, most serious first; point to the section where possible>", ...],
+  "questions": ["<question the authors should answer in the rebuttal>", ...],
+  "scores": { "<criterion id>": { "score": <integer>, "justification": "<one or two sentences>" }, ... }
+}
+Score every criterion of the ${rubric.name} rubric:
+${rubricInstructions(rubric)}`;
+}
+
+const NOTES_INSTRUCTIONS = `The paper is too long to read at once, so you will see it in parts. For this part, write concise reviewer notes in plain text: what it contributes, claims that need support, weaknesses, and questions for the authors. Refer to sections by name. Do not score the paper yet.`;
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim())
+    : [];
+}
+
+/**
+ * Validate the model's report. Scores are matched to the rubric by criterion id
+ * (or name) and clamped to its scale; anything unusable becomes a null score.
+ */
+export function parseReviewReport(raw: string, rubric: ReviewRubric): ReviewReport {
+  const json = extractJsonObject(raw);
+  if (json === null) throw new PaperReviewError('Review does not contain a JSON object', 502);
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new PaperReviewError(`Invalid JSON in review: ${error instanceof Error ? error.message : String(error)}`, 502);
+  }
+
+  const rawScores = (data.scores && typeof data.scores === 'object' ? data.scores : {}) as Record<string, unknown>;
+  const scores = rubric.criteria.map(criterion => {
+    const entry = rawScores[criterion.id] ?? rawScores[criterion.name];
+    const value = typeof entry === 'number' ? entry : (entry as { score?: unknown } | undefined)?.score;
+    const justification = (entry as { justification?: unknown } | undefined)?.justification;
+    return {
+      criterionId: criterion.id,
+      name: criterion.name,
+      score: typeof value === 'number' && Number.isFinite(value) ? Math.min(criterion.max, Math.max(1, Math.round(value))) : null,
+      max: criterion.max,
+      justification: typeof justification === 'string' ? justification.trim() : ''
+    };
+  });
+
+  return {
+    summary: typeof data.summary === 'string' ? data.summary.trim() : '',
+    strengths: stringList(data.strengths),
+    weaknesses: stringList(data.weaknesses),
+    questions: stringList(data.questions),
+    scores
+  };
+}
+
+// Reviews
+
+function readSavedReviews(projectId: string): PaperReview[] {
+  const dir = reviewsDir(projectId);
+  if (!existsSync(dir)) return [];
+  const reviews: PaperReview[] = [];
+  for (const name of readdirSync(dir)) {
+    if (!/^review-v\d+\.json$/.test(name)) continue;
+    try {
+      reviews.push(JSON.parse(readFileSync(join(dir, name), 'utf-8')));
+    } catch (error) {
+      console.error(`Failed to load review ${name}:`, error);
+    }
+  }
+  return reviews;
+}
+
+function saveReview(review: PaperReview) {
+  const saved = readSavedReviews(review.projectId);
+  review.version = Math.max(0, ...saved.map(r => r.version || 0)) + 1;
+  const dir = reviewsDir(review.projectId);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(reviewFilePath(review.projectId, review.version), JSON.stringify(review, null, 2), 'utf-8');
+}
+
+async function runReview(review: PaperReview, chunks: string[], venue: string, chat: ReviewChat, signal: AbortSignal) {
+  const { rubric } = review;
+  const system = reviewerPrompt(rubric, venue);
+  let paper: string;
+
+  if (chunks.length === 1) {
+    paper = `Paper:\n\n${chunks[0]}`;
+  } else {
+    const notes: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      const result = await chat([
+        { role: 'system', content: `${system}\n\n${NOTES_INSTRUCTIONS}` },
+        { role: 'user', content: `Part ${i + 1} of ${chunks.length}:\n\n${chunks[i]}` }
+      ], review.projectId, signal);
+      notes.push(`## Part ${i + 1} of ${chunks.length}\n${result.content.trim()}`);
+      review.progress.done++;
+    }
+    paper = `You read the paper in ${chunks.length} parts. Your notes, in reading order:\n\n${notes.join('\n\n')}`;
+  }
+
+  const result = await chat([
+    { role: 'system', content: `${system}\n\n${reportInstructions(rubric)}` },
+    { role: 'user', content: paper }
+  ], review.projectId, signal);
+  review.progress.done++;
+  Object.assign(review, parseReviewReport(result.content, rubric), { model: result.model });
+}
+
+export interface StartReviewOptions {
+  projectId: string;
+  mainPath: string; // Root .tex file
+  rootDir: string; // For file names in the chunks
+  rubricId: string;
+  venue?: string;
+  label?: string;
+  maxChunkChars?: number; // Lower for small-context models
+}
+
+export function startPaperReview(options: StartReviewOptions, chat: ReviewChat = defaultChat): PaperReview {
+  const rubric = getRubrics().find(r => r.id === options.rubricId);
+  if (!rubric) throw new PaperReviewError(`Unknown rubric: ${options.rubricId}`);
+  if ([...running.values()].some(r => r.review.projectId === options.projectId && r.review.status === 'running')) {
+    throw new PaperReviewError('A review of this paper is already running', 409);
+  }
+
+  const lines = flattenDocument(options.mainPath);
+  const chunks = chunkDocument(lines, options.rootDir, options.maxChunkChars);
+  if (chunks.length === 0) throw new PaperReviewError('The paper is empty');
+
+  const review: PaperReview = {
+    id: `review_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+    projectId: options.projectId,
+    label: options.label?.trim() || undefined,
+    status: 'running',
+    progress: { done: 0, total: chunks.length === 1 ? 1 : chunks.length + 1 },
+    rubric,
+    chunks: chunks.length,
+    words: lines.reduce((sum, l) => sum + (l.text.match(/[A-Za-z]+/g)?.length ?? 0), 0),
+    createdAt: new Date().toISOString()
+  };
+  const controller = new AbortController();
+  running.set(review.id, { review, controller });
+
+  runReview(review, chunks, options.venue || '', chat, controller.signal)
+    .then(() => {
+      if (controller.signal.aborted) return;
+      review.status = 'completed';
+      review.completedAt = new Date().toISOString();
+      saveReview(review);
+      running.delete(review.id);
+    })
+    .catch(error => {
+      if (controller.signal.aborted) return;
+      review.status = 'failed';
+      review.error = error instanceof Error ? error.message : String(error);
+      review.completedAt = new Date().toISOString();
+    });
+
+  return review;
+}
+
+// Newest first; running and failed reviews (memory only) come before saved versions
+export function listPaperReviews(projectId: string): PaperReview[] {
+  const active = [...running.values()].map(r => r.review).filter(r => r.projectId === projectId);
+  const saved = readSavedReviews(projectId).sort((a, b) => (b.version || 0) - (a.version || 0));
+  return [...active.sort((a, b) => b.createdAt.localeCompare(a.createdAt)), ...saved];
+}
+
+// Cancels a running review, dismisses a failed one, or deletes a saved version
+export function deletePaperReview(projectId: string, reviewId: string): boolean {
+  const active = running.get(reviewId);
+  if (active && active.review.projectId === projectId) {
+    active.controller.abort();
+    running.delete(reviewId);
+    return true;
+  }
+  const saved = readSavedReviews(projectId).find(r => r.id === reviewId);
+  if (!saved?.version) return false;
+  rmSync(reviewFilePath(projectId, saved.version), { force: true });
+  return true;
+}
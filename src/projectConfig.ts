@@ -198,6 +198,32 @@ export async function updateProjectConfig(projectId: string, updates: Partial<Pr
   }
 }
 
+/**
+ * Write a project file, first copying the current version into the project's
+ * backups directory when createBackup is set (the /api/files write path).
+ */
+export async function writeFileWithBackup(filePath: string, content: string, projectId: string | null, createBackup: boolean): Promise<void> {
+  if (createBackup && existsSync(filePath) && projectId) {
+    const config = await getProjectConfig(projectId);
+    if (config) {
+      const backupsDir = config.backupsDir;
+      if (!existsSync(backupsDir)) {
+        mkdirSync(backupsDir, { recursive: true });
+      }
+
+      const filename = basename(filePath);
+      // Fix: Remove dots from timestamp to avoid double dots in filename
+      const timestamp = new Date().toISOString().replace(/[-:T.]/g, "").substring(0, 15);
+      const backupPath = join(backupsDir, `${filename}.${timestamp}.bak`);
+
+      const originalContent = readFileSync(filePath, "utf-8");
+      writeFileSync(backupPath, originalContent, "utf-8");
+    }
+  }
+
+  writeFileSync(filePath, content, "utf-8");
+}
+
 export async function deleteProject(projectId: string): Promise<boolean> {
   const projects = await loadProjects();
   const filtered = projects.filter(p => p.id !== projectId);
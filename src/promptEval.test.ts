@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { getAdapter } from './llmAdapters';
+import {
+  computeEvalStats,
+  pinFixture,
+  savePromptVersion,
+  runPromptEval,
+  listPromptEvals,
+  PromptEvalError,
+  type EvalChat
+} from './promptEval';
+
+const projectId = `test-prompt-eval-${process.pid}`;
+
+// OpenAI-compatible server that answers with the paragraph it was sent, with "very " removed
+let server: Server;
+let baseUrl = '';
+
+// The parts of an OpenAI chat completions request body the server reads
+interface CompletionRequest {
+  model: string;
+  temperature?: number;
+  messages: { role: string; content: string }[];
+}
+const received: CompletionRequest[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(raw) as CompletionRequest;
+      received.push(body);
+      const prompt = body.messages[body.messages.length - 1]!.content;
+      const paragraph = prompt.slice(prompt.lastIndexOf('\n\n') + 2);
+      const content = paragraph.includes('FAIL') ? '' : paragraph.replace(/very /g, '');
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ model: body.model, choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }] }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+afterEach(() => {
+  received.length = 0;
+  rmSync(join(process.cwd(), 'projs', projectId), { recursive: true, force: true });
+});
+
+const mockChat: EvalChat = async (messages) => {
+  const result = await getAdapter('openai').chat({ baseUrl, apiKey: 'sk-test' }, { model: 'mock-model', messages, temperature: 0 });
+  if (!result.content) throw new Error('AI API returned empty content');
+  return { content: result.content, model: result.model };
+};
+
+describe('promptEval', () => {
+  it('should measure edits, length and kept LaTeX of an output', () => {
+    const before = 'Our method is fast \\cite{a,b} as shown in \\ref{fig:x}.';
+
+    expect(computeEvalStats(before, before)).toEqual({ editRatio: 0, lengthDelta: 0, preservedCommands: 1, violations: 0 });
+
+    const stats = computeEvalStats(before, 'Our method runs fast \\cite{a} as shown in \\ref{fig:x}.');
+    expect(stats.editRatio).toBe(0.222); // 2 of 9 words on each side
+    expect(stats.lengthDelta).toBe(0);
+    expect(stats.preservedCommands).toBe(0.5); // \cite{a,b} became \cite{a}
+    expect(stats.violations).toBeGreaterThan(0);
+
+    expect(computeEvalStats('one two three four', 'one two').lengthDelta).toBe(-0.5);
+  });
+
+  it('should run each version over the pinned fixtures against an OpenAI-compatible server', async () => {
+    pinFixture(projectId, { filePath: '/nowhere/intro.tex', lineStart: 3, content: 'This is a very good result \\cite{k}.' });
+    pinFixture(projectId, { filePath: '/nowhere/intro.tex', lineStart: 9, content: 'FAIL here.' });
+    // Pinning the same paragraph twice keeps one fixture
+    pinFixture(projectId, { filePath: '/nowhere/intro.tex', lineStart: 3, content: 'This is a very good result \\cite{k}.' });
+
+    const version = savePromptVersion(projectId, { label: '', mode: 'refine', system: 'Edit. Venue: {{venue}}', user: 'Polish:' });
+    expect(version.label).toBe('v1');
+
+    const [run] = await runPromptEval(projectId, [version.id], mockChat);
+
+    expect(received).toHaveLength(2);
+    expect(received[0]!.temperature).toBe(0);
+    expect(received[0]!.messages[0]!.content).toContain('Edit. Venue: ');
+    expect(run!.model).toBe('mock-model');
+    expect(run!.outputs[0]).toMatchObject({ content: 'This is a good result \\cite{k}.', stats: { preservedCommands: 1, violations: 0 } });
+    expect(run!.outputs[1]!.error).toContain('empty content');
+    expect(run!.summary).toMatchObject({ failures: 1, editRatio: run!.outputs[0]!.stats!.editRatio });
+    expect(listPromptEvals(projectId).runs.map(r => r.id)).toEqual([run!.id]);
+  });
+
+  it('should only evaluate rewrite modes and need fixtures to run', async () => {
+    expect(() => savePromptVersion(projectId, { label: 'x', mode: 'diagnose', system: '', user: 'Check:' })).toThrow(PromptEvalError);
+
+    const version = savePromptVersion(projectId, { label: 'x', mode: 'quickfix', system: '', user: 'Fix:' });
+    await expect(runPromptEval(projectId, [version.id], mockChat)).rejects.toThrow('Pin at least one');
+  });
+});
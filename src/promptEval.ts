@@ -0,0 +1,298 @@
+/**
+ * Prompt evaluation harness - sample paragraphs are pinned from the project as
+ * fixtures, and saved prompt versions are run over all of them. Every output is
+ * stored with diff statistics (edit ratio, length delta, preserved LaTeX
+ * commands, integrity violations), so prompt versions can be compared over time.
+ */
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { chatWithAI, getModeOutput, previewPrompt, type AIMode } from './llmService';
+import { checkLatexIntegrity } from '../web/src/utils/latexGuard';
+import { stripMarkdownCodeFences } from '../web/src/utils/fences';
+import { RequestError } from './requestError';
+import type { ChatMessage } from './llmAdapters';
+
+const PROJS_DIR = join(process.cwd(), 'projs');
+const EVAL_TEMPERATURE = 0; // Keeps reruns of one version comparable
+const MAX_RUNS = 50; // Oldest runs are dropped past this
+
+export interface EvalFixture {
+  id: string;
+  filePath: string;
+  lineStart: number;
+  content: string; // Snapshot; later edits to the paper do not change the fixture
+  thoughts?: string;
+  pinnedAt: string;
+}
+
+export interface PromptVersion {
+  id: string;
+  label: string;
+  mode: AIMode;
+  system: string;
+  user: string;
+  createdAt: string;
+}
+
+export interface EvalStats {
+  editRatio: number; // Share of words changed, 0 (identical) to 1 (rewritten)
+  lengthDelta: number; // Relative change in word count, e.g. -0.2 for 20% shorter
+  preservedCommands: number; // Share of the fixture's LaTeX commands and keys kept, 0 to 1
+  violations: number; // LaTeX integrity violations, as flagged in the editor
+}
+
+export interface EvalOutput {
+  fixtureId: string;
+  content?: string;
+  error?: string;
+  stats?: EvalStats;
+}
+
+export interface EvalRun {
+  id: string;
+  versionId: string;
+  versionLabel: string; // Snapshot, so deleting a version keeps its runs readable
+  mode: AIMode;
+  model: string;
+  createdAt: string;
+  outputs: EvalOutput[];
+  summary: EvalStats & { failures: number }; // Means over the fixtures that succeeded; violations are summed
+}
+
+export interface PromptEvals {
+  fixtures: EvalFixture[];
+  versions: PromptVersion[];
+  runs: EvalRun[]; // Newest first
+}
+
+// Model turn; injectable for tests and for the headless script
+export type EvalChat = (messages: ChatMessage[], projectId: string) => Promise<{ content: string; model: string }>;
+
+export class PromptEvalError extends RequestError {
+  override name = 'PromptEvalError';
+}
+
+const defaultChat: EvalChat = async (messages, projectId) =>
+  chatWithAI(messages, { projectId, label: 'prompt-eval', temperature: EVAL_TEMPERATURE });
+
+function evalsFile(projectId: string): string {
+  return join(PROJS_DIR, projectId, 'prompt-evals.json');
+}
+
+function readEvals(projectId: string): PromptEvals {
+  const file = evalsFile(projectId);
+  if (!existsSync(file)) return { fixtures: [], versions: [], runs: [] };
+  try {
+    const data = JSON.parse(readFileSync(file, 'utf-8'));
+    return {
+      fixtures: Array.isArray(data.fixtures) ? data.fixtures : [],
+      versions: Array.isArray(data.versions) ? data.versions : [],
+      runs: Array.isArray(data.runs) ? data.runs : []
+    };
+  } catch (error) {
+    console.error('Failed to load prompt evals:', error);
+    return { fixtures: [], versions: [], runs: [] };
+  }
+}
+
+function writeEvals(projectId: string, evals: PromptEvals) {
+  const dir = join(PROJS_DIR, projectId);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(evalsFile(projectId), JSON.stringify(evals, null, 2), 'utf-8');
+}
+
+function newId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 6)}`;
+}
+
+export function listPromptEvals(projectId: string): PromptEvals {
+  return readEvals(projectId);
+}
+
+// Fixtures
+
+export function pinFixture(projectId: string, input: Omit<EvalFixture, 'id' | 'pinnedAt'>): EvalFixture {
+  if (!input.filePath || !input.content?.trim()) throw new PromptEvalError('filePath and content are required');
+
+  const evals = readEvals(projectId);
+  const existing = evals.fixtures.find(f => f.filePath === input.filePath && f.content === input.content);
+  if (existing) return existing;
+
+  const fixture: EvalFixture = {
+    id: newId('fixture'),
+    filePath: input.filePath,
+    lineStart: input.lineStart,
+    content: input.content,
+    ...(input.thoughts ? { thoughts: input.thoughts } : {}),
+    pinnedAt: new Date().toISOString()
+  };
+  evals.fixtures.push(fixture);
+  writeEvals(projectId, evals);
+  return fixture;
+}
+
+export function unpinFixture(projectId: string, fixtureId: string): boolean {
+  const evals = readEvals(projectId);
+  const fixtures = evals.fixtures.filter(f => f.id !== fixtureId);
+  if (fixtures.length === evals.fixtures.length) return false;
+  writeEvals(projectId, { ...evals, fixtures });
+  return true;
+}
+
+// Prompt versions
+
+export function savePromptVersion(projectId: string, input: Omit<PromptVersion, 'id' | 'createdAt'>): PromptVersion {
+  if (!input.mode || !input.user?.trim()) throw new PromptEvalError('mode and user prompt are required');
+  if (getModeOutput({ mode: input.mode, content: '', projectId }) !== 'rewrite') {
+    throw new PromptEvalError('Only modes that rewrite the paragraph can be evaluated');
+  }
+
+  const evals = readEvals(projectId);
+  const version: PromptVersion = {
+    id: newId('version'),
+    label: input.label?.trim() || `v${evals.versions.length + 1}`,
+    mode: input.mode,
+    system: input.system,
+    user: input.user,
+    createdAt: new Date().toISOString()
+  };
+  evals.versions.push(version);
+  writeEvals(projectId, evals);
+  return version;
+}
+
+export function deletePromptVersion(projectId: string, versionId: string): boolean {
+  const evals = readEvals(projectId);
+  const versions = evals.versions.filter(v => v.id !== versionId);
+  if (versions.length === evals.versions.length) return false;
+  writeEvals(projectId, { ...evals, versions });
+  return true;
+}
+
+export function deleteEvalRun(projectId: string, runId: string): boolean {
+  const evals = readEvals(projectId);
+  const runs = evals.runs.filter(r => r.id !== runId);
+  if (runs.length === evals.runs.length) return false;
+  writeEvals(projectId, { ...evals, runs });
+  return true;
+}
+
+// Diff statistics
+
+function words(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function lcsLength(a: string[], b: string[]): number {
+  let previous = new Uint32Array(b.length + 1);
+  let current = new Uint32Array(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1] ? previous[j - 1]! + 1 : Math.max(previous[j]!, current[j - 1]!);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous[b.length]!;
+}
+
+const COMMAND_RE = /\\([a-zA-Z]+\*?)(?:\[[^\]]*\])*(\{[^{}]*\})?/g;
+
+// Commands by name; citations, references and labels with their keys, since a renamed key breaks the paper
+function collectCommands(text: string): string[] {
+  return [...text.matchAll(COMMAND_RE)].map(([, name, arg]) => (/cite|ref|label/.test(name!) && arg ? `\\${name}${arg}` : `\\${name}`));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export function computeEvalStats(before: string, after: string): EvalStats {
+  const a = words(before);
+  const b = words(after);
+  const editRatio = a.length + b.length === 0 ? 0 : 1 - (2 * lcsLength(a, b)) / (a.length + b.length);
+
+  const remaining = new Map<string, number>();
+  for (const command of collectCommands(after)) remaining.set(command, (remaining.get(command) ?? 0) + 1);
+  const original = collectCommands(before);
+  let kept = 0;
+  for (const command of original) {
+    const count = remaining.get(command) ?? 0;
+    if (count > 0) {
+      kept++;
+      remaining.set(command, count - 1);
+    }
+  }
+
+  return {
+    editRatio: round(editRatio),
+    lengthDelta: round(a.length === 0 ? 0 : (b.length - a.length) / a.length),
+    preservedCommands: round(original.length === 0 ? 1 : kept / original.length),
+    violations: checkLatexIntegrity(before, after).length
+  };
+}
+
+function summarize(outputs: EvalOutput[]): EvalRun['summary'] {
+  const stats = outputs.flatMap(o => (o.stats ? [o.stats] : []));
+  const mean = (pick: (s: EvalStats) => number) => (stats.length ? round(stats.reduce((sum, s) => sum + pick(s), 0) / stats.length) : 0);
+  return {
+    editRatio: mean(s => s.editRatio),
+    lengthDelta: mean(s => s.lengthDelta),
+    preservedCommands: mean(s => s.preservedCommands),
+    violations: stats.reduce((sum, s) => sum + s.violations, 0),
+    failures: outputs.length - stats.length
+  };
+}
+
+// Runs
+
+/**
+ * Run each version over every pinned fixture, one fixture at a time so a slow or
+ * rate-limited provider is not flooded. A failed fixture is recorded on the run
+ * rather than failing it. Returns the new runs, which are also stored.
+ */
+export async function runPromptEval(projectId: string, versionIds: string[], chat: EvalChat = defaultChat): Promise<EvalRun[]> {
+  const { fixtures, versions } = readEvals(projectId);
+  if (fixtures.length === 0) throw new PromptEvalError('Pin at least one paragraph as a fixture first');
+  const selected = versionIds.map(id => versions.find(v => v.id === id));
+  if (selected.length === 0) throw new PromptEvalError('Pick at least one prompt version to run');
+  if (selected.some(v => !v)) throw new PromptEvalError('Prompt version not found', 404);
+
+  const runs: EvalRun[] = [];
+  for (const version of selected as PromptVersion[]) {
+    const outputs: EvalOutput[] = [];
+    const models = new Set<string>();
+    for (const fixture of fixtures) {
+      try {
+        const { messages } = await previewPrompt({
+          mode: version.mode,
+          content: fixture.content,
+          projectId,
+          systemPrompt: version.system,
+          userPrompt: version.user,
+          context: { filePath: fixture.filePath, lineStart: fixture.lineStart, thoughts: fixture.thoughts }
+        });
+        const result = await chat(messages, projectId);
+        const content = stripMarkdownCodeFences(result.content);
+        models.add(result.model);
+        outputs.push({ fixtureId: fixture.id, content, stats: computeEvalStats(fixture.content, content) });
+      } catch (error) {
+        outputs.push({ fixtureId: fixture.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    runs.push({
+      id: newId('run'),
+      versionId: version.id,
+      versionLabel: version.label,
+      mode: version.mode,
+      model: [...models].join(', ') || 'unknown',
+      createdAt: new Date().toISOString(),
+      outputs,
+      summary: summarize(outputs)
+    });
+  }
+
+  // Re-read: fixtures or versions may have changed while the models answered
+  const evals = readEvals(projectId);
+  writeEvals(projectId, { ...evals, runs: [...[...runs].reverse(), ...evals.runs].slice(0, MAX_RUNS) });
+  return runs;
+}
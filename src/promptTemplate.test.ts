@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { renderPromptTemplate, resolveTemplateValues, usesTemplateVariables } from './promptTemplate';
+import type { ProjectConfig } from '../web/src/types';
+
+const paperContext = { venue: 'USENIX Security' };
+
+describe('promptTemplate', () => {
+  describe('renderPromptTemplate', () => {
+    it('should fill known variables and keep unknown placeholders', () => {
+      const rendered = renderPromptTemplate('For {{ venue }} in "{{section_title}}": {{unknown}}', {
+        venue: 'CCS',
+        section_title: 'Design'
+      });
+      expect(rendered).toBe('For CCS in "Design": {{unknown}}');
+    });
+
+    it('should render missing values as empty strings', () => {
+      expect(renderPromptTemplate('[{{abstract}}]', {})).toBe('[]');
+      expect(usesTemplateVariables('Plain {{braces}}')).toBe(false);
+      expect(usesTemplateVariables('Uses {{glossary}}')).toBe(true);
+      expect(usesTemplateVariables('Uses {{venue}}', 'glossary')).toBe(false);
+    });
+  });
+
+  describe('resolveTemplateValues', () => {
+    let dir: string;
+    let config: ProjectConfig;
+    let designFile: string;
+
+    beforeAll(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      dir = mkdtempSync(join(tmpdir(), 'fw-template-'));
+      mkdirSync(join(dir, 'sections'));
+      designFile = join(dir, 'sections', 'design.tex');
+
+      writeFileSync(join(dir, 'main.tex'), [
+        '\\begin{abstract}',
+        'We present X.',
+        '\\end{abstract}',
+        '\\section{Design}',
+        '\\input{sections/design}'
+      ].join('\n'));
+      writeFileSync(designFile, [
+        'The first paragraph explains the threat model in enough',
+        'detail that it is not merged into a neighbour.',
+        'It spans three lines.',
+        '',
+        '% [FW_THOUGHTS]',
+        '% Stress the overhead numbers',
+        '% [/FW_THOUGHTS]',
+        'X isolates each tenant.',
+        '',
+        '\\subsection{Isolation}',
+        'The last paragraph describes enclaves, again long enough',
+        'to stay a separate editing unit for this test',
+        'across three lines.'
+      ].join('\n'));
+
+      config = { projectId: 'p', sectionsDir: dir, backupsDir: join(dir, 'backups'), bibFiles: [] };
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+      vi.restoreAllMocks();
+    });
+
+    it('should resolve neighbours, thoughts, section and abstract for a paragraph', () => {
+      const values = resolveTemplateValues({
+        content: 'X isolates each tenant.',
+        context: { filePath: designFile, lineStart: 5 },
+        config,
+        paperContext,
+        glossary: 'Use these terms consistently:\n- enclave'
+      });
+
+      expect(values.previous_paragraph).toContain('threat model');
+      expect(values.next_paragraph).toContain('describes enclaves');
+      expect(values.thoughts).toBe('Stress the overhead numbers');
+      expect(values.section_title).toBe('Design');
+      expect(values.abstract).toBe('We present X.');
+      expect(values.venue).toBe('USENIX Security');
+      expect(values.glossary).toBe('Use these terms consistently:\n- enclave');
+    });
+
+    it('should use the innermost section within the file', () => {
+      const values = resolveTemplateValues({
+        content: 'The last paragraph describes enclaves',
+        context: { filePath: designFile, lineStart: 11 },
+        config,
+        paperContext
+      });
+      expect(values.section_title).toBe('Isolation');
+    });
+
+    it('should fall back to empty values without a project or file', () => {
+      const values = resolveTemplateValues({ content: 'text', context: { thoughts: 'note' }, paperContext });
+      expect(values).toMatchObject({ section_title: '', previous_paragraph: '', abstract: '', thoughts: 'note' });
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Prompt templating - {{variable}} placeholders in system and user prompts,
+ * filled with context from the paper around the paragraph being edited
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { basename } from "node:path";
+import type { ProjectConfig, TextItem } from "../web/src/types";
+import { parseContent } from "../web/src/utils/parser";
+import { findEnclosingSection, findMainFile, parseDocumentOutline } from "./latexOutline";
+
+export const TEMPLATE_VARIABLES = {
+  section_title: 'Title of the section that contains the paragraph',
+  previous_paragraph: 'The paragraph before this one in the same file',
+  next_paragraph: 'The paragraph after this one in the same file',
+  abstract: "The paper's abstract",
+  venue: 'Target venue from the project settings',
+  glossary: 'Project glossary terms from the Glossary panel',
+  thoughts: "The paragraph's FW_THOUGHTS notes",
+  style: 'The active style profile, learned from exemplar papers'
+} as const;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+export type TemplateValues = Record<TemplateVariable, string>;
+
+// Where the paragraph being edited lives; sent by the editor with each request
+export interface PromptContext {
+  filePath?: string;
+  lineStart?: number;
+  thoughts?: string;
+}
+
+export interface PaperContext {
+  venue: string;
+}
+
+const VARIABLE_RE = /\{\{\s*([a-z_]+)\s*\}\}/g;
+const ABSTRACT_RE = /\\begin\{abstract\}([\s\S]*?)\\end\{abstract\}/;
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+  return Object.prototype.hasOwnProperty.call(TEMPLATE_VARIABLES, name);
+}
+
+/**
+ * Replace {{name}} with its value. Unknown names are left as written, so
+ * literal braces in a prompt survive.
+ */
+export function renderPromptTemplate(template: string, values: Partial<TemplateValues>): string {
+  return template.replace(VARIABLE_RE, (match, name: string) =>
+    isTemplateVariable(name) ? values[name] ?? '' : match
+  );
+}
+
+export function usesTemplateVariables(template: string, only?: TemplateVariable): boolean {
+  return [...template.matchAll(VARIABLE_RE)].some(m => only ? m[1] === only : isTemplateVariable(m[1] ?? ''));
+}
+
+function stripComments(text: string): string {
+  return text
+    .split('\n')
+    .filter(line => !line.trim().startsWith('%'))
+    .join('\n')
+    .trim();
+}
+
+function readText(path: string): string | null {
+  try {
+    return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+  } catch {
+    return null;
+  }
+}
+
+// The paragraph being edited: exact content match first, then by line
+function findItemIndex(items: TextItem[], content: string, lineStart?: number): number {
+  const trimmed = content.trim();
+  // An empty body (a paragraph that is only FW_THOUGHTS) can only be found by line
+  const byContent = trimmed ? items.findIndex(item => item.content === trimmed) : -1;
+  if (byContent !== -1 || lineStart === undefined) return byContent;
+
+  let index = -1;
+  items.forEach((item, i) => {
+    if (item.lineStart <= lineStart) index = i;
+  });
+  return index;
+}
+
+function findAbstract(files: string[]): string {
+  for (const file of files) {
+    const match = ABSTRACT_RE.exec(readText(file) ?? '');
+    if (match) return stripComments(match[1] ?? '');
+  }
+  // Split projects often keep the abstract in its own file without the environment
+  const abstractFile = files.find(file => /abstract/i.test(basename(file)));
+  return abstractFile ? stripComments(readText(abstractFile) ?? '') : '';
+}
+
+/**
+ * Collect every template value for one request. Values that cannot be found
+ * (no main file, paragraph at the start of a file, ...) resolve to ''.
+ */
+export function resolveTemplateValues(options: {
+  content: string;
+  context?: PromptContext;
+  config?: ProjectConfig | null;
+  paperContext: PaperContext;
+  style?: string; // The active style profile as a prompt component
+  glossary?: string; // The project glossary as a prompt component
+}): TemplateValues {
+  const { content, context = {}, config, paperContext } = options;
+  const values: TemplateValues = {
+    section_title: '',
+    previous_paragraph: '',
+    next_paragraph: '',
+    abstract: '',
+    venue: paperContext.venue,
+    glossary: options.glossary ?? '',
+    thoughts: context.thoughts ?? '',
+    style: options.style ?? ''
+  };
+
+  const fileContent = context.filePath ? readText(context.filePath) : null;
+  if (context.filePath && fileContent !== null) {
+    const items = parseContent(fileContent);
+    const index = findItemIndex(items, content, context.lineStart);
+    if (index !== -1) {
+      values.previous_paragraph = items[index - 1]?.content ?? '';
+      values.next_paragraph = items[index + 1]?.content ?? '';
+      if (!values.thoughts) values.thoughts = items[index]?.thoughts ?? '';
+    }
+  }
+
+  const mainFile = config ? findMainFile(config) : null;
+  if (mainFile) {
+    const outline = parseDocumentOutline(mainFile);
+    if (context.filePath && context.lineStart !== undefined) {
+      values.section_title = findEnclosingSection(outline, context.filePath, context.lineStart)?.title ?? '';
+    }
+    values.abstract = findAbstract(outline.files.map(f => f.path));
+  }
+
+  return values;
+}
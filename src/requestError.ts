@@ -0,0 +1,11 @@
+/**
+ * Base class for errors a route reports to the client as-is. Each feature module
+ * subclasses it (BatchJobError, GlossaryError, ...) so callers and tests can tell
+ * where an error came from, while server.ts maps all of them with one responder.
+ */
+export class RequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
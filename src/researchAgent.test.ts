@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, existsSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createAgentSession,
+  reviewAgentStep,
+  deleteAgentSession,
+  parseAgentAction,
+  PLAN_FILE,
+  type AgentChat,
+  type AgentSession
+} from './researchAgent';
+import type { ChatMessage } from './llmAdapters';
+
+const MAIN = '\\section{Intro}\nWe propose a method.\n';
+
+// Replies with the scripted actions in order and records what the model was shown
+function scriptedChat(actions: object[]) {
+  const seen: ChatMessage[][] = [];
+  const chat: AgentChat = async (messages) => {
+    seen.push([...messages]);
+    const next = actions.shift() ?? { tool: 'finish', args: { summary: 'Out of script' } };
+    return JSON.stringify(next);
+  };
+  return { chat, seen };
+}
+
+async function settled(session: AgentSession) {
+  for (let i = 0; i < 100 && session.status === 'running'; i++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return session;
+}
+
+describe('researchAgent', () => {
+  let root: string;
+  const created: string[] = [];
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'agent-'));
+    writeFileSync(join(root, 'main.tex'), MAIN, 'utf-8');
+  });
+
+  afterEach(() => {
+    created.splice(0).forEach(deleteAgentSession);
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function start(actions: object[]) {
+    const { chat, seen } = scriptedChat(actions);
+    const session = createAgentSession({ projectId: 'test-project', goal: 'Tighten the intro', rootDir: root }, chat);
+    created.push(session.id);
+    return { session, seen };
+  }
+
+  it('should run reads immediately and wait for approval before an edit is written', async () => {
+    const { session } = start([
+      { thought: 'Look first', tool: 'read', args: { path: 'main.tex' } },
+      { thought: 'Sharpen', tool: 'edit', args: { path: 'main.tex', old: 'a method', new: 'a faster method' } },
+      { tool: 'finish', args: { summary: 'Sharpened the claim' } }
+    ]);
+
+    await settled(session);
+    expect(session.status).toBe('awaiting-approval');
+    expect(session.steps.map(s => [s.tool, s.status])).toEqual([['read', 'done'], ['edit', 'awaiting-approval']]);
+    expect(session.steps[0]!.result).toBe(MAIN);
+    expect(session.steps[1]!.proposal).toEqual({ path: 'main.tex', before: MAIN, after: MAIN.replace('a method', 'a faster method') });
+    expect(readFileSync(join(root, 'main.tex'), 'utf-8')).toBe(MAIN);
+
+    await settled(await reviewAgentStep(session.id, 'step_2', true));
+    expect(readFileSync(join(root, 'main.tex'), 'utf-8')).toContain('a faster method');
+    expect(session.status).toBe('finished');
+    expect(session.summary).toBe('Sharpened the claim');
+  });
+
+  it('should refuse paths outside the project and files it may not write', async () => {
+    const { session } = start([
+      { tool: 'read', args: { path: '../../etc/passwd' } },
+      { tool: 'write', args: { path: 'refs.bib', content: '@misc{x}' } },
+      { tool: 'finish', args: {} }
+    ]);
+
+    await settled(session);
+    expect(session.status).toBe('finished');
+    expect(session.steps[0]!.result).toContain('outside the project');
+    expect(session.steps[1]!.status).toBe('failed');
+    expect(session.steps[1]!.result).toContain('Only .tex files');
+    expect(existsSync(join(root, 'refs.bib'))).toBe(false);
+  });
+
+  it('should not apply an approved change when the file changed since the diff', async () => {
+    const { session } = start([
+      { tool: 'write', args: { path: 'main.tex', content: 'Rewritten' } },
+      { tool: 'finish', args: {} }
+    ]);
+
+    await settled(session);
+    writeFileSync(join(root, 'main.tex'), 'Edited by hand', 'utf-8');
+    await settled(await reviewAgentStep(session.id, 'step_1', true));
+
+    expect(session.steps[0]!.status).toBe('failed');
+    expect(readFileSync(join(root, 'main.tex'), 'utf-8')).toBe('Edited by hand');
+  });
+
+  it('should pass rejection feedback back to the model', async () => {
+    const { session, seen } = start([
+      { tool: 'write', args: { path: PLAN_FILE, content: '- [ ] Shorten intro' } },
+      { tool: 'finish', args: {} }
+    ]);
+
+    await settled(session);
+    expect(session.steps[0]!.proposal?.before).toBe('');
+    await settled(await reviewAgentStep(session.id, 'step_1', false, 'Also plan the conclusion'));
+
+    expect(session.steps[0]!.status).toBe('rejected');
+    expect(existsSync(join(root, PLAN_FILE))).toBe(false);
+    expect(seen[1]!.at(-1)!.content).toContain('Feedback: Also plan the conclusion');
+    await expect(reviewAgentStep(session.id, 'step_1', true)).rejects.toThrow('not waiting for approval');
+  });
+
+  it('should parse fenced JSON replies and reject unknown tools', () => {
+    expect(parseAgentAction('```json\n{"thought": "t", "tool": "read", "args": {"path": "a.tex", "n": 3}}\n```'))
+      .toEqual({ thought: 't', tool: 'read', args: { path: 'a.tex' } });
+    expect(() => parseAgentAction('{"tool": "shell", "args": {}}')).toThrow('Unknown tool');
+    expect(() => parseAgentAction('I will read the file.')).toThrow('JSON');
+  });
+});
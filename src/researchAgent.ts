@@ -0,0 +1,414 @@
+/**
+ * Research agent - works toward a writing goal with Read/Write/Edit tools over the
+ * project's files, keeping its plan in PLAN.md (files are state, not memory).
+ * Reads run immediately; every write stops the loop until the user approves the diff.
+ */
+import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
+import { join, relative, resolve, sep, extname } from 'node:path';
+import { chatWithAI } from './llmService';
+import { writeFileWithBackup } from './projectConfig';
+import { extractJsonObject } from './diagnose';
+import { RequestError } from './requestError';
+import type { ChatMessage } from './llmAdapters';
+
+export type AgentTool = 'list' | 'read' | 'write' | 'edit' | 'finish';
+export type AgentStepStatus = 'done' | 'failed' | 'awaiting-approval' | 'approved' | 'rejected';
+export type AgentSessionStatus = 'running' | 'awaiting-approval' | 'finished' | 'failed' | 'stopped';
+
+export interface AgentProposal {
+  path: string; // Relative to the project root
+  before: string; // Empty for a new file
+  after: string;
+}
+
+export interface AgentStep {
+  id: string;
+  tool: AgentTool;
+  thought: string;
+  args: Record<string, string>;
+  status: AgentStepStatus;
+  result?: string; // What the model was told
+  proposal?: AgentProposal; // write/edit only
+  feedback?: string; // Reason given when rejecting
+  createdAt: string;
+}
+
+export interface AgentSession {
+  id: string;
+  projectId: string;
+  goal: string;
+  status: AgentSessionStatus;
+  steps: AgentStep[];
+  summary?: string; // From the finish tool
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One model turn; injectable for tests
+export type AgentChat = (messages: ChatMessage[], session: AgentSession, signal: AbortSignal) => Promise<string>;
+
+export class AgentError extends RequestError {
+  override name = 'AgentError';
+}
+
+export const PLAN_FILE = 'PLAN.md';
+const MAX_STEPS = 40;
+const MAX_PARSE_FAILURES = 3;
+const MAX_READ_CHARS = 60000;
+const READABLE_EXTENSIONS = ['.tex', '.bib', '.md', '.txt', '.sty', '.cls', '.bst'];
+const IGNORED_DIRS = new Set(['node_modules', 'backups', 'build', 'out']);
+
+const AGENT_SYSTEM_PROMPT = `You are a research writing agent working inside a LaTeX paper project. You pursue the user's goal by calling tools, one per reply.
+
+Tools:
+- list: list the project's files. args: {}
+- read: read a file. args: {"path": "sections/intro.tex"}
+- edit: replace one exact, unique span of a file. args: {"path": "...", "old": "exact text to replace", "new": "replacement"}
+- write: create or overwrite a whole file. args: {"path": "...", "content": "..."}
+- finish: stop and summarize what you did. args: {"summary": "..."}
+
+Rules:
+- Keep your plan in ${PLAN_FILE} at the project root as a Markdown checklist. Create it first if it does not exist, and tick items off as you complete them. The user may edit it between your steps: re-read it when you resume.
+- Every edit and write is shown to the user as a diff and only applied if they approve. If they reject it, take their feedback into account.
+- Prefer edit over write for existing .tex files. Read a file before editing it; "old" must match the file exactly.
+- You may only write .tex files and ${PLAN_FILE}. Preserve LaTeX commands, labels, citations and math exactly unless the goal requires changing them.
+- Paths are relative to the project root.
+
+Reply with ONLY one JSON object, no other text:
+{"thought": "why this step", "tool": "read", "args": {"path": "main.tex"}}`;
+
+// Sessions live in memory, like batch jobs; the plan itself survives in PLAN.md
+const sessions = new Map<string, AgentSession>();
+const conversations = new Map<string, ChatMessage[]>();
+const roots = new Map<string, string>();
+const controllers = new Map<string, AbortController>();
+const chats = new Map<string, AgentChat>();
+
+const defaultChat: AgentChat = async (messages, session, signal) => {
+  const result = await chatWithAI(messages, { projectId: session.projectId, label: 'agent', temperature: 0.2, maxTokens: 8000, signal });
+  return result.content;
+};
+
+function touch(session: AgentSession) {
+  session.updatedAt = new Date().toISOString();
+}
+
+// Resolve a model-supplied path, refusing anything outside the project root
+export function resolveAgentPath(root: string, path: string): string {
+  const absolute = resolve(root, path.replace(/^\/+/, ''));
+  if (absolute !== root && !absolute.startsWith(root + sep)) {
+    throw new AgentError(`Path is outside the project: ${path}`);
+  }
+  return absolute;
+}
+
+function isWritable(root: string, absolute: string): boolean {
+  return extname(absolute) === '.tex' || absolute === join(root, PLAN_FILE);
+}
+
+function listProjectFiles(root: string): string[] {
+  const files: string[] = [];
+  const walk = (dir: string) => {
+    for (const name of readdirSync(dir).sort()) {
+      if (name.startsWith('.') || IGNORED_DIRS.has(name)) continue;
+      const full = join(dir, name);
+      if (statSync(full).isDirectory()) {
+        walk(full);
+      } else if (READABLE_EXTENSIONS.includes(extname(name))) {
+        files.push(relative(root, full));
+      }
+      if (files.length >= 500) return;
+    }
+  };
+  walk(root);
+  return files;
+}
+
+function readText(root: string, path: string): string {
+  const absolute = resolveAgentPath(root, path);
+  if (!READABLE_EXTENSIONS.includes(extname(absolute))) {
+    throw new AgentError(`Only text sources can be read (${READABLE_EXTENSIONS.join(', ')})`);
+  }
+  if (!existsSync(absolute)) throw new AgentError(`File not found: ${path}`);
+  return readFileSync(absolute, 'utf-8');
+}
+
+interface AgentAction {
+  thought: string;
+  tool: AgentTool;
+  args: Record<string, string>;
+}
+
+export function parseAgentAction(raw: string): AgentAction {
+  const json = extractJsonObject(raw);
+  if (json === null) throw new AgentError('Reply does not contain a JSON object');
+
+  let data: { thought?: unknown; tool?: unknown; args?: unknown };
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new AgentError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const tools: AgentTool[] = ['list', 'read', 'write', 'edit', 'finish'];
+  if (!tools.includes(data.tool as AgentTool)) {
+    throw new AgentError(`Unknown tool: ${String(data.tool)}`);
+  }
+  const args: Record<string, string> = {};
+  if (data.args && typeof data.args === 'object') {
+    for (const [key, value] of Object.entries(data.args)) {
+      if (typeof value === 'string') args[key] = value;
+    }
+  }
+  return { thought: typeof data.thought === 'string' ? data.thought : '', tool: data.tool as AgentTool, args };
+}
+
+// Turn write/edit args into the full before/after file content the user reviews
+function buildProposal(root: string, action: AgentAction): AgentProposal {
+  const path = action.args.path || '';
+  const absolute = resolveAgentPath(root, path);
+  if (!isWritable(root, absolute)) {
+    throw new AgentError(`Only .tex files and ${PLAN_FILE} can be written`);
+  }
+  const before = existsSync(absolute) ? readFileSync(absolute, 'utf-8') : '';
+  const relativePath = relative(root, absolute);
+
+  if (action.tool === 'write') {
+    if (action.args.content === undefined) throw new AgentError('write needs "content"');
+    return { path: relativePath, before, after: action.args.content };
+  }
+
+  const { old: oldText, new: newText } = action.args;
+  if (!oldText || newText === undefined) throw new AgentError('edit needs "old" and "new"');
+  if (!existsSync(absolute)) throw new AgentError(`File not found: ${path}`);
+  const count = before.split(oldText).length - 1;
+  if (count === 0) throw new AgentError(`"old" text was not found in ${relativePath}; read the file and copy the span exactly`);
+  if (count > 1) throw new AgentError(`"old" text occurs ${count} times in ${relativePath}; include more context to make it unique`);
+  return { path: relativePath, before, after: before.replace(oldText, () => newText) };
+}
+
+function runTool(root: string, action: AgentAction): string {
+  if (action.tool === 'list') {
+    const files = listProjectFiles(root);
+    return files.length ? files.join('\n') : '(no text files)';
+  }
+  const content = readText(root, action.args.path || '');
+  return content.length > MAX_READ_CHARS
+    ? `${content.slice(0, MAX_READ_CHARS)}\n\n[Truncated: file is ${content.length} characters]`
+    : content;
+}
+
+function fail(session: AgentSession, message: string) {
+  session.status = 'failed';
+  session.error = message;
+  touch(session);
+}
+
+// Take model turns until the agent finishes, fails, or proposes a write
+async function run(session: AgentSession) {
+  const messages = conversations.get(session.id)!;
+  const root = roots.get(session.id)!;
+  const controller = new AbortController();
+  controllers.set(session.id, controller);
+  let parseFailures = 0;
+
+  try {
+    while (session.status === 'running') {
+      if (session.steps.length >= MAX_STEPS) {
+        fail(session, `Stopped after ${MAX_STEPS} steps`);
+        return;
+      }
+
+      const chat = chats.get(session.id) ?? defaultChat;
+      const reply = await chat(messages, session, controller.signal);
+      if (controller.signal.aborted || session.status !== 'running') return;
+      messages.push({ role: 'assistant', content: reply });
+
+      let action: AgentAction;
+      try {
+        action = parseAgentAction(reply);
+        parseFailures = 0;
+      } catch (error) {
+        if (++parseFailures >= MAX_PARSE_FAILURES) {
+          fail(session, `Agent replies could not be parsed: ${error instanceof Error ? error.message : String(error)}`);
+          return;
+        }
+        messages.push({ role: 'user', content: `Your reply could not be used (${error instanceof Error ? error.message : String(error)}). Reply with only one JSON object.` });
+        continue;
+      }
+
+      const step: AgentStep = {
+        id: `step_${session.steps.length + 1}`,
+        tool: action.tool,
+        thought: action.thought,
+        args: action.args,
+        status: 'done',
+        createdAt: new Date().toISOString()
+      };
+      session.steps.push(step);
+      touch(session);
+
+      if (action.tool === 'finish') {
+        session.summary = action.args.summary || action.thought;
+        session.status = 'finished';
+        return;
+      }
+
+      try {
+        if (action.tool === 'write' || action.tool === 'edit') {
+          step.proposal = buildProposal(root, action);
+          step.status = 'awaiting-approval';
+          session.status = 'awaiting-approval';
+          return;
+        }
+        step.result = runTool(root, action);
+      } catch (error) {
+        step.status = 'failed';
+        step.result = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      messages.push({ role: 'user', content: `Tool result (${action.tool}${action.args.path ? ` ${action.args.path}` : ''}):\n${step.result}` });
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) fail(session, error instanceof Error ? error.message : String(error));
+  } finally {
+    if (controllers.get(session.id) === controller) controllers.delete(session.id);
+    touch(session);
+  }
+}
+
+function resume(session: AgentSession, note: string) {
+  conversations.get(session.id)!.push({ role: 'user', content: note });
+  session.status = 'running';
+  session.error = undefined;
+  touch(session);
+  void run(session);
+}
+
+export interface CreateAgentSessionOptions {
+  projectId: string;
+  goal: string;
+  rootDir: string; // The project's files directory
+}
+
+export function createAgentSession(options: CreateAgentSessionOptions, chat?: AgentChat): AgentSession {
+  if (!options.projectId || !options.rootDir) throw new AgentError('projectId is required');
+  const goal = (options.goal || '').trim();
+  if (!goal) throw new AgentError('A goal is required');
+
+  const root = resolve(options.rootDir);
+  const planPath = join(root, PLAN_FILE);
+  const plan = existsSync(planPath) ? readFileSync(planPath, 'utf-8') : null;
+
+  const now = new Date().toISOString();
+  const session: AgentSession = {
+    id: `agent_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+    projectId: options.projectId,
+    goal,
+    status: 'running',
+    steps: [],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  sessions.set(session.id, session);
+  roots.set(session.id, root);
+  if (chat) chats.set(session.id, chat);
+  conversations.set(session.id, [
+    { role: 'system', content: AGENT_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `Goal: ${goal}\n\n${plan !== null ? `Current ${PLAN_FILE}:\n${plan}` : `There is no ${PLAN_FILE} yet.`}\n\nProject files:\n${listProjectFiles(root).join('\n')}`
+    }
+  ]);
+
+  void run(session);
+  return session;
+}
+
+export function getAgentSession(sessionId: string): AgentSession | null {
+  return sessions.get(sessionId) ?? null;
+}
+
+export function listAgentSessions(projectId: string): AgentSession[] {
+  return [...sessions.values()]
+    .filter(s => s.projectId === projectId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function requireSession(sessionId: string): AgentSession {
+  const session = sessions.get(sessionId);
+  if (!session) throw new AgentError('Agent session not found', 404);
+  return session;
+}
+
+/**
+ * Apply or reject a proposed write. Approval writes through the same backup-first
+ * path as the editor, unless the file changed since the diff was made.
+ */
+export async function reviewAgentStep(sessionId: string, stepId: string, approved: boolean, feedback?: string): Promise<AgentSession> {
+  const session = requireSession(sessionId);
+  const step = session.steps.find(s => s.id === stepId);
+  if (!step || step.status !== 'awaiting-approval' || !step.proposal) {
+    throw new AgentError('Step is not waiting for approval');
+  }
+
+  const { path, before, after } = step.proposal;
+  if (!approved) {
+    step.status = 'rejected';
+    step.feedback = feedback?.trim() || undefined;
+    step.result = `The user rejected this change to ${path}.${step.feedback ? ` Feedback: ${step.feedback}` : ''}`;
+    resume(session, step.result);
+    return session;
+  }
+
+  const absolute = resolveAgentPath(roots.get(sessionId)!, path);
+  const current = existsSync(absolute) ? readFileSync(absolute, 'utf-8') : '';
+  if (current !== before) {
+    step.status = 'failed';
+    step.result = `Not applied: ${path} changed since this diff was made. Read it again before proposing a new change.`;
+  } else {
+    await writeFileWithBackup(absolute, after, session.projectId, true);
+    step.status = 'approved';
+    step.result = `Applied the change to ${path}.`;
+  }
+  resume(session, step.result);
+  return session;
+}
+
+// Interrupts a running turn; a follow-up message resumes a stopped or finished session
+export function stopAgentSession(sessionId: string): AgentSession {
+  const session = requireSession(sessionId);
+  controllers.get(sessionId)?.abort();
+  if (session.status === 'running' || session.status === 'awaiting-approval') {
+    session.status = 'stopped';
+    for (const step of session.steps) {
+      if (step.status === 'awaiting-approval') {
+        step.status = 'rejected';
+        step.result = 'The session was stopped before this change was reviewed.';
+        conversations.get(sessionId)?.push({ role: 'user', content: step.result });
+      }
+    }
+    touch(session);
+  }
+  return session;
+}
+
+export function sendAgentMessage(sessionId: string, message: string): AgentSession {
+  const session = requireSession(sessionId);
+  if (session.status === 'running' || session.status === 'awaiting-approval') {
+    throw new AgentError('Wait for the agent to stop or finish before sending a message', 409);
+  }
+  if (!message.trim()) throw new AgentError('Message is required');
+  resume(session, `${message.trim()}\n\n(${PLAN_FILE} may have changed; re-read it before continuing.)`);
+  return session;
+}
+
+export function deleteAgentSession(sessionId: string): boolean {
+  controllers.get(sessionId)?.abort();
+  controllers.delete(sessionId);
+  conversations.delete(sessionId);
+  roots.delete(sessionId);
+  chats.delete(sessionId);
+  return sessions.delete(sessionId);
+}
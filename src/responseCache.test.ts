@@ -0,0 +1,83 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { rmSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  responseCacheKey,
+  getCachedResponse,
+  putCachedResponse,
+  listCachedResponses,
+  deleteCachedResponse,
+  clearResponseCache,
+  type CacheKeyParts
+} from './responseCache';
+
+const projectId = `test-response-cache-${process.pid}`;
+
+const parts: CacheKeyParts = {
+  provider: 'openai:https://api.openai.com/v1',
+  model: 'gpt-4o',
+  mode: 'refine',
+  temperature: 0.3,
+  system: 'You are an editor.',
+  user: 'Refine:\n\nWe present X.',
+  history: []
+};
+
+describe('responseCache', () => {
+  afterEach(() => {
+    rmSync(join(process.cwd(), 'projs', projectId), { recursive: true, force: true });
+  });
+
+  it('should hash identical requests to the same key and any change to a new one', () => {
+    const key = responseCacheKey(parts);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(responseCacheKey({ ...parts })).toBe(key);
+    expect(responseCacheKey({ ...parts, model: 'gpt-4o-mini' })).not.toBe(key);
+    expect(responseCacheKey({ ...parts, temperature: 0.8 })).not.toBe(key);
+    expect(responseCacheKey({ ...parts, history: [{ role: 'user', content: 'shorter' }] })).not.toBe(key);
+  });
+
+  it('should store replies, count hits and delete entries', () => {
+    const key = responseCacheKey(parts);
+    expect(getCachedResponse(projectId, key)).toBeNull();
+
+    putCachedResponse(projectId, key, parts, 'We present X, a system.');
+    const entry = getCachedResponse(projectId, key);
+    expect(entry).toMatchObject({ response: 'We present X, a system.', mode: 'refine', hits: 1 });
+
+    expect(listCachedResponses(projectId).entries).toHaveLength(1);
+    expect(deleteCachedResponse(projectId, key)).toBe(true);
+    expect(getCachedResponse(projectId, key)).toBeNull();
+
+    putCachedResponse(projectId, key, parts, 'again');
+    clearResponseCache(projectId);
+    expect(listCachedResponses(projectId).entries).toHaveLength(0);
+  });
+
+  it('should evict the least recently used entries past the size cap', async () => {
+    const big = 'x'.repeat(1024 * 1024);
+    const put = (user: string) => {
+      const entryParts = { ...parts, user };
+      const key = responseCacheKey(entryParts);
+      putCachedResponse(projectId, key, entryParts, big);
+      return key;
+    };
+    const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+    const first = put('p0');
+    await tick();
+    const second = put('p1');
+    put('p2');
+    put('p3');
+    await tick();
+    getCachedResponse(projectId, first); // Now the most recently used
+    await tick();
+    put('p4');
+    put('p5');
+
+    const { entries, totalBytes, maxBytes } = listCachedResponses(projectId);
+    expect(totalBytes).toBeLessThanOrEqual(maxBytes);
+    expect(entries.map(e => e.key)).toContain(first);
+    expect(entries.map(e => e.key)).not.toContain(second);
+  });
+});
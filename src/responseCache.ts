@@ -0,0 +1,144 @@
+/**
+ * Content-addressed AI response cache - identical requests reuse the stored reply
+ * instead of calling the provider again. One file per project, LRU-evicted.
+ */
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, unlinkSync } from 'node:fs';
+import { join } from 'node:path';
+
+const PROJS_DIR = join(process.cwd(), 'projs');
+
+// Least recently used entries are evicted past either limit
+export const RESPONSE_CACHE_MAX_ENTRIES = 500;
+export const RESPONSE_CACHE_MAX_BYTES = 5 * 1024 * 1024;
+
+export interface CacheKeyParts {
+  provider: string; // Adapter kind + base URL
+  model: string;
+  mode: string;
+  temperature: number; // A custom mode's temperature can be edited
+  system: string;
+  user: string; // Mode prompt followed by the content
+  history: { role: string; content: string }[];
+}
+
+export interface CachedResponse {
+  key: string;
+  provider: string;
+  model: string;
+  mode: string;
+  temperature?: number; // Missing on entries stored before it was part of the key
+  system: string;
+  user: string;
+  history: { role: string; content: string }[];
+  response: string; // Raw reply text, before fence stripping or Diagnose parsing
+  createdAt: string;
+  lastUsedAt: string;
+  hits: number;
+  bytes: number;
+}
+
+interface CacheFile {
+  entries: Record<string, CachedResponse>;
+}
+
+export function responseCacheKey(parts: CacheKeyParts): string {
+  // Fixed field order so the same request always hashes the same
+  const canonical = JSON.stringify([parts.provider, parts.model, parts.mode, parts.temperature, parts.system, parts.user, parts.history]);
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+function cacheFilePath(projectId: string): string {
+  return join(PROJS_DIR, projectId, 'response-cache.json');
+}
+
+function readCache(projectId: string): CacheFile {
+  const file = cacheFilePath(projectId);
+  try {
+    if (existsSync(file)) {
+      const data = JSON.parse(readFileSync(file, 'utf-8'));
+      if (data && typeof data.entries === 'object') return data as CacheFile;
+    }
+  } catch (error) {
+    console.error('Failed to load response cache:', error);
+  }
+  return { entries: {} };
+}
+
+function writeCache(projectId: string, cache: CacheFile) {
+  try {
+    const dir = join(PROJS_DIR, projectId);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    writeFileSync(cacheFilePath(projectId), JSON.stringify(cache), 'utf-8');
+  } catch (error) {
+    console.error('Failed to save response cache:', error);
+  }
+}
+
+function evict(cache: CacheFile) {
+  const entries = Object.values(cache.entries).sort((a, b) => a.lastUsedAt.localeCompare(b.lastUsedAt));
+  let totalBytes = entries.reduce((sum, e) => sum + e.bytes, 0);
+  let count = entries.length;
+
+  for (const entry of entries) {
+    if (count <= RESPONSE_CACHE_MAX_ENTRIES && totalBytes <= RESPONSE_CACHE_MAX_BYTES) break;
+    delete cache.entries[entry.key];
+    totalBytes -= entry.bytes;
+    count--;
+  }
+}
+
+// Returns the entry and records the hit
+export function getCachedResponse(projectId: string, key: string): CachedResponse | null {
+  const cache = readCache(projectId);
+  const entry = cache.entries[key];
+  if (!entry) return null;
+
+  entry.hits += 1;
+  entry.lastUsedAt = new Date().toISOString();
+  writeCache(projectId, cache);
+  return entry;
+}
+
+export function putCachedResponse(projectId: string, key: string, parts: CacheKeyParts, response: string): void {
+  const cache = readCache(projectId);
+  const now = new Date().toISOString();
+  const entry: CachedResponse = {
+    key,
+    ...parts,
+    response,
+    createdAt: now,
+    lastUsedAt: now,
+    hits: 0,
+    bytes: 0
+  };
+  entry.bytes = Buffer.byteLength(JSON.stringify(entry));
+
+  cache.entries[key] = entry;
+  evict(cache);
+  writeCache(projectId, cache);
+}
+
+export function listCachedResponses(projectId: string) {
+  const entries = Object.values(readCache(projectId).entries)
+    .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  return {
+    entries,
+    totalBytes: entries.reduce((sum, e) => sum + e.bytes, 0),
+    maxBytes: RESPONSE_CACHE_MAX_BYTES,
+    maxEntries: RESPONSE_CACHE_MAX_ENTRIES
+  };
+}
+
+export function deleteCachedResponse(projectId: string, key: string): boolean {
+  const cache = readCache(projectId);
+  if (!cache.entries[key]) return false;
+  delete cache.entries[key];
+  writeCache(projectId, cache);
+  return true;
+}
+
+export function clearResponseCache(projectId: string): void {
+  const file = cacheFilePath(projectId);
+  if (existsSync(file)) unlinkSync(file);
+}
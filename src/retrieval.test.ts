@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { rankParagraphs, excerpt } from './retrieval';
+
+describe('retrieval', () => {
+  describe('rankParagraphs', () => {
+    const paragraphs = [
+      { content: 'We evaluate the overhead on the SPEC benchmarks and nginx.' },
+      { content: 'The threat model assumes an attacker who controls the kernel.' },
+      { content: 'Related work on \\cite{a} covers sandboxing.' }
+    ];
+
+    it('should rank the paragraph sharing the rare terms first', () => {
+      const ranked = rankParagraphs('Is the kernel part of the threat model?', paragraphs, 3);
+      expect(ranked[0]!.paragraph).toBe(paragraphs[1]);
+      expect(ranked.every(r => r.score > 0)).toBe(true);
+    });
+
+    it('should respect the limit and drop paragraphs without a shared term', () => {
+      expect(rankParagraphs('nginx overhead', paragraphs, 1)).toHaveLength(1);
+      expect(rankParagraphs('quantum chemistry', paragraphs, 3)).toEqual([]);
+    });
+  });
+
+  describe('excerpt', () => {
+    it('should flatten whitespace and cut long text', () => {
+      expect(excerpt('We show\n  that it works.')).toBe('We show that it works.');
+      expect(excerpt('word '.repeat(100))).toHaveLength(161);
+    });
+  });
+});
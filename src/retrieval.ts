@@ -0,0 +1,82 @@
+/**
+ * Retrieval - BM25 ranking over the parsed paragraphs of the whole document,
+ * shared by reviewer comments, paper chat and the claim-evidence check.
+ */
+import { readFileSync } from 'node:fs';
+import { parseDocumentOutline } from './latexOutline';
+import { parseContent } from '../web/src/utils/parser';
+
+const MIN_RELATIVE_SCORE = 0.25; // Weaker matches than this share of the best one are noise
+const EXCERPT_CHARS = 160;
+
+const STOPWORDS = new Set((
+  'the and for are but not you all any can had her was one out has have this that with from they will would there their what about which when make like than then them these some into more other could also only such its may our should paper authors author section figure table work approach results result use used using does how why well very much many each'
+).split(' '));
+
+function tokenize(text: string): string[] {
+  return text
+    .replace(/(?<!\\)%.*$/gm, ' ')
+    .replace(/\\[A-Za-z]+\*?/g, ' ')
+    .toLowerCase()
+    .match(/[a-z][a-z0-9-]{2,}/g)
+    ?.filter(token => !STOPWORDS.has(token)) ?? [];
+}
+
+export interface Paragraph {
+  filePath: string;
+  itemId: string;
+  lineStart: number;
+  content: string;
+}
+
+/**
+ * Rank paragraphs for a query with BM25 (k1 = 1.2, b = 0.75). Returns the best
+ * few, dropping those far below the top score.
+ */
+export function rankParagraphs<T extends { content: string }>(query: string, paragraphs: T[], limit: number): { paragraph: T; score: number }[] {
+  const docs = paragraphs.map(p => tokenize(p.content));
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / Math.max(1, docs.length);
+  const documentFrequency = new Map<string, number>();
+  for (const doc of docs) {
+    for (const token of new Set(doc)) documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+  }
+
+  const terms = [...new Set(tokenize(query))];
+  const scored = docs.map((doc, i) => {
+    const counts = new Map<string, number>();
+    for (const token of doc) counts.set(token, (counts.get(token) ?? 0) + 1);
+    let score = 0;
+    for (const term of terms) {
+      const tf = counts.get(term);
+      if (!tf) continue;
+      const df = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += idf * (tf * 2.2) / (tf + 1.2 * (0.25 + 0.75 * doc.length / avgLength));
+    }
+    return { paragraph: paragraphs[i]!, score };
+  });
+
+  const ranked = scored.filter(s => s.score > 0).sort((a, b) => b.score - a.score);
+  const best = ranked[0]?.score ?? 0;
+  return ranked.filter(s => s.score >= best * MIN_RELATIVE_SCORE).slice(0, limit);
+}
+
+// Paragraphs of every file reached from the main file, as the editor parses them
+export function readParagraphs(mainPath: string): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  for (const file of parseDocumentOutline(mainPath).files) {
+    const items = parseContent(readFileSync(file.path, 'utf-8'));
+    for (const item of items) {
+      if (tokenize(item.content).length > 0) {
+        paragraphs.push({ filePath: file.path, itemId: item.id, lineStart: item.lineStart, content: item.content });
+      }
+    }
+  }
+  return paragraphs;
+}
+
+// One line of a paragraph, cut to fit a list entry
+export function excerpt(content: string): string {
+  const flat = content.replace(/\s+/g, ' ').trim();
+  return flat.length > EXCERPT_CHARS ? `${flat.slice(0, EXCERPT_CHARS)}…` : flat;
+}
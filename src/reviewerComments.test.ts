@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  splitReviewComments,
+  importReviewerComments,
+  updateReviewerComment,
+  draftRebuttal,
+  listReviewerComments,
+  type RebuttalChat
+} from './reviewerComments';
+
+const projectId = `test-reviewer-comments-${process.pid}`;
+
+const REVIEWS = `# Reviewer #1
+
+## Weaknesses
+1. The evaluation only uses the SPEC benchmarks; real-world
+   applications such as nginx are missing.
+2. The threat model does not say whether the attacker controls the kernel.
+
+Minor:
+- Typo in the abstract.
+
+Review B
+The overhead numbers in the evaluation look too good.`;
+
+describe('reviewerComments', () => {
+  let root: string;
+  let mainPath: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'reviewer-comments-'));
+    mkdirSync(join(root, 'backups'));
+    mainPath = join(root, 'main.tex');
+    writeFileSync(mainPath, '\\begin{document}\n\\input{eval}\n\\end{document}');
+    writeFileSync(join(root, 'eval.tex'), [
+      '\\section{Threat Model}',
+      'The attacker controls user space but not the kernel.',
+      '',
+      '\\section{Evaluation}',
+      'We run the SPEC CPU benchmarks and report overhead.',
+      '',
+      'Related systems are discussed elsewhere.'
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(join(process.cwd(), 'projs', projectId), { recursive: true, force: true });
+  });
+
+  it('should split reviews into comments by reviewer, heading and list item', () => {
+    expect(splitReviewComments(REVIEWS)).toEqual([
+      { reviewer: 'Reviewer 1', category: 'Weaknesses', text: 'The evaluation only uses the SPEC benchmarks; real-world applications such as nginx are missing.' },
+      { reviewer: 'Reviewer 1', category: 'Weaknesses', text: 'The threat model does not say whether the attacker controls the kernel.' },
+      { reviewer: 'Reviewer 1', category: 'Minor', text: 'Typo in the abstract.' },
+      { reviewer: 'Reviewer B', category: undefined, text: 'The overhead numbers in the evaluation look too good.' }
+    ]);
+  });
+
+  it('should map comments to paragraphs and link backups when a comment is addressed', () => {
+    const imported = importReviewerComments(projectId, { name: 'S&P round 1', text: REVIEWS, mainPath });
+    const [evaluation, threat, typo] = imported.comments;
+
+    expect(evaluation!.matches[0]).toMatchObject({ filePath: join(root, 'eval.tex'), lineStart: 4 });
+    expect(threat!.matches[0]).toMatchObject({ lineStart: 1, excerpt: '\\section{Threat Model} The attacker controls user space but not the kernel.' });
+    expect(typo!.matches).toEqual([]);
+
+    writeFileSync(join(root, 'backups', 'eval.tex.200001010000000.bak'), 'old');
+    writeFileSync(join(root, 'backups', 'eval.tex.999912312359590.bak'), 'new');
+    writeFileSync(join(root, 'backups', 'intro.tex.999912312359590.bak'), 'other file');
+    const updated = updateReviewerComment(projectId, imported.id, 'c1', { status: 'addressed', note: 'Added nginx' }, join(root, 'backups'));
+    expect(updated.comments[0]).toMatchObject({ status: 'addressed', note: 'Added nginx', backups: ['eval.tex.999912312359590.bak'] });
+
+    const reopened = updateReviewerComment(projectId, imported.id, 'c1', { status: 'open' }, join(root, 'backups'));
+    expect(reopened.comments[0]!.backups).toBeUndefined();
+    expect(() => updateReviewerComment(projectId, imported.id, 'c9', { status: 'open' }, root)).toThrow('not found');
+  });
+
+  it('should draft the rebuttal from resolved comments only', async () => {
+    const imported = importReviewerComments(projectId, { name: 'Round 1', text: REVIEWS, mainPath });
+    const chat: RebuttalChat = async () => ({ content: '## Reviewer 1\nThanks.', model: 'test-model' });
+    await expect(draftRebuttal(projectId, imported.id, mainPath, root, chat)).rejects.toThrow('before drafting');
+
+    updateReviewerComment(projectId, imported.id, 'c2', { status: 'wontfix', note: 'The kernel is trusted, as stated.' }, root);
+    let prompt = '';
+    const result = await draftRebuttal(projectId, imported.id, mainPath, root, async (messages) => {
+      prompt = messages[1]!.content;
+      return chat(messages, projectId);
+    });
+
+    expect(prompt).toContain("Status: won't fix\nAuthor note: The kernel is trusted, as stated.");
+    expect(prompt).not.toContain('Typo');
+    expect(result.rebuttal).toMatchObject({ content: '## Reviewer 1\nThanks.', model: 'test-model' });
+    expect(listReviewerComments(projectId)[0]!.rebuttal?.content).toBe('## Reviewer 1\nThanks.');
+  });
+});
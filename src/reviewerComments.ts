@@ -0,0 +1,270 @@
+/**
+ * Reviewer comments - imports the reviews a paper got back, splits them into
+ * single comments, and points each one at the paragraphs it is most likely
+ * about (BM25 over the parsed paragraphs of the whole document). Comments are
+ * tracked as open, addressed or won't fix; addressing one links the backups of
+ * the edits made since the import, and the resolved comments feed a rebuttal draft.
+ */
+import { existsSync, readFileSync, writeFileSync, mkdirSync, readdirSync } from 'node:fs';
+import { join, basename, relative } from 'node:path';
+import { chatWithAI, getProjectPrompts } from './llmService';
+import { readParagraphs, rankParagraphs, excerpt } from './retrieval';
+import { RequestError } from './requestError';
+import type { ChatMessage } from './llmAdapters';
+
+const PROJS_DIR = join(process.cwd(), 'projs');
+const MAX_MATCHES = 3;
+
+export type ReviewerCommentStatus = 'open' | 'addressed' | 'wontfix';
+
+export interface CommentMatch {
+  filePath: string;
+  itemId: string; // parseContent id in that file at import time
+  lineStart: number;
+  excerpt: string;
+  score: number;
+}
+
+export interface ReviewerComment {
+  id: string;
+  reviewer: string; // e.g. "Reviewer A"; empty when the review names no reviewers
+  category?: string; // Heading the comment was under, e.g. "Weaknesses"
+  text: string;
+  status: ReviewerCommentStatus;
+  note?: string; // The author's answer, used in the rebuttal
+  matches: CommentMatch[];
+  backups?: string[]; // Backup ids of the edits that addressed it
+  resolvedAt?: string;
+}
+
+export interface ReviewerCommentImport {
+  id: string;
+  name: string;
+  importedAt: string;
+  comments: ReviewerComment[];
+  rebuttal?: { content: string; model: string; createdAt: string };
+}
+
+// Model turn; injectable for tests
+export type RebuttalChat = (messages: ChatMessage[], projectId: string) => Promise<{ content: string; model: string }>;
+
+export class ReviewerCommentError extends RequestError {
+  override name = 'ReviewerCommentError';
+}
+
+const defaultChat: RebuttalChat = async (messages, projectId) =>
+  chatWithAI(messages, { projectId, label: 'rebuttal', temperature: 0.4, maxTokens: 6000 });
+
+function commentsFile(projectId: string): string {
+  return join(PROJS_DIR, projectId, 'reviewer-comments.json');
+}
+
+function readImports(projectId: string): ReviewerCommentImport[] {
+  const file = commentsFile(projectId);
+  if (!existsSync(file)) return [];
+  try {
+    const data = JSON.parse(readFileSync(file, 'utf-8'));
+    return Array.isArray(data.imports) ? data.imports : [];
+  } catch (error) {
+    console.error('Failed to load reviewer comments:', error);
+    return [];
+  }
+}
+
+function writeImports(projectId: string, imports: ReviewerCommentImport[]) {
+  const dir = join(PROJS_DIR, projectId);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(commentsFile(projectId), JSON.stringify({ imports }, null, 2), 'utf-8');
+}
+
+// Splitting
+
+const REVIEWER_RE = /^(?:#{1,6}\s*)?[*_]*\s*(?:[Rr]eviewer|[Rr]eview|[Rr]eferee|REVIEWER|REVIEW)\s*#?\s*(\d{1,2}|[A-Z]{1,2})\b[^\n]{0,40}$/;
+const HEADING_RE = /^(?:#{1,6}\s+(.+)|[*_]{2}([^*_]+)[*_]{2}:?|([A-Z][\w ,/&()'-]{1,40}):)$/;
+const ITEM_RE = /^(?:[-*•+]|\(?\d{1,2}[.)]|\(?[A-Z]{1,2}\d{1,2}[.:)])\s+/;
+
+/**
+ * Split a review file into comments. "Reviewer #2" lines start a reviewer,
+ * headings ("## Weaknesses", "**Questions**", "Minor:") set the category, and
+ * each list item or blank-line separated paragraph becomes one comment.
+ */
+export function splitReviewComments(text: string): { reviewer: string; category?: string; text: string }[] {
+  const comments: { reviewer: string; category?: string; text: string }[] = [];
+  let reviewer = '';
+  let category: string | undefined;
+  let current: string[] = [];
+
+  const flush = () => {
+    const body = current.join(' ').replace(/\s+/g, ' ').trim();
+    if (/[A-Za-z\u4e00-\u9fff]/.test(body)) comments.push({ reviewer, category, text: body });
+    current = [];
+  };
+
+  for (const raw of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = raw.trim();
+    if (!line || /^(?:-{3,}|={3,}|\*{3,})$/.test(line)) {
+      flush();
+      continue;
+    }
+
+    const reviewerMatch = REVIEWER_RE.exec(line);
+    if (reviewerMatch) {
+      flush();
+      reviewer = `Reviewer ${reviewerMatch[1]!.toUpperCase()}`;
+      category = undefined;
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      flush();
+      category = (heading[1] || heading[2] || heading[3] || '').replace(/[*_:#]/g, '').trim() || undefined;
+      continue;
+    }
+
+    if (ITEM_RE.test(line)) {
+      flush();
+      current.push(line.replace(ITEM_RE, ''));
+    } else {
+      current.push(line);
+    }
+  }
+  flush();
+  return comments;
+}
+
+// Imports
+
+export function listReviewerComments(projectId: string): ReviewerCommentImport[] {
+  return readImports(projectId).sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+}
+
+export function importReviewerComments(projectId: string, options: { name: string; text: string; mainPath: string }): ReviewerCommentImport {
+  const split = splitReviewComments(options.text || '');
+  if (split.length === 0) throw new ReviewerCommentError('No comments found in the review file');
+
+  const paragraphs = readParagraphs(options.mainPath);
+  const stamp = Date.now().toString(36);
+  const imported: ReviewerCommentImport = {
+    id: `reviews_${stamp}_${Math.random().toString(36).substring(2, 6)}`,
+    name: options.name?.trim() || 'Reviews',
+    importedAt: new Date().toISOString(),
+    comments: split.map((comment, i) => ({
+      id: `c${i + 1}`,
+      ...comment,
+      status: 'open',
+      matches: rankParagraphs(comment.text, paragraphs, MAX_MATCHES).map(({ paragraph, score }) => ({
+        filePath: paragraph.filePath,
+        itemId: paragraph.itemId,
+        lineStart: paragraph.lineStart,
+        excerpt: excerpt(paragraph.content),
+        score: Math.round(score * 100) / 100
+      }))
+    }))
+  };
+
+  writeImports(projectId, [...readImports(projectId), imported]);
+  return imported;
+}
+
+export function deleteReviewerComments(projectId: string, importId: string): boolean {
+  const imports = readImports(projectId);
+  const rest = imports.filter(i => i.id !== importId);
+  if (rest.length === imports.length) return false;
+  writeImports(projectId, rest);
+  return true;
+}
+
+function requireImport(imports: ReviewerCommentImport[], importId: string): ReviewerCommentImport {
+  const found = imports.find(i => i.id === importId);
+  if (!found) throw new ReviewerCommentError('Review import not found', 404);
+  return found;
+}
+
+/**
+ * Backups of the given files written after a point in time. A backup holds the
+ * file as it was before a save, so each one marks an edit made since then.
+ * Backup names are "<file>.<YYYYMMDDHHMMSSm>.bak".
+ */
+export function findBackupsSince(backupsDir: string, filePaths: string[], since: string): string[] {
+  if (!existsSync(backupsDir)) return [];
+  const names = new Set(filePaths.map(p => basename(p)));
+  const sinceStamp = new Date(since).toISOString().replace(/[-:T.]/g, '').substring(0, 15);
+  return readdirSync(backupsDir)
+    .filter(f => {
+      const match = f.match(/^(.*)\.(\d{15})\.bak$/);
+      return !!match && names.has(match[1]!) && match[2]! >= sinceStamp;
+    })
+    .sort();
+}
+
+export function updateReviewerComment(
+  projectId: string,
+  importId: string,
+  commentId: string,
+  update: { status?: ReviewerCommentStatus; note?: string },
+  backupsDir: string
+): ReviewerCommentImport {
+  const imports = readImports(projectId);
+  const target = requireImport(imports, importId);
+  const comment = target.comments.find(c => c.id === commentId);
+  if (!comment) throw new ReviewerCommentError('Comment not found', 404);
+
+  if (update.note !== undefined) comment.note = update.note.trim() || undefined;
+  if (update.status && update.status !== comment.status) {
+    if (!['open', 'addressed', 'wontfix'].includes(update.status)) throw new ReviewerCommentError(`Unknown status: ${update.status}`);
+    comment.status = update.status;
+    comment.resolvedAt = update.status === 'open' ? undefined : new Date().toISOString();
+    // Edits to the paragraphs the comment points at, made since the reviews came in
+    comment.backups = update.status === 'addressed'
+      ? findBackupsSince(backupsDir, [...new Set(comment.matches.map(m => m.filePath))], target.importedAt)
+      : undefined;
+  }
+
+  writeImports(projectId, imports);
+  return target;
+}
+
+// Rebuttal
+
+const REBUTTAL_INSTRUCTIONS = `**Task:** Draft the authors' rebuttal (response to reviewers) for the comments below.
+- Answer each reviewer in turn, in the order given. Quote or paraphrase each comment briefly, then answer it.
+- For addressed comments, state what was changed, based on the author's note and the revised text; name the section when it is clear.
+- For comments marked won't fix, explain politely why, using the author's note.
+- Be courteous, specific and concise. Do not promise changes or report results that the notes and text do not support; mark missing facts as [TODO: ...].
+
+Return the rebuttal as Markdown with one heading per reviewer, without any preamble.`;
+
+export async function draftRebuttal(
+  projectId: string,
+  importId: string,
+  mainPath: string,
+  rootDir: string,
+  chat: RebuttalChat = defaultChat
+): Promise<ReviewerCommentImport> {
+  const imports = readImports(projectId);
+  const target = requireImport(imports, importId);
+  const resolved = target.comments.filter(c => c.status !== 'open');
+  if (resolved.length === 0) throw new ReviewerCommentError('Mark comments as addressed or won\'t fix before drafting a rebuttal');
+
+  // Revised text is looked up again, since the paragraphs have moved since the import
+  const paragraphs = readParagraphs(mainPath);
+  const blocks = resolved.map(comment => {
+    const revised = comment.status === 'addressed' ? rankParagraphs(comment.text, paragraphs, 1)[0]?.paragraph : undefined;
+    return [
+      `${comment.reviewer || 'Reviewer'}${comment.category ? ` (${comment.category})` : ''}: ${comment.text}`,
+      `Status: ${comment.status === 'addressed' ? 'addressed' : 'won\'t fix'}`,
+      comment.note && `Author note: ${comment.note}`,
+      revised && `Revised text (${relative(rootDir, revised.filePath)}):\n${revised.content}`
+    ].filter(Boolean).join('\n');
+  });
+
+  const result = await chat([
+    { role: 'system', content: `${getProjectPrompts(projectId).system}\n\n${REBUTTAL_INSTRUCTIONS}` },
+    { role: 'user', content: blocks.join('\n\n---\n\n') }
+  ], projectId);
+
+  target.rebuttal = { content: result.content.trim(), model: result.model, createdAt: new Date().toISOString() };
+  writeImports(projectId, imports);
+  return target;
+}
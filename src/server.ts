@@ -10,13 +10,86 @@ import {
   getProjectConfig,
   updateProjectConfig,
   getActiveProject,
-  getProjectFilesDir
+  getProjectFilesDir,
+  writeFileWithBackup
 } from "./projectConfig";
 import { loadGitHubSettings, saveGitHubSettings, cloneRepo, getGitStatus, pushChanges } from "./githubService";
-import { processWithAI, getLLMConfig, saveLLMConfig, getLLMProviders, saveLLMProvider, deleteLLMProvider, setActiveProvider, fetchModelsFromAPI, getProjectPrompts, saveProjectPrompts, loadAICache, saveAICache, DEFAULT_PROMPTS, type LLMProvider, type ProjectPrompts } from "./llmService";
+import { processWithAI, streamWithAI, compareWithAI, generateVariants, getLLMConfig, saveLLMConfig, getLLMProviders, saveLLMProvider, deleteLLMProvider, setActiveProvider, fetchModelsFromAPI, getProjectPrompts, saveProjectPrompts, loadAICache, saveAICache, previewPrompt, replayAuditEntry, DEFAULT_PROMPTS, type AIRequest, type CompareTarget, type LLMProvider, type ProjectPrompts } from "./llmService";
 
 
+import { getAdapter, type ChatMessage, type ProviderKind } from "./llmAdapters";
 import { isEmbeddedAsset, getEmbeddedAsset } from "./embeddedAssets";
+import { parseDocumentOutline, findMainFile } from "./latexOutline";
+import {
+  startPaperReview,
+  listPaperReviews,
+  deletePaperReview,
+  getRubrics,
+  saveCustomRubrics,
+  type ReviewRubric
+} from "./paperReview";
+import { expandThoughts, reverseOutline, type ExpandThoughtsRequest, type OutlineParagraph } from "./thoughtDrafts";
+import {
+  listReviewerComments,
+  importReviewerComments,
+  updateReviewerComment,
+  deleteReviewerComments,
+  draftRebuttal,
+  type ReviewerCommentStatus
+} from "./reviewerComments";
+import {
+  listChanges,
+  recordChange,
+  updateChangeReason,
+  deleteChange,
+  exportChanges,
+  type ChangeLogInput,
+  type ChangeExportFormat,
+  type ChangeExportKind
+} from "./changeLog";
+import {
+  listPromptEvals,
+  pinFixture,
+  unpinFixture,
+  savePromptVersion,
+  deletePromptVersion,
+  runPromptEval,
+  deleteEvalRun,
+  type EvalFixture,
+  type PromptVersion
+} from "./promptEval";
+import { getGlossary, saveGlossary, scanGlossary, fixGlossaryViolations } from "./glossary";
+import type { GlossaryTerm, GlossaryViolation } from "../web/src/utils/glossary";
+import { askPaper, listPaperChat, clearPaperChat } from "./paperChat";
+import { getClaimReport, runClaimCheck } from "./claimCheck";
+import { listStyleProfiles, createStyleProfile, deleteStyleProfile, setActiveStyleProfile } from "./styleProfile";
+import { listCachedResponses, deleteCachedResponse, clearResponseCache } from "./responseCache";
+import { listAuditEntries, getAuditEntry, clearAuditLog } from "./auditLog";
+import {
+  createAgentSession,
+  getAgentSession,
+  listAgentSessions,
+  reviewAgentStep,
+  stopAgentSession,
+  sendAgentMessage,
+  deleteAgentSession
+} from "./researchAgent";
+import { getFailoverSettings, saveFailoverSettings, getFailoverLog, type FailoverSettings } from "./llmFailover";
+import { RequestError } from "./requestError";
+import { BudgetExceededError, currentMonth, getMonthlySpend, readUsageRecords, summarizeUsage } from "./usageTracker";
+import {
+  createBatchJob,
+  getBatchJob,
+  listBatchJobs,
+  pauseBatchJob,
+  resumeBatchJob,
+  cancelBatchJob,
+  reviewBatchItem,
+  deleteBatchJob,
+  type BatchJob,
+  type BatchReview,
+  type CreateBatchJobOptions
+} from "./batchJobs";
 
 const PORT = parseInt(process.env.PORT || "3002", 10);
 const STATIC_DIR = join(import.meta.dir, "../web/dist");
@@ -102,6 +175,33 @@ function json(data: unknown, status = 200) {
   });
 }
 
+// Feature errors carry their own status; a spent budget is 402 wherever an AI call can hit it
+function errorResponse(error: unknown) {
+  if (error instanceof RequestError) return json({ error: error.message }, error.status);
+  if (error instanceof BudgetExceededError) return json({ error: error.message }, 402);
+  return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+}
+
+// The UI only ever sees masked keys ("sk-abcde...wxyz"); swap one back for the stored key
+function resolveApiKey(apiKey: string, providerId?: string): string {
+  if (!apiKey.includes('...') || !providerId) return apiKey;
+
+  const storedProvider = getLLMProviders().find(p => p.id === providerId);
+  if (storedProvider?.apiKey) {
+    const prefix = storedProvider.apiKey.substring(0, 8);
+    const suffix = storedProvider.apiKey.substring(storedProvider.apiKey.length - 4);
+    if (apiKey === `${prefix}...${suffix}`) {
+      console.log(`Using stored API key for provider ${storedProvider.name}`);
+      return storedProvider.apiKey;
+    }
+  }
+  return apiKey;
+}
+
+function sseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
 function serveStatic(pathname: string): Response | null {
   // Try to serve from embedded assets first (for single binary mode)
   const embeddedPath = pathname === "/" ? "/index.html" : pathname;
@@ -435,15 +535,565 @@ const handlers: Record<string, (req: Request, params: string[]) => Promise<Respo
 
   "POST:/api/ai/process": async (req) => {
     try {
-      const request = await req.json() as {
-        mode: 'diagnose' | 'refine' | 'quickfix';
-        content: string;
-        systemPrompt?: string;
-        userPrompt?: string;
-      };
+      const request = await req.json() as AIRequest;
       return json(await processWithAI(request));
     } catch (error) {
-      return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+      return errorResponse(error);
+    }
+  },
+
+  // Several rewrites of one request from the active provider, to mix sentence by sentence
+  "POST:/api/ai/variants": async (req) => {
+    try {
+      const { count, ...request } = await req.json() as AIRequest & { count: number };
+      return json(await generateVariants(request, count));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  // The same request sent to several provider/model pairs in parallel
+  "POST:/api/ai/compare": async (req) => {
+    try {
+      const { targets, ...request } = await req.json() as AIRequest & { targets: CompareTarget[] };
+      if (!Array.isArray(targets) || targets.length < 2) return json({ error: "Pick at least two models to compare" }, 400);
+      return json({ candidates: await compareWithAI(request, targets) });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  // Same as /api/ai/process, but streams tokens as Server-Sent Events:
+  // "delta" events carry { text }, a final "done" event carries { content, model, aborted }
+  "POST:/api/ai/process/stream": async (req) => {
+    let request: AIRequest;
+    try {
+      request = await req.json() as AIRequest;
+    } catch (error) {
+      return json({ error: "Invalid request body" }, 400);
+    }
+
+    const abortController = new AbortController();
+    req.signal.addEventListener('abort', () => abortController.abort());
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (abortController.signal.aborted) return;
+          controller.enqueue(encoder.encode(sseEvent(event, data)));
+        };
+
+        try {
+          const result = await streamWithAI(request, (text) => send('delta', { text }), abortController.signal);
+          send('done', result);
+        } catch (error) {
+          send('error', { error: error instanceof Error ? error.message : String(error) });
+        } finally {
+          try { controller.close(); } catch { /* client already gone */ }
+        }
+      },
+      cancel() {
+        abortController.abort();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive"
+      }
+    });
+  },
+
+  // LLM audit log: every paragraph request as sent, and replays against other models or edited prompts
+  "GET:/api/audit-log/:projectId": async (_req, params) => {
+    return json(listAuditEntries(params[0] || ''));
+  },
+
+  "GET:/api/audit-log/:projectId/:entryId": async (_req, params) => {
+    try {
+      return json(getAuditEntry(params[0] || '', params[1] || ''));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "POST:/api/audit-log/:projectId/:entryId/replay": async (req, params) => {
+    try {
+      const options = await req.json() as { providerId?: string; model?: string; messages?: ChatMessage[]; temperature?: number };
+      return json(await replayAuditEntry(params[0] || '', params[1] || '', options));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "DELETE:/api/audit-log/:projectId": async (_req, params) => {
+    clearAuditLog(params[0] || '');
+    return json({ success: true });
+  },
+
+  // Response cache: inspect stored AI replies, delete one (?key=) or clear all
+  "GET:/api/response-cache/:projectId": async (_req, params) => {
+    const projectId = params[0];
+    if (!projectId) return json({ error: "Project ID required" }, 400);
+    return json(listCachedResponses(projectId));
+  },
+
+  "DELETE:/api/response-cache/:projectId": async (req, params) => {
+    const projectId = params[0];
+    if (!projectId) return json({ error: "Project ID required" }, 400);
+
+    try {
+      const key = new URL(req.url).searchParams.get('key');
+      if (key) {
+        return deleteCachedResponse(projectId, key) ? json({ success: true }) : json({ error: "Entry not found" }, 404);
+      }
+      clearResponseCache(projectId);
+      return json({ success: true });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  // Batch AI jobs: one mode over many paragraphs, results kept for review
+  "POST:/api/batch-jobs": async (req) => {
+    try {
+      const options = await req.json() as CreateBatchJobOptions;
+      return json(createBatchJob(options));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "GET:/api/batch-jobs": async (req) => {
+    const url = new URL(req.url);
+    const projectId = url.searchParams.get('projectId');
+    if (!projectId) return json({ error: "projectId is required" }, 400);
+    return json(listBatchJobs(projectId, url.searchParams.get('filePath') || undefined));
+  },
+
+  "GET:/api/batch-jobs/:jobId": async (_req, params) => {
+    const job = getBatchJob(params[0] || '');
+    return job ? json(job) : json({ error: "Batch job not found" }, 404);
+  },
+
+  "POST:/api/batch-jobs/:jobId/:action": async (_req, params) => {
+    const [jobId = '', action] = params;
+    const actions: Record<string, (id: string) => BatchJob> = {
+      pause: pauseBatchJob,
+      resume: resumeBatchJob,
+      cancel: cancelBatchJob
+    };
+    const run = action ? actions[action] : undefined;
+    if (!run) return json({ error: `Unknown action: ${action}` }, 400);
+
+    try {
+      return json(run(jobId));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "POST:/api/batch-jobs/:jobId/items/:itemId/review": async (req, params) => {
+    try {
+      const { review } = await req.json() as { review: BatchReview };
+      if (!['pending', 'accepted', 'rejected'].includes(review)) {
+        return json({ error: "review must be pending, accepted or rejected" }, 400);
+      }
+      return json(reviewBatchItem(params[0] || '', params[1] || '', review));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "DELETE:/api/batch-jobs/:jobId": async (_req, params) => {
+    return deleteBatchJob(params[0] || '') ? json({ success: true }) : json({ error: "Batch job not found" }, 404);
+  },
+
+  // Research agent: works toward a goal with Read/Write/Edit tools; writes wait for approval
+  "POST:/api/agent/sessions": async (req) => {
+    try {
+      const { projectId, goal } = await req.json() as { projectId: string; goal: string };
+      const config = projectId ? await getProjectConfig(projectId) : null;
+      if (!config) return json({ error: "Project not found" }, 404);
+      return json(createAgentSession({ projectId, goal, rootDir: config.sectionsDir }));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "GET:/api/agent/sessions": async (req) => {
+    const projectId = new URL(req.url).searchParams.get('projectId');
+    if (!projectId) return json({ error: "projectId is required" }, 400);
+    return json(listAgentSessions(projectId));
+  },
+
+  "GET:/api/agent/sessions/:sessionId": async (_req, params) => {
+    const session = getAgentSession(params[0] || '');
+    return session ? json(session) : json({ error: "Agent session not found" }, 404);
+  },
+
+  "POST:/api/agent/sessions/:sessionId/:action": async (req, params) => {
+    const [sessionId = '', action] = params;
+    try {
+      if (action === 'stop') return json(stopAgentSession(sessionId));
+      if (action === 'message') {
+        const { message } = await req.json() as { message: string };
+        return json(sendAgentMessage(sessionId, message || ''));
+      }
+      return json({ error: `Unknown action: ${action}` }, 400);
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "POST:/api/agent/sessions/:sessionId/steps/:stepId/review": async (req, params) => {
+    try {
+      const { approved, feedback } = await req.json() as { approved: boolean; feedback?: string };
+      return json(await reviewAgentStep(params[0] || '', params[1] || '', approved === true, feedback));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "DELETE:/api/agent/sessions/:sessionId": async (_req, params) => {
+    return deleteAgentSession(params[0] || '') ? json({ success: true }) : json({ error: "Agent session not found" }, 404);
+  },
+
+  // Whole-paper mock review, scored on a venue rubric; finished reviews are saved as versions
+  "GET:/api/paper-review/rubrics": async () => {
+    return json(getRubrics());
+  },
+
+  "POST:/api/paper-review/rubrics": async (req) => {
+    try {
+      const { rubrics } = await req.json() as { rubrics: Partial<ReviewRubric>[] };
+      saveCustomRubrics(Array.isArray(rubrics) ? rubrics : []);
+      return json(getRubrics());
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "GET:/api/paper-reviews/:projectId": async (_req, params) => {
+    return json(listPaperReviews(params[0] || ''));
+  },
+
+  "POST:/api/paper-reviews/:projectId": async (req, params) => {
+    const projectId = params[0] || '';
+    try {
+      const config = await getProjectConfig(projectId);
+      if (!config) return json({ error: "Project not found" }, 404);
+      const mainPath = findMainFile(config);
+      if (!mainPath) return json({ error: "Main .tex file not found; set it in the project settings" }, 404);
+
+      const { rubricId, label } = await req.json() as { rubricId: string; label?: string };
+      return json(startPaperReview({
+        projectId,
+        mainPath,
+        rootDir: config.sectionsDir,
+        rubricId,
+        label,
+        venue: getProjectPrompts(projectId).context.venue
+      }));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "DELETE:/api/paper-reviews/:projectId/:reviewId": async (_req, params) => {
+    return deletePaperReview(params[0] || '', params[1] || '')
+      ? json({ success: true })
+      : json({ error: "Review not found" }, 404);
+  },
+
+  // Paper chat: questions answered from BM25-retrieved paragraphs, with file:line anchors
+  "GET:/api/paper-chat/:projectId": async (_req, params) => {
+    return json(listPaperChat(params[0] || ''));
+  },
+
+  "POST:/api/paper-chat/:projectId": async (req, params) => {
+    const projectId = params[0] || '';
+    try {
+      const config = await getProjectConfig(projectId);
+      if (!config) return json({ error: "Project not found" }, 404);
+      const mainPath = findMainFile(config);
+      if (!mainPath) return json({ error: "Main .tex file not found; set it in the project settings" }, 404);
+
+      const { question } = await req.json() as { question: string };
+      return json(await askPaper(projectId, question, { mainPath, rootDir: config.sectionsDir }));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "DELETE:/api/paper-chat/:projectId": async (_req, params) => {
+    clearPaperChat(params[0] || '');
+    return json({ success: true });
+  },
+
+  // Claim-evidence check: abstract and introduction claims against the later sections
+  "GET:/api/claim-check/:projectId": async (_req, params) => {
+    return json(getClaimReport(params[0] || ''));
+  },
+
+  "POST:/api/claim-check/:projectId": async (req, params) => {
+    const projectId = params[0] || '';
+    try {
+      const config = await getProjectConfig(projectId);
+      if (!config) return json({ error: "Project not found" }, 404);
+      const mainPath = findMainFile(config);
+      if (!mainPath) return json({ error: "Main .tex file not found; set it in the project settings" }, 404);
+
+      const { semantic } = await req.json() as { semantic?: boolean };
+      return json(await runClaimCheck(projectId, { mainPath, rootDir: config.sectionsDir, semantic }));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  // Reviewer comments: imported reviews, mapped to paragraphs and tracked until the rebuttal
+  "GET:/api/reviewer-comments/:projectId": async (_req, params) => {
+    return json(listReviewerComments(params[0] || ''));
+  },
+
+  "POST:/api/reviewer-comments/:projectId": async (req, params) => {
+    const projectId = params[0] || '';
+    try {
+      const config = await getProjectConfig(projectId);
+      if (!config) return json({ error: "Project not found" }, 404);
+      const mainPath = findMainFile(config);
+      if (!mainPath) return json({ error: "Main .tex file not found; set it in the project settings" }, 404);
+
+      const { name, text } = await req.json() as { name: string; text: string };
+      return json(importReviewerComments(projectId, { name, text, mainPath }));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "POST:/api/reviewer-comments/:projectId/:importId/comments/:commentId": async (req, params) => {
+    const projectId = params[0] || '';
+    try {
+      const config = await getProjectConfig(projectId);
+      if (!config) return json({ error: "Project not found" }, 404);
+
+      const update = await req.json() as { status?: ReviewerCommentStatus; note?: string };
+      return json(updateReviewerComment(projectId, params[1] || '', params[2] || '', update, config.backupsDir));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "POST:/api/reviewer-comments/:projectId/:importId/rebuttal": async (_req, params) => {
+    const projectId = params[0] || '';
+    try {
+      const config = await getProjectConfig(projectId);
+      if (!config) return json({ error: "Project not found" }, 404);
+      const mainPath = findMainFile(config);
+      if (!mainPath) return json({ error: "Main .tex file not found; set it in the project settings" }, 404);
+
+      return json(await draftRebuttal(projectId, params[1] || '', mainPath, config.sectionsDir));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "DELETE:/api/reviewer-comments/:projectId/:importId": async (_req, params) => {
+    return deleteReviewerComments(params[0] || '', params[1] || '')
+      ? json({ success: true })
+      : json({ error: "Review import not found" }, 404);
+  },
+
+  // Changelog of accepted AI edits, exported as a changelog or summary of changes
+  "GET:/api/changelog/:projectId": async (_req, params) => {
+    return json(listChanges(params[0] || ''));
+  },
+
+  "POST:/api/changelog/:projectId": async (req, params) => {
+    const projectId = params[0] || '';
+    try {
+      const config = await getProjectConfig(projectId);
+      if (!config) return json({ error: "Project not found" }, 404);
+
+      const input = await req.json() as ChangeLogInput;
+      return json(recordChange(projectId, input, findMainFile(config)));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "GET:/api/changelog/:projectId/export": async (req, params) => {
+    const projectId = params[0] || '';
+    try {
+      const config = await getProjectConfig(projectId);
+      if (!config) return json({ error: "Project not found" }, 404);
+
+      const url = new URL(req.url);
+      const format = (url.searchParams.get('format') || 'markdown') as ChangeExportFormat;
+      const kind = (url.searchParams.get('kind') || 'summary') as ChangeExportKind;
+      if (!['markdown', 'latex'].includes(format) || !['changelog', 'summary'].includes(kind)) {
+        return json({ error: "format must be markdown or latex, kind changelog or summary" }, 400);
+      }
+      const content = exportChanges(projectId, { format, kind, rootDir: config.sectionsDir, mainPath: findMainFile(config) });
+      return json({ content, filename: `${kind === 'summary' ? 'summary-of-changes' : 'changelog'}.${format === 'latex' ? 'tex' : 'md'}` });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "POST:/api/changelog/:projectId/:entryId": async (req, params) => {
+    try {
+      const { reason } = await req.json() as { reason: string };
+      return json(updateChangeReason(params[0] || '', params[1] || '', reason || ''));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "DELETE:/api/changelog/:projectId/:entryId": async (_req, params) => {
+    return deleteChange(params[0] || '', params[1] || '')
+      ? json({ success: true })
+      : json({ error: "Change not found" }, 404);
+  },
+
+  // Project glossary, added to every AI prompt, and the terminology scanner
+  "GET:/api/glossary/:projectId": async (_req, params) => {
+    return json({ terms: getGlossary(params[0] || '') });
+  },
+
+  "POST:/api/glossary/:projectId": async (req, params) => {
+    try {
+      const { terms } = await req.json() as { terms: Partial<GlossaryTerm>[] };
+      return json({ terms: saveGlossary(params[0] || '', terms) });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "GET:/api/glossary/:projectId/scan": async (_req, params) => {
+    const projectId = params[0] || '';
+    try {
+      const config = await getProjectConfig(projectId);
+      if (!config) return json({ error: "Project not found" }, 404);
+      return json(scanGlossary(projectId, config));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "POST:/api/glossary/:projectId/fix": async (req, params) => {
+    const projectId = params[0] || '';
+    try {
+      const config = await getProjectConfig(projectId);
+      if (!config) return json({ error: "Project not found" }, 404);
+
+      const { violations } = await req.json() as { violations: GlossaryViolation[] };
+      return json(await fixGlossaryViolations(projectId, config, Array.isArray(violations) ? violations : []));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  // Style profiles learned from exemplar papers; the active one fills {{style}}
+  "GET:/api/style-profiles/:projectId": async (_req, params) => {
+    return json(listStyleProfiles(params[0] || ''));
+  },
+
+  "POST:/api/style-profiles/:projectId": async (req, params) => {
+    try {
+      const { name, sources } = await req.json() as { name: string; sources: { name: string; content: string }[] };
+      return json(createStyleProfile(params[0] || '', name, sources));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "POST:/api/style-profiles/:projectId/active": async (req, params) => {
+    try {
+      const { profileId } = await req.json() as { profileId: string | null };
+      return json(setActiveStyleProfile(params[0] || '', profileId || null));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "DELETE:/api/style-profiles/:projectId/:profileId": async (_req, params) => {
+    return deleteStyleProfile(params[0] || '', params[1] || '')
+      ? json({ success: true })
+      : json({ error: "Style profile not found" }, 404);
+  },
+
+  // Prompt evaluation: pinned fixture paragraphs, saved prompt versions and their runs
+  "GET:/api/prompt-evals/:projectId": async (_req, params) => {
+    return json(listPromptEvals(params[0] || ''));
+  },
+
+  "POST:/api/prompt-evals/:projectId/fixtures": async (req, params) => {
+    try {
+      const input = await req.json() as Omit<EvalFixture, 'id' | 'pinnedAt'>;
+      return json(pinFixture(params[0] || '', input));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "DELETE:/api/prompt-evals/:projectId/fixtures/:fixtureId": async (_req, params) => {
+    return unpinFixture(params[0] || '', params[1] || '')
+      ? json({ success: true })
+      : json({ error: "Fixture not found" }, 404);
+  },
+
+  "POST:/api/prompt-evals/:projectId/versions": async (req, params) => {
+    try {
+      const input = await req.json() as Omit<PromptVersion, 'id' | 'createdAt'>;
+      return json(savePromptVersion(params[0] || '', input));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "DELETE:/api/prompt-evals/:projectId/versions/:versionId": async (_req, params) => {
+    return deletePromptVersion(params[0] || '', params[1] || '')
+      ? json({ success: true })
+      : json({ error: "Prompt version not found" }, 404);
+  },
+
+  "POST:/api/prompt-evals/:projectId/runs": async (req, params) => {
+    try {
+      const { versionIds } = await req.json() as { versionIds: string[] };
+      return json({ runs: await runPromptEval(params[0] || '', Array.isArray(versionIds) ? versionIds : []) });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "DELETE:/api/prompt-evals/:projectId/runs/:runId": async (_req, params) => {
+    return deleteEvalRun(params[0] || '', params[1] || '')
+      ? json({ success: true })
+      : json({ error: "Run not found" }, 404);
+  },
+
+  // FW_THOUGHTS: draft a paragraph from its notes, or notes from existing paragraphs
+  "POST:/api/thoughts/expand": async (req) => {
+    try {
+      const request = await req.json() as ExpandThoughtsRequest;
+      if (!request.projectId || !request.filePath) return json({ error: "projectId and filePath are required" }, 400);
+      return json(await expandThoughts({ ...request, thoughts: request.thoughts || '', content: request.content || '' }));
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  "POST:/api/thoughts/outline": async (req) => {
+    try {
+      const { projectId, paragraphs } = await req.json() as { projectId: string; paragraphs: OutlineParagraph[] };
+      if (!projectId) return json({ error: "projectId is required" }, 400);
+      return json(await reverseOutline({ projectId, paragraphs: Array.isArray(paragraphs) ? paragraphs : [] }));
+    } catch (error) {
+      return errorResponse(error);
     }
   },
 
@@ -470,55 +1120,30 @@ const handlers: Record<string, (req: Request, params: string[]) => Promise<Respo
 
   "POST:/api/llm-config/test": async (req) => {
     try {
-      const config = await req.json() as { baseUrl: string; apiKey: string; model: string; providerId?: string };
+      const config = await req.json() as { kind?: ProviderKind; baseUrl: string; apiKey: string; model: string; apiVersion?: string; providerId?: string };
+      const adapter = getAdapter(config.kind);
 
-      if (!config.apiKey) {
+      if (!config.apiKey && adapter.requiresApiKey) {
         return json({ success: false, error: "API key is required" }, 400);
       }
 
-      let effectiveApiKey = config.apiKey;
-
-      // Check if key is masked and we have a provider ID to look up the real key
-      if (config.apiKey.includes('...') && config.providerId) {
-        const providers = getLLMProviders();
-        const storedProvider = providers.find(p => p.id === config.providerId);
+      const effectiveApiKey = resolveApiKey(config.apiKey, config.providerId);
 
-        if (storedProvider && storedProvider.apiKey) {
-          const prefix = storedProvider.apiKey.substring(0, 8);
-          const suffix = storedProvider.apiKey.substring(storedProvider.apiKey.length - 4);
-          const masked = `${prefix}...${suffix}`;
+      console.log(`Testing ${adapter.kind} connection to ${config.baseUrl}...`);
 
-          if (config.apiKey === masked) {
-            console.log(`Using stored API key for testing provider ${storedProvider.name}`);
-            effectiveApiKey = storedProvider.apiKey;
-          }
-        }
-      }
-
-      // Use OpenAI SDK to test connection
-      const OpenAI = (await import('openai')).default;
-      const baseURL = config.baseUrl.replace(/\/chat\/completions\/?$/, '');
-      const client = new OpenAI({
-        apiKey: effectiveApiKey,
-        baseURL,
-        timeout: 10000 // 10s timeout
-      });
-
-      console.log(`Testing connection to ${baseURL}...`);
-
-      const response = await client.chat.completions.create({
+      const response = await adapter.chat({ baseUrl: config.baseUrl, apiKey: effectiveApiKey, apiVersion: config.apiVersion }, {
         model: config.model,
         messages: [{ role: 'user', content: 'Hi, please respond with just "OK" to confirm the connection works.' }],
-        max_tokens: 10,
-        temperature: 0
+        maxTokens: 10,
+        temperature: 0,
+        timeout: 10000 // 10s timeout
       });
 
       console.log("Connection test success");
 
-      const content = response.choices[0]?.message?.content;
       return json({
         success: true,
-        message: content || 'Connection successful',
+        message: response.content || 'Connection successful',
         model: response.model
       });
     } catch (error) {
@@ -567,13 +1192,45 @@ const handlers: Record<string, (req: Request, params: string[]) => Promise<Respo
     return success ? json({ success: true }) : json({ error: "Provider not found" }, 404);
   },
 
+  // Failover chain: fallback providers tried after the active one, plus recent failover events
+  "GET:/api/llm-failover": async () => {
+    return json({ settings: getFailoverSettings(), log: getFailoverLog() });
+  },
+
+  "POST:/api/llm-failover": async (req) => {
+    try {
+      const settings = await req.json() as Partial<FailoverSettings>;
+      return json({ success: true, settings: saveFailoverSettings(settings) });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
+  // Token and cost usage for one month (?month=YYYY-MM), optionally for one project
+  "GET:/api/usage": async (req) => {
+    const url = new URL(req.url);
+    const month = url.searchParams.get('month') || currentMonth();
+    if (!/^\d{4}-\d{2}$/.test(month)) return json({ error: "month must be YYYY-MM" }, 400);
+
+    const records = readUsageRecords();
+    const budgets = getLLMProviders().map(p => ({
+      providerId: p.id,
+      name: p.name,
+      monthlyBudget: p.monthlyBudget,
+      spent: getMonthlySpend(records, p.id, month)
+    }));
+    return json({ ...summarizeUsage(records, { month, projectId: url.searchParams.get('projectId') || undefined }), budgets });
+  },
+
   "POST:/api/llm-providers/fetch-models": async (req) => {
     try {
-      const { baseUrl, apiKey } = await req.json() as { baseUrl: string; apiKey: string };
-      if (!baseUrl || !apiKey) {
+      const { baseUrl, apiKey, kind, apiVersion, providerId } = await req.json() as {
+        baseUrl: string; apiKey: string; kind?: ProviderKind; apiVersion?: string; providerId?: string
+      };
+      if (!baseUrl || (!apiKey && getAdapter(kind).requiresApiKey)) {
         return json({ error: "baseUrl and apiKey are required" }, 400);
       }
-      const models = await fetchModelsFromAPI(baseUrl, apiKey);
+      const models = await fetchModelsFromAPI(baseUrl, resolveApiKey(apiKey || '', providerId), kind, apiVersion);
       return json({ models });
     } catch (error) {
       return json({ error: error instanceof Error ? error.message : String(error) }, 500);
@@ -625,10 +1282,15 @@ const handlers: Record<string, (req: Request, params: string[]) => Promise<Respo
     // Delete prompts.json to reset to defaults
     const promptsFile = join(process.cwd(), "projs", projectId, "prompts.json");
     try {
+      // Custom modes and paper context are user content, not overridden defaults, so they survive a reset
+      const { customModes, context } = getProjectPrompts(projectId);
       if (existsSync(promptsFile)) {
         const { unlinkSync } = await import("node:fs");
         unlinkSync(promptsFile);
       }
+      if (customModes.length > 0 || context.venue) {
+        saveProjectPrompts(projectId, { customModes, context });
+      }
 
       // Return full default project prompts including keys that might be missing in DEFAULT_PROMPTS
       const defaults = getProjectPrompts(projectId);
@@ -638,6 +1300,23 @@ const handlers: Record<string, (req: Request, params: string[]) => Promise<Respo
     }
   },
 
+  // Expand a prompt's {{variables}} for a paragraph without calling the model
+  "POST:/api/prompts/:projectId/preview": async (req, params) => {
+    const projectId = params[0];
+    if (!projectId) return json({ error: "Project ID required" }, 400);
+
+    try {
+      const body = await req.json() as Omit<AIRequest, 'projectId'> & { paperContext?: ProjectPrompts['context'] };
+      if (!body.mode) return json({ error: "mode is required" }, 400);
+
+      const { paperContext, ...request } = body;
+      const preview = await previewPrompt({ ...request, content: request.content || '', projectId }, paperContext);
+      return json(preview);
+    } catch (error) {
+      return errorResponse(error);
+    }
+  },
+
   "GET:/api/prompts/defaults": async () => {
     return json(DEFAULT_PROMPTS);
   },
@@ -775,80 +1454,7 @@ const handlers: Record<string, (req: Request, params: string[]) => Promise<Respo
     if (!existsSync(path)) return json({ error: "File not found" }, 404);
 
     try {
-      const visited = new Set<string>();
-      const sections: { id: string; level: number; title: string; lineStart: number; filePath: string }[] = [];
-      const sectionRegex = /\\(section|subsection|subsubsection)\*?\s*\{([^}]*)\}/;
-      const inputRegex = /\\(?:input|include)\s*\{([^}]*)\}/;
-
-      // Recursive function to parse files
-      function parseFile(filePath: string) {
-        // Resolve path: if no extension, try .tex
-        let resolvedPath = filePath;
-        if (!existsSync(resolvedPath) && existsSync(resolvedPath + '.tex')) {
-          resolvedPath += '.tex';
-        }
-
-        console.log(`[ParseSections] Parsing: ${resolvedPath} (Original: ${filePath})`);
-
-        if (!existsSync(resolvedPath)) {
-          console.warn(`[ParseSections] File not found: ${filePath} -> ${resolvedPath}`);
-          return;
-        }
-
-        // Avoid circular dependencies
-        if (visited.has(resolvedPath)) {
-          console.log(`[ParseSections] Skipping visited: ${resolvedPath}`);
-          return;
-        }
-        visited.add(resolvedPath);
-
-        const content = readFileSync(resolvedPath, 'utf-8');
-        const lines = content.split('\n');
-        // Use dirname from imported node:path
-        const currentDir = dirname(resolvedPath);
-
-        lines.forEach((line, index) => {
-          const trimmedLine = line.trim();
-          if (trimmedLine.startsWith('%')) return; // Skip comments
-
-          // Check for sections
-          const sectionMatch = sectionRegex.exec(line);
-          if (sectionMatch) {
-            const type = sectionMatch[1];
-            let level = 0;
-            if (type === 'section') level = 1;
-            else if (type === 'subsection') level = 2;
-            else if (type === 'subsubsection') level = 3;
-
-            if (level > 0) {
-              const title = (sectionMatch[2] || '').trim();
-              console.log(`[ParseSections] Found section: ${title} in ${resolvedPath} line ${index + 1}`);
-              sections.push({
-                id: `section_${sections.length}`,
-                level,
-                title,
-                lineStart: index + 1,
-                filePath: resolvedPath
-              });
-            }
-          }
-
-          // Check for inputs
-          const inputMatch = inputRegex.exec(line);
-          if (inputMatch) {
-            const includePath = (inputMatch[1] || '').trim();
-            if (!includePath) return;
-
-            // Resolve relative to current file's directory
-            const fullIncludePath = join(currentDir, includePath);
-            console.log(`[ParseSections] Found input: ${includePath} -> ${fullIncludePath}`);
-            parseFile(fullIncludePath);
-          }
-        });
-      }
-
-      parseFile(path);
-
+      const { sections } = parseDocumentOutline(path);
       return json({ sections });
     } catch (error) {
       return json({ error: error instanceof Error ? error.message : String(error) }, 500);
@@ -1114,7 +1720,7 @@ const handlers: Record<string, (req: Request, params: string[]) => Promise<Respo
 
   "POST:/api/latex/synctex": async (req) => {
     try {
-      const { parseSynctex, pdfToSource, getSynctexPath } = await import('./synctex');
+      const { parseSynctex, pdfToSource, findSynctexFile } = await import('./synctex');
       const { projectId, page, x, y } = await req.json() as { projectId: string; page: number; x: number; y: number };
 
       if (!projectId) return json({ error: 'projectId required' }, 400);
@@ -1122,27 +1728,7 @@ const handlers: Record<string, (req: Request, params: string[]) => Promise<Respo
       const config = await getProjectConfig(projectId);
       if (!config) return json({ error: 'Project not found' }, 404);
 
-      // Find synctex.gz file
-      const sectionsDir = config.sectionsDir;
-
-      const findSynctex = (dir: string): string | null => {
-        try {
-          const entries = readdirSync(dir, { withFileTypes: true });
-          for (const entry of entries) {
-            const full = join(dir, entry.name);
-            if (entry.isFile() && (entry.name.endsWith('.synctex.gz') || entry.name.endsWith('.synctex'))) {
-              return full;
-            }
-            if (entry.isDirectory()) {
-              const found = findSynctex(full);
-              if (found) return found;
-            }
-          }
-        } catch { /* ignore */ }
-        return null;
-      };
-
-      const synctexPath = findSynctex(sectionsDir);
+      const synctexPath = findSynctexFile(config.sectionsDir);
       if (!synctexPath) {
         return json({ error: 'SyncTeX file not found. Please compile with synctex enabled.' }, 404);
       }
@@ -1165,7 +1751,7 @@ const handlers: Record<string, (req: Request, params: string[]) => Promise<Respo
 
   "POST:/api/latex/forward-synctex": async (req) => {
     try {
-      const { parseSynctex, sourceToPdf, getSynctexPath } = await import('./synctex');
+      const { parseSynctex, sourceToPdf, findSynctexFile } = await import('./synctex');
       const { projectId, file, line } = await req.json() as { projectId: string; file: string; line: number };
 
       if (!projectId) return json({ error: 'projectId required' }, 400);
@@ -1173,27 +1759,7 @@ const handlers: Record<string, (req: Request, params: string[]) => Promise<Respo
       const config = await getProjectConfig(projectId);
       if (!config) return json({ error: 'Project not found' }, 404);
 
-      const sectionsDir = config.sectionsDir;
-
-      // Helper to find synctex file recursively
-      const findSynctex = (dir: string): string | null => {
-        try {
-          const entries = readdirSync(dir, { withFileTypes: true });
-          for (const entry of entries) {
-            const full = join(dir, entry.name);
-            if (entry.isFile() && (entry.name.endsWith('.synctex.gz') || entry.name.endsWith('.synctex'))) {
-              return full;
-            }
-            if (entry.isDirectory()) {
-              const found = findSynctex(full);
-              if (found) return found;
-            }
-          }
-        } catch { /* ignore */ }
-        return null;
-      };
-
-      const synctexPath = findSynctex(sectionsDir);
+      const synctexPath = findSynctexFile(config.sectionsDir);
       if (!synctexPath) {
         return json({ error: 'SyncTeX file not found' }, 404);
       }
@@ -1215,6 +1781,38 @@ const handlers: Record<string, (req: Request, params: string[]) => Promise<Respo
       console.error("Forward SyncTeX error:", error);
       return json({ error: error instanceof Error ? error.message : String(error) }, 500);
     }
+  },
+
+  // Typeset lines of a source range in the last compiled PDF, for length budgets
+  "POST:/api/latex/line-estimate": async (req) => {
+    try {
+      const { parseSynctex, findSynctexFile, estimateTypesetLines } = await import('./synctex');
+      const { projectId, file, lineStart, lineEnd } = await req.json() as { projectId: string; file: string; lineStart: number; lineEnd?: number };
+
+      if (!projectId || !file) return json({ error: 'projectId and file required' }, 400);
+
+      const config = await getProjectConfig(projectId);
+      if (!config) return json({ error: 'Project not found' }, 404);
+
+      const synctexPath = findSynctexFile(config.sectionsDir);
+      if (!synctexPath) {
+        return json({ error: 'SyncTeX file not found. Compile the paper first.' }, 404);
+      }
+
+      const synctexData = parseSynctex(synctexPath);
+      if (!synctexData) {
+        return json({ error: 'Failed to parse SyncTeX file' }, 500);
+      }
+
+      const result = estimateTypesetLines(synctexData, file, lineStart || 1, lineEnd ?? Number.MAX_SAFE_INTEGER);
+      if (!result) {
+        return json({ error: 'The file is not part of the compiled PDF' }, 404);
+      }
+
+      return json(result);
+    } catch (error) {
+      return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+    }
   }
 };
 
@@ -1327,27 +1925,8 @@ const appFetch = async (req: Request) => {
             return json({ error: "Content is required" }, 400);
           }
 
-          // Create backup if requested and file exists
-          if (body.createBackup && existsSync(filePath) && projectId) {
-            const config = await getProjectConfig(projectId);
-            if (config) {
-              const backupsDir = config.backupsDir;
-              if (!existsSync(backupsDir)) {
-                mkdirSync(backupsDir, { recursive: true });
-              }
-
-              const filename = basename(filePath);
-              // Fix: Remove dots from timestamp to avoid double dots in filename
-              const timestamp = new Date().toISOString().replace(/[-:T.]/g, "").substring(0, 15);
-              const backupPath = join(backupsDir, `${filename}.${timestamp}.bak`);
-
-              const originalContent = readFileSync(filePath, "utf-8");
-              writeFileSync(backupPath, originalContent, "utf-8");
-            }
-          }
-
-          // Write new content
-          writeFileSync(filePath, body.content, "utf-8");
+          // Backs up the current version first if requested
+          await writeFileWithBackup(filePath, body.content, projectId, !!body.createBackup);
 
           return json({ success: true });
         } catch (error) {
@@ -1440,6 +2019,8 @@ async function startServer(startPort: number) {
       const server = Bun.serve({
         port,
         fetch: appFetchWithHeaders,
+        // Default is 10s; long AI generations (especially streamed ones) can stay quiet longer
+        idleTimeout: 120,
       });
 
       console.log(`FastWrite running at http://localhost:${server.port}`);
@@ -0,0 +1,55 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { previewPrompt } from './llmService';
+import {
+  createStyleProfile,
+  listStyleProfiles,
+  setActiveStyleProfile,
+  deleteStyleProfile,
+  getActiveStylePrompt,
+  StyleProfileError
+} from './styleProfile';
+
+const projectId = `test-style-profile-${process.pid}`;
+
+const exemplar = `\\begin{document}
+\\section{Introduction}
+We present a tool. However, prior work is slow.
+\\section{Evaluation}
+The tool is evaluated on ten workloads.
+\\end{document}`;
+
+describe('styleProfile', () => {
+  afterEach(() => {
+    rmSync(join(process.cwd(), 'projs', projectId), { recursive: true, force: true });
+  });
+
+  it('should build profiles from exemplars and make the first one active', () => {
+    const osdi = createStyleProfile(projectId, 'OSDI', [{ name: 'a.tex', content: exemplar }, { name: 'empty.tex', content: ' ' }]);
+    const advisor = createStyleProfile(projectId, 'Advisor', [{ name: 'b.tex', content: exemplar }]);
+
+    expect(osdi.sources).toEqual([{ name: 'a.tex', words: 16 }]);
+    expect(osdi.metrics.sentences).toBe(3);
+    expect(listStyleProfiles(projectId).activeId).toBe(osdi.id);
+
+    expect(setActiveStyleProfile(projectId, advisor.id).activeId).toBe(advisor.id);
+    expect(getActiveStylePrompt(projectId)).toContain('**Target Style (Advisor, learned from 1 exemplar paper):**');
+
+    expect(deleteStyleProfile(projectId, advisor.id)).toBe(true);
+    expect(listStyleProfiles(projectId).activeId).toBeNull();
+    expect(getActiveStylePrompt(projectId)).toBe('');
+
+    expect(() => createStyleProfile(projectId, 'Empty', [{ name: 'x.tex', content: '\\begin{document}\\end{document}' }])).toThrow(StyleProfileError);
+    expect(() => setActiveStyleProfile(projectId, 'missing')).toThrow('Style profile not found');
+  });
+
+  it('should fill the {{style}} prompt variable from the active profile', async () => {
+    createStyleProfile(projectId, 'OSDI', [{ name: 'a.tex', content: exemplar }]);
+
+    const { messages, variables } = await previewPrompt({ mode: 'refine', content: 'Text.', projectId, systemPrompt: 'Edit.\n{{style}}' });
+
+    expect(variables.style).toContain('Typical sections, in order: introduction, evaluation');
+    expect(messages[0]!.content).toContain('Edit.\n**Target Style (OSDI');
+  });
+});
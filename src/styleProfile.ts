@@ -0,0 +1,101 @@
+/**
+ * Style profiles - imported exemplar papers are measured into a profile
+ * (sentence lengths, sentence openers, voice, hedging, section structure).
+ * The project's active profile fills the {{style}} prompt variable, and the
+ * editor scores paragraphs against it.
+ */
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { analyzeStyle, formatStylePrompt, type StyleMetrics } from '../web/src/utils/style';
+import { RequestError } from './requestError';
+
+const PROJS_DIR = join(process.cwd(), 'projs');
+
+export interface StyleProfile {
+  id: string;
+  name: string; // e.g. "OSDI" or "Advisor"
+  createdAt: string;
+  sources: { name: string; words: number }[]; // The exemplars; their text is not kept
+  metrics: StyleMetrics;
+}
+
+export interface StyleProfiles {
+  profiles: StyleProfile[];
+  activeId: string | null;
+}
+
+export class StyleProfileError extends RequestError {
+  override name = 'StyleProfileError';
+}
+
+function profilesFile(projectId: string): string {
+  return join(PROJS_DIR, projectId, 'style-profiles.json');
+}
+
+export function listStyleProfiles(projectId: string): StyleProfiles {
+  const file = profilesFile(projectId);
+  if (!existsSync(file)) return { profiles: [], activeId: null };
+  try {
+    const data = JSON.parse(readFileSync(file, 'utf-8'));
+    const profiles: StyleProfile[] = Array.isArray(data.profiles) ? data.profiles : [];
+    const activeId = profiles.some(p => p.id === data.activeId) ? data.activeId : null;
+    return { profiles, activeId };
+  } catch (error) {
+    console.error('Failed to load style profiles:', error);
+    return { profiles: [], activeId: null };
+  }
+}
+
+function writeProfiles(projectId: string, data: StyleProfiles) {
+  const dir = join(PROJS_DIR, projectId);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(profilesFile(projectId), JSON.stringify(data, null, 2), 'utf-8');
+}
+
+/**
+ * Build a profile from exemplar .tex sources, one per paper. The first profile
+ * of a project becomes its active one.
+ */
+export function createStyleProfile(projectId: string, name: string, sources: { name: string; content: string }[]): StyleProfile {
+  if (!name?.trim()) throw new StyleProfileError('A profile name is required');
+  const papers = (Array.isArray(sources) ? sources : []).filter(s => typeof s?.content === 'string' && s.content.trim());
+  if (papers.length === 0) throw new StyleProfileError('Add at least one exemplar .tex source');
+
+  const metrics = analyzeStyle(papers.map(s => s.content));
+  if (metrics.sentences === 0) throw new StyleProfileError('No prose found in the exemplars');
+
+  const profile: StyleProfile = {
+    id: `style_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 6)}`,
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+    sources: papers.map(s => ({ name: s.name || 'untitled.tex', words: analyzeStyle([s.content]).words })),
+    metrics
+  };
+  const data = listStyleProfiles(projectId);
+  writeProfiles(projectId, { profiles: [...data.profiles, profile], activeId: data.activeId ?? profile.id });
+  return profile;
+}
+
+export function deleteStyleProfile(projectId: string, profileId: string): boolean {
+  const data = listStyleProfiles(projectId);
+  const profiles = data.profiles.filter(p => p.id !== profileId);
+  if (profiles.length === data.profiles.length) return false;
+  writeProfiles(projectId, { profiles, activeId: data.activeId === profileId ? null : data.activeId });
+  return true;
+}
+
+// null turns {{style}} off
+export function setActiveStyleProfile(projectId: string, profileId: string | null): StyleProfiles {
+  const data = listStyleProfiles(projectId);
+  if (profileId && !data.profiles.some(p => p.id === profileId)) throw new StyleProfileError('Style profile not found', 404);
+  const updated = { ...data, activeId: profileId };
+  writeProfiles(projectId, updated);
+  return updated;
+}
+
+// Value of the {{style}} prompt variable; '' without an active profile
+export function getActiveStylePrompt(projectId: string): string {
+  const { profiles, activeId } = listStyleProfiles(projectId);
+  const active = profiles.find(p => p.id === activeId);
+  return active ? formatStylePrompt(active.name, active.metrics) : '';
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseSynctex, findSynctexFile, estimateTypesetLines } from './synctex';
+
+const pt = (n: number) => Math.round(n * 65536);
+
+// Two pages of a two-column paper: eval.tex lines 10-19 fill two lines in each column of page 2
+const SYNCTEX = [
+  'SyncTeX Version:1',
+  'Input:1:./main.tex',
+  'Input:2:./sections/eval.tex',
+  'Magnification:1000',
+  'Unit:1',
+  '{1',
+  `(1,5:${pt(54)},${pt(100)}:${pt(240)},${pt(7)},0`,
+  `(1,5:${pt(54)},${pt(112)}:${pt(240)},${pt(7)},0`,
+  `(1,6:${pt(310)},${pt(100)}:${pt(240)},${pt(7)},0`,
+  `(1,6:${pt(310)},${pt(112)}:${pt(240)},${pt(7)},0`,
+  '}1',
+  '{2',
+  `(2,10:${pt(54)},${pt(100)}:${pt(240)},${pt(7)},0`,
+  `(2,10:${pt(54)},${pt(100)}:${pt(20)},${pt(7)},0`,
+  `g2,10:${pt(80)},${pt(100)}`,
+  `(2,12:${pt(54)},${pt(112)}:${pt(240)},${pt(7)},0`,
+  `(2,12:${pt(310)},${pt(100)}:${pt(240)},${pt(7)},0`,
+  `(2,19:${pt(310)},${pt(112)}:${pt(240)},${pt(7)},0`,
+  `(2,25:${pt(310)},${pt(124)}:${pt(240)},${pt(7)},0`,
+  '}2'
+].join('\n');
+
+describe('synctex', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'synctex-'));
+    mkdirSync(join(root, 'output'));
+    writeFileSync(join(root, 'output', 'main.synctex'), SYNCTEX);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should count the typeset lines of a source range by page, column and baseline', () => {
+    const path = findSynctexFile(root);
+    expect(path).toBe(join(root, 'output', 'main.synctex'));
+
+    const data = parseSynctex(path!)!;
+    expect(estimateTypesetLines(data, '/paper/sections/eval.tex', 10, 20)).toEqual({ lines: 4, linesPerPage: 5, pages: 2 });
+    expect(estimateTypesetLines(data, '/paper/sections/eval.tex', 20, 30)?.lines).toBe(1);
+    expect(estimateTypesetLines(data, '/paper/sections/related.tex', 1, 100)).toBeNull();
+  });
+});
@@ -1,7 +1,7 @@
 /**
  * SyncTeX Parser - Parse synctex files for PDF-source synchronization
  */
-import { readFileSync, existsSync } from "node:fs";
+import { readFileSync, existsSync, readdirSync } from "node:fs";
 import { gunzipSync } from "node:zlib";
 import { dirname, join, basename } from "node:path";
 
@@ -25,7 +25,7 @@ interface SyncTexInput {
 	name: string;
 }
 
-interface SyncTexData {
+export interface SyncTexData {
 	inputs: Map<number, string>;
 	blocks: SyncTexBlock[];
 	magnification: number;
@@ -262,30 +262,35 @@ export function pdfToSource(
 }
 
 /**
- * Find PDF location from source coordinates
+ * Find the synctex input tag of a source file
  */
-export function sourceToPdf(
-	synctexData: SyncTexData,
-	filePath: string,
-	line: number
-): { page: number; x: number; y: number; width: number; height: number } | null {
+function findFileTag(synctexData: SyncTexData, filePath: string): number | undefined {
 	// Normalize file path (remove ./ and resolve)
 	const normalizeP = (p: string) => p.replace(/\/\.\//g, '/').replace(/^\.\//g, '');
 	const normalizedFilePath = normalizeP(filePath);
 	const fileBasename = basename(filePath);
 
-	// Find tag for file
-	let fileTag: number | undefined;
 	for (const [tag, path] of synctexData.inputs.entries()) {
 		const normalizedSyncPath = normalizeP(path);
 		// Match by: same basename, or normalized paths end with each other
 		if (basename(path) === fileBasename ||
 			normalizedSyncPath.endsWith(normalizedFilePath) ||
 			normalizedFilePath.endsWith(normalizedSyncPath)) {
-			fileTag = tag;
-			break;
+			return tag;
 		}
 	}
+	return undefined;
+}
+
+/**
+ * Find PDF location from source coordinates
+ */
+export function sourceToPdf(
+	synctexData: SyncTexData,
+	filePath: string,
+	line: number
+): { page: number; x: number; y: number; width: number; height: number } | null {
+	const fileTag = findFileTag(synctexData, filePath);
 
 	if (fileTag === undefined) {
 		console.log('[synctex] No file tag found for:', filePath, 'Available inputs:', Array.from(synctexData.inputs.values()).slice(0, 5));
@@ -384,3 +389,65 @@ export function sourceToPdf(
 export function getSynctexPath(pdfPath: string): string {
 	return pdfPath.replace(/\.pdf$/, '.synctex.gz');
 }
+
+/**
+ * Find the first synctex file below a directory (compile output lands in output/)
+ */
+export function findSynctexFile(dir: string): string | null {
+	try {
+		const entries = readdirSync(dir, { withFileTypes: true });
+		for (const entry of entries) {
+			const full = join(dir, entry.name);
+			if (entry.isFile() && (entry.name.endsWith('.synctex.gz') || entry.name.endsWith('.synctex'))) {
+				return full;
+			}
+			if (entry.isDirectory()) {
+				const found = findSynctexFile(full);
+				if (found) return found;
+			}
+		}
+	} catch { /* ignore */ }
+	return null;
+}
+
+export interface TypesetLineEstimate {
+	lines: number;        // Typeset lines produced by the source range
+	linesPerPage: number; // Average over the whole document, to turn pages into lines
+	pages: number;
+}
+
+/**
+ * Estimate how many typeset lines a range of source lines takes in the PDF.
+ * Each line of a paragraph is an hbox, so boxes are counted by page, baseline and
+ * column; a box starting right of 200pt is taken to be in the second column.
+ */
+export function estimateTypesetLines(
+	synctexData: SyncTexData,
+	filePath: string,
+	lineStart: number,
+	lineEnd: number // Exclusive
+): TypesetLineEstimate | null {
+	const fileTag = findFileTag(synctexData, filePath);
+	if (fileTag === undefined) return null;
+
+	const mag = synctexData.magnification / 1000 || 1;
+	const lineKey = (block: SyncTexBlock) => {
+		const v = Math.round((block.v || 0) * mag / 65536);
+		const column = (block.h || 0) * mag / 65536 > 200 ? 1 : 0;
+		return `${block.page}:${column}:${v}`;
+	};
+
+	const hboxes = synctexData.blocks.filter(b => b.type === '(' && b.page);
+	const allLines = new Set(hboxes.map(lineKey));
+	const rangeLines = new Set(hboxes
+		.filter(b => b.tag === fileTag && b.line !== undefined && b.line >= lineStart && b.line < lineEnd)
+		.map(lineKey));
+	const pages = new Set(hboxes.map(b => b.page)).size;
+	if (pages === 0) return null;
+
+	return {
+		lines: rangeLines.size,
+		linesPerPage: Math.round(allLines.size / pages),
+		pages
+	};
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseDocumentOutline } from './latexOutline';
+import { expandThoughts, reverseOutline, parseOutlineReply, type ThoughtsChat } from './thoughtDrafts';
+
+const projectId = `test-thought-drafts-${process.pid}`;
+
+describe('thoughtDrafts', () => {
+  let root: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'thoughts-'));
+    filePath = join(root, 'intro.tex');
+    writeFileSync(filePath, [
+      '\\section{Introduction}',
+      'Attacks on X are common.',
+      '',
+      '% [FW_THOUGHTS]',
+      '% Existing defenses are slow',
+      '% [/FW_THOUGHTS]',
+      '',
+      '% [FW_THOUGHTS]',
+      '% Our approach',
+      '% [/FW_THOUGHTS]',
+      '\\subsection{Contributions}',
+      'We present Y.'
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should attach paragraph notes to the heading they fall under in the outline', () => {
+    const { sections } = parseDocumentOutline(filePath);
+    expect(sections.map(s => s.thoughts)).toEqual([['Existing defenses are slow'], ['Our approach']]);
+  });
+
+  it('should draft from the notes and the neighbouring paragraphs', async () => {
+    let prompt = '';
+    const chat: ThoughtsChat = async (messages) => {
+      prompt = messages[1]!.content;
+      return { content: '```latex\nExisting defenses are slow.\n```', model: 'test-model' };
+    };
+
+    const result = await expandThoughts({ projectId, filePath, lineStart: 4, thoughts: 'Existing defenses are slow', content: '' }, chat);
+    expect(result).toEqual({ content: 'Existing defenses are slow.', model: 'test-model' });
+    expect(prompt).toContain('Previous paragraph:\n\\section{Introduction}\nAttacks on X are common.');
+    expect(prompt).toContain('Next paragraph:\n\\subsection{Contributions}\nWe present Y.');
+    expect(prompt).toContain('Current text:\n(empty)');
+    await expect(expandThoughts({ projectId, filePath, lineStart: 4, thoughts: ' ', content: '' }, chat)).rejects.toThrow('no FW_THOUGHTS');
+  });
+
+  it('should map numbered notes back to paragraphs and skip unusable ones', async () => {
+    const chat: ThoughtsChat = async () => ({ content: 'Notes:\n{"1": "X is attacked often.", "2": 3}', model: 'test-model' });
+    const result = await reverseOutline({
+      projectId,
+      paragraphs: [{ itemId: 'para-1', content: 'Attacks on X are common.' }, { itemId: 'para-2', content: 'We present Y.' }, { itemId: 'para-3', content: '  ' }]
+    }, chat);
+
+    expect(result.summaries).toEqual([{ itemId: 'para-1', thoughts: 'X is attacked often.' }]);
+    expect(() => parseOutlineReply('No notes, sorry.', 1)).toThrow('JSON');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * FW_THOUGHTS in both directions - "Expand thoughts" drafts prose for a paragraph
+ * from its notes and the paragraphs around it; "Reverse outline" condenses
+ * existing paragraphs into notes, so the outline shows the paper's argument.
+ */
+import { chatWithAI, getProjectPrompts } from './llmService';
+import { getProjectConfig } from './projectConfig';
+import { resolveTemplateValues } from './promptTemplate';
+import { getGlossary } from './glossary';
+import { extractJsonObject } from './diagnose';
+import { formatGlossaryPrompt } from '../web/src/utils/glossary';
+import { stripMarkdownCodeFences } from '../web/src/utils/fences';
+import { RequestError } from './requestError';
+import type { ChatMessage } from './llmAdapters';
+
+const MAX_OUTLINE_BATCH_CHARS = 24000; // Paragraphs summarized per model call
+
+// Model turn; injectable for tests
+export type ThoughtsChat = (messages: ChatMessage[], projectId: string) => Promise<{ content: string; model: string }>;
+
+export class ThoughtDraftError extends RequestError {
+  override name = 'ThoughtDraftError';
+}
+
+const defaultChat = (label: string, temperature: number): ThoughtsChat => async (messages, projectId) =>
+  chatWithAI(messages, { projectId, label, temperature });
+
+// Expand thoughts
+
+export interface ExpandThoughtsRequest {
+  projectId: string;
+  filePath: string;
+  lineStart: number;
+  thoughts: string;
+  content: string; // Current body; empty or a stub
+}
+
+const EXPAND_INSTRUCTIONS = `**Task:** The author has outlined a paragraph as notes. Write the paragraph.
+- Cover every point in the notes, in an order that reads well; do not add claims, numbers or citations the notes do not support.
+- If the current text is not empty, it is a stub: keep what it already says and any LaTeX in it.
+- Continue from the previous paragraph and lead into the next one; do not repeat them.
+- Mark facts the notes leave open as [TODO: ...] instead of inventing them.
+
+Return ONLY the paragraph as LaTeX, without the notes or any explanations.`;
+
+export async function expandThoughts(
+  request: ExpandThoughtsRequest,
+  chat: ThoughtsChat = defaultChat('expand', 0.5)
+): Promise<{ content: string; model: string }> {
+  if (!request.thoughts.trim()) throw new ThoughtDraftError('The paragraph has no FW_THOUGHTS notes to expand');
+
+  const prompts = getProjectPrompts(request.projectId);
+  const values = resolveTemplateValues({
+    content: request.content,
+    context: { filePath: request.filePath, lineStart: request.lineStart, thoughts: request.thoughts },
+    config: await getProjectConfig(request.projectId),
+    paperContext: prompts.context
+  });
+
+  const parts = [
+    values.section_title && `Section: ${values.section_title}`,
+    values.previous_paragraph && `Previous paragraph:\n${values.previous_paragraph}`,
+    values.next_paragraph && `Next paragraph:\n${values.next_paragraph}`,
+    `Notes for this paragraph:\n${request.thoughts.trim()}`,
+    `Current text:\n${request.content.trim() || '(empty)'}`
+  ].filter(Boolean);
+
+  const glossary = formatGlossaryPrompt(getGlossary(request.projectId));
+  const result = await chat([
+    { role: 'system', content: [prompts.system, glossary, EXPAND_INSTRUCTIONS].filter(Boolean).join('\n\n') },
+    { role: 'user', content: parts.join('\n\n') }
+  ], request.projectId);
+  return { content: stripMarkdownCodeFences(result.content), model: result.model };
+}
+
+// Reverse outline
+
+export interface OutlineParagraph {
+  itemId: string;
+  content: string;
+}
+
+const OUTLINE_INSTRUCTIONS = `**Task:** Build a reverse outline. For each numbered paragraph, write the author's note for it: the one point the paragraph makes and, if it matters, how it supports the argument (one or two short sentences, plain text, no LaTeX).
+
+**Output Format (Strictly Follow):**
+Reply with a single JSON object mapping each paragraph number to its note and nothing else, e.g. {"1": "...", "2": "..."}`;
+
+// Group paragraphs so each call stays well inside the context window
+function batchParagraphs(paragraphs: OutlineParagraph[]): OutlineParagraph[][] {
+  const batches: OutlineParagraph[][] = [];
+  let size = 0;
+  for (const paragraph of paragraphs) {
+    const last = batches[batches.length - 1];
+    if (!last || size + paragraph.content.length > MAX_OUTLINE_BATCH_CHARS) {
+      batches.push([paragraph]);
+      size = paragraph.content.length;
+    } else {
+      last.push(paragraph);
+      size += paragraph.content.length;
+    }
+  }
+  return batches;
+}
+
+/**
+ * Read the notes out of a reverse-outline reply. Entries that are missing or
+ * not text are skipped, so those paragraphs keep no notes.
+ */
+export function parseOutlineReply(raw: string, count: number): Map<number, string> {
+  const json = extractJsonObject(raw);
+  if (json === null) throw new ThoughtDraftError('Reverse outline reply does not contain a JSON object', 502);
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new ThoughtDraftError(`Invalid JSON in reverse outline: ${error instanceof Error ? error.message : String(error)}`, 502);
+  }
+
+  const notes = new Map<number, string>();
+  for (let n = 1; n <= count; n++) {
+    const note = data[String(n)];
+    if (typeof note === 'string' && note.trim()) notes.set(n, note.trim());
+  }
+  return notes;
+}
+
+export async function reverseOutline(
+  request: { projectId: string; paragraphs: OutlineParagraph[] },
+  chat: ThoughtsChat = defaultChat('outline', 0.2)
+): Promise<{ summaries: { itemId: string; thoughts: string }[]; model: string }> {
+  const paragraphs = request.paragraphs.filter(p => p.content.trim());
+  if (paragraphs.length === 0) throw new ThoughtDraftError('No paragraphs to outline');
+
+  const system = `${getProjectPrompts(request.projectId).system}\n\n${OUTLINE_INSTRUCTIONS}`;
+  const summaries: { itemId: string; thoughts: string }[] = [];
+  let model = '';
+
+  for (const batch of batchParagraphs(paragraphs)) {
+    const numbered = batch.map((p, i) => `[${i + 1}]\n${p.content.trim()}`).join('\n\n');
+    const result = await chat([
+      { role: 'system', content: system },
+      { role: 'user', content: numbered }
+    ], request.projectId);
+    model = result.model;
+
+    const notes = parseOutlineReply(result.content, batch.length);
+    batch.forEach((p, i) => {
+      const thoughts = notes.get(i + 1);
+      if (thoughts) summaries.push({ itemId: p.itemId, thoughts });
+    });
+  }
+
+  return { summaries, model };
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { computeCost, estimateUsage, getMonthlySpend, summarizeUsage, type UsageRecord } from './usageTracker';
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    timestamp: '2025-03-10T12:00:00.000Z',
+    projectId: 'paper-a',
+    providerId: 'openai',
+    providerName: 'OpenAI',
+    model: 'gpt-4o',
+    mode: 'refine',
+    promptTokens: 1000,
+    completionTokens: 500,
+    cost: 0.01,
+    ...overrides
+  };
+}
+
+describe('usageTracker', () => {
+  it('should price tokens per million and treat unpriced models as free', () => {
+    expect(computeCost({ promptTokens: 2_000_000, completionTokens: 500_000 }, { input: 2.5, output: 10 })).toBeCloseTo(10);
+    expect(computeCost({ promptTokens: 1000, completionTokens: 1000 })).toBe(0);
+  });
+
+  it('should estimate tokens from text length', () => {
+    const usage = estimateUsage([{ role: 'system', content: 'x'.repeat(40) }, { role: 'user', content: 'y'.repeat(2) }], 'z'.repeat(9));
+    expect(usage).toEqual({ promptTokens: 11, completionTokens: 3 });
+  });
+
+  it('should sum one provider\'s spend for a month', () => {
+    const records = [
+      record({ cost: 1 }),
+      record({ cost: 2, timestamp: '2025-03-31T23:00:00.000Z' }),
+      record({ cost: 4, timestamp: '2025-04-01T00:00:00.000Z' }),
+      record({ cost: 8, providerId: 'anthropic' })
+    ];
+    expect(getMonthlySpend(records, 'openai', '2025-03')).toBe(3);
+  });
+
+  it('should break a month down by day, mode, project and model', () => {
+    const records = [
+      record({ cost: 0.5 }),
+      record({ cost: 0.25, mode: 'quickfix', timestamp: '2025-03-09T08:00:00.000Z' }),
+      record({ cost: 1, projectId: 'paper-b', model: 'gpt-4o-mini' }),
+      record({ cost: 9, timestamp: '2025-02-28T08:00:00.000Z' })
+    ];
+
+    const summary = summarizeUsage(records, { month: '2025-03' });
+    expect(summary.totals).toEqual({ calls: 3, promptTokens: 3000, completionTokens: 1500, cost: 1.75 });
+    expect(summary.byDay.map(d => [d.key, d.calls])).toEqual([['2025-03-09', 1], ['2025-03-10', 2]]);
+    expect(summary.byMode.map(m => m.key)).toEqual(['refine', 'quickfix']);
+    expect(summary.byModel[0]).toMatchObject({ key: 'OpenAI / gpt-4o-mini', cost: 1 });
+
+    const paperA = summarizeUsage(records, { month: '2025-03', projectId: 'paper-a' });
+    expect(paperA.byProject).toEqual([{ key: 'paper-a', calls: 2, promptTokens: 2000, completionTokens: 1000, cost: 0.75 }]);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Token and cost accounting - every provider call is appended to one log,
+ * priced with the provider's price table at the time of the call.
+ */
+import { existsSync, readFileSync, appendFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import type { ChatMessage, ChatUsage } from './llmAdapters';
+
+const PROJS_DIR = join(process.cwd(), 'projs');
+const USAGE_LOG_FILE = join(PROJS_DIR, 'usage-log.jsonl');
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface UsageRecord {
+  timestamp: string;
+  projectId?: string;
+  providerId?: string; // Missing when the legacy single-provider config is used
+  providerName: string;
+  model: string;
+  mode: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // 0 when the model has no price set
+  estimated?: boolean; // Provider reported no usage (e.g. cancelled stream); counted from text length
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  month: string; // YYYY-MM
+  totals: UsageTotals;
+  byDay: (UsageTotals & { key: string })[];
+  byMode: (UsageTotals & { key: string })[];
+  byProject: (UsageTotals & { key: string })[];
+  byModel: (UsageTotals & { key: string })[];
+}
+
+/**
+ * Thrown before a call when the provider's monthly budget is spent.
+ */
+export class BudgetExceededError extends Error {
+  constructor(readonly providerName: string, readonly spent: number, readonly budget: number) {
+    super(`Monthly budget for ${providerName} reached ($${spent.toFixed(2)} of $${budget.toFixed(2)}). Raise the budget in LLM Settings to continue.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export function currentMonth(date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export function computeCost(usage: ChatUsage, pricing?: ModelPricing): number {
+  if (!pricing) return 0;
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
+// Rough count (~4 characters per token) for calls where the provider reported nothing
+export function estimateUsage(messages: ChatMessage[], completion: string): ChatUsage {
+  const promptChars = messages.reduce((sum, m) => sum + m.content.length, 0);
+  return { promptTokens: Math.ceil(promptChars / 4), completionTokens: Math.ceil(completion.length / 4) };
+}
+
+export function recordUsage(record: UsageRecord): void {
+  try {
+    if (!existsSync(PROJS_DIR)) mkdirSync(PROJS_DIR, { recursive: true });
+    appendFileSync(USAGE_LOG_FILE, JSON.stringify(record) + '\n', 'utf-8');
+  } catch (error) {
+    console.error('Failed to record usage:', error);
+  }
+}
+
+export function readUsageRecords(): UsageRecord[] {
+  try {
+    if (!existsSync(USAGE_LOG_FILE)) return [];
+    return readFileSync(USAGE_LOG_FILE, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as UsageRecord);
+  } catch (error) {
+    console.error('Failed to load usage log:', error);
+    return [];
+  }
+}
+
+export function getMonthlySpend(records: UsageRecord[], providerId: string, month = currentMonth()): number {
+  return records
+    .filter(r => r.providerId === providerId && r.timestamp.startsWith(month))
+    .reduce((sum, r) => sum + r.cost, 0);
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+function addTo(totals: UsageTotals, record: UsageRecord) {
+  totals.calls += 1;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.cost += record.cost;
+}
+
+function groupBy(records: UsageRecord[], keyOf: (r: UsageRecord) => string) {
+  const groups = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = keyOf(record);
+    if (!groups.has(key)) groups.set(key, emptyTotals());
+    addTo(groups.get(key)!, record);
+  }
+  return [...groups.entries()].map(([key, totals]) => ({ key, ...totals }));
+}
+
+/**
+ * Totals for one month, broken down by day (ascending) and by mode, project
+ * and model (most expensive first). projectId narrows everything to one paper.
+ */
+export function summarizeUsage(records: UsageRecord[], options: { month?: string; projectId?: string } = {}): UsageSummary {
+  const month = options.month || currentMonth();
+  const selected = records.filter(r =>
+    r.timestamp.startsWith(month) && (!options.projectId || r.projectId === options.projectId)
+  );
+
+  const totals = emptyTotals();
+  selected.forEach(r => addTo(totals, r));
+  const byCost = (a: UsageTotals, b: UsageTotals) => b.cost - a.cost || b.calls - a.calls;
+
+  return {
+    month,
+    totals,
+    byDay: groupBy(selected, r => r.timestamp.slice(0, 10)).sort((a, b) => a.key.localeCompare(b.key)),
+    byMode: groupBy(selected, r => r.mode).sort(byCost),
+    byProject: groupBy(selected, r => r.projectId || '').sort(byCost),
+    byModel: groupBy(selected, r => `${r.providerName} / ${r.model}`).sort(byCost)
+  };
+}
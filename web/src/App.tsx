@@ -14,6 +14,7 @@ function App() {
   const [projectConfig, setProjectConfig] = useState<ProjectConfig | null>(null);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [scrollToLine, setScrollToLine] = useState<number | null>(null);
+  const [outlineVersion, setOutlineVersion] = useState(0); // Bumped on every editor save
   const [pdfScrollTarget, setPdfScrollTarget] = useState<{ page: number; x: number; y: number; lineCount?: number } | null>(null);
 
   // Toast State
@@ -124,51 +125,55 @@ function App() {
   }, [isResizingSidebar, isResizingPdf]);
 
   // Sync Handlers
-  const handleSyncToPDF = async () => {
-    console.log('[App] Triggering Forward Sync (Source -> PDF)');
-    if (mainEditorRef.current && selectedProject && selectedFile) {
-      const line = mainEditorRef.current.getCurrentLine();
-      console.log('[App] Current line in editor:', line);
-
-      setToast({ message: 'Syncing to PDF...', type: 'loading' });
+  // Forward search for any source line; the PDF highlight spans lineCount lines
+  const syncSourceToPDF = async (file: string, line: number, lineCount = 1) => {
+    if (!selectedProject) return;
+    setToast({ message: 'Syncing to PDF...', type: 'loading' });
 
-      try {
-        const response = await fetch('/api/latex/forward-synctex', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            projectId: selectedProject.project.id,
-            file: selectedFile.path,
-            line: line
-          })
-        });
+    try {
+      const response = await fetch('/api/latex/forward-synctex', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId: selectedProject.project.id,
+          file,
+          line
+        })
+      });
 
-        if (response.ok) {
-          const result = await response.json();
-          console.log('[App] Forward sync result:', result);
-          if (result.page) {
-            // Get line count from selected text for highlight height
-            const lineCount = mainEditorRef.current?.getSelectedLineCount() || 1;
-            setPdfScrollTarget({ page: result.page, x: result.x, y: result.y, lineCount });
-            setToast({ message: 'Sync complete', type: 'success' });
-          } else {
-            setToast({ message: 'No sync point found for this line', type: 'error' });
-          }
+      if (response.ok) {
+        const result = await response.json();
+        console.log('[App] Forward sync result:', result);
+        if (result.page) {
+          setPdfScrollTarget({ page: result.page, x: result.x, y: result.y, lineCount });
+          setToast({ message: 'Sync complete', type: 'success' });
         } else {
-          let errorMessage = `Sync failed (${response.status})`;
-          try {
-            const errorData = await response.json();
-            if (errorData.error) errorMessage = errorData.error;
-          } catch (e) {
-            console.error('Failed to parse error response', e);
-          }
-          console.warn(`[App] Forward sync failed: ${errorMessage}`);
-          setToast({ message: errorMessage, type: 'error' });
+          setToast({ message: 'No sync point found for this line', type: 'error' });
         }
-      } catch (error) {
-        console.error('Manual forward sync failed:', error);
-        setToast({ message: 'Sync failed: Network error', type: 'error' });
+      } else {
+        let errorMessage = `Sync failed (${response.status})`;
+        try {
+          const errorData = await response.json();
+          if (errorData.error) errorMessage = errorData.error;
+        } catch (e) {
+          console.error('Failed to parse error response', e);
+        }
+        console.warn(`[App] Forward sync failed: ${errorMessage}`);
+        setToast({ message: errorMessage, type: 'error' });
       }
+    } catch (error) {
+      console.error('Manual forward sync failed:', error);
+      setToast({ message: 'Sync failed: Network error', type: 'error' });
+    }
+  };
+
+  const handleSyncToPDF = async () => {
+    console.log('[App] Triggering Forward Sync (Source -> PDF)');
+    if (mainEditorRef.current && selectedProject && selectedFile) {
+      const line = mainEditorRef.current.getCurrentLine();
+      console.log('[App] Current line in editor:', line);
+      // Get line count from selected text for highlight height
+      await syncSourceToPDF(selectedFile.path, line, mainEditorRef.current.getSelectedLineCount() || 1);
     } else {
       console.warn('[App] Missing refs or selection for Forward Sync');
       setToast({ message: 'Cannot sync: Editor not ready', type: 'error' });
@@ -217,6 +222,23 @@ function App() {
     }
   };
 
+  // Reload the open file when something other than the editor rewrote it
+  const handleFilesChanged = async (paths: string[]): Promise<void> => {
+    if (!selectedProject || !selectedFile || !paths.includes(selectedFile.path)) return;
+
+    try {
+      const projectId = selectedProject.project.id;
+      const response = await fetch(`/api/files/${encodeURIComponent(selectedFile.path)}?projectId=${encodeURIComponent(projectId)}`);
+
+      if (response.ok) {
+        const data = await response.json();
+        setSelectedFile({ ...selectedFile, content: data.content });
+      }
+    } catch (error) {
+      console.error('Failed to reload file:', error);
+    }
+  };
+
   const handleImportComplete = (_project: Project): void => {
     setIsImportModalOpen(false);
     loadProjects();
@@ -310,6 +332,10 @@ function App() {
             onImportClick={() => setIsImportModalOpen(true)}
             onFileSelect={handleFileSelect}
             onProjectDelete={loadProjects}
+            selectedFile={selectedFile}
+            onFilesChanged={handleFilesChanged}
+            onShowInPdf={(filePath, line) => syncSourceToPDF(filePath, line)}
+            outlineVersion={outlineVersion}
             onSectionClick={(lineNumber, filePath) => {
               if (filePath) {
                 handleSyncToSource(filePath, lineNumber);
@@ -361,7 +387,10 @@ function App() {
             selectedProject={selectedProject}
             scrollToLine={scrollToLine}
             onSyncToPDF={(page, x, y) => setPdfScrollTarget({ page, x, y })} // Pass sync handler
-            onSaveSuccess={() => pdfViewerRef.current?.compile()}
+            onSaveSuccess={() => {
+              pdfViewerRef.current?.compile();
+              setOutlineVersion(v => v + 1);
+            }}
           />
         </div>
 
@@ -1,4 +1,7 @@
-import type { Backup, Project } from './types';
+import type { AgentSession, AIVariants, AuditEntry, AuditMessage, AuditSummary, Backup, BatchJob, BatchReview, CachedResponse, ChangeExportFormat, ChangeExportKind, ChangeLogEntry, ClaimReport, CompareCandidate, CompareTarget, DiagnoseIssue, EvalFixture, EvalRun, FailoverEvent, FailoverSettings, LLMProvider, PaperChatMessage, PaperReview, Project, PromptEvals, PromptVersion, ReviewerCommentImport, ReviewerCommentStatus, ReviewRubric, StyleProfile, UsageReport } from './types';
+import { parseSSEEvents } from './utils/sse';
+import { partialStreamContent } from './utils/stream';
+import type { GlossaryTerm, GlossaryViolation } from './utils/glossary';
 
 async function fetchJson<T>(url: string, init?: RequestInit): Promise<T | null> {
   try {
@@ -18,6 +21,18 @@ async function postJson<T>(url: string, data: unknown): Promise<T | null> {
   });
 }
 
+// Agent requests surface the server's reason (e.g. a session that is still running)
+async function sendAgentRequest(url: string, data: unknown): Promise<AgentSession> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data)
+  });
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error || 'Agent request failed');
+  return body as AgentSession;
+}
+
 export const api = {
   // Projects
   getProjects: () => fetchJson<Project[]>('/api/projects'),
@@ -74,6 +89,453 @@ export const api = {
   processAI: (mode: string, content: string, userPrompt?: string) =>
     postJson<{ content: string }>('/api/ai/process', { mode, content, userPrompt }),
 
+  // Several rewrites of one request from the active provider
+  generateVariants: async (body: Record<string, unknown>, count: number) => {
+    const res = await fetch('/api/ai/variants', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, count })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'AI processing failed');
+    return data as AIVariants;
+  },
+
+  // Same request to several provider/model pairs; failed targets come back with an error
+  compareAI: async (body: Record<string, unknown>, targets: CompareTarget[]) => {
+    const res = await fetch('/api/ai/compare', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, targets })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Comparison failed');
+    return (data as { candidates: CompareCandidate[] }).candidates;
+  },
+
+  // Streams /api/ai/process/stream, calling onDelta per token chunk.
+  // Resolves with the final payload; an aborted signal resolves with whatever arrived so far,
+  // or nothing for Diagnose, whose partial reply is unfinished JSON.
+  streamAI: async (
+    body: Record<string, unknown>,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<{ content: string; model?: string; aborted: boolean; cached?: boolean; failovers?: FailoverEvent[]; issues?: Omit<DiagnoseIssue, 'status' | 'createdAt'>[] }> => {
+    let partial = '';
+    let buffer = '';
+
+    try {
+      const res = await fetch('/api/ai/process/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal
+      });
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null) as { error?: string } | null;
+        throw new Error(data?.error || 'AI processing failed');
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const { events, rest } = parseSSEEvents(buffer);
+        buffer = rest;
+
+        for (const evt of events) {
+          const data = JSON.parse(evt.data);
+          if (evt.event === 'delta') {
+            partial += data.text;
+            onDelta(data.text);
+          } else if (evt.event === 'done') {
+            return { content: data.content, model: data.model, aborted: data.aborted, cached: data.cached, failovers: data.failovers, issues: data.issues };
+          } else if (evt.event === 'error') {
+            throw new Error(data.error);
+          }
+        }
+      }
+    } catch (error) {
+      // Strip a fence like the completed path does, or Accept would paste it into the paragraph
+      if (signal?.aborted) return { content: partialStreamContent(partial, body.mode), aborted: true };
+      throw error;
+    }
+
+    // Stream closed without a done event (e.g. server cancelled)
+    return { content: partialStreamContent(partial, body.mode), aborted: true };
+  },
+
+  // Batch AI jobs
+  createBatchJob: async (options: {
+    projectId: string;
+    filePath: string;
+    mode: string;
+    concurrency: number;
+    userPrompt?: string;
+    items: { itemId: string; content: string; lineStart: number; thoughts?: string }[];
+  }) => {
+    const res = await fetch('/api/batch-jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(options)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to start batch job');
+    return data as BatchJob;
+  },
+
+  listBatchJobs: async (projectId: string, filePath?: string) => {
+    let url = `/api/batch-jobs?projectId=${encodeURIComponent(projectId)}`;
+    if (filePath) url += `&filePath=${encodeURIComponent(filePath)}`;
+    return (await fetchJson<BatchJob[]>(url)) || [];
+  },
+
+  batchJobAction: (jobId: string, action: 'pause' | 'resume' | 'cancel') =>
+    postJson<BatchJob>(`/api/batch-jobs/${encodeURIComponent(jobId)}/${action}`, {}),
+
+  reviewBatchItem: (jobId: string, itemId: string, review: BatchReview) =>
+    postJson<BatchJob>(`/api/batch-jobs/${encodeURIComponent(jobId)}/items/${encodeURIComponent(itemId)}/review`, { review }),
+
+  deleteBatchJob: async (jobId: string) => {
+    const res = await fetch(`/api/batch-jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
+  // Research agent
+  createAgentSession: (projectId: string, goal: string) =>
+    sendAgentRequest('/api/agent/sessions', { projectId, goal }),
+
+  listAgentSessions: async (projectId: string) =>
+    (await fetchJson<AgentSession[]>(`/api/agent/sessions?projectId=${encodeURIComponent(projectId)}`)) || [],
+
+  getAgentSession: (sessionId: string) =>
+    fetchJson<AgentSession>(`/api/agent/sessions/${encodeURIComponent(sessionId)}`),
+
+  agentAction: (sessionId: string, action: 'stop' | 'message', message?: string) =>
+    sendAgentRequest(`/api/agent/sessions/${encodeURIComponent(sessionId)}/${action}`, { message }),
+
+  reviewAgentStep: (sessionId: string, stepId: string, approved: boolean, feedback?: string) =>
+    sendAgentRequest(`/api/agent/sessions/${encodeURIComponent(sessionId)}/steps/${encodeURIComponent(stepId)}/review`, { approved, feedback }),
+
+  deleteAgentSession: async (sessionId: string) => {
+    const res = await fetch(`/api/agent/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
+  // Paper review
+  getReviewRubrics: async () => (await fetchJson<ReviewRubric[]>('/api/paper-review/rubrics')) || [],
+
+  saveReviewRubrics: (rubrics: ReviewRubric[]) =>
+    postJson<ReviewRubric[]>('/api/paper-review/rubrics', { rubrics }),
+
+  listPaperReviews: async (projectId: string) =>
+    (await fetchJson<PaperReview[]>(`/api/paper-reviews/${encodeURIComponent(projectId)}`)) || [],
+
+  startPaperReview: async (projectId: string, rubricId: string, label?: string) => {
+    const res = await fetch(`/api/paper-reviews/${encodeURIComponent(projectId)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rubricId, label })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to start review');
+    return data as PaperReview;
+  },
+
+  deletePaperReview: async (projectId: string, reviewId: string) => {
+    const res = await fetch(`/api/paper-reviews/${encodeURIComponent(projectId)}/${encodeURIComponent(reviewId)}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
+  // Reviewer comments
+  listReviewerComments: async (projectId: string) =>
+    (await fetchJson<ReviewerCommentImport[]>(`/api/reviewer-comments/${encodeURIComponent(projectId)}`)) || [],
+
+  importReviewerComments: async (projectId: string, name: string, text: string) => {
+    const res = await fetch(`/api/reviewer-comments/${encodeURIComponent(projectId)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, text })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to import reviews');
+    return data as ReviewerCommentImport;
+  },
+
+  updateReviewerComment: async (projectId: string, importId: string, commentId: string, update: { status?: ReviewerCommentStatus; note?: string }) => {
+    const res = await fetch(`/api/reviewer-comments/${encodeURIComponent(projectId)}/${encodeURIComponent(importId)}/comments/${encodeURIComponent(commentId)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(update)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to update comment');
+    return data as ReviewerCommentImport;
+  },
+
+  draftRebuttal: async (projectId: string, importId: string) => {
+    const res = await fetch(`/api/reviewer-comments/${encodeURIComponent(projectId)}/${encodeURIComponent(importId)}/rebuttal`, { method: 'POST' });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to draft the rebuttal');
+    return data as ReviewerCommentImport;
+  },
+
+  deleteReviewerComments: async (projectId: string, importId: string) => {
+    const res = await fetch(`/api/reviewer-comments/${encodeURIComponent(projectId)}/${encodeURIComponent(importId)}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
+  // Chat with the whole paper
+  getPaperChat: async (projectId: string) =>
+    (await fetchJson<PaperChatMessage[]>(`/api/paper-chat/${encodeURIComponent(projectId)}`)) || [],
+
+  askPaper: async (projectId: string, question: string) => {
+    const res = await fetch(`/api/paper-chat/${encodeURIComponent(projectId)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to ask the paper');
+    return data as PaperChatMessage[];
+  },
+
+  clearPaperChat: async (projectId: string) => {
+    const res = await fetch(`/api/paper-chat/${encodeURIComponent(projectId)}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
+  // Claim-evidence check
+  getClaimReport: async (projectId: string) =>
+    (await fetchJson<ClaimReport | null>(`/api/claim-check/${encodeURIComponent(projectId)}`)) || null,
+
+  runClaimCheck: async (projectId: string, semantic: boolean) => {
+    const res = await fetch(`/api/claim-check/${encodeURIComponent(projectId)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ semantic })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to check the claims');
+    return data as ClaimReport;
+  },
+
+  // Changelog of accepted AI edits
+  listChanges: async (projectId: string) =>
+    (await fetchJson<ChangeLogEntry[]>(`/api/changelog/${encodeURIComponent(projectId)}`)) || [],
+
+  recordChange: async (projectId: string, change: Omit<ChangeLogEntry, 'id' | 'timestamp' | 'section'>) => {
+    const res = await fetch(`/api/changelog/${encodeURIComponent(projectId)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(change)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to log the change');
+    return data as ChangeLogEntry;
+  },
+
+  updateChangeReason: async (projectId: string, entryId: string, reason: string) => {
+    const res = await fetch(`/api/changelog/${encodeURIComponent(projectId)}/${encodeURIComponent(entryId)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to update the reason');
+    return data as ChangeLogEntry;
+  },
+
+  deleteChange: async (projectId: string, entryId: string) => {
+    const res = await fetch(`/api/changelog/${encodeURIComponent(projectId)}/${encodeURIComponent(entryId)}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
+  exportChanges: async (projectId: string, format: ChangeExportFormat, kind: ChangeExportKind) => {
+    const res = await fetch(`/api/changelog/${encodeURIComponent(projectId)}/export?format=${format}&kind=${kind}`);
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to export the changelog');
+    return data as { content: string; filename: string };
+  },
+
+  // Style profiles
+  getStyleProfiles: async (projectId: string) =>
+    (await fetchJson<{ profiles: StyleProfile[]; activeId: string | null }>(`/api/style-profiles/${encodeURIComponent(projectId)}`)) || { profiles: [], activeId: null },
+
+  createStyleProfile: async (projectId: string, name: string, sources: { name: string; content: string }[]) => {
+    const res = await fetch(`/api/style-profiles/${encodeURIComponent(projectId)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, sources })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to build the style profile');
+    return data as StyleProfile;
+  },
+
+  setActiveStyleProfile: async (projectId: string, profileId: string | null) => {
+    const res = await fetch(`/api/style-profiles/${encodeURIComponent(projectId)}/active`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ profileId })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to switch the style profile');
+    return data as { profiles: StyleProfile[]; activeId: string | null };
+  },
+
+  deleteStyleProfile: async (projectId: string, profileId: string) => {
+    const res = await fetch(`/api/style-profiles/${encodeURIComponent(projectId)}/${encodeURIComponent(profileId)}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
+  // Project glossary and terminology scanner
+  getGlossary: async (projectId: string) =>
+    (await fetchJson<{ terms: GlossaryTerm[] }>(`/api/glossary/${encodeURIComponent(projectId)}`))?.terms || [],
+
+  saveGlossary: async (projectId: string, terms: Partial<GlossaryTerm>[]) => {
+    const res = await fetch(`/api/glossary/${encodeURIComponent(projectId)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ terms })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to save the glossary');
+    return data.terms as GlossaryTerm[];
+  },
+
+  scanGlossary: async (projectId: string) => {
+    const res = await fetch(`/api/glossary/${encodeURIComponent(projectId)}/scan`);
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to scan the project');
+    return data as { violations: GlossaryViolation[]; filesScanned: number };
+  },
+
+  fixGlossaryViolations: async (projectId: string, violations: GlossaryViolation[]) => {
+    const res = await fetch(`/api/glossary/${encodeURIComponent(projectId)}/fix`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ violations })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to apply the fixes');
+    return data as { applied: number; skipped: number; files: string[] };
+  },
+
+  // Prompt evaluation harness
+  getPromptEvals: async (projectId: string) =>
+    (await fetchJson<PromptEvals>(`/api/prompt-evals/${encodeURIComponent(projectId)}`)) || { fixtures: [], versions: [], runs: [] },
+
+  pinEvalFixture: async (projectId: string, fixture: Omit<EvalFixture, 'id' | 'pinnedAt'>) => {
+    const res = await fetch(`/api/prompt-evals/${encodeURIComponent(projectId)}/fixtures`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fixture)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to pin the paragraph');
+    return data as EvalFixture;
+  },
+
+  unpinEvalFixture: async (projectId: string, fixtureId: string) => {
+    const res = await fetch(`/api/prompt-evals/${encodeURIComponent(projectId)}/fixtures/${encodeURIComponent(fixtureId)}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
+  savePromptVersion: async (projectId: string, version: Omit<PromptVersion, 'id' | 'createdAt'>) => {
+    const res = await fetch(`/api/prompt-evals/${encodeURIComponent(projectId)}/versions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(version)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to save the prompt version');
+    return data as PromptVersion;
+  },
+
+  deletePromptVersion: async (projectId: string, versionId: string) => {
+    const res = await fetch(`/api/prompt-evals/${encodeURIComponent(projectId)}/versions/${encodeURIComponent(versionId)}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
+  runPromptEval: async (projectId: string, versionIds: string[]) => {
+    const res = await fetch(`/api/prompt-evals/${encodeURIComponent(projectId)}/runs`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ versionIds })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to run the evaluation');
+    return data.runs as EvalRun[];
+  },
+
+  deleteEvalRun: async (projectId: string, runId: string) => {
+    const res = await fetch(`/api/prompt-evals/${encodeURIComponent(projectId)}/runs/${encodeURIComponent(runId)}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
+  // FW_THOUGHTS drafts and reverse outline
+  expandThoughts: async (request: { projectId: string; filePath: string; lineStart: number; thoughts: string; content: string }) => {
+    const res = await fetch('/api/thoughts/expand', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to expand thoughts');
+    return data as { content: string; model: string };
+  },
+
+  reverseOutline: async (projectId: string, paragraphs: { itemId: string; content: string }[]) => {
+    const res = await fetch('/api/thoughts/outline', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ projectId, paragraphs })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to build the reverse outline');
+    return data as { summaries: { itemId: string; thoughts: string }[]; model: string };
+  },
+
+  // Response cache
+  getResponseCache: (projectId: string) =>
+    fetchJson<{ entries: CachedResponse[]; totalBytes: number; maxBytes: number; maxEntries: number }>(`/api/response-cache/${projectId}`),
+
+  deleteResponseCacheEntry: async (projectId: string, key: string) => {
+    const res = await fetch(`/api/response-cache/${projectId}?key=${encodeURIComponent(key)}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
+  clearResponseCache: async (projectId: string) => {
+    const res = await fetch(`/api/response-cache/${projectId}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
+  // LLM audit log
+  getAuditLog: async (projectId: string) =>
+    (await fetchJson<AuditSummary[]>(`/api/audit-log/${encodeURIComponent(projectId)}`)) || [],
+
+  getAuditEntry: (projectId: string, entryId: string) =>
+    fetchJson<AuditEntry>(`/api/audit-log/${encodeURIComponent(projectId)}/${encodeURIComponent(entryId)}`),
+
+  replayAuditEntry: async (projectId: string, entryId: string, options: { providerId?: string; model?: string; messages?: AuditMessage[]; temperature?: number }) => {
+    const res = await fetch(`/api/audit-log/${encodeURIComponent(projectId)}/${encodeURIComponent(entryId)}/replay`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(options)
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to replay the request');
+    return data as AuditEntry;
+  },
+
+  clearAuditLog: async (projectId: string) => {
+    const res = await fetch(`/api/audit-log/${encodeURIComponent(projectId)}`, { method: 'DELETE' });
+    return res.ok;
+  },
+
   // LaTeX Parsing
   parseSections: async (filePath: string) => {
     const data = await fetchJson<{ sections: Array<{ id: string; level: number; title: string; lineStart: number; filePath: string }> }>(
@@ -82,6 +544,15 @@ export const api = {
     return data?.sections || [];
   },
 
+  // Typeset lines of a source range in the last compiled PDF; null before the first compile
+  estimateTypesetLines: (projectId: string, file: string, lineStart: number, lineEnd?: number) =>
+    postJson<{ lines: number; linesPerPage: number; pages: number }>('/api/latex/line-estimate', {
+      projectId,
+      file,
+      lineStart,
+      lineEnd: Number.isFinite(lineEnd) ? lineEnd : undefined
+    }),
+
   writeFile: async (filePath: string, content: string, projectId: string, createBackup: boolean = true) => {
     const res = await postJson<{ success: boolean }>(
       `/api/files/${encodeURIComponent(filePath)}?projectId=${encodeURIComponent(projectId)}`,
@@ -90,6 +561,18 @@ export const api = {
     return res?.success || false;
   },
 
+  // Token and cost usage
+  getUsage: (month: string, projectId?: string) =>
+    fetchJson<UsageReport>(`/api/usage?month=${month}${projectId ? `&projectId=${encodeURIComponent(projectId)}` : ''}`),
+
+  // Provider failover
+  getFailover: () => fetchJson<{ settings: FailoverSettings; log: FailoverEvent[] }>('/api/llm-failover'),
+
+  saveFailover: (settings: FailoverSettings) =>
+    postJson<{ success: boolean; settings: FailoverSettings }>('/api/llm-failover', settings),
+
   // LLM Config
-  getLLMConfig: () => fetchJson<{ model: string; baseUrl: string; apiKey: string }>('/api/llm-config')
+  getLLMConfig: () => fetchJson<{ model: string; baseUrl: string; apiKey: string }>('/api/llm-config'),
+
+  getLLMProviders: async () => (await fetchJson<LLMProvider[]>('/api/llm-providers')) || []
 };
@@ -1,11 +1,17 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { Search, Wand2, Zap, Maximize2, Minimize2, Send, Check, Bot, Settings, History, Trash2, X, Cog, Code } from 'lucide-react';
-import type { TextItem, AIMode, DiffResult, ChatMessage } from '../types';
+import { Search, Wand2, Zap, Maximize2, Minimize2, Send, Check, Bot, Settings, History, Trash2, X, Cog, Code, Square, RotateCcw, AlertTriangle, RefreshCw, Database, Languages, Shrink, Columns3 } from 'lucide-react';
+import type { TextItem, AIMode, BuiltinAIMode, DiffResult, ChatMessage, DiagnoseIssue, IssueStatus, ProjectPrompts } from '../types';
 import { computeWordDiff } from '../utils/diff';
+import { checkLatexIntegrity, buildConstraintReminder } from '../utils/latexGuard';
 import { api } from '../api';
 import DiffViewer from './DiffViewer';
 import LLMSettingsModal from './LLMSettingsModal';
+import ModeIcon from './ModeIcon';
+import ModelComparePanel from './ModelComparePanel';
+import VariantMixer from './VariantMixer';
+
+const BUILTIN_MODES: BuiltinAIMode[] = ['diagnose', 'refine', 'quickfix', 'translate', 'compress'];
 
 interface AIPanelProps {
   isOpen: boolean;
@@ -17,7 +23,10 @@ interface AIPanelProps {
   histories: Record<string, ChatMessage[]>; // Lifted state
   onHistoryChange: (histories: Record<string, ChatMessage[]>) => void; // Lifted state setter
   onClose: () => void;
-  onResult: (result: DiffResult, modifiedContent: string, mode: AIMode) => void;
+  onResult: (result: DiffResult, modifiedContent: string, mode: AIMode, details: { model?: string; reason?: string }) => void;
+  issues?: DiagnoseIssue[]; // Diagnose issues anchored in the selected item
+  onIssuesFound?: (issues: DiagnoseIssue[]) => void;
+  onIssueStatusChange?: (issueId: string, status: IssueStatus) => void;
   onContentChange?: (content: string) => void;
   onFullscreenChange?: (isFullscreen: boolean) => void;
   initialFullscreen?: boolean;
@@ -35,6 +44,9 @@ const AIPanel: React.FC<AIPanelProps> = ({
   onHistoryChange,
   onClose,
   onResult,
+  issues = [],
+  onIssuesFound,
+  onIssueStatusChange,
   onContentChange,
   onFullscreenChange,
   initialFullscreen = false,
@@ -53,19 +65,40 @@ const AIPanel: React.FC<AIPanelProps> = ({
   // User input
   const [userPrompt, setUserPrompt] = useState('');
   const [useSystemPrompt, setUseSystemPrompt] = useState(true);
+  // Off forces a fresh provider call instead of reusing a cached reply
+  const [useCache, setUseCache] = useState(true);
 
   // Project prompts loaded from backend (new structure)
-  interface ProjectPrompts {
-    system: string;
-    diagnose: { user: string };
-    refine: { user: string };
-    quickfix: { user: string };
-  }
   const [projectPrompts, setProjectPrompts] = useState<ProjectPrompts | null>(null);
+  const customModes = projectPrompts?.customModes || [];
+  const selectedCustomMode = customModes.find(m => m.id === selectedMode);
+  // Compare and variants only make sense for modes that return a rewrite
+  const returnsRewrite = selectedMode !== 'diagnose' && selectedCustomMode?.output !== 'commentary';
+  const modeOptions: AIMode[] = [...BUILTIN_MODES, ...customModes.map(m => m.id)];
 
   // AI Result logic
   const [aiResultContent, setAiResultContent] = useState<string | null>(null);
+  const [aiResultModel, setAiResultModel] = useState<string | undefined>();
+  // Optional note for the changelog, logged with the change on Accept
+  const [changeReason, setChangeReason] = useState('');
+  // Side-by-side run of the same request on several models
+  const [showCompare, setShowCompare] = useState(false);
+  // Rewrites per run; with more than one, the result shows them as tabs to mix sentence by sentence
+  const [variantCount, setVariantCount] = useState(1);
+  const [aiVariants, setAiVariants] = useState<{ content: string; temperature: number }[] | null>(null);
   const [aiExplanation, setAiExplanation] = useState('');
+  // Output of custom commentary modes (shown as text, not as a diff)
+  const [aiCommentary, setAiCommentary] = useState<string | null>(null);
+  // Set when the user accepts a result despite LaTeX integrity violations
+  const [overrideLatexGuard, setOverrideLatexGuard] = useState(false);
+
+  // Streaming state: partial suggestion text while tokens arrive
+  const [streamingText, setStreamingText] = useState('');
+  const streamAbortRef = useRef<AbortController | null>(null);
+
+  // Set when the last reply came from the response cache; Regenerate replays that request uncached
+  const [lastResultCached, setLastResultCached] = useState(false);
+  const lastRequestRef = useRef<{ prompt: string; history: { role: string; content: string }[] } | null>(null);
 
   // Persistent Chat History (Lifted)
   // const [histories, setHistories] = useState<Record<string, ChatMessage[]>>({ }); // Removed
@@ -157,11 +190,23 @@ const AIPanel: React.FC<AIPanelProps> = ({
     }
   }, [userPrompt]);
 
+  const getConfiguredPrompt = (mode: AIMode) => {
+    if (!projectPrompts) return '';
+    if (mode.startsWith('custom:')) {
+      return projectPrompts.customModes.find(m => m.id === mode)?.userPrompt || '';
+    }
+    return projectPrompts[mode as BuiltinAIMode]?.user || '';
+  };
+
   // Pre-fill user prompt when mode changes or prompts load
   useEffect(() => {
     if (projectPrompts) {
-      const configuredPrompt = projectPrompts[selectedMode]?.user || '';
-      setUserPrompt(configuredPrompt);
+      // Fall back if the selected custom mode was deleted
+      if (selectedMode.startsWith('custom:') && !projectPrompts.customModes.some(m => m.id === selectedMode)) {
+        setSelectedMode('refine');
+        return;
+      }
+      setUserPrompt(getConfiguredPrompt(selectedMode));
     }
   }, [selectedMode, projectPrompts]);
 
@@ -187,72 +232,113 @@ const AIPanel: React.FC<AIPanelProps> = ({
 
   const resetAIState = () => {
     setAiResultContent(null);
+    setAiVariants(null);
+    setAiCommentary(null);
     setAiExplanation('');
-    const configuredPrompt = projectPrompts?.[selectedMode]?.user || '';
-    setUserPrompt(configuredPrompt); // Reset to configured prompt
+    setChangeReason('');
+    setUserPrompt(getConfiguredPrompt(selectedMode)); // Reset to configured prompt
     // History is now persistent per key, so we don't clear it on item change unless explicitly requested.
   };
 
   const handleClearContext = () => {
     clearCurrentHistory();
     setAiResultContent(null);
+    setAiVariants(null);
+    setAiCommentary(null);
     setAiExplanation('');
   };
 
-  const handleRunAI = async () => {
+  // Translate starts from the paragraph's FW_SOURCE draft once it has one, so an edited draft can be translated again
+  const requestContent = (selectedMode === 'translate' && item?.source) || item?.content || '';
+
+  // Chat history as sent to the model: AI turns carry the suggestion they made
+  const getRequestHistory = () => chatHistory.map(m => ({
+    role: m.role,
+    content: m.role === 'ai' && m.suggestion ? m.suggestion : m.content
+  }));
+
+  const buildRequestBody = (prompt: string, history: { role: string; content: string }[], noCache: boolean) => ({
+    mode: selectedMode,
+    content: requestContent,
+    projectId,
+    // Shared system prompt + the mode prompt pre-filled in the textarea, which the user may have edited
+    systemPrompt: useSystemPrompt ? projectPrompts?.system || '' : undefined,
+    userPrompt: prompt,
+    history,
+    noCache,
+    // Lets the server expand {{section_title}}, {{previous_paragraph}}, ... in the prompts
+    context: { filePath: currentFilePath, lineStart: item?.lineStart, thoughts: item?.thoughts }
+  });
+
+  // promptOverride replaces the textarea content (used by "retry with constraint reminder")
+  const handleRunAI = async (
+    promptOverride?: string,
+    options: { noCache?: boolean; history?: { role: string; content: string }[] } = {}
+  ) => {
     if (isProcessing || !item) return;
+    const promptText = promptOverride ?? userPrompt;
 
     // Add user message to history immediately
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
-      content: userPrompt || 'Refine this content',
+      content: promptText || 'Refine this content',
       timestamp: new Date()
     };
     addMessageToHistory(userMsg);
 
     setIsProcessing(true);
     setAiResultContent(null);
+    setAiVariants(null);
+    setAiCommentary(null);
     setAiExplanation('');
+    setOverrideLatexGuard(false);
+    setLastResultCached(false);
 
     try {
-      // Get prompts - use shared system prompt + mode-specific user prompt
-      const systemPrompt = projectPrompts?.system || '';
+      const previousHistory = options.history ?? getRequestHistory();
+      lastRequestRef.current = { prompt: promptText, history: previousHistory };
 
-      // We now pre-fill the textarea with the configured prompt, so we send the textarea content directly.
-      // This allows the user to fully edit the instruction.
-      const userPromptToSend = userPrompt;
+      const abortController = new AbortController();
+      streamAbortRef.current = abortController;
+      setStreamingText('');
 
-      if (!userPromptToSend.trim()) {
-        // If empty, maybe alert user? Or send empty (backend might use default default?)
+      const body = buildRequestBody(promptText, previousHistory, !!options.noCache || !useCache);
+      let data: Awaited<ReturnType<typeof api.streamAI>>;
+      if (variantCount > 1 && returnsRewrite) {
+        // Variants come back all at once; the first one opens in the diff view
+        const result = await api.generateVariants(body, variantCount);
+        setAiVariants(result.variants);
+        data = { content: result.variants[0]!.content, model: result.model, aborted: false, failovers: result.failovers };
+      } else {
+        data = await api.streamAI(body, (text) => setStreamingText(prev => prev + text), abortController.signal);
       }
 
-      // Prepare context from history
-      const previousHistory = chatHistory.map(m => ({
-        role: m.role,
-        content: m.role === 'ai' && m.suggestion ? m.suggestion : m.content // Use suggestion for AI role if available, otherwise explanation
-      }));
-
-      const response = await fetch('/api/ai/process', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          mode: selectedMode,
-          content: item.content,
-          systemPrompt: useSystemPrompt ? systemPrompt : undefined,
-          userPrompt: userPromptToSend, // This now contains Configured Prompt + User Input
-          history: previousHistory
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error('AI processing failed');
+      if (!data.content || (selectedMode === 'diagnose' && !data.issues)) {
+        // Cancelled before anything arrived, or mid-way through a Diagnose reply
+        setAiExplanation('Cancelled.');
+        return;
       }
 
-      const data = await response.json() as { content: string; explanation?: string; model?: string };
+      setLastResultCached(!!data.cached);
+      const failoverNote = data.failovers?.length
+        ? `${data.failovers.map(f => `${f.provider} failed (${f.reason})`).join('; ')}. Answered by ${data.model}.`
+        : '';
 
-      setAiResultContent(data.content);
-      setAiExplanation(data.explanation || '');
+      // Diagnose returns anchored issues instead of a revision
+      const isDiagnosis = selectedMode === 'diagnose' && !!data.issues;
+      const isCommentary = selectedCustomMode?.output === 'commentary';
+      if (isDiagnosis) {
+        const createdAt = new Date().toISOString();
+        onIssuesFound?.(data.issues!.map(issue => ({ ...issue, status: 'open' as const, createdAt })));
+        setAiExplanation([data.content, failoverNote].filter(Boolean).join(' '));
+      } else if (isCommentary) {
+        setAiCommentary(data.content);
+        setAiExplanation(data.aborted ? 'Cancelled. Showing the partial reply.' : failoverNote);
+      } else {
+        setAiResultContent(data.content);
+        setAiExplanation(data.aborted ? 'Cancelled. Showing the partial suggestion.' : failoverNote);
+      }
 
       let modelName = data.model;
       // Fallback: If backend is stale (no model returned), fetch current config
@@ -267,36 +353,80 @@ const AIPanel: React.FC<AIPanelProps> = ({
       const aiMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
         role: 'ai',
-        content: data.explanation || 'Here is the suggested revision.',
-        suggestion: data.content,
+        content: isDiagnosis
+          ? `${data.content} (${data.issues!.length} issue${data.issues!.length === 1 ? '' : 's'})`
+          : isCommentary ? data.content
+            : data.aborted ? 'Partial revision (cancelled).' : 'Here is the suggested revision.',
+        suggestion: isDiagnosis || isCommentary ? undefined : data.content,
         model: modelName,
         timestamp: new Date()
       };
       addMessageToHistory(aiMsg);
+      if (!isDiagnosis && !isCommentary) setAiResultModel(modelName);
 
     } catch (error) {
       console.error('AI error:', error);
-      setAiExplanation('Error: Failed to process. Please try again.');
+      setAiExplanation(`Error: ${error instanceof Error ? error.message : 'Failed to process'}. Please try again.`);
     } finally {
+      streamAbortRef.current = null;
+      setStreamingText('');
       setIsProcessing(false);
     }
     setUserPrompt('');
   };
 
+  const handleRegenerate = () => {
+    if (!lastRequestRef.current) return;
+    handleRunAI(lastRequestRef.current.prompt, { noCache: true, history: lastRequestRef.current.history });
+  };
+
+  const handleCancelAI = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  // Abort any in-flight stream when the panel unmounts
+  useEffect(() => {
+    return () => streamAbortRef.current?.abort();
+  }, []);
+
+  // Structural LaTeX the rewrite dropped or broke; blocks Accept until retried or overridden
+  const latexViolations = useMemo(
+    () => (item && aiResultContent ? checkLatexIntegrity(requestContent, aiResultContent) : []),
+    [requestContent, aiResultContent]
+  );
+  const isLatexGuardBlocking = latexViolations.length > 0 && !overrideLatexGuard;
+
+  const handleRetryWithReminder = () => {
+    const modePrompt = getConfiguredPrompt(selectedMode);
+    handleRunAI(`${modePrompt}\n\n${buildConstraintReminder(latexViolations)}`.trim());
+  };
+
   const handleApplyAIResult = () => {
+    if (isLatexGuardBlocking) return;
     if (aiResultContent && selectedItemId && item) {
       const diffResult = computeWordDiff(item.content, aiResultContent);
       diffResult.itemId = selectedItemId;
-      onResult(diffResult, aiResultContent, selectedMode);
+      onResult(diffResult, aiResultContent, selectedMode, { model: aiResultModel, reason: changeReason });
+      setChangeReason('');
 
       // Clear result state after applying to prepare for next round
       // setAiResultContent(null); // Optional: Do we keep showing diff until user clears? 
       // User said "If we apply, the text at the top is changed... Then we can continue"
       // So clearer to reset result view so it doesn't show "No changes" (since now original==modified)
       setAiResultContent(null);
+      setAiVariants(null);
     }
   };
 
+  const handleApplyCompared = (content: string, model: string) => {
+    if (!selectedItemId || !item) return;
+    const diffResult = computeWordDiff(item.content, content);
+    diffResult.itemId = selectedItemId;
+    onResult(diffResult, content, selectedMode, { model, reason: changeReason });
+    setChangeReason('');
+    setShowCompare(false);
+  };
+
   if (!isOpen) return null;
 
   // Compute diff on the fly
@@ -309,6 +439,9 @@ const AIPanel: React.FC<AIPanelProps> = ({
       case 'diagnose': return <Search size={14} className="text-purple-500" />;
       case 'refine': return <Wand2 size={14} className="text-blue-500" />;
       case 'quickfix': return <Zap size={14} className="text-green-500" />;
+      case 'translate': return <Languages size={14} className="text-sky-500" />;
+      case 'compress': return <Shrink size={14} className="text-rose-500" />;
+      default: return <ModeIcon icon={customModes.find(m => m.id === mode)?.icon || ''} size={14} className="text-orange-500" />;
     }
   };
 
@@ -317,6 +450,9 @@ const AIPanel: React.FC<AIPanelProps> = ({
       case 'diagnose': return 'Diagnose';
       case 'refine': return 'Refine';
       case 'quickfix': return 'QuickFix';
+      case 'translate': return 'Translate';
+      case 'compress': return 'Compress';
+      default: return customModes.find(m => m.id === mode)?.name || 'Custom';
     }
   };
 
@@ -340,12 +476,12 @@ const AIPanel: React.FC<AIPanelProps> = ({
                 Editing Content
               </span>
               {/* Mode selector in fullscreen */}
-              <div className="flex items-center gap-1 bg-white rounded-lg p-1 shadow-sm border border-slate-200">
-                {(['diagnose', 'refine', 'quickfix'] as AIMode[]).map((mode) => (
+              <div className="flex items-center gap-1 bg-white rounded-lg p-1 shadow-sm border border-slate-200 overflow-x-auto max-w-[60vw]">
+                {modeOptions.map((mode) => (
                   <button
                     key={mode}
                     onClick={() => setSelectedMode(mode)}
-                    className={`flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-medium transition-all ${selectedMode === mode
+                    className={`flex items-center gap-1.5 px-3 py-1 rounded-md text-xs font-medium transition-all whitespace-nowrap ${selectedMode === mode
                       ? 'bg-blue-500 text-white'
                       : 'text-slate-500 hover:text-slate-700 hover:bg-slate-50'
                       }`}
@@ -409,12 +545,12 @@ const AIPanel: React.FC<AIPanelProps> = ({
             </div>
 
             {/* Mode selector */}
-            <div className="flex items-center gap-1 bg-slate-100 rounded-lg p-1">
-              {(['diagnose', 'refine', 'quickfix'] as AIMode[]).map((mode) => (
+            <div className="flex items-center gap-1 bg-slate-100 rounded-lg p-1 overflow-x-auto max-w-[40vw]">
+              {modeOptions.map((mode) => (
                 <button
                   key={mode}
                   onClick={() => setSelectedMode(mode)}
-                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${selectedMode === mode
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-all whitespace-nowrap ${selectedMode === mode
                     ? 'bg-white shadow-sm text-slate-800'
                     : 'text-slate-500 hover:text-slate-700'
                     }`}
@@ -491,16 +627,40 @@ const AIPanel: React.FC<AIPanelProps> = ({
               <Bot size={14} />
               AI Assistant
             </span>
-            <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer hover:text-slate-700">
-              <input
-                type="checkbox"
-                checked={useSystemPrompt}
-                onChange={(e) => setUseSystemPrompt(e.target.checked)}
-                className="w-3.5 h-3.5 border-slate-300 text-blue-600 focus:ring-blue-500 rounded"
-              />
-              <Settings size={12} />
-              Include System Prompt
-            </label>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer hover:text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={useSystemPrompt}
+                  onChange={(e) => setUseSystemPrompt(e.target.checked)}
+                  className="w-3.5 h-3.5 border-slate-300 text-blue-600 focus:ring-blue-500 rounded"
+                />
+                <Settings size={12} />
+                Include System Prompt
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer hover:text-slate-700" title="Reuse stored replies for identical requests">
+                <input
+                  type="checkbox"
+                  checked={useCache}
+                  onChange={(e) => setUseCache(e.target.checked)}
+                  className="w-3.5 h-3.5 border-slate-300 text-blue-600 focus:ring-blue-500 rounded"
+                />
+                <Database size={12} />
+                Use Cache
+              </label>
+              {returnsRewrite && (
+                <label className="flex items-center gap-1.5 text-xs text-slate-500" title="Ask for several rewrites and mix them sentence by sentence">
+                  Variants
+                  <select
+                    value={variantCount}
+                    onChange={(e) => setVariantCount(Number(e.target.value))}
+                    className="px-1 py-0.5 border border-slate-200 rounded text-xs bg-white"
+                  >
+                    {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </label>
+              )}
+            </div>
           </div>
           <div className="flex gap-2">
             <textarea
@@ -518,21 +678,75 @@ const AIPanel: React.FC<AIPanelProps> = ({
               rows={1}
               style={{ minHeight: '42px' }} // Let auto-resize handle max-height
             />
-            <button
-              onClick={handleRunAI}
-              disabled={isProcessing}
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 self-start"
-            >
-              {isProcessing ? (
-                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-              ) : (
-                <Send size={16} />
-              )}
-              Run
-            </button>
+            {isProcessing ? (
+              <button
+                onClick={handleCancelAI}
+                className="px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors flex items-center gap-2 self-start"
+                title="Stop generating and keep the partial text"
+              >
+                <Square size={14} />
+                Stop
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => handleRunAI()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 self-start"
+                >
+                  <Send size={16} />
+                  Run
+                </button>
+                {returnsRewrite && (
+                  <button
+                    onClick={() => {
+                      setAiResultContent(null);
+                      setShowCompare(!showCompare);
+                    }}
+                    className={`px-3 py-2 rounded-lg transition-colors flex items-center gap-2 self-start border ${showCompare ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-slate-200 text-slate-600 hover:bg-slate-100'}`}
+                    title="Run the same request on several models and compare the results side by side"
+                  >
+                    <Columns3 size={16} />
+                    Compare
+                  </button>
+                )}
+              </>
+            )}
           </div>
+          {aiExplanation && !isProcessing && (
+            <p className={`mt-2 text-xs ${aiExplanation.startsWith('Error') ? 'text-red-600' : 'text-slate-500'}`}>
+              {aiExplanation}
+            </p>
+          )}
+          {lastResultCached && !isProcessing && (
+            <div className="mt-2 flex items-center gap-2 text-xs text-slate-500">
+              <span className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 flex items-center gap-1">
+                <Database size={10} />
+                Cached
+              </span>
+              Reused a stored reply for this exact request.
+              <button
+                onClick={handleRegenerate}
+                className="flex items-center gap-1 text-blue-600 hover:text-blue-700 font-medium"
+              >
+                <RefreshCw size={12} />
+                Regenerate
+              </button>
+            </div>
+          )}
         </div>
 
+        {/* Same request on several models, side by side */}
+        {showCompare && returnsRewrite && item && (
+          <ModelComparePanel
+            key={selectedItemId}
+            original={item.content}
+            requestContent={requestContent}
+            buildRequest={() => buildRequestBody(userPrompt, getRequestHistory(), !useCache)}
+            onAccept={handleApplyCompared}
+            onClose={() => setShowCompare(false)}
+          />
+        )}
+
         {/* BOTTOM: AI Result Area (Diff View) - Only shown if Result exists */}
         {aiResultContent && diff && (
           <div className="flex-1 flex flex-col overflow-hidden bg-white border-t border-slate-200">
@@ -553,6 +767,15 @@ const AIPanel: React.FC<AIPanelProps> = ({
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={changeReason}
+                  onChange={(e) => setChangeReason(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleApplyAIResult(); }}
+                  placeholder="Reason (optional)"
+                  className="w-40 px-2 py-1 text-xs border border-slate-200 rounded focus:outline-none focus:ring-1 focus:ring-green-500"
+                  title="Logged with the change in the revision changelog"
+                />
                 <button
                   onClick={() => setAiResultContent(null)}
                   className="text-xs text-slate-500 hover:text-slate-700 px-2 py-1 hover:bg-slate-100 rounded transition-colors"
@@ -561,13 +784,56 @@ const AIPanel: React.FC<AIPanelProps> = ({
                 </button>
                 <button
                   onClick={handleApplyAIResult}
-                  className="px-3 py-1 bg-green-600 text-white text-xs font-medium rounded hover:bg-green-700 transition-colors flex items-center gap-1"
+                  disabled={isLatexGuardBlocking}
+                  className="px-3 py-1 bg-green-600 text-white text-xs font-medium rounded hover:bg-green-700 transition-colors flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={isLatexGuardBlocking ? 'Resolve the LaTeX warnings first' : undefined}
                 >
                   <Check size={12} />
                   Accept
                 </button>
               </div>
             </div>
+            {/* Variants as tabs; picking sentences from them sets the text Accept applies */}
+            {aiVariants && aiVariants.length > 1 && item && (
+              <VariantMixer original={item.content} variants={aiVariants} onChange={setAiResultContent} />
+            )}
+            {/* LaTeX integrity warnings - block Accept */}
+            {latexViolations.length > 0 && (
+              <div className={`px-3 py-2 border-b text-xs ${overrideLatexGuard ? 'bg-slate-50 border-slate-200 text-slate-500' : 'bg-red-50 border-red-200 text-red-700'}`}>
+                <div className="flex items-center gap-2 font-semibold mb-1">
+                  <AlertTriangle size={14} />
+                  The suggestion changes LaTeX structure
+                </div>
+                <ul className="space-y-0.5 mb-2">
+                  {latexViolations.map((v, idx) => (
+                    <li key={idx}>
+                      {v.message}
+                      {v.items && v.items.length > 0 && (
+                        <span className="font-mono">: {v.items.join(', ')}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {!overrideLatexGuard && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={handleRetryWithReminder}
+                      className="px-2 py-1 bg-red-600 text-white font-medium rounded hover:bg-red-700 transition-colors flex items-center gap-1"
+                    >
+                      <RefreshCw size={12} />
+                      Retry with constraint reminder
+                    </button>
+                    <button
+                      onClick={() => setOverrideLatexGuard(true)}
+                      className="px-2 py-1 text-red-600 hover:bg-red-100 rounded transition-colors"
+                      title="The changes are intended; allow Accept"
+                    >
+                      Allow anyway
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
             <div className="flex-1 overflow-auto min-h-[150px]">
               <DiffViewer
                 originalContent={item?.content || ''}
@@ -581,8 +847,93 @@ const AIPanel: React.FC<AIPanelProps> = ({
           </div>
         )}
 
+        {/* Commentary from a custom mode */}
+        {aiCommentary && !isProcessing && (
+          <div className="flex-1 flex flex-col overflow-hidden bg-white border-t border-slate-200">
+            <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 flex items-center justify-between">
+              <span className="text-xs font-semibold text-slate-700 uppercase tracking-wider flex items-center gap-2">
+                {getIconForMode(selectedMode)}
+                {getModeLabel(selectedMode)}
+              </span>
+              <button
+                onClick={() => setAiCommentary(null)}
+                className="text-xs text-slate-500 hover:text-slate-700 px-2 py-1 hover:bg-slate-100 rounded transition-colors"
+              >
+                Dismiss
+              </button>
+            </div>
+            <div className="flex-1 overflow-auto min-h-[150px] p-4 text-sm leading-relaxed whitespace-pre-wrap break-words text-slate-700">
+              {aiCommentary}
+            </div>
+          </div>
+        )}
+
+        {/* Diagnose issues for the selected item */}
+        {selectedMode === 'diagnose' && !aiResultContent && !isProcessing && issues.length > 0 && (
+          <div className="flex-1 flex flex-col overflow-hidden bg-white border-t border-slate-200">
+            <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 flex items-center gap-2">
+              <span className="text-xs font-semibold text-slate-700 uppercase tracking-wider">
+                Issues
+              </span>
+              <span className="text-xs text-slate-400">
+                {issues.filter(i => i.status === 'open').length} open / {issues.length} total
+              </span>
+            </div>
+            <div className="flex-1 overflow-auto min-h-[150px] divide-y divide-slate-100">
+              {issues.map(issue => {
+                const isOpen = issue.status === 'open';
+                return (
+                  <div key={issue.id} className={`px-3 py-2.5 text-sm ${isOpen ? '' : 'opacity-50'}`}>
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className={`text-[10px] font-semibold uppercase px-1.5 py-0.5 rounded ${issue.severity === 'high'
+                        ? 'bg-red-100 text-red-700'
+                        : issue.severity === 'medium' ? 'bg-amber-100 text-amber-700' : 'bg-sky-100 text-sky-700'
+                        }`}>
+                        {issue.severity}
+                      </span>
+                      <span className="text-[10px] uppercase tracking-wider text-slate-400">{issue.category}</span>
+                      {!isOpen && <span className="text-[10px] text-slate-400">{issue.status}</span>}
+                      <div className="ml-auto flex items-center gap-1">
+                        {isOpen ? (
+                          <>
+                            <button
+                              onClick={() => onIssueStatusChange?.(issue.id, 'resolved')}
+                              className="p-1 text-slate-400 hover:text-green-600 hover:bg-green-50 rounded transition-colors"
+                              title="Mark as resolved"
+                            >
+                              <Check size={14} />
+                            </button>
+                            <button
+                              onClick={() => onIssueStatusChange?.(issue.id, 'dismissed')}
+                              className="p-1 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded transition-colors"
+                              title="Dismiss"
+                            >
+                              <X size={14} />
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            onClick={() => onIssueStatusChange?.(issue.id, 'open')}
+                            className="p-1 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                            title="Reopen"
+                          >
+                            <RotateCcw size={14} />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    <p className="text-xs text-slate-500 italic border-l-2 border-slate-200 pl-2 mb-1 line-clamp-2">"{issue.quote}"</p>
+                    <p className="text-slate-700">{issue.message}</p>
+                    {issue.suggestion && <p className="text-xs text-slate-500 mt-1">Suggestion: {issue.suggestion}</p>}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Empty State placeholder if no result yet */}
-        {(!aiResultContent && !isProcessing) && (
+        {(!aiResultContent && !aiCommentary && !isProcessing && !(showCompare && returnsRewrite) && !(selectedMode === 'diagnose' && issues.length > 0)) && (
           <div className="flex-1 bg-slate-50/50 flex flex-col items-center justify-center text-slate-400 p-8">
             <Bot size={32} className="mb-2 opacity-50" />
             <p className="text-sm font-medium">Ready to assist</p>
@@ -590,11 +941,32 @@ const AIPanel: React.FC<AIPanelProps> = ({
           </div>
         )}
 
-        {isProcessing && (
+        {isProcessing && (!streamingText || selectedMode === 'diagnose') && (
           <div className="flex-1 bg-slate-50/50 flex items-center justify-center p-8">
             <div className="flex flex-col items-center gap-3">
               <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-              <p className="text-sm text-slate-500 font-medium">Generating suggestions...</p>
+              <p className="text-sm text-slate-500 font-medium">
+                {selectedMode === 'diagnose' ? 'Diagnosing...' : 'Generating suggestions...'}
+              </p>
+              {selectedMode === 'diagnose' && streamingText && (
+                <p className="text-xs text-slate-400">{(streamingText.match(/"quote"\s*:/g) || []).length} issues so far</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Live suggestion while tokens stream in; the diff view replaces it once done */}
+        {isProcessing && streamingText && selectedMode !== 'diagnose' && (
+          <div className="flex-1 flex flex-col overflow-hidden bg-white border-t border-slate-200">
+            <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 flex items-center gap-2">
+              <div className="w-3 h-3 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+              <span className="text-xs font-semibold text-slate-700 uppercase tracking-wider">
+                Generating...
+              </span>
+              <span className="text-xs text-slate-400">{streamingText.split(/\s+/).filter(Boolean).length} words</span>
+            </div>
+            <div className="flex-1 overflow-auto min-h-[150px] p-4 text-sm font-mono leading-relaxed whitespace-pre-wrap break-words text-slate-700">
+              {streamingText}
             </div>
           </div>
         )}
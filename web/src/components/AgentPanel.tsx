@@ -0,0 +1,337 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { Bot, X, Loader2, Play, Square, Send, Check, Trash2, Plus, ChevronRight, ChevronDown } from 'lucide-react';
+import type { AgentSession, AgentStep } from '../types';
+import { api } from '../api';
+import { computeWordDiff } from '../utils/diff';
+import { getChangedRegion } from '../utils/agent';
+import DiffViewer from './DiffViewer';
+
+interface AgentPanelProps {
+  isOpen: boolean;
+  projectId: string;
+  onClose: () => void;
+  onFilesChanged?: (paths: string[]) => void; // Absolute paths the agent wrote
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+const STATUS_STYLES: Record<AgentSession['status'], string> = {
+  running: 'bg-blue-50 text-blue-700',
+  'awaiting-approval': 'bg-amber-50 text-amber-700',
+  finished: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700',
+  stopped: 'bg-slate-100 text-slate-500'
+};
+
+const STEP_STYLES: Record<AgentStep['status'], string> = {
+  done: 'text-slate-500',
+  failed: 'text-red-600',
+  'awaiting-approval': 'text-amber-600',
+  approved: 'text-green-600',
+  rejected: 'text-slate-400'
+};
+
+function describeStep(step: AgentStep): string {
+  if (step.tool === 'list') return 'List files';
+  if (step.tool === 'finish') return 'Finish';
+  return `${step.tool[0]!.toUpperCase()}${step.tool.slice(1)} ${step.args.path || ''}`;
+}
+
+const ProposalReview: React.FC<{
+  step: AgentStep;
+  onReview: (approved: boolean, feedback?: string) => void;
+  isBusy: boolean;
+}> = ({ step, onReview, isBusy }) => {
+  const [feedback, setFeedback] = useState('');
+  const region = useMemo(() => getChangedRegion(step.proposal!), [step.proposal]);
+  const diff = useMemo(() => computeWordDiff(region.before, region.after), [region]);
+
+  return (
+    <div className="mt-2 border border-amber-200 rounded-lg overflow-hidden">
+      <div className="px-3 py-1.5 bg-amber-50 text-xs text-amber-800 flex items-center justify-between">
+        <span>{step.proposal!.before ? `Change to ${step.proposal!.path}` : `New file ${step.proposal!.path}`}</span>
+        {region.hiddenAbove > 0 && <span className="text-amber-600">from line {region.startLine}</span>}
+      </div>
+      <div className="max-h-72 overflow-auto">
+        <DiffViewer
+          originalContent={region.before}
+          modifiedContent={region.after}
+          diff={diff}
+          onAccept={() => onReview(true)}
+          onReject={() => onReview(false, feedback)}
+          hideHeader={true}
+        />
+      </div>
+      <div className="px-3 py-2 border-t border-amber-200 bg-white flex items-center gap-2">
+        <input
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          placeholder="Why reject? (optional, sent to the agent)"
+          className="flex-1 px-2 py-1.5 border border-slate-200 rounded-lg text-xs"
+        />
+        <button
+          onClick={() => onReview(false, feedback)}
+          disabled={isBusy}
+          className="px-3 py-1.5 text-slate-600 text-xs font-medium rounded-lg hover:bg-slate-100 disabled:opacity-50 transition-colors flex items-center gap-1"
+        >
+          <X size={12} />
+          Reject
+        </button>
+        <button
+          onClick={() => onReview(true)}
+          disabled={isBusy}
+          className="px-3 py-1.5 bg-green-600 text-white text-xs font-medium rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors flex items-center gap-1"
+        >
+          <Check size={12} />
+          Approve
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const AgentPanel: React.FC<AgentPanelProps> = ({ isOpen, projectId, onClose, onFilesChanged }) => {
+  const [sessions, setSessions] = useState<AgentSession[]>([]);
+  const [session, setSession] = useState<AgentSession | null>(null);
+  const [rootDir, setRootDir] = useState('');
+  const [goal, setGoal] = useState('');
+  const [message, setMessage] = useState('');
+  const [expandedSteps, setExpandedSteps] = useState<Set<string>>(new Set());
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    api.getProjectConfig(projectId).then(config => setRootDir(config?.sectionsDir || ''));
+    api.listAgentSessions(projectId).then(list => {
+      setSessions(list);
+      setSession(current => current && list.some(s => s.id === current.id) ? current : list[0] || null);
+    });
+  }, [isOpen, projectId]);
+
+  // The agent runs server-side; poll while it is taking turns
+  useEffect(() => {
+    if (!isOpen || session?.status !== 'running') return;
+    const timer = setInterval(async () => {
+      const updated = await api.getAgentSession(session.id);
+      if (updated) setSession(updated);
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOpen, session?.id, session?.status]);
+
+  useEffect(() => {
+    if (session) setSessions(list => list.map(s => s.id === session.id ? session : s));
+  }, [session]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<AgentSession>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const updated = await action();
+      setSession(updated);
+      return updated;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = async () => {
+    const created = await run(() => api.createAgentSession(projectId, goal));
+    if (created) {
+      setSessions(list => [created, ...list]);
+      setGoal('');
+    }
+  };
+
+  const handleReview = async (step: AgentStep, approved: boolean, feedback?: string) => {
+    const updated = await run(() => api.reviewAgentStep(session!.id, step.id, approved, feedback));
+    const reviewed = updated?.steps.find(s => s.id === step.id);
+    if (reviewed?.status === 'approved' && step.proposal && rootDir) {
+      onFilesChanged?.([`${rootDir.replace(/\/+$/, '')}/${step.proposal.path}`]);
+    }
+  };
+
+  const handleSend = async () => {
+    if (await run(() => api.agentAction(session!.id, 'message', message))) setMessage('');
+  };
+
+  const handleDelete = async () => {
+    if (!session) return;
+    if (session.status === 'awaiting-approval' && !confirm('Discard the change waiting for review?')) return;
+    if (await api.deleteAgentSession(session.id)) {
+      const rest = sessions.filter(s => s.id !== session.id);
+      setSessions(rest);
+      setSession(rest[0] || null);
+    }
+  };
+
+  const toggleStep = (stepId: string) => {
+    setExpandedSteps(prev => {
+      const next = new Set(prev);
+      if (next.has(stepId)) next.delete(stepId);
+      else next.add(stepId);
+      return next;
+    });
+  };
+
+  const isActive = session?.status === 'running' || session?.status === 'awaiting-approval';
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex justify-end z-[110]" onClick={onClose}>
+      <div className="bg-white shadow-2xl w-full max-w-2xl h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-200 bg-gradient-to-r from-purple-50 to-blue-50 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-purple-100 rounded-lg">
+              <Bot size={20} className="text-purple-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Research Agent</h2>
+              <p className="text-xs text-slate-500">Plans in PLAN.md, reads your sources, and asks before every edit</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {sessions.length > 0 && (
+              <select
+                value={session?.id || ''}
+                onChange={(e) => setSession(sessions.find(s => s.id === e.target.value) || null)}
+                className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm max-w-[200px]"
+              >
+                {!session && <option value="">New session</option>}
+                {sessions.map(s => <option key={s.id} value={s.id}>{s.goal.slice(0, 40)}</option>)}
+              </select>
+            )}
+            {session && (
+              <button
+                onClick={() => setSession(null)}
+                className="p-2 hover:bg-slate-100 rounded-lg transition-colors text-slate-500"
+                title="New session"
+              >
+                <Plus size={18} />
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+              <X size={20} className="text-slate-500" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {!session ? (
+            <div className="space-y-3">
+              <label className="block text-sm font-medium text-slate-700">Goal</label>
+              <textarea
+                value={goal}
+                onChange={(e) => setGoal(e.target.value)}
+                rows={4}
+                placeholder="e.g. Tighten the related work section and make sure every paragraph ends with how our approach differs"
+                className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                onClick={handleStart}
+                disabled={isBusy || !goal.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm font-medium flex items-center gap-2"
+              >
+                {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />}
+                Start
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-start gap-2">
+                <p className="flex-1 text-sm text-slate-700">{session.goal}</p>
+                <span className={`px-1.5 py-0.5 rounded text-xs whitespace-nowrap ${STATUS_STYLES[session.status]}`}>{session.status}</span>
+              </div>
+
+              {session.steps.map(step => {
+                const isExpanded = expandedSteps.has(step.id);
+                return (
+                  <div key={step.id} className="border border-slate-200 rounded-lg px-3 py-2">
+                    <button onClick={() => toggleStep(step.id)} className="w-full flex items-center gap-2 text-left">
+                      {isExpanded ? <ChevronDown size={14} className="text-slate-400" /> : <ChevronRight size={14} className="text-slate-400" />}
+                      <span className="text-sm font-medium text-slate-700 font-mono truncate">{describeStep(step)}</span>
+                      <span className={`ml-auto text-xs ${STEP_STYLES[step.status]}`}>{step.status}</span>
+                    </button>
+                    {step.thought && <p className="mt-1 ml-6 text-xs text-slate-500 italic">{step.thought}</p>}
+                    {isExpanded && step.result && (
+                      <pre className="mt-2 ml-6 p-2 bg-slate-50 rounded text-xs text-slate-600 whitespace-pre-wrap break-words max-h-60 overflow-y-auto">{step.result}</pre>
+                    )}
+                    {step.status === 'awaiting-approval' && step.proposal && (
+                      <ProposalReview step={step} isBusy={isBusy} onReview={(approved, feedback) => handleReview(step, approved, feedback)} />
+                    )}
+                  </div>
+                );
+              })}
+
+              {session.status === 'running' && (
+                <div className="flex items-center gap-2 text-xs text-slate-500">
+                  <Loader2 size={14} className="animate-spin text-blue-500" />
+                  Thinking…
+                </div>
+              )}
+              {session.summary && (
+                <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800 whitespace-pre-wrap">{session.summary}</div>
+              )}
+              {session.error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{session.error}</div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        {session && (
+          <div className="px-6 py-3 border-t border-slate-200 flex items-center gap-2">
+            {isActive ? (
+              <button
+                onClick={() => run(() => api.agentAction(session.id, 'stop'))}
+                disabled={isBusy}
+                className="px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+              >
+                <Square size={14} />
+                Stop
+              </button>
+            ) : (
+              <>
+                <input
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter' && message.trim()) handleSend(); }}
+                  placeholder="Tell the agent what to do next…"
+                  className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm"
+                />
+                <button
+                  onClick={handleSend}
+                  disabled={isBusy || !message.trim()}
+                  className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm font-medium flex items-center gap-2"
+                >
+                  <Send size={14} />
+                  Send
+                </button>
+              </>
+            )}
+            <button
+              onClick={handleDelete}
+              className="ml-auto p-2 text-slate-400 hover:text-red-600 hover:bg-slate-100 rounded-lg transition-colors"
+              title="Delete session"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        )}
+        {error && <div className="px-6 pb-3 text-xs text-red-600">{error}</div>}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default AgentPanel;
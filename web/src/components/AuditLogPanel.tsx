@@ -0,0 +1,300 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { History, X, Loader2, RotateCcw, Trash2, Search, CornerDownRight } from 'lucide-react';
+import type { AuditEntry, AuditMessage, AuditStatus, AuditSummary, LLMProvider } from '../types';
+import { api } from '../api';
+
+interface AuditLogPanelProps {
+  isOpen: boolean;
+  projectId: string;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<AuditStatus, { label: string; className: string }> = {
+  ok: { label: 'OK', className: 'bg-green-100 text-green-700' },
+  cached: { label: 'Cached', className: 'bg-blue-100 text-blue-700' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-700' },
+  aborted: { label: 'Aborted', className: 'bg-slate-100 text-slate-500' }
+};
+
+const StatusBadge: React.FC<{ status: AuditStatus }> = ({ status }) => (
+  <span className={`shrink-0 px-1.5 py-0.5 rounded text-[10px] font-medium ${STATUS_STYLES[status].className}`}>{STATUS_STYLES[status].label}</span>
+);
+
+const formatUsage = (entry: Omit<AuditSummary, 'preview'>) => {
+  const parts = [`${entry.latencyMs} ms`];
+  if (entry.promptTokens !== undefined || entry.completionTokens !== undefined) {
+    parts.push(`${entry.estimated ? '~' : ''}${entry.promptTokens ?? 0} → ${entry.completionTokens ?? 0} tok`);
+  }
+  if (entry.cost !== undefined) parts.push(`$${entry.cost.toFixed(4)}`);
+  if (entry.failovers) parts.push(`${entry.failovers} failover${entry.failovers === 1 ? '' : 's'}`);
+  return parts.join(' · ');
+};
+
+// The reply or error of one request, raw
+const Result: React.FC<{ title: string; entry: AuditEntry }> = ({ title, entry }) => (
+  <div className="flex-1 min-w-0 space-y-1">
+    <div className="flex items-center gap-2 text-[11px] text-slate-500">
+      <span className="font-semibold uppercase tracking-wide">{title}</span>
+      <StatusBadge status={entry.status} />
+      <span className="truncate">{entry.providerName} · {entry.model}</span>
+    </div>
+    <div className="text-[11px] text-slate-400">{formatUsage(entry)}</div>
+    <pre className={`text-xs whitespace-pre-wrap break-words rounded-lg p-2 max-h-72 overflow-y-auto ${entry.error ? 'bg-red-50 text-red-700' : 'bg-slate-50 text-slate-700'}`}>
+      {entry.error ?? entry.response ?? ''}
+    </pre>
+  </div>
+);
+
+// Every paragraph request sent to a model, with replay against another model or an edited prompt
+const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ isOpen, projectId, onClose }) => {
+  const [entries, setEntries] = useState<AuditSummary[]>([]);
+  const [providers, setProviders] = useState<LLMProvider[]>([]);
+  const [query, setQuery] = useState('');
+  const [mode, setMode] = useState('');
+  const [model, setModel] = useState('');
+  const [status, setStatus] = useState<AuditStatus | ''>('');
+  const [selected, setSelected] = useState<AuditEntry | null>(null);
+  const [replay, setReplay] = useState<AuditEntry | null>(null);
+  const [providerId, setProviderId] = useState('');
+  const [replayModel, setReplayModel] = useState('');
+  const [temperature, setTemperature] = useState(0.3);
+  const [messages, setMessages] = useState<AuditMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => setEntries(await api.getAuditLog(projectId));
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setSelected(null);
+    setReplay(null);
+    refresh();
+    api.getLLMProviders().then(setProviders);
+  }, [isOpen, projectId]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSelect = (summary: AuditSummary) => run(async () => {
+    setIsLoading(true);
+    try {
+      const entry = await api.getAuditEntry(projectId, summary.id);
+      if (!entry) throw new Error('Audit log entry not found');
+      setSelected(entry);
+      setReplay(null);
+      setProviderId(entry.providerId ?? '');
+      setReplayModel(entry.model);
+      setTemperature(entry.temperature);
+      setMessages(entry.messages.map(m => ({ ...m })));
+    } finally {
+      setIsLoading(false);
+    }
+  });
+
+  const handleReplay = () => run(async () => {
+    if (!selected) return;
+    setIsReplaying(true);
+    try {
+      const edited = messages.some((m, i) => m.content !== selected.messages[i]?.content);
+      setReplay(await api.replayAuditEntry(projectId, selected.id, {
+        providerId: providerId || undefined,
+        model: replayModel.trim() || undefined,
+        temperature,
+        messages: edited ? messages : undefined
+      }));
+      await refresh();
+    } finally {
+      setIsReplaying(false);
+    }
+  });
+
+  const handleClear = () => run(async () => {
+    if (!confirm('Clear the request log of this project?')) return;
+    await api.clearAuditLog(projectId);
+    setSelected(null);
+    setReplay(null);
+    await refresh();
+  });
+
+  const provider = providers.find(p => p.id === providerId);
+  const modes = [...new Set(entries.map(e => e.mode))].sort();
+  const models = [...new Set(entries.map(e => e.model))].sort();
+  const needle = query.trim().toLowerCase();
+  const visible = entries.filter(e =>
+    (!mode || e.mode === mode) &&
+    (!model || e.model === model) &&
+    (!status || e.status === status) &&
+    (!needle || `${e.preview} ${e.providerName} ${e.model} ${e.mode}`.toLowerCase().includes(needle))
+  );
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex justify-end z-[110]" onClick={onClose}>
+      <div className="bg-white shadow-2xl w-full max-w-3xl h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-200 bg-gradient-to-r from-slate-100 to-blue-50 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-slate-200 rounded-lg">
+              <History size={20} className="text-slate-700" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Request Log</h2>
+              <p className="text-xs text-slate-500">Every paragraph request as it was sent, and what came back</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/50 rounded-lg transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+        {error && <div className="px-6 py-2 text-xs text-red-600 bg-red-50 border-b border-red-100">{error}</div>}
+
+        {/* Filters */}
+        <div className="px-6 py-3 border-b border-slate-200 flex items-center gap-2 text-xs">
+          <div className="relative flex-1">
+            <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search replies and errors"
+              className="w-full pl-6 pr-2 py-1.5 border border-slate-200 rounded-lg focus:outline-none focus:border-blue-400"
+            />
+          </div>
+          <select value={mode} onChange={(e) => setMode(e.target.value)} className="px-2 py-1.5 border border-slate-200 rounded-lg">
+            <option value="">All modes</option>
+            {modes.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+          <select value={model} onChange={(e) => setModel(e.target.value)} className="px-2 py-1.5 border border-slate-200 rounded-lg max-w-[10rem]">
+            <option value="">All models</option>
+            {models.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+          <select value={status} onChange={(e) => setStatus(e.target.value as AuditStatus | '')} className="px-2 py-1.5 border border-slate-200 rounded-lg">
+            <option value="">Any status</option>
+            {(Object.keys(STATUS_STYLES) as AuditStatus[]).map(s => <option key={s} value={s}>{STATUS_STYLES[s].label}</option>)}
+          </select>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg disabled:opacity-40"
+            title="Clear the log"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {entries.length === 0 && (
+            <p className="text-center text-sm text-slate-400 py-8">No requests yet. Every AI action on a paragraph is recorded here.</p>
+          )}
+          {entries.length > 0 && visible.length === 0 && <p className="text-center text-sm text-slate-400 py-8">No requests match the filters.</p>}
+
+          {visible.map(entry => (
+            <div key={entry.id}>
+              <button
+                onClick={() => selected?.id === entry.id ? setSelected(null) : handleSelect(entry)}
+                className={`w-full text-left border rounded-lg p-3 text-xs space-y-1 transition-colors ${selected?.id === entry.id ? 'border-blue-300 bg-blue-50/50' : 'border-slate-200 hover:bg-slate-50'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <StatusBadge status={entry.status} />
+                  <span className="font-medium text-slate-700 capitalize">{entry.mode}</span>
+                  {entry.replayOf && <span className="flex items-center gap-0.5 text-violet-600" title={`Replay of ${entry.replayOf}`}><CornerDownRight size={10} />replay</span>}
+                  <span className="truncate text-slate-500">{entry.providerName} · {entry.model}</span>
+                  <span className="ml-auto shrink-0 text-slate-400">{new Date(entry.timestamp).toLocaleString()}</span>
+                </div>
+                <div className="text-[11px] text-slate-400">{formatUsage(entry)}</div>
+                {entry.preview && <p className="text-slate-600 truncate">{entry.preview}</p>}
+              </button>
+
+              {selected?.id === entry.id && (
+                <div className="border border-t-0 border-blue-200 rounded-b-lg p-3 space-y-3 text-xs">
+                  <div className="text-[11px] text-slate-500">
+                    Temperature {selected.temperature} · max {selected.maxTokens} tokens{selected.stream ? ' · streamed' : ''}
+                  </div>
+
+                  {/* Messages, editable for the replay */}
+                  <div className="space-y-2">
+                    {messages.map((message, i) => (
+                      <div key={i}>
+                        <div className="text-[10px] font-semibold uppercase tracking-wide text-slate-400 mb-0.5">{message.role}</div>
+                        <textarea
+                          value={message.content}
+                          onChange={(e) => setMessages(messages.map((m, j) => j === i ? { ...m, content: e.target.value } : m))}
+                          rows={Math.min(10, message.content.split('\n').length + 1)}
+                          className="w-full font-mono text-[11px] p-2 border border-slate-200 rounded-lg focus:outline-none focus:border-blue-400"
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Replay */}
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={providerId}
+                      onChange={(e) => {
+                        setProviderId(e.target.value);
+                        const next = providers.find(p => p.id === e.target.value);
+                        if (next) setReplayModel(next.selectedModel);
+                      }}
+                      className="px-2 py-1.5 border border-slate-200 rounded-lg"
+                    >
+                      <option value="">Current settings</option>
+                      {providers.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <input
+                      value={replayModel}
+                      onChange={(e) => setReplayModel(e.target.value)}
+                      list="audit-log-models"
+                      placeholder="Model"
+                      className="flex-1 min-w-[8rem] px-2 py-1.5 border border-slate-200 rounded-lg"
+                    />
+                    <datalist id="audit-log-models">
+                      {(provider?.models ?? []).map(m => <option key={m} value={m} />)}
+                    </datalist>
+                    <label className="flex items-center gap-1 text-slate-500">
+                      Temp
+                      <input
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        value={temperature}
+                        onChange={(e) => setTemperature(Number(e.target.value))}
+                        className="w-16 px-2 py-1.5 border border-slate-200 rounded-lg"
+                      />
+                    </label>
+                    <button
+                      onClick={handleReplay}
+                      disabled={isReplaying}
+                      className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      {isReplaying ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                      Replay
+                    </button>
+                  </div>
+
+                  <div className="flex gap-3">
+                    <Result title="Original" entry={selected} />
+                    {replay && <Result title="Replay" entry={replay} />}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+          {isLoading && <div className="flex justify-center py-2"><Loader2 size={16} className="animate-spin text-slate-400" /></div>}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default AuditLogPanel;
@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Layers, Play, Pause, Square, Trash2, Loader2, X } from 'lucide-react';
+import type { AIMode, BatchJob, CustomAIMode, TextItem } from '../types';
+import { getSectionScopes, getBatchProgress } from '../utils/batch';
+import { api } from '../api';
+
+interface BatchJobPanelProps {
+  projectId: string;
+  filePath: string;
+  items: TextItem[];
+  jobs: BatchJob[]; // Jobs for this file, newest first
+  onJobsChange: (jobs: BatchJob[]) => void;
+  selectedIds: Set<string>; // Paragraphs ticked in the editor for the "selection" scope
+  onSelectingChange: (selecting: boolean) => void;
+  onClose: () => void;
+}
+
+type BatchScope = 'file' | 'section' | 'selection';
+
+const STATUS_STYLES: Record<BatchJob['status'], string> = {
+  running: 'bg-blue-50 text-blue-700',
+  paused: 'bg-amber-50 text-amber-700',
+  completed: 'bg-green-50 text-green-700',
+  cancelled: 'bg-slate-100 text-slate-500'
+};
+
+const BatchJobPanel: React.FC<BatchJobPanelProps> = ({
+  projectId,
+  filePath,
+  items,
+  jobs,
+  onJobsChange,
+  selectedIds,
+  onSelectingChange,
+  onClose
+}) => {
+  const [mode, setMode] = useState<AIMode>('quickfix');
+  const [scope, setScope] = useState<BatchScope>('file');
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [concurrency, setConcurrency] = useState(2);
+  const [customModes, setCustomModes] = useState<CustomAIMode[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sections = useMemo(() => getSectionScopes(items), [items]);
+
+  // Only modes that rewrite text produce suggestions to review
+  useEffect(() => {
+    fetch(`/api/prompts/${projectId}`)
+      .then(res => res.json())
+      .then(data => setCustomModes((data.customModes || []).filter((m: CustomAIMode) => m.output === 'rewrite')))
+      .catch(err => console.error('Failed to load custom modes:', err));
+  }, [projectId]);
+
+  useEffect(() => {
+    onSelectingChange(scope === 'selection');
+  }, [scope, onSelectingChange]);
+
+  useEffect(() => () => onSelectingChange(false), [onSelectingChange]);
+
+  const scopeItems = useMemo(() => {
+    if (scope === 'section') {
+      const ids = new Set(sections[sectionIndex]?.itemIds || []);
+      return items.filter(item => ids.has(item.id));
+    }
+    if (scope === 'selection') return items.filter(item => selectedIds.has(item.id));
+    return items;
+  }, [scope, sections, sectionIndex, items, selectedIds]);
+
+  const targetItems = scopeItems.filter(item => item.content.trim());
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      const job = await api.createBatchJob({
+        projectId,
+        filePath,
+        mode,
+        concurrency,
+        items: targetItems.map(item => ({ itemId: item.id, content: item.content, lineStart: item.lineStart, thoughts: item.thoughts }))
+      });
+      onJobsChange([job, ...jobs]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleAction = async (jobId: string, action: 'pause' | 'resume' | 'cancel') => {
+    const updated = await api.batchJobAction(jobId, action);
+    if (updated) onJobsChange(jobs.map(j => j.id === jobId ? updated : j));
+  };
+
+  const handleDiscard = async (job: BatchJob) => {
+    const unreviewed = job.items.filter(i => i.status === 'done' && i.review === 'pending').length;
+    if (unreviewed > 0 && !confirm(`Discard ${unreviewed} unreviewed suggestion${unreviewed === 1 ? '' : 's'}?`)) return;
+    if (await api.deleteBatchJob(job.id)) onJobsChange(jobs.filter(j => j.id !== job.id));
+  };
+
+  const modeLabel = (jobMode: AIMode) =>
+    jobMode === 'refine' ? 'Refine'
+      : jobMode === 'quickfix' ? 'QuickFix'
+        : jobMode === 'compress' ? 'Compress'
+          : customModes.find(m => m.id === jobMode)?.name || jobMode.replace(/^custom:/, '');
+
+  return (
+    <div className="px-4 py-3 border-b border-slate-200 bg-white shadow-sm shrink-0 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+          <Layers size={16} className="text-indigo-500" />
+          Batch AI
+        </div>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* New job */}
+      <div className="flex flex-wrap items-end gap-3 text-xs text-slate-600">
+        <label className="flex flex-col gap-1 font-medium">
+          Mode
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as AIMode)}
+            className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+          >
+            <option value="quickfix">QuickFix</option>
+            <option value="refine">Refine</option>
+            {customModes.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 font-medium">
+          Scope
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as BatchScope)}
+            className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+          >
+            <option value="file">Whole file</option>
+            <option value="section" disabled={sections.length === 0}>Section</option>
+            <option value="selection">Selected paragraphs</option>
+          </select>
+        </label>
+        {scope === 'section' && (
+          <label className="flex flex-col gap-1 font-medium">
+            Section
+            <select
+              value={sectionIndex}
+              onChange={(e) => setSectionIndex(parseInt(e.target.value, 10))}
+              className="max-w-[240px] px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+            >
+              {sections.map((section, index) => (
+                <option key={index} value={index}>
+                  {'\u00a0\u00a0'.repeat(section.level - 1)}{section.title || 'Untitled'}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col gap-1 font-medium">
+          Parallel requests
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(parseInt(e.target.value, 10))}
+            className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+          >
+            {[1, 2, 3, 4, 6, 8].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <button
+          onClick={handleStart}
+          disabled={isStarting || targetItems.length === 0}
+          className="px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors flex items-center gap-1.5"
+        >
+          {isStarting ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+          Run on {targetItems.length} paragraph{targetItems.length === 1 ? '' : 's'}
+        </button>
+        {scope === 'selection' && (
+          <span className="text-slate-400 pb-2">Tick paragraphs in the editor to select them.</span>
+        )}
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      {/* Jobs for this file */}
+      {jobs.length > 0 && (
+        <div className="space-y-2 max-h-40 overflow-y-auto">
+          {jobs.map(job => {
+            const { finished, failed, total } = getBatchProgress(job);
+            const toReview = job.items.filter(i => i.status === 'done' && i.review === 'pending').length;
+            const isActive = job.status === 'running' || job.status === 'paused';
+
+            return (
+              <div key={job.id} className="flex items-center gap-3 text-xs">
+                <span className="w-20 truncate font-medium text-slate-700" title={modeLabel(job.mode)}>{modeLabel(job.mode)}</span>
+                <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+                <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(finished / total) * 100}%` }} />
+                </div>
+                <span className="text-slate-500 tabular-nums">{finished}/{total}</span>
+                {failed > 0 && <span className="text-red-600" title={job.items.find(i => i.error)?.error}>{failed} failed</span>}
+                {toReview > 0 && <span className="text-indigo-600">{toReview} to review</span>}
+                <div className="flex items-center gap-1">
+                  {job.status === 'running' && (
+                    <button onClick={() => handleAction(job.id, 'pause')} className="p-1 text-slate-500 hover:text-amber-600 hover:bg-slate-100 rounded" title="Pause">
+                      <Pause size={12} />
+                    </button>
+                  )}
+                  {job.status === 'paused' && (
+                    <button onClick={() => handleAction(job.id, 'resume')} className="p-1 text-slate-500 hover:text-blue-600 hover:bg-slate-100 rounded" title="Resume">
+                      <Play size={12} />
+                    </button>
+                  )}
+                  {isActive ? (
+                    <button onClick={() => handleAction(job.id, 'cancel')} className="p-1 text-slate-500 hover:text-red-600 hover:bg-slate-100 rounded" title="Cancel">
+                      <Square size={12} />
+                    </button>
+                  ) : (
+                    <button onClick={() => handleDiscard(job)} className="p-1 text-slate-500 hover:text-red-600 hover:bg-slate-100 rounded" title="Discard job">
+                      <Trash2 size={12} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchJobPanel;
@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { ScrollText, X, Loader2, Trash2, Copy, Check, Download, ChevronDown, ChevronRight } from 'lucide-react';
+import type { ChangeLogEntry, ChangeExportFormat, ChangeExportKind } from '../types';
+import { api } from '../api';
+
+interface ChangeLogPanelProps {
+  isOpen: boolean;
+  projectId: string;
+  onClose: () => void;
+  onJump?: (lineNumber: number, filePath?: string) => void; // Open a changed paragraph in the editor
+}
+
+const MODE_LABELS: Record<string, string> = {
+  refine: 'Refine',
+  quickfix: 'QuickFix',
+  translate: 'Translate',
+  compress: 'Compress',
+  thoughts: 'Thoughts'
+};
+
+const fileName = (path: string) => path.split('/').pop() || path;
+
+const ChangeCard: React.FC<{
+  entry: ChangeLogEntry;
+  onReason: (reason: string) => void;
+  onDelete: () => void;
+  onJump?: (lineNumber: number, filePath?: string) => void;
+}> = ({ entry, onReason, onDelete, onJump }) => {
+  const [reason, setReason] = useState(entry.reason || '');
+  const [showText, setShowText] = useState(false);
+
+  useEffect(() => setReason(entry.reason || ''), [entry.reason]);
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2 text-xs">
+        <button
+          onClick={() => onJump?.(entry.lineStart, entry.filePath)}
+          className="font-mono text-violet-700 hover:underline"
+          title="Open in the editor"
+        >
+          {fileName(entry.filePath)}:{entry.lineStart}-{entry.lineEnd}
+        </button>
+        {entry.section && <span className="truncate text-slate-500">{entry.section.title}</span>}
+        <span className="ml-auto shrink-0 text-[10px] text-slate-400">
+          {MODE_LABELS[entry.mode] || entry.mode.replace(/^custom:/, '')}
+          {entry.model && ` · ${entry.model}`} · {new Date(entry.timestamp).toLocaleString()}
+        </span>
+        <button onClick={onDelete} className="p-1 text-slate-400 hover:text-red-600 hover:bg-slate-100 rounded" title="Remove from the log">
+          <Trash2 size={12} />
+        </button>
+      </div>
+
+      <input
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        onBlur={() => reason !== (entry.reason || '') && onReason(reason)}
+        placeholder="Reason (used in the summary of changes)"
+        className="w-full px-2 py-1 border border-slate-200 rounded text-xs"
+      />
+
+      <button onClick={() => setShowText(!showText)} className="flex items-center gap-1 text-[11px] text-slate-500 hover:text-slate-700">
+        {showText ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        Before / after
+      </button>
+      {showText && (
+        <div className="grid grid-cols-2 gap-2">
+          <pre className="whitespace-pre-wrap text-xs text-slate-600 bg-red-50/60 rounded p-2 font-sans">{entry.before}</pre>
+          <pre className="whitespace-pre-wrap text-xs text-slate-700 bg-green-50/60 rounded p-2 font-sans">{entry.after}</pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ChangeLogPanel: React.FC<ChangeLogPanelProps> = ({ isOpen, projectId, onClose, onJump }) => {
+  const [entries, setEntries] = useState<ChangeLogEntry[]>([]);
+  const [format, setFormat] = useState<ChangeExportFormat>('markdown');
+  const [kind, setKind] = useState<ChangeExportKind>('summary');
+  const [exported, setExported] = useState<{ content: string; filename: string } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setExported(null);
+    api.listChanges(projectId).then(setEntries);
+  }, [isOpen, projectId]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleReason = (entryId: string, reason: string) => run(async () => {
+    const updated = await api.updateChangeReason(projectId, entryId, reason);
+    setEntries(list => list.map(e => e.id === updated.id ? updated : e));
+  });
+
+  const handleDelete = async (entry: ChangeLogEntry) => {
+    if (!confirm('Remove this change from the log? The text itself is not changed.')) return;
+    if (await api.deleteChange(projectId, entry.id)) setEntries(list => list.filter(e => e.id !== entry.id));
+  };
+
+  const handleExport = () => run(async () => {
+    setIsExporting(true);
+    try {
+      setExported(await api.exportChanges(projectId, format, kind));
+    } finally {
+      setIsExporting(false);
+    }
+  });
+
+  const handleCopy = async () => {
+    if (!exported) return;
+    await navigator.clipboard.writeText(exported.content);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const handleDownload = () => {
+    if (!exported) return;
+    const url = URL.createObjectURL(new Blob([exported.content], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = exported.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex justify-end z-[110]" onClick={onClose}>
+      <div className="bg-white shadow-2xl w-full max-w-3xl h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-200 bg-gradient-to-r from-violet-50 to-blue-50 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-violet-100 rounded-lg">
+              <ScrollText size={20} className="text-violet-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Changelog</h2>
+              <p className="text-xs text-slate-500">Every accepted AI edit, exported as a changelog or summary of changes</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/50 rounded-lg transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+        {error && <div className="px-6 py-2 text-xs text-red-600 bg-red-50 border-b border-red-100">{error}</div>}
+
+        {/* Export */}
+        <div className="px-6 py-3 border-b border-slate-100 flex items-center gap-2">
+          <select value={kind} onChange={(e) => setKind(e.target.value as ChangeExportKind)} className="px-2 py-1.5 border border-slate-200 rounded-lg text-xs">
+            <option value="summary">Summary of changes</option>
+            <option value="changelog">Full changelog</option>
+          </select>
+          <select value={format} onChange={(e) => setFormat(e.target.value as ChangeExportFormat)} className="px-2 py-1.5 border border-slate-200 rounded-lg text-xs">
+            <option value="markdown">Markdown</option>
+            <option value="latex">LaTeX</option>
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-1 px-3 py-1.5 bg-violet-600 text-white text-xs font-medium rounded-lg hover:bg-violet-700 disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 size={12} className="animate-spin" /> : <ScrollText size={12} />}
+            Export
+          </button>
+          <span className="ml-auto text-xs text-slate-400">{entries.length} change{entries.length === 1 ? '' : 's'} logged</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {exported && (
+            <div className="border border-violet-100 rounded-lg overflow-hidden">
+              <div className="px-3 py-2 bg-violet-50 flex items-center gap-2">
+                <span className="text-[10px] font-semibold uppercase tracking-wider text-violet-700">{exported.filename}</span>
+                <button onClick={handleCopy} className="ml-auto flex items-center gap-1 px-2 py-1 text-xs text-slate-600 hover:bg-white rounded">
+                  {copied ? <Check size={12} className="text-green-600" /> : <Copy size={12} />}
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+                <button onClick={handleDownload} className="flex items-center gap-1 px-2 py-1 text-xs text-slate-600 hover:bg-white rounded">
+                  <Download size={12} />
+                  Download
+                </button>
+                <button onClick={() => setExported(null)} className="p-1 text-slate-400 hover:text-slate-600 rounded" title="Close">
+                  <X size={12} />
+                </button>
+              </div>
+              <pre className="max-h-80 overflow-y-auto whitespace-pre-wrap text-xs text-slate-700 p-3">{exported.content}</pre>
+            </div>
+          )}
+
+          {[...entries].reverse().map(entry => (
+            <ChangeCard
+              key={entry.id}
+              entry={entry}
+              onReason={(reason) => handleReason(entry.id, reason)}
+              onDelete={() => handleDelete(entry)}
+              onJump={onJump && ((line, file) => {
+                onJump(line, file);
+                onClose();
+              })}
+            />
+          ))}
+          {entries.length === 0 && (
+            <p className="text-center text-sm text-slate-400 py-8">No accepted AI edits yet. Changes you accept in the editor are logged here.</p>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ChangeLogPanel;
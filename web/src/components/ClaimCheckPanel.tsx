@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Scale, X, Loader2, Play, ArrowRight } from 'lucide-react';
+import type { ClaimEvidence, ClaimFinding, ClaimReport, ClaimStatus } from '../types';
+import { api } from '../api';
+
+interface ClaimCheckPanelProps {
+  isOpen: boolean;
+  projectId: string;
+  onClose: () => void;
+  onJump?: (lineNumber: number, filePath?: string) => void;
+  onShowInPdf?: (filePath: string, line: number) => void;
+}
+
+const STATUS_STYLES: Record<ClaimStatus, { label: string; className: string }> = {
+  contradicted: { label: 'Contradicted', className: 'bg-red-100 text-red-700' },
+  missing: { label: 'No evidence', className: 'bg-amber-100 text-amber-700' },
+  supported: { label: 'Supported', className: 'bg-green-100 text-green-700' },
+  unchecked: { label: 'Unchecked', className: 'bg-slate-100 text-slate-500' }
+};
+
+// Worst first, the order reviewers would raise them
+const STATUS_ORDER: ClaimStatus[] = ['contradicted', 'missing', 'supported', 'unchecked'];
+
+const Anchor: React.FC<{ label: string; title?: string; onOpen: () => void }> = ({ label, title, onOpen }) => (
+  <button onClick={onOpen} className="font-mono text-[11px] text-orange-700 hover:underline" title={title}>
+    {label}
+  </button>
+);
+
+const ClaimRow: React.FC<{ claim: ClaimFinding; onOpen: (filePath: string, line: number) => void }> = ({ claim, onOpen }) => {
+  const openEvidence = (evidence: ClaimEvidence) => onOpen(evidence.filePath, evidence.line);
+  return (
+    <div className="border border-slate-200 rounded-lg p-3 text-xs space-y-2">
+      <div className="flex items-start gap-2">
+        <span className={`shrink-0 px-1.5 py-0.5 rounded font-medium ${STATUS_STYLES[claim.status].className}`}>{STATUS_STYLES[claim.status].label}</span>
+        <p className="flex-1 text-slate-700">{claim.text}</p>
+      </div>
+      <div className="flex items-center gap-2 text-slate-400">
+        <span className="capitalize">{claim.origin}</span>
+        <Anchor label={claim.label} onOpen={() => onOpen(claim.filePath, claim.line)} />
+        {claim.method && <span className="ml-auto">{claim.method === 'numeric' ? 'Checked by the numbers' : 'Matched by the model'}</span>}
+      </div>
+
+      {claim.quantities.map((check, i) => (
+        <div key={i} className="flex items-center gap-2 text-slate-600">
+          <span className="font-semibold">{check.claimed}</span>
+          <ArrowRight size={10} className="text-slate-400" />
+          {check.evidence ? (
+            <>
+              <span className={check.status === 'contradicted' ? 'font-semibold text-red-700' : 'text-green-700'}>{check.found}</span>
+              <span className="text-slate-400">in</span>
+              <Anchor label={check.evidence.label} title={check.evidence.excerpt} onOpen={() => openEvidence(check.evidence!)} />
+              {check.evidence.section && <span className="text-slate-400">({check.evidence.section})</span>}
+              {check.byValueOnly && <span className="text-[10px] text-amber-600" title="The number appears, but not in the passages about this claim">same number only</span>}
+            </>
+          ) : (
+            <span className="text-amber-700">no matching number in the later sections</span>
+          )}
+        </div>
+      ))}
+
+      {claim.method === 'semantic' && (
+        <div className="space-y-1">
+          {claim.note && <p className="text-slate-500 italic">{claim.note}</p>}
+          {claim.evidence.map(evidence => (
+            <div key={evidence.label} className="flex items-start gap-2">
+              <Anchor label={evidence.label} onOpen={() => openEvidence(evidence)} />
+              <span className="flex-1 min-w-0 text-slate-400 truncate">{evidence.excerpt}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Claims of the abstract and introduction, checked against the evaluation and other later sections
+const ClaimCheckPanel: React.FC<ClaimCheckPanelProps> = ({ isOpen, projectId, onClose, onJump, onShowInPdf }) => {
+  const [report, setReport] = useState<ClaimReport | null>(null);
+  const [semantic, setSemantic] = useState(true);
+  const [filter, setFilter] = useState<ClaimStatus | 'all'>('all');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    api.getClaimReport(projectId).then(setReport);
+  }, [isOpen, projectId]);
+
+  if (!isOpen) return null;
+
+  const handleRun = async () => {
+    setError(null);
+    setIsRunning(true);
+    try {
+      setReport(await api.runClaimCheck(projectId, semantic));
+      setFilter('all');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleOpen = (filePath: string, line: number) => {
+    onJump?.(line, filePath);
+    onShowInPdf?.(filePath, line);
+    onClose();
+  };
+
+  const claims = (report?.claims ?? [])
+    .filter(c => filter === 'all' || c.status === filter)
+    .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex justify-end z-[110]" onClick={onClose}>
+      <div className="bg-white shadow-2xl w-full max-w-3xl h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-200 bg-gradient-to-r from-orange-50 to-blue-50 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-orange-100 rounded-lg">
+              <Scale size={20} className="text-orange-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Claim Check</h2>
+              <p className="text-xs text-slate-500">Do the later sections back what the abstract and introduction claim?</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/50 rounded-lg transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+        {error && <div className="px-6 py-2 text-xs text-red-600 bg-red-50 border-b border-red-100">{error}</div>}
+
+        {/* Run */}
+        <div className="px-6 py-3 border-b border-slate-200 flex items-center gap-3">
+          <button
+            onClick={handleRun}
+            disabled={isRunning}
+            className="flex items-center gap-1 px-3 py-1.5 bg-orange-600 text-white text-xs font-medium rounded-lg hover:bg-orange-700 disabled:opacity-50"
+          >
+            {isRunning ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+            {report ? 'Check Again' : 'Check Claims'}
+          </button>
+          <label className="flex items-center gap-1.5 text-xs text-slate-600" title="Numbers are always cross-checked locally">
+            <input type="checkbox" checked={semantic} onChange={(e) => setSemantic(e.target.checked)} />
+            Ask the model about claims without matching numbers
+          </label>
+          {report && <span className="ml-auto text-[11px] text-slate-400">{new Date(report.createdAt).toLocaleString()}{report.model ? ` · ${report.model}` : ''}</span>}
+        </div>
+
+        {report && (
+          <div className="px-6 pt-2 border-b border-slate-200 flex gap-1">
+            {(['all', ...STATUS_ORDER] as const).map(id => (
+              <button
+                key={id}
+                onClick={() => setFilter(id)}
+                className={`px-3 py-2 text-sm border-b-2 -mb-px transition-colors ${filter === id ? 'border-orange-500 text-orange-700 font-medium' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+              >
+                {id === 'all' ? `All (${report.claims.length})` : `${STATUS_STYLES[id].label} (${report.summary[id]})`}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {!report && !isRunning && (
+            <p className="text-center text-sm text-slate-400 py-8">
+              Finds the numbers ("5×", "&lt;1% overhead") and contributions in the abstract and introduction, and looks for the statements
+              or tables that back them in the later sections. Related work and the conclusion do not count as evidence.
+            </p>
+          )}
+          {claims.map(claim => <ClaimRow key={claim.id} claim={claim} onOpen={handleOpen} />)}
+          {report && claims.length === 0 && <p className="text-center text-sm text-slate-400 py-8">No claims with this status.</p>}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ClaimCheckPanel;
@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Shrink, Play, Check, X, Loader2 } from 'lucide-react';
+import type { BatchJob, BatchReview, TextItem } from '../types';
+import type { BatchSuggestion } from '../utils/batch';
+import { findJobItemTarget, getBatchProgress } from '../utils/batch';
+import {
+  countWords,
+  getSectionRanges,
+  getItemsInRange,
+  getWordsToCut,
+  rankCompressions,
+  getAcceptedSavings,
+  type CompressUnit,
+  type LineEstimate,
+  type SectionRange
+} from '../utils/compress';
+import { api } from '../api';
+
+interface CompressPanelProps {
+  projectId: string;
+  filePath: string;
+  items: TextItem[];
+  jobs: BatchJob[]; // Jobs for this file, newest first; compress runs are batch jobs
+  onJobsChange: (jobs: BatchJob[]) => void;
+  onReview: (item: TextItem, suggestion: BatchSuggestion, review: BatchReview) => void;
+  isLatexBlocked?: (item: TextItem, suggestion: BatchSuggestion) => boolean; // Accept waits for an override in the editor
+  onClose: () => void;
+}
+
+const UNIT_LABELS: Record<CompressUnit, string> = {
+  words: 'words',
+  percent: '%',
+  lines: 'lines (PDF)',
+  pages: 'pages (PDF)'
+};
+
+// Each paragraph is asked for a deeper cut than the overall target, so the ranking has cheap cuts to choose from
+const OVERSHOOT = 1.5;
+const MIN_CUT_PERCENT = 10;
+const MAX_CUT_PERCENT = 50;
+
+const CompressPanel: React.FC<CompressPanelProps> = ({ projectId, filePath, items, jobs, onJobsChange, onReview, isLatexBlocked, onClose }) => {
+  const [sections, setSections] = useState<SectionRange[]>([]);
+  const [scope, setScope] = useState(-1); // -1 = whole file, otherwise a section index
+  const [unit, setUnit] = useState<CompressUnit>('pages');
+  const [value, setValue] = useState(0.5);
+  const [estimate, setEstimate] = useState<LineEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [compressPrompt, setCompressPrompt] = useState('');
+  const [budgets, setBudgets] = useState<Record<string, number>>({}); // jobId -> words to cut when it started
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setScope(-1);
+    api.parseSections(filePath).then(all => setSections(getSectionRanges(all, filePath)));
+  }, [filePath]);
+
+  useEffect(() => {
+    fetch(`/api/prompts/${projectId}`)
+      .then(res => res.json())
+      .then(data => setCompressPrompt(data.compress?.user || ''))
+      .catch(err => console.error('Failed to load prompts:', err));
+  }, [projectId]);
+
+  const range = scope >= 0 ? sections[scope] : undefined;
+
+  // Lines and pages are measured on the last compiled PDF
+  useEffect(() => {
+    setIsEstimating(true);
+    api.estimateTypesetLines(projectId, filePath, range?.lineStart ?? 1, range?.lineEnd)
+      .then(setEstimate)
+      .finally(() => setIsEstimating(false));
+  }, [projectId, filePath, range?.lineStart, range?.lineEnd]);
+
+  const scopeItems = useMemo(
+    () => (range ? getItemsInRange(items, range) : items).filter(item => countWords(item.content) > 0),
+    [items, range]
+  );
+  const words = useMemo(() => scopeItems.reduce((sum, item) => sum + countWords(item.content), 0), [scopeItems]);
+  const wordsToCut = getWordsToCut(unit, value, words, estimate);
+  const wordsPerLine = estimate && estimate.lines > 0 ? words / estimate.lines : null;
+
+  const job = jobs.find(j => j.mode === 'compress');
+  const candidates = useMemo(() => (job ? rankCompressions(job) : []), [job]);
+  const saved = getAcceptedSavings(candidates);
+  const budget = job ? budgets[job.id] ?? wordsToCut : null;
+
+  const handleStart = async () => {
+    if (!wordsToCut) return;
+    const cutPercent = Math.round(Math.min(MAX_CUT_PERCENT, Math.max(MIN_CUT_PERCENT, (wordsToCut / words) * 100 * OVERSHOOT)));
+    setIsStarting(true);
+    setError(null);
+    try {
+      const created = await api.createBatchJob({
+        projectId,
+        filePath,
+        mode: 'compress',
+        concurrency: 2,
+        userPrompt: `${compressPrompt}\n\nCut about ${cutPercent}% of its words.`.trim(),
+        items: scopeItems.map(item => ({ itemId: item.id, content: item.content, lineStart: item.lineStart, thoughts: item.thoughts }))
+      });
+      setBudgets(prev => ({ ...prev, [created.id]: wordsToCut }));
+      onJobsChange([created, ...jobs]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const asLines = (n: number) => (wordsPerLine ? ` (≈${(n / wordsPerLine).toFixed(1)} lines)` : '');
+
+  return (
+    <div className="px-4 py-3 border-b border-slate-200 bg-white shadow-sm shrink-0 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+          <Shrink size={16} className="text-rose-500" />
+          Compress to budget
+        </div>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Target */}
+      <div className="flex flex-wrap items-end gap-3 text-xs text-slate-600">
+        <label className="flex flex-col gap-1 font-medium">
+          Scope
+          <select
+            value={scope}
+            onChange={(e) => setScope(parseInt(e.target.value, 10))}
+            className="max-w-[240px] px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+          >
+            <option value={-1}>Whole file</option>
+            {sections.map((section, index) => (
+              <option key={index} value={index}>
+                {'  '.repeat(section.level - 1)}{section.title || 'Untitled'}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 font-medium">
+          Cut
+          <div className="flex gap-1">
+            <input
+              type="number"
+              min={0}
+              step={unit === 'pages' ? 0.25 : 1}
+              value={value}
+              onChange={(e) => setValue(parseFloat(e.target.value) || 0)}
+              className="w-20 px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+            />
+            <select
+              value={unit}
+              onChange={(e) => setUnit(e.target.value as CompressUnit)}
+              className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+            >
+              {(Object.keys(UNIT_LABELS) as CompressUnit[]).map(u => (
+                <option key={u} value={u} disabled={(u === 'lines' || u === 'pages') && !estimate}>{UNIT_LABELS[u]}</option>
+              ))}
+            </select>
+          </div>
+        </label>
+        <button
+          onClick={handleStart}
+          disabled={isStarting || !wordsToCut || scopeItems.length === 0}
+          className="px-3 py-1.5 bg-rose-600 text-white text-sm font-medium rounded-lg hover:bg-rose-700 disabled:opacity-50 transition-colors flex items-center gap-1.5"
+        >
+          {isStarting ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+          Propose shortenings
+        </button>
+        <span className="pb-2 text-slate-400">
+          {words} words in {scopeItems.length} paragraph{scopeItems.length === 1 ? '' : 's'}
+          {isEstimating ? ' · measuring PDF…'
+            : estimate ? ` · ${estimate.lines} lines in the PDF, ${estimate.linesPerPage} per page`
+              : ' · compile to target lines or pages'}
+          {wordsToCut ? ` · cut ${wordsToCut} words` : ''}
+        </span>
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      {/* Ranked suggestions of the latest run */}
+      {job && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-3 text-xs">
+            <span className="font-medium text-slate-700 tabular-nums">
+              Saved {saved}{budget ? ` of ${budget}` : ''} words{asLines(saved)}
+            </span>
+            {budget ? (
+              <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${saved >= budget ? 'bg-green-500' : 'bg-rose-500'}`}
+                  style={{ width: `${Math.min(100, (saved / budget) * 100)}%` }}
+                />
+              </div>
+            ) : <div className="flex-1" />}
+            <span className="text-slate-500 tabular-nums">
+              {getBatchProgress(job).finished}/{job.items.length} paragraphs
+            </span>
+          </div>
+          <div className="max-h-48 overflow-y-auto divide-y divide-slate-100 border border-slate-100 rounded-lg">
+            {candidates.map(candidate => {
+              const { jobItem } = candidate;
+              const target = findJobItemTarget(jobItem, items);
+              const isPending = jobItem.review === 'pending';
+              const isBlocked = !!target && !!isLatexBlocked?.(target, { job, jobItem });
+              return (
+                <div key={jobItem.itemId} className={`flex items-center gap-3 px-3 py-1.5 text-xs ${isPending ? '' : 'opacity-60'}`}>
+                  <span
+                    className={`w-24 shrink-0 font-medium tabular-nums ${candidate.saved > 0 ? 'text-rose-600' : 'text-slate-400'}`}
+                    title={`${candidate.changed} words of the original dropped or rewritten`}
+                  >
+                    {candidate.saved > 0 ? `−${candidate.saved} words` : 'no savings'}
+                  </span>
+                  <span className="w-20 shrink-0 text-slate-400 tabular-nums">{candidate.changed} changed</span>
+                  <span className="flex-1 truncate text-slate-600" title={jobItem.content}>{jobItem.content}</span>
+                  {isPending ? (
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => target && onReview(target, { job, jobItem }, 'accepted')}
+                        disabled={!target || candidate.saved <= 0 || isBlocked}
+                        className="p-1 text-slate-500 hover:text-green-600 hover:bg-slate-100 disabled:opacity-40 rounded"
+                        title={isBlocked ? 'Breaks LaTeX structure; review it in the editor' : 'Accept shortening'}
+                      >
+                        <Check size={12} />
+                      </button>
+                      <button
+                        onClick={() => target && onReview(target, { job, jobItem }, 'rejected')}
+                        disabled={!target}
+                        className="p-1 text-slate-500 hover:text-red-600 hover:bg-slate-100 disabled:opacity-40 rounded"
+                        title="Reject shortening"
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  ) : (
+                    <span className={jobItem.review === 'accepted' ? 'text-green-600' : 'text-slate-400'}>{jobItem.review}</span>
+                  )}
+                </div>
+              );
+            })}
+            {candidates.length === 0 && (
+              <div className="px-3 py-2 text-xs text-slate-400">Waiting for the first shortenings…</div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompressPanel;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Check } from 'lucide-react';
+import { Check, X } from 'lucide-react';
 import type { DiffResult } from '../types';
 
 interface DiffViewerProps {
@@ -9,6 +9,7 @@ interface DiffViewerProps {
   onAccept: () => void;
   onReject: () => void;
   hideHeader?: boolean;
+  acceptDisabledReason?: string; // Set while Accept is blocked, e.g. by the LaTeX guard
 }
 
 // Compute inline word diff between original and modified
@@ -71,7 +72,9 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
   modifiedContent,
   diff,
   onAccept,
-  hideHeader = false
+  onReject,
+  hideHeader = false,
+  acceptDisabledReason
 }) => {
   const inlineDiff = computeInlineDiff(originalContent, modifiedContent);
 
@@ -92,13 +95,24 @@ const DiffViewer: React.FC<DiffViewerProps> = ({
               Added
             </span>
           </div>
-          <button
-            onClick={onAccept}
-            className="px-4 py-1.5 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2"
-          >
-            <Check size={14} />
-            Accept Changes
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onReject}
+              className="px-3 py-1.5 text-slate-600 text-sm font-medium rounded-lg hover:bg-slate-200 transition-colors flex items-center gap-1.5"
+            >
+              <X size={14} />
+              Reject
+            </button>
+            <button
+              onClick={onAccept}
+              disabled={!!acceptDisabledReason}
+              title={acceptDisabledReason}
+              className="px-4 py-1.5 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check size={14} />
+              Accept Changes
+            </button>
+          </div>
         </div>
       )}
 
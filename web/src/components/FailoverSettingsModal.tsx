@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Shuffle, Loader2, Plus, Trash2, ArrowUp, ArrowDown, Save } from 'lucide-react';
+import { api } from '../api';
+import type { FailoverEvent, FailoverSettings, LLMProvider } from '../types';
+
+interface FailoverSettingsModalProps {
+	isOpen: boolean;
+	onClose: () => void;
+	providers: LLMProvider[];
+}
+
+const FailoverSettingsModal: React.FC<FailoverSettingsModalProps> = ({ isOpen, onClose, providers }) => {
+	const [settings, setSettings] = useState<FailoverSettings | null>(null);
+	const [log, setLog] = useState<FailoverEvent[]>([]);
+	const [isSaving, setIsSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!isOpen) return;
+		setError(null);
+		api.getFailover().then(data => {
+			setSettings(data?.settings || { enabled: false, chain: [], maxRetries: 2, baseDelayMs: 1000 });
+			setLog(data?.log || []);
+		});
+	}, [isOpen]);
+
+	if (!isOpen) return null;
+
+	const active = providers.find(p => p.isActive);
+
+	const updateChain = (chain: FailoverSettings['chain']) => {
+		if (settings) setSettings({ ...settings, chain });
+	};
+
+	const handleAdd = () => {
+		const provider = providers.find(p => !p.isActive) || providers[0];
+		if (!settings || !provider) return;
+		updateChain([...settings.chain, { providerId: provider.id, model: provider.selectedModel || provider.models[0] || '' }]);
+	};
+
+	const handleMove = (index: number, offset: number) => {
+		if (!settings) return;
+		const chain = [...settings.chain];
+		const [moved] = chain.splice(index, 1);
+		chain.splice(index + offset, 0, moved!);
+		updateChain(chain);
+	};
+
+	const handleSave = async () => {
+		if (!settings) return;
+		setIsSaving(true);
+		setError(null);
+		const result = await api.saveFailover({ ...settings, chain: settings.chain.filter(t => t.model) });
+		setIsSaving(false);
+		if (result?.success) {
+			onClose();
+		} else {
+			setError('Failed to save failover settings');
+		}
+	};
+
+	return createPortal(
+		<div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-[110]">
+			<div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden">
+				{/* Header */}
+				<div className="px-6 py-4 border-b border-slate-200 bg-gradient-to-r from-purple-50 to-blue-50 flex items-center justify-between">
+					<div className="flex items-center gap-3">
+						<div className="p-2 bg-purple-100 rounded-lg">
+							<Shuffle size={20} className="text-purple-600" />
+						</div>
+						<div>
+							<h2 className="text-lg font-bold text-slate-800">Failover</h2>
+							<p className="text-xs text-slate-500">Fallback providers for rate limits and outages</p>
+						</div>
+					</div>
+					<button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+						<X size={20} className="text-slate-500" />
+					</button>
+				</div>
+
+				{/* Content */}
+				<div className="flex-1 overflow-y-auto p-6 space-y-5">
+					{!settings ? (
+						<div className="flex justify-center py-12">
+							<Loader2 size={24} className="animate-spin text-blue-500" />
+						</div>
+					) : (
+						<>
+							<label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+								<input
+									type="checkbox"
+									checked={settings.enabled}
+									onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+									className="w-4 h-4 border-slate-300 text-blue-600 focus:ring-blue-500 rounded"
+								/>
+								Retry and fail over on rate limits (429), server errors (5xx), timeouts and spent budgets
+							</label>
+
+							<div className="grid grid-cols-2 gap-3">
+								<label className="text-xs text-slate-500">
+									Retries per provider
+									<input
+										type="number"
+										min="0"
+										max="5"
+										value={settings.maxRetries}
+										onChange={(e) => setSettings({ ...settings, maxRetries: parseInt(e.target.value, 10) || 0 })}
+										className="mt-1 w-full px-3 py-2 border border-slate-200 rounded-lg text-sm"
+									/>
+								</label>
+								<label className="text-xs text-slate-500">
+									First backoff (ms), doubled on every retry
+									<input
+										type="number"
+										min="100"
+										step="100"
+										value={settings.baseDelayMs}
+										onChange={(e) => setSettings({ ...settings, baseDelayMs: parseInt(e.target.value, 10) || 100 })}
+										className="mt-1 w-full px-3 py-2 border border-slate-200 rounded-lg text-sm"
+									/>
+								</label>
+							</div>
+
+							<div>
+								<div className="flex items-center justify-between mb-2">
+									<h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Order</h4>
+									<button
+										onClick={handleAdd}
+										disabled={providers.length === 0}
+										className="px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded-lg transition-colors flex items-center gap-1 disabled:opacity-50"
+									>
+										<Plus size={12} />
+										Add Fallback
+									</button>
+								</div>
+								<div className="space-y-2">
+									<div className="flex items-center gap-2 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-600">
+										<span className="w-5 text-xs text-slate-400">1.</span>
+										{active ? `${active.name} / ${active.selectedModel || 'no model'}` : 'Active provider'}
+										<span className="ml-auto px-1.5 py-0.5 bg-green-100 text-green-700 text-[10px] font-medium rounded">Active</span>
+									</div>
+									{settings.chain.map((target, index) => {
+										const provider = providers.find(p => p.id === target.providerId);
+										return (
+											<div key={index} className="flex items-center gap-2 px-3 py-2 border border-slate-200 rounded-lg">
+												<span className="w-5 text-xs text-slate-400">{index + 2}.</span>
+												<select
+													value={target.providerId}
+													onChange={(e) => {
+														const next = providers.find(p => p.id === e.target.value);
+														updateChain(settings.chain.map((t, i) => i === index
+															? { providerId: e.target.value, model: next?.selectedModel || next?.models[0] || '' }
+															: t));
+													}}
+													className="flex-1 px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+												>
+													{!provider && <option value={target.providerId}>Deleted provider</option>}
+													{providers.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+												</select>
+												<select
+													value={target.model}
+													onChange={(e) => updateChain(settings.chain.map((t, i) => i === index ? { ...t, model: e.target.value } : t))}
+													className="flex-1 px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+												>
+													{!provider?.models.includes(target.model) && <option value={target.model}>{target.model || 'Select a model'}</option>}
+													{provider?.models.map(m => <option key={m} value={m}>{m}</option>)}
+												</select>
+												<button
+													onClick={() => handleMove(index, -1)}
+													disabled={index === 0}
+													className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30"
+													title="Move up"
+												>
+													<ArrowUp size={14} />
+												</button>
+												<button
+													onClick={() => handleMove(index, 1)}
+													disabled={index === settings.chain.length - 1}
+													className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-30"
+													title="Move down"
+												>
+													<ArrowDown size={14} />
+												</button>
+												<button
+													onClick={() => updateChain(settings.chain.filter((_, i) => i !== index))}
+													className="p-1 text-slate-400 hover:text-red-600"
+													title="Remove"
+												>
+													<Trash2 size={14} />
+												</button>
+											</div>
+										);
+									})}
+								</div>
+							</div>
+
+							<div>
+								<h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Recent Failovers</h4>
+								{log.length === 0 ? (
+									<p className="text-xs text-slate-400">None yet.</p>
+								) : (
+									<div className="space-y-1 max-h-40 overflow-y-auto">
+										{log.slice(0, 20).map((event, index) => (
+											<div key={index} className="text-xs text-slate-600">
+												<span className="text-slate-400">{new Date(event.timestamp).toLocaleString()}</span>{' '}
+												<span className="font-medium">{event.provider} / {event.model}</span>{' '}
+												failed after {event.attempts} attempt{event.attempts === 1 ? '' : 's'}: {event.reason}
+												{event.next ? <span className="text-blue-600"> → {event.next}</span> : <span className="text-red-600"> (no fallback left)</span>}
+											</div>
+										))}
+									</div>
+								)}
+							</div>
+						</>
+					)}
+				</div>
+
+				{/* Footer */}
+				<div className="px-6 py-3 border-t border-slate-200 flex items-center justify-end gap-3">
+					{error && <span className="text-xs text-red-600 mr-auto">{error}</span>}
+					<button
+						onClick={onClose}
+						className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors text-sm font-medium"
+					>
+						Cancel
+					</button>
+					<button
+						onClick={handleSave}
+						disabled={isSaving || !settings}
+						className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm font-medium flex items-center gap-2"
+					>
+						{isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+						Save
+					</button>
+				</div>
+			</div>
+		</div>,
+		document.body
+	);
+};
+
+export default FailoverSettingsModal;
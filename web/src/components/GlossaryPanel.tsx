@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { SpellCheck, X, Loader2, Trash2, Plus, Save, Search, Wand2, ArrowRight } from 'lucide-react';
+import type { GlossaryTerm, GlossaryViolation } from '../utils/glossary';
+import { api } from '../api';
+
+interface GlossaryPanelProps {
+  isOpen: boolean;
+  projectId: string;
+  onClose: () => void;
+  onJump?: (lineNumber: number, filePath?: string) => void;
+  onFilesChanged?: (paths: string[]) => void; // Files the fixes wrote
+}
+
+// Editable row; variants are typed as a comma-separated list
+interface TermRow {
+  id?: string;
+  term: string;
+  variants: string;
+  acronym: string;
+  notes: string;
+}
+
+const toRow = (t: GlossaryTerm): TermRow => ({ id: t.id, term: t.term, variants: t.variants.join(', '), acronym: t.acronym || '', notes: t.notes || '' });
+const fileName = (path: string) => path.split('/').pop() || path;
+
+const ViolationRow: React.FC<{
+  violation: GlossaryViolation;
+  onFix: () => void;
+  onJump?: () => void;
+  disabled: boolean;
+}> = ({ violation, onFix, onJump, disabled }) => {
+  const firstLine = violation.match.split('\n')[0]!;
+  const before = violation.context.slice(0, violation.column);
+  const after = violation.context.slice(violation.column + firstLine.length);
+  return (
+    <div className="flex items-start gap-2 text-xs py-1.5">
+      <button onClick={onJump} className="font-mono text-emerald-700 hover:underline shrink-0" title="Open in the editor">
+        L{violation.line}
+      </button>
+      <div className="flex-1 min-w-0">
+        <p className="text-slate-500 truncate">
+          {before.slice(-50)}
+          <span className="bg-red-100 text-red-800 rounded px-0.5">{firstLine}</span>
+          {after.slice(0, 50)}
+        </p>
+        <p className="flex items-center gap-1 text-slate-600">
+          <ArrowRight size={10} className="text-slate-400" />
+          <span className="font-medium">{violation.replacement}</span>
+          <span className="text-[10px] text-slate-400">{violation.kind === 'acronym' ? 'acronym used before it is spelled out' : `variant of "${violation.term}"`}</span>
+        </p>
+      </div>
+      <button
+        onClick={onFix}
+        disabled={disabled}
+        className="shrink-0 px-2 py-1 text-emerald-700 border border-emerald-200 rounded hover:bg-emerald-50 disabled:opacity-50"
+      >
+        Fix
+      </button>
+    </div>
+  );
+};
+
+// Glossary terms, and a scan of every .tex file for variants and undefined acronyms
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ isOpen, projectId, onClose, onJump, onFilesChanged }) => {
+  const [tab, setTab] = useState<'terms' | 'scan'>('terms');
+  const [rows, setRows] = useState<TermRow[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [scan, setScan] = useState<{ violations: GlossaryViolation[]; filesScanned: number } | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isFixing, setIsFixing] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setNotice(null);
+    setScan(null);
+    setDirty(false);
+    api.getGlossary(projectId).then(terms => setRows(terms.map(toRow)));
+  }, [isOpen, projectId]);
+
+  const byFile = useMemo(() => {
+    const groups = new Map<string, GlossaryViolation[]>();
+    for (const v of scan?.violations ?? []) groups.set(v.filePath, [...(groups.get(v.filePath) ?? []), v]);
+    return [...groups.entries()];
+  }, [scan]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const updateRow = (index: number, updates: Partial<TermRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...updates } : row));
+    setDirty(true);
+  };
+
+  const removeRow = (index: number) => {
+    setRows(prev => prev.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const handleSave = () => run(async () => {
+    setIsSaving(true);
+    try {
+      const terms = await api.saveGlossary(projectId, rows.map(row => ({
+        id: row.id,
+        term: row.term,
+        variants: row.variants.split(',').map(v => v.trim()).filter(Boolean),
+        acronym: row.acronym,
+        notes: row.notes
+      })));
+      setRows(terms.map(toRow));
+      setDirty(false);
+      setScan(null);
+    } finally {
+      setIsSaving(false);
+    }
+  });
+
+  const handleScan = () => run(async () => {
+    setIsScanning(true);
+    try {
+      setScan(await api.scanGlossary(projectId));
+    } finally {
+      setIsScanning(false);
+    }
+  });
+
+  const handleFix = (violations: GlossaryViolation[]) => run(async () => {
+    setIsFixing(true);
+    try {
+      const result = await api.fixGlossaryViolations(projectId, violations);
+      if (result.files.length > 0) onFilesChanged?.(result.files);
+      setScan(await api.scanGlossary(projectId));
+      setNotice(`Fixed ${result.applied}${result.skipped ? `, skipped ${result.skipped} that changed since the scan` : ''}.`);
+    } finally {
+      setIsFixing(false);
+    }
+  });
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex justify-end z-[110]" onClick={onClose}>
+      <div className="bg-white shadow-2xl w-full max-w-3xl h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-200 bg-gradient-to-r from-emerald-50 to-blue-50 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-emerald-100 rounded-lg">
+              <SpellCheck size={20} className="text-emerald-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Glossary</h2>
+              <p className="text-xs text-slate-500">Canonical terms for every AI prompt, and a terminology check across all .tex files</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/50 rounded-lg transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className="px-6 pt-2 border-b border-slate-200 flex gap-1">
+          {(['terms', 'scan'] as const).map(id => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-3 py-2 text-sm border-b-2 -mb-px transition-colors ${tab === id ? 'border-emerald-500 text-emerald-700 font-medium' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+            >
+              {id === 'terms' ? `Terms (${rows.length})` : `Scan${scan ? ` (${scan.violations.length})` : ''}`}
+            </button>
+          ))}
+        </div>
+        {error && <div className="px-6 py-2 text-xs text-red-600 bg-red-50 border-b border-red-100">{error}</div>}
+        {notice && <div className="px-6 py-2 text-xs text-emerald-700 bg-emerald-50 border-b border-emerald-100">{notice}</div>}
+
+        {tab === 'terms' ? (
+          <>
+            <div className="flex-1 overflow-y-auto p-6 space-y-2">
+              <div className="grid grid-cols-[1fr_1.4fr_0.6fr_1fr_auto] gap-2 text-[10px] font-semibold uppercase tracking-wider text-slate-400">
+                <span>Term</span>
+                <span>Forbidden variants</span>
+                <span>Acronym</span>
+                <span>Notes</span>
+                <span className="w-6" />
+              </div>
+              {rows.map((row, index) => (
+                <div key={row.id ?? `new-${index}`} className="grid grid-cols-[1fr_1.4fr_0.6fr_1fr_auto] gap-2">
+                  <input value={row.term} onChange={(e) => updateRow(index, { term: e.target.value })} placeholder="dataset" className="px-2 py-1.5 border border-slate-200 rounded text-xs" />
+                  <input value={row.variants} onChange={(e) => updateRow(index, { variants: e.target.value })} placeholder="data set, data-set" className="px-2 py-1.5 border border-slate-200 rounded text-xs" />
+                  <input value={row.acronym} onChange={(e) => updateRow(index, { acronym: e.target.value })} placeholder="TEE" className="px-2 py-1.5 border border-slate-200 rounded text-xs" />
+                  <input value={row.notes} onChange={(e) => updateRow(index, { notes: e.target.value })} placeholder="Optional" className="px-2 py-1.5 border border-slate-200 rounded text-xs" />
+                  <button onClick={() => removeRow(index)} className="p-1 text-slate-400 hover:text-red-600 hover:bg-slate-100 rounded" title="Remove term">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => { setRows(prev => [...prev, { term: '', variants: '', acronym: '', notes: '' }]); setDirty(true); }}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-slate-500 hover:text-emerald-700"
+              >
+                <Plus size={12} />
+                Add term
+              </button>
+              {rows.length === 0 && (
+                <p className="text-center text-sm text-slate-400 py-6">
+                  No terms yet. A term with an acronym is spelled out as "term (ACRONYM)" at its first use in the paper.
+                </p>
+              )}
+            </div>
+            <div className="px-6 py-3 border-t border-slate-200 flex items-center justify-end gap-2">
+              {dirty && <span className="text-xs text-amber-600 mr-auto">Unsaved changes</span>}
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !dirty}
+                className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 text-white text-xs font-medium rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+              >
+                {isSaving ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />}
+                Save Glossary
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleScan}
+                disabled={isScanning || isFixing}
+                className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 text-white text-xs font-medium rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+              >
+                {isScanning ? <Loader2 size={12} className="animate-spin" /> : <Search size={12} />}
+                Scan Project
+              </button>
+              {scan && scan.violations.length > 0 && (
+                <button
+                  onClick={() => handleFix(scan.violations)}
+                  disabled={isFixing}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-emerald-700 border border-emerald-200 rounded-lg hover:bg-emerald-50 disabled:opacity-50"
+                >
+                  {isFixing ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+                  Fix All
+                </button>
+              )}
+              {scan && (
+                <span className="ml-auto text-xs text-slate-400">
+                  {scan.violations.length} issue{scan.violations.length === 1 ? '' : 's'} in {scan.filesScanned} file{scan.filesScanned === 1 ? '' : 's'}
+                </span>
+              )}
+            </div>
+            {dirty && <p className="text-xs text-amber-600">Save the glossary first; the scan uses the saved terms.</p>}
+
+            {byFile.map(([filePath, violations]) => (
+              <div key={filePath} className="border border-slate-200 rounded-lg">
+                <div className="px-3 py-2 bg-slate-50 flex items-center gap-2 text-xs">
+                  <span className="font-mono font-medium text-slate-700">{fileName(filePath)}</span>
+                  <span className="text-slate-400">{violations.length}</span>
+                  <button
+                    onClick={() => handleFix(violations)}
+                    disabled={isFixing}
+                    className="ml-auto text-emerald-700 hover:underline disabled:opacity-50"
+                  >
+                    Fix all in file
+                  </button>
+                </div>
+                <div className="px-3 divide-y divide-slate-100">
+                  {violations.map(v => (
+                    <ViolationRow
+                      key={`${v.line}:${v.column}`}
+                      violation={v}
+                      disabled={isFixing}
+                      onFix={() => handleFix([v])}
+                      onJump={onJump && (() => {
+                        onJump(v.line, v.filePath);
+                        onClose();
+                      })}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+            {scan && scan.violations.length === 0 && (
+              <p className="text-center text-sm text-slate-400 py-8">No terminology issues found.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default GlossaryPanel;
@@ -1,7 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { X, Key, Server, Bot, Eye, EyeOff, Loader2, CheckCircle, AlertCircle, Zap, Plus, Trash2, RefreshCw, Check } from 'lucide-react';
-import type { LLMProvider } from '../types';
+import { X, Key, Server, Bot, Eye, EyeOff, Loader2, CheckCircle, AlertCircle, Zap, Plus, Trash2, RefreshCw, Check, DollarSign, BarChart3, Shuffle } from 'lucide-react';
+import type { LLMProvider, ModelPricing, ProviderKind } from '../types';
+import UsageDashboardModal from './UsageDashboardModal';
+import FailoverSettingsModal from './FailoverSettingsModal';
+
+const PROVIDER_KIND_OPTIONS: { kind: ProviderKind; label: string; defaultUrl: string; hint: string }[] = [
+	{ kind: 'openai', label: 'OpenAI-compatible', defaultUrl: 'https://api.openai.com/v1', hint: 'OpenAI, OpenRouter, vLLM, llama.cpp server, ...' },
+	{ kind: 'anthropic', label: 'Anthropic Messages', defaultUrl: 'https://api.anthropic.com', hint: 'Native /v1/messages API' },
+	{ kind: 'ollama', label: 'Ollama', defaultUrl: 'http://localhost:11434', hint: 'Native /api/chat; no API key needed' },
+	{ kind: 'azure', label: 'Azure OpenAI', defaultUrl: 'https://YOUR-RESOURCE.openai.azure.com', hint: 'Model = deployment name' }
+];
 
 interface LLMSettingsModalProps {
 	isOpen: boolean;
@@ -20,10 +29,16 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 
 	// Form state for editing
 	const [editName, setEditName] = useState('');
+	const [editKind, setEditKind] = useState<ProviderKind>('openai');
+	const [editApiVersion, setEditApiVersion] = useState('');
 	const [editBaseUrl, setEditBaseUrl] = useState('');
 	const [editApiKey, setEditApiKey] = useState('');
 	const [editModels, setEditModels] = useState<string[]>([]);
 	const [editSelectedModel, setEditSelectedModel] = useState('');
+	const [editPricing, setEditPricing] = useState<Record<string, ModelPricing>>({});
+	const [editMonthlyBudget, setEditMonthlyBudget] = useState('');
+	const [showUsage, setShowUsage] = useState(false);
+	const [showFailover, setShowFailover] = useState(false);
 
 	const abortController = React.useRef<AbortController | null>(null);
 
@@ -88,10 +103,14 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 	const selectProvider = (provider: LLMProvider) => {
 		setSelectedProvider(provider);
 		setEditName(provider.name);
+		setEditKind(provider.kind || 'openai');
+		setEditApiVersion(provider.apiVersion || '');
 		setEditBaseUrl(provider.baseUrl);
 		setEditApiKey(''); // Don't show masked key, allow entering new one
 		setEditModels(provider.models || []);
 		setEditSelectedModel(provider.selectedModel || '');
+		setEditPricing(provider.pricing || {});
+		setEditMonthlyBudget(provider.monthlyBudget ? String(provider.monthlyBudget) : '');
 		setStatus('idle');
 		setStatusMessage('');
 	};
@@ -100,6 +119,7 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 		const newProvider: LLMProvider = {
 			id: `provider_${Date.now()}`,
 			name: 'New Provider',
+			kind: 'openai',
 			baseUrl: 'https://api.openai.com/v1',
 			apiKey: '',
 			models: [],
@@ -128,9 +148,10 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 
 	const handleFetchModels = async () => {
 		// Use edited key if provided, otherwise fall back to saved key
-		const effectiveKey = editApiKey || selectedProvider?.apiKey;
+		const effectiveKey = editApiKey || selectedProvider?.apiKey || '';
+		const keyOptional = editKind === 'ollama';
 
-		if (!editBaseUrl || !effectiveKey) {
+		if (!editBaseUrl || (!effectiveKey && !keyOptional)) {
 			setStatus('error');
 			setStatusMessage('API URL and Key are required to fetch models');
 			return;
@@ -142,7 +163,13 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 			const response = await fetch('/api/llm-providers/fetch-models', {
 				method: 'POST',
 				headers: { 'Content-Type': 'application/json' },
-				body: JSON.stringify({ baseUrl: editBaseUrl, apiKey: effectiveKey })
+				body: JSON.stringify({
+					kind: editKind,
+					baseUrl: editBaseUrl,
+					apiKey: effectiveKey,
+					apiVersion: editApiVersion || undefined,
+					providerId: selectedProvider?.id
+				})
 			});
 			const data = await response.json();
 			if (data.models) {
@@ -188,8 +215,10 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 				method: 'POST',
 				headers: { 'Content-Type': 'application/json' },
 				body: JSON.stringify({
+					kind: editKind,
 					baseUrl: editBaseUrl,
 					apiKey: editApiKey || selectedProvider.apiKey,
+					apiVersion: editApiVersion || undefined,
 					model: editSelectedModel || 'gpt-4o',
 					providerId: selectedProvider.id
 				}),
@@ -208,10 +237,14 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 			const updatedProvider: LLMProvider = {
 				...selectedProvider,
 				name: editName.trim(),
+				kind: editKind,
 				baseUrl: editBaseUrl.trim(),
+				apiVersion: editKind === 'azure' && editApiVersion.trim() ? editApiVersion.trim() : undefined,
 				apiKey: editApiKey || selectedProvider.apiKey,
 				models: editModels,
-				selectedModel: editSelectedModel
+				selectedModel: editSelectedModel,
+				pricing: editPricing,
+				monthlyBudget: parseFloat(editMonthlyBudget) > 0 ? parseFloat(editMonthlyBudget) : undefined
 			};
 
 			const saveResponse = await fetch('/api/llm-providers', {
@@ -250,6 +283,24 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 		}
 	};
 
+	const handleKindChange = (kind: ProviderKind) => {
+		// Swap the base URL only if it is still the previous protocol's default
+		const previousDefault = PROVIDER_KIND_OPTIONS.find(o => o.kind === editKind)?.defaultUrl;
+		const nextDefault = PROVIDER_KIND_OPTIONS.find(o => o.kind === kind)?.defaultUrl || '';
+		if (!editBaseUrl.trim() || editBaseUrl === previousDefault) {
+			setEditBaseUrl(nextDefault);
+		}
+		setEditKind(kind);
+		setEditModels([]);
+		setEditSelectedModel('');
+	};
+
+	const handlePriceChange = (field: keyof ModelPricing, value: string) => {
+		if (!editSelectedModel) return;
+		const current = editPricing[editSelectedModel] || { input: 0, output: 0 };
+		setEditPricing({ ...editPricing, [editSelectedModel]: { ...current, [field]: parseFloat(value) || 0 } });
+	};
+
 	const handleActivate = async (id: string) => {
 		try {
 			await fetch(`/api/llm-providers/${id}/activate`, { method: 'POST' });
@@ -349,12 +400,30 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 									<p className="text-xs text-slate-500">Configure your AI providers</p>
 								</div>
 							</div>
-							<button
-								onClick={handleCancel}
-								className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
-							>
-								<X size={20} className="text-slate-500" />
-							</button>
+							<div className="flex items-center gap-1">
+								<button
+									onClick={() => setShowFailover(true)}
+									className="px-3 py-2 text-sm text-slate-600 hover:bg-white/60 rounded-lg transition-colors flex items-center gap-1.5"
+									title="Fallback providers for rate limits and outages"
+								>
+									<Shuffle size={16} />
+									Failover
+								</button>
+								<button
+									onClick={() => setShowUsage(true)}
+									className="px-3 py-2 text-sm text-slate-600 hover:bg-white/60 rounded-lg transition-colors flex items-center gap-1.5"
+									title="Token and cost usage"
+								>
+									<BarChart3 size={16} />
+									Usage
+								</button>
+								<button
+									onClick={handleCancel}
+									className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+								>
+									<X size={20} className="text-slate-500" />
+								</button>
+							</div>
 						</div>
 					</div>
 
@@ -383,6 +452,27 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 									/>
 								</div>
 
+								{/* Protocol */}
+								<div>
+									<label className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-2">
+										<Zap size={16} className="text-slate-400" />
+										Protocol
+									</label>
+									<select
+										value={editKind}
+										onChange={(e) => handleKindChange(e.target.value as ProviderKind)}
+										disabled={isSaving}
+										className="w-full px-4 py-2.5 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-slate-50"
+									>
+										{PROVIDER_KIND_OPTIONS.map(option => (
+											<option key={option.kind} value={option.kind}>{option.label}</option>
+										))}
+									</select>
+									<p className="mt-1 text-xs text-slate-500">
+										{PROVIDER_KIND_OPTIONS.find(o => o.kind === editKind)?.hint}
+									</p>
+								</div>
+
 								{/* API Base URL */}
 								<div>
 									<label className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-2">
@@ -393,7 +483,7 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 										type="text"
 										value={editBaseUrl}
 										onChange={(e) => setEditBaseUrl(e.target.value)}
-										placeholder="https://api.openai.com/v1"
+										placeholder={PROVIDER_KIND_OPTIONS.find(o => o.kind === editKind)?.defaultUrl}
 										disabled={isSaving}
 										className="w-full px-4 py-2.5 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-slate-50"
 									/>
@@ -404,6 +494,7 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 									<label className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-2">
 										<Key size={16} className="text-slate-400" />
 										API Key
+										{editKind === 'ollama' && <span className="text-xs font-normal text-slate-400">(optional)</span>}
 									</label>
 									{selectedProvider.apiKey && !editApiKey && (
 										<div className="mb-2 px-3 py-2 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2">
@@ -430,6 +521,24 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 									</div>
 								</div>
 
+								{/* Azure API Version */}
+								{editKind === 'azure' && (
+									<div>
+										<label className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-2">
+											<Server size={16} className="text-slate-400" />
+											API Version
+										</label>
+										<input
+											type="text"
+											value={editApiVersion}
+											onChange={(e) => setEditApiVersion(e.target.value)}
+											placeholder="2024-10-21"
+											disabled={isSaving}
+											className="w-full px-4 py-2.5 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-slate-50"
+										/>
+									</div>
+								)}
+
 								{/* Model Selection */}
 								<div>
 									<label className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-2">
@@ -470,6 +579,58 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 									</p>
 								</div>
 
+								{/* Pricing & Budget */}
+								<div>
+									<label className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-2">
+										<DollarSign size={16} className="text-slate-400" />
+										Pricing & Budget
+									</label>
+									<div className="grid grid-cols-3 gap-2">
+										<label className="text-xs text-slate-500">
+											Input $ / 1M tokens
+											<input
+												type="number"
+												min="0"
+												step="0.01"
+												value={editPricing[editSelectedModel]?.input ?? ''}
+												onChange={(e) => handlePriceChange('input', e.target.value)}
+												placeholder="0.00"
+												disabled={isSaving || !editSelectedModel}
+												className="mt-1 w-full px-3 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-slate-50"
+											/>
+										</label>
+										<label className="text-xs text-slate-500">
+											Output $ / 1M tokens
+											<input
+												type="number"
+												min="0"
+												step="0.01"
+												value={editPricing[editSelectedModel]?.output ?? ''}
+												onChange={(e) => handlePriceChange('output', e.target.value)}
+												placeholder="0.00"
+												disabled={isSaving || !editSelectedModel}
+												className="mt-1 w-full px-3 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-slate-50"
+											/>
+										</label>
+										<label className="text-xs text-slate-500">
+											Monthly budget $
+											<input
+												type="number"
+												min="0"
+												step="1"
+												value={editMonthlyBudget}
+												onChange={(e) => setEditMonthlyBudget(e.target.value)}
+												placeholder="No limit"
+												disabled={isSaving}
+												className="mt-1 w-full px-3 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-slate-50"
+											/>
+										</label>
+									</div>
+									<p className="mt-1 text-xs text-slate-500">
+										Prices apply to the selected model. Once this month's spend reaches the budget, AI requests to this provider are refused.
+									</p>
+								</div>
+
 								{/* Status Message */}
 								{status !== 'idle' && (
 									<div className={`flex items-center gap-2 px-4 py-3 border rounded-lg text-sm ${getStatusColor()}`}>
@@ -508,7 +669,7 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 										</button>
 										<button
 											onClick={handleSave}
-											disabled={isSaving || !editName.trim() || !editBaseUrl.trim() || (!editApiKey && !selectedProvider.apiKey)}
+											disabled={isSaving || !editName.trim() || !editBaseUrl.trim() || (editKind !== 'ollama' && !editApiKey && !selectedProvider.apiKey)}
 											className="px-5 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium flex items-center gap-2"
 										>
 											{isSaving ? (
@@ -530,6 +691,8 @@ const LLMSettingsModal: React.FC<LLMSettingsModalProps> = ({ isOpen, onClose })
 					</div>
 				</div>
 			</div>
+			<UsageDashboardModal isOpen={showUsage} onClose={() => setShowUsage(false)} />
+			<FailoverSettingsModal isOpen={showFailover} onClose={() => setShowFailover(false)} providers={providers} />
 		</div>,
 		document.body
 	);
@@ -1,9 +1,17 @@
 import React, { useState, useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { FileText, Clock, FolderOpen, Check, Loader2, MessageSquare, Maximize2, Minimize2, Lightbulb, Trash2 } from 'lucide-react';
-import type { SelectedFile, SelectedProject, TextItem, DiffResult, AIMode, ChatMessage } from '../types';
-import { parseContent, parseParagraphToSentences } from '../utils/parser';
+import { FileText, Clock, FolderOpen, Check, Loader2, MessageSquare, Maximize2, Minimize2, Lightbulb, Languages, Trash2, Layers, AlertTriangle, Sparkles, ListTree, Shrink } from 'lucide-react';
+import type { SelectedFile, SelectedProject, TextItem, DiffResult, AIMode, ChatMessage, DiagnoseIssue, IssueStatus, BatchJob, BatchReview } from '../types';
+import { parseContent, parseParagraphToSentences, serializeContent } from '../utils/parser';
+import { splitAICache, mergeAICache, issuesForContent, getIssueSegments } from '../utils/issues';
+import { getPendingSuggestions, type BatchSuggestion } from '../utils/batch';
+import { isStubParagraph, getOutlineTargets, applyOutlineNotes } from '../utils/thoughts';
+import { computeWordDiff } from '../utils/diff';
+import { checkLatexIntegrity } from '../utils/latexGuard';
 import AIEditorPanel from './AIEditorPanel';
 import BackupTimeline from './BackupTimeline';
+import BatchJobPanel from './BatchJobPanel';
+import CompressPanel from './CompressPanel';
+import DiffViewer from './DiffViewer';
 import { api } from '../api';
 
 export interface MainEditorRef {
@@ -46,9 +54,24 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
 
   // AI Cache Persistence
   const [aiHistories, setAiHistories] = useState<Record<string, ChatMessage[]>>({});
+  const [aiIssues, setAiIssues] = useState<Record<string, DiagnoseIssue[]>>({}); // Diagnose issues per file path
   const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
   const aiSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Batch AI jobs for the current file; finished results wait here for review
+  const [showBatchPanel, setShowBatchPanel] = useState(false);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [isSelectingForBatch, setIsSelectingForBatch] = useState(false);
+  const [batchSelection, setBatchSelection] = useState<Set<string>>(new Set());
+  const [showCompressPanel, setShowCompressPanel] = useState(false); // Compress runs are batch jobs ranked by savings
+  const [latexOverrides, setLatexOverrides] = useState<Set<string>>(new Set()); // Batch results accepted despite LaTeX warnings
+
+  // Drafts written from FW_THOUGHTS, waiting for review; reverse outline fills in missing notes
+  const [thoughtDrafts, setThoughtDrafts] = useState<Record<string, { content: string; model: string }>>({});
+  const [expandingIds, setExpandingIds] = useState<Set<string>>(new Set());
+  const [isOutlining, setIsOutlining] = useState(false);
+  const [thoughtsError, setThoughtsError] = useState<string | null>(null);
+
   // Debounced save for Content
   const debouncedSave = useCallback(async () => {
     if (!selectedFile || !selectedProject) return;
@@ -76,11 +99,14 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
     if (selectedProject?.project.id) {
       setIsHistoryLoaded(false);
       setAiHistories({});
+      setAiIssues({});
       fetch(`/api/projects/${selectedProject.project.id}/ai-cache`)
         .then(res => res.json())
         .then(data => {
           if (data && !data.error) {
-            setAiHistories(data);
+            const { histories, issues } = splitAICache(data);
+            setAiHistories(histories);
+            setAiIssues(issues);
           }
           setIsHistoryLoaded(true);
         })
@@ -100,14 +126,34 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
     aiSaveTimerRef.current = setTimeout(() => {
       fetch(`/api/projects/${selectedProject.project.id}/ai-cache`, {
         method: 'POST',
-        body: JSON.stringify(aiHistories)
+        body: JSON.stringify(mergeAICache(aiHistories, aiIssues))
       }).catch(err => console.error('Failed to save AI cache', err));
     }, 2000);
 
     return () => {
       if (aiSaveTimerRef.current) clearTimeout(aiSaveTimerRef.current);
     };
-  }, [aiHistories, selectedProject?.project.id, isHistoryLoaded]);
+  }, [aiHistories, aiIssues, selectedProject?.project.id, isHistoryLoaded]);
+
+  // Load batch jobs for the current file
+  useEffect(() => {
+    setBatchJobs([]);
+    setBatchSelection(new Set());
+    if (!selectedProject?.project.id || !selectedFile?.path) return;
+    api.listBatchJobs(selectedProject.project.id, selectedFile.path).then(setBatchJobs);
+  }, [selectedProject?.project.id, selectedFile?.path]);
+
+  // Poll for progress while a job is running
+  const hasRunningBatch = batchJobs.some(job => job.status === 'running');
+  useEffect(() => {
+    if (!hasRunningBatch || !selectedProject?.project.id || !selectedFile?.path) return;
+    const projectId = selectedProject.project.id;
+    const filePath = selectedFile.path;
+    const timer = setInterval(() => {
+      api.listBatchJobs(projectId, filePath).then(setBatchJobs);
+    }, 1500);
+    return () => clearInterval(timer);
+  }, [hasRunningBatch, selectedProject?.project.id, selectedFile?.path]);
 
   // Schedule save after content change
   const scheduleSave = useCallback((newContent: string) => {
@@ -141,10 +187,17 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
         setFocusedItemId(null);
         setFocusedItemSentences([]);
         setExpandedThoughts(new Set());
-      } else {
-        // Same file, maybe content update logic?
-        // Usually we trust internal state, but if file changed externally (unlikely without events), we might re-parse.
-        // For now, assume internal state is truth is ok.
+        setThoughtDrafts({});
+        setThoughtsError(null);
+      } else if (selectedFile.content !== pendingContentRef.current) {
+        // Same file rewritten outside the editor (e.g. an approved agent edit): the disk wins
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+        pendingContentRef.current = selectedFile.content;
+        setCurrentContent(selectedFile.content);
+        setItems(parseContent(selectedFile.content));
+        setIsDirty(false);
+        setFocusedItemId(null);
+        setFocusedItemSentences([]);
       }
     }
   }, [selectedFile]);
@@ -246,25 +299,25 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
 
   const reconstructAndSave = (currentItems: TextItem[]) => {
     // Rebuild full file content
-    const fullContent = currentItems.map(item => {
-      let block = '';
-      // Add thoughts if present
-      if (item.thoughts) {
-        block += `% [FW_THOUGHTS]\n`;
-        // Prefix each line with % if not already
-        const lines = item.thoughts.split('\n');
-        const commentedLines = lines.map(l => l.trim().startsWith('%') ? l : `% ${l}`).join('\n');
-        block += commentedLines + '\n';
-        block += `% [/FW_THOUGHTS]\n`;
-      }
-      block += item.content;
-      return block;
-    }).join('\n\n'); // Separate paragraphs with blank lines
+    scheduleSave(serializeContent(currentItems));
+  };
 
-    scheduleSave(fullContent);
+  // Accepted AI edits go to the project's changelog; failures there never block the edit
+  const logChange = (before: string, after: string, lineStart: number, mode: string, details: { model?: string; reason?: string } = {}) => {
+    if (!selectedProject || !selectedFile || before === after) return;
+    api.recordChange(selectedProject.project.id, {
+      filePath: selectedFile.path,
+      lineStart,
+      lineEnd: lineStart + before.split('\n').length - 1,
+      mode,
+      model: details.model,
+      before,
+      after,
+      reason: details.reason
+    }).catch(error => console.error('Failed to log change:', error));
   };
 
-  const handleAIResult = (result: DiffResult, modifiedContent: string, mode: AIMode) => {
+  const handleAIResult = (result: DiffResult, modifiedContent: string, mode: AIMode, details: { model?: string; reason?: string } = {}) => {
     if (!modifiedContent) return;
 
     // AI result usually targets a specific item ID
@@ -273,6 +326,7 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
       // It might be a sentence ID
       const sent = focusedItemSentences.find(s => s.id === result.itemId);
       if (sent) {
+        logChange(sent.content, modifiedContent, items.find(i => i.id === focusedItemId)?.lineStart ?? sent.lineStart, mode, details);
         handleUpdateSentence(result.itemId, modifiedContent);
         return;
       }
@@ -296,7 +350,252 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
     // Yes, it auto-saved.
 
     // For now, we'll update the content directly for simplicity as per "Refine" behavior usually expected
-    handleUpdateItem(result.itemId, { content: modifiedContent });
+    // Translate keeps the draft it started from as FW_SOURCE, so it can be edited and translated again
+    const target = items.find(i => i.id === result.itemId);
+    if (target) logChange(target.content, modifiedContent, target.lineStart, mode, details);
+    const translated = mode === 'translate' ? target : undefined;
+    handleUpdateItem(result.itemId, {
+      content: modifiedContent,
+      ...(translated ? { source: translated.source || translated.content } : {})
+    });
+  };
+
+  const batchSuggestions = getPendingSuggestions(batchJobs, items);
+
+  const batchOverrideKey = ({ job, jobItem }: BatchSuggestion) => `${job.id}:${jobItem.itemId}`;
+
+  // Same rule as the AI panel: a result that breaks LaTeX structure needs an explicit override
+  const getBatchLatexViolations = (item: TextItem, suggestion: BatchSuggestion) =>
+    latexOverrides.has(batchOverrideKey(suggestion)) ? [] : checkLatexIntegrity(item.content, suggestion.jobItem.result ?? '');
+
+  const handleBatchReview = async (item: TextItem, suggestion: BatchSuggestion, review: BatchReview) => {
+    const { job, jobItem } = suggestion;
+    if (review === 'accepted' && getBatchLatexViolations(item, suggestion).length > 0) return;
+    if (review === 'accepted' && jobItem.result !== undefined) {
+      logChange(item.content, jobItem.result, item.lineStart, job.mode);
+      handleUpdateItem(item.id, {
+        content: jobItem.result,
+        status: 'modified',
+        aiMode: job.mode,
+        aiTimestamp: new Date().toISOString()
+      });
+    }
+    const updated = await api.reviewBatchItem(job.id, jobItem.itemId, review);
+    if (updated) setBatchJobs(prev => prev.map(j => j.id === updated.id ? updated : j));
+  };
+
+  const toggleBatchSelection = (itemId: string) => {
+    setBatchSelection(prev => {
+      const next = new Set(prev);
+      if (next.has(itemId)) next.delete(itemId);
+      else next.add(itemId);
+      return next;
+    });
+  };
+
+  const renderBatchSuggestion = (item: TextItem, suggestion: BatchSuggestion) => {
+    const result = suggestion.jobItem.result ?? '';
+    const violations = checkLatexIntegrity(item.content, result);
+    const isOverridden = latexOverrides.has(batchOverrideKey(suggestion));
+    const modeLabel = suggestion.job.mode === 'refine' ? 'Refine'
+      : suggestion.job.mode === 'quickfix' ? 'QuickFix'
+        : suggestion.job.mode === 'compress' ? 'Compress' : suggestion.job.mode.replace(/^custom:/, '');
+
+    return (
+      <div className="border-t border-indigo-100 bg-indigo-50/40 rounded-b-lg overflow-hidden">
+        <div className="px-4 pt-2 flex items-center gap-2 text-[11px] font-semibold text-indigo-700 uppercase tracking-wide">
+          <Layers size={12} />
+          Batch suggestion · {modeLabel}
+        </div>
+        {item.content !== suggestion.jobItem.content && (
+          <div className="px-4 pt-1 text-xs text-amber-700">
+            This paragraph was edited after the batch ran; accepting replaces your edits.
+          </div>
+        )}
+        {violations.length > 0 && (
+          <div className={`px-4 pt-1 flex items-start gap-1.5 text-xs ${isOverridden ? 'text-slate-500' : 'text-red-700'}`}>
+            <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+            <span className="flex-1">{violations.map(v => v.items?.length ? `${v.message}: ${v.items.join(', ')}` : v.message).join('; ')}</span>
+            {!isOverridden && (
+              <button
+                onClick={() => setLatexOverrides(prev => new Set(prev).add(batchOverrideKey(suggestion)))}
+                className="shrink-0 px-2 py-0.5 text-red-600 hover:bg-red-100 rounded transition-colors"
+                title="The changes are intended; allow Accept"
+              >
+                Allow anyway
+              </button>
+            )}
+          </div>
+        )}
+        {result.trim() === item.content.trim() ? (
+          <div className="px-4 py-2 flex items-center justify-between text-xs text-slate-500">
+            No changes suggested.
+            <button
+              onClick={() => handleBatchReview(item, suggestion, 'rejected')}
+              className="px-2 py-1 text-slate-600 hover:bg-slate-200 rounded transition-colors"
+            >
+              Dismiss
+            </button>
+          </div>
+        ) : (
+          <div className="max-h-80 flex flex-col">
+            <DiffViewer
+              originalContent={item.content}
+              modifiedContent={result}
+              diff={computeWordDiff(item.content, result)}
+              onAccept={() => handleBatchReview(item, suggestion, 'accepted')}
+              onReject={() => handleBatchReview(item, suggestion, 'rejected')}
+              acceptDisabledReason={violations.length > 0 && !isOverridden ? 'Resolve the LaTeX warnings first' : undefined}
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const handleExpandThoughts = async (item: TextItem) => {
+    if (!selectedProject || !selectedFile || !item.thoughts) return;
+    setExpandingIds(prev => new Set(prev).add(item.id));
+    setThoughtsError(null);
+    try {
+      const draft = await api.expandThoughts({
+        projectId: selectedProject.project.id,
+        filePath: selectedFile.path,
+        lineStart: item.lineStart,
+        thoughts: item.thoughts,
+        content: item.content
+      });
+      setThoughtDrafts(prev => ({ ...prev, [item.id]: draft }));
+    } catch (error) {
+      setThoughtsError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setExpandingIds(prev => {
+        const next = new Set(prev);
+        next.delete(item.id);
+        return next;
+      });
+    }
+  };
+
+  const dismissThoughtDraft = (itemId: string) => {
+    setThoughtDrafts(prev => {
+      const { [itemId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // Notes go into the file as FW_THOUGHTS, so the outline picks them up after the save
+  const handleReverseOutline = async () => {
+    if (!selectedProject) return;
+    const targets = getOutlineTargets(items);
+    if (targets.length === 0) {
+      setThoughtsError('Every paragraph in this file already has notes.');
+      return;
+    }
+    if (!confirm(`Write FW_THOUGHTS notes for ${targets.length} paragraph${targets.length === 1 ? '' : 's'} without notes?`)) return;
+
+    setIsOutlining(true);
+    setThoughtsError(null);
+    try {
+      const { summaries } = await api.reverseOutline(selectedProject.project.id, targets);
+      // Paragraphs edited while the model was working keep their ids, so notes still land on them
+      setItems(current => {
+        const updated = applyOutlineNotes(current, summaries);
+        reconstructAndSave(updated);
+        return updated;
+      });
+    } catch (error) {
+      setThoughtsError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsOutlining(false);
+    }
+  };
+
+  const renderThoughtsPrompt = (item: TextItem) => {
+    const draft = thoughtDrafts[item.id];
+    if (draft !== undefined) {
+      return (
+        <div className="border-b border-yellow-100 bg-yellow-50/40 rounded-t-lg overflow-hidden">
+          <div className="px-4 pt-2 flex items-center gap-2 text-[11px] font-semibold text-yellow-700 uppercase tracking-wide">
+            <Sparkles size={12} />
+            Draft from thoughts
+          </div>
+          <div className="max-h-80 flex flex-col">
+            <DiffViewer
+              originalContent={item.content}
+              modifiedContent={draft.content}
+              diff={computeWordDiff(item.content, draft.content)}
+              onAccept={() => {
+                logChange(item.content, draft.content, item.lineStart, 'thoughts', { model: draft.model });
+                handleUpdateItem(item.id, { content: draft.content, status: 'modified', aiTimestamp: new Date().toISOString() });
+                dismissThoughtDraft(item.id);
+              }}
+              onReject={() => dismissThoughtDraft(item.id)}
+            />
+          </div>
+        </div>
+      );
+    }
+
+    const isExpanding = expandingIds.has(item.id);
+    return (
+      <div className="px-4 py-2 border-b border-yellow-100 bg-yellow-50/60 rounded-t-lg flex items-start gap-2">
+        <Lightbulb size={14} className="text-yellow-600 mt-0.5 shrink-0" />
+        <p className="flex-1 text-xs text-slate-600 whitespace-pre-wrap line-clamp-3">{item.thoughts}</p>
+        <button
+          onClick={() => handleExpandThoughts(item)}
+          disabled={isExpanding}
+          className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-yellow-800 bg-yellow-100 hover:bg-yellow-200 disabled:opacity-50 rounded transition-colors shrink-0"
+          title="Draft this paragraph from its notes, the paragraphs around it and the section title"
+        >
+          {isExpanding ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+          Expand thoughts
+        </button>
+      </div>
+    );
+  };
+
+  const fileIssues = selectedFile ? aiIssues[selectedFile.path] || [] : [];
+
+  // A new Diagnose run on a paragraph supersedes its still-open issues;
+  // resolved and dismissed ones are kept as a record
+  const handleIssuesFound = (content: string, found: DiagnoseIssue[]) => {
+    if (!selectedFile) return;
+    const path = selectedFile.path;
+    setAiIssues(prev => {
+      const existing = prev[path] || [];
+      const kept = existing.filter(i => i.status !== 'open' || !content.includes(i.quote));
+      return { ...prev, [path]: [...kept, ...found] };
+    });
+  };
+
+  const handleIssueStatusChange = (issueId: string, status: IssueStatus) => {
+    if (!selectedFile) return;
+    const path = selectedFile.path;
+    setAiIssues(prev => ({
+      ...prev,
+      [path]: (prev[path] || []).map(i => i.id === issueId ? { ...i, status } : i)
+    }));
+  };
+
+  const renderHighlightedContent = (content: string) => {
+    const segments = getIssueSegments(content, fileIssues);
+    if (!segments.some(s => s.issue)) return content;
+
+    return segments.map((segment, idx) => segment.issue ? (
+      <mark
+        key={idx}
+        className={`rounded-sm px-0.5 text-inherit underline decoration-2 underline-offset-2 ${segment.issue.severity === 'high'
+          ? 'bg-red-50 decoration-red-400'
+          : segment.issue.severity === 'medium' ? 'bg-amber-50 decoration-amber-400' : 'bg-sky-50 decoration-sky-300'
+          }`}
+        title={`[${segment.issue.severity} · ${segment.issue.category}] ${segment.issue.message}`}
+      >
+        {segment.text}
+      </mark>
+    ) : (
+      <React.Fragment key={idx}>{segment.text}</React.Fragment>
+    ));
   };
 
   const enterFocusMode = (item: TextItem) => {
@@ -315,6 +614,7 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
   const renderParagraph = (item: TextItem) => {
     const isFocused = focusedItemId === item.id;
     const isSelected = selectedItem?.id === item.id;
+    const batchSuggestion = batchSuggestions[item.id];
     const hasThoughts = !!item.thoughts;
     const thoughtsOpen = expandedThoughts.has(item.id) || (hasThoughts && !item.content); // Auto-open if no content
 
@@ -356,6 +656,23 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
             />
           </div>
 
+          {/* Translation source, kept so the paragraph can be translated again after editing it */}
+          {item.source !== undefined && (
+            <div className="mb-6 bg-sky-50 p-4 rounded-xl border border-sky-200 shrink-0">
+              <div className="flex items-center gap-2 mb-2 text-xs font-bold text-sky-700 uppercase tracking-wide">
+                <Languages size={14} />
+                <span>Source</span>
+              </div>
+              <textarea
+                className="w-full bg-transparent border-0 text-slate-700 text-base focus:ring-0 p-0 resize-none leading-relaxed"
+                value={item.source}
+                onChange={(e) => handleUpdateItem(item.id, { source: e.target.value })}
+                placeholder="Draft to translate from (empty to drop it)"
+                rows={3}
+              />
+            </div>
+          )}
+
           <div className="space-y-4 overflow-y-auto flex-1 pr-2">
             {focusedItemSentences.map((sent, idx) => (
               <div key={sent.id} className="flex gap-4 items-start group">
@@ -389,6 +706,17 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
         {/* Card Container */}
         <div className={`rounded-lg border transition-all hover:shadow-md ${isSelected ? 'bg-slate-100 border-slate-300 shadow-sm' : 'bg-white border-slate-200'}`}>
 
+          {/* Batch selection checkbox */}
+          {isSelectingForBatch && (
+            <input
+              type="checkbox"
+              checked={batchSelection.has(item.id)}
+              onChange={() => toggleBatchSelection(item.id)}
+              className="absolute left-2 top-2 z-10 w-4 h-4 accent-indigo-600 cursor-pointer"
+              title="Include in batch"
+            />
+          )}
+
           {/* Toolbar (Visible on Hover/Selected) */}
           <div className="absolute right-2 top-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity z-10">
             <button
@@ -401,6 +729,8 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
           </div>
 
 
+          {item.thoughts && (isStubParagraph(item.content) || thoughtDrafts[item.id] !== undefined) && renderThoughtsPrompt(item)}
+
           {/* Main Content */}
           <div className="p-6">
             {editingItemId === item.id ? (
@@ -425,11 +755,13 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
                 }}
                 title="Click to edit and open AI tools"
               >
-                {item.content || <span className="text-slate-400 italic">Empty paragraph... Click to write.</span>}
+                {item.content ? renderHighlightedContent(item.content) : <span className="text-slate-400 italic">Empty paragraph... Click to write.</span>}
               </div>
             )}
           </div>
 
+          {batchSuggestion && renderBatchSuggestion(item, batchSuggestion)}
+
           {/* AI Panel (Embedded) */}
           {isSelected && (
             <AIEditorPanel
@@ -443,6 +775,9 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
               onHistoryChange={setAiHistories}
               onClose={() => setSelectedItem(null)}
               onResult={handleAIResult}
+              issues={issuesForContent(fileIssues, item.content)}
+              onIssuesFound={(found) => handleIssuesFound(item.content, found)}
+              onIssueStatusChange={handleIssueStatusChange}
               onContentChange={(newContent) => handleUpdateItem(item.id, { content: newContent })}
               onFullscreenChange={setIsAIPanelFullscreen}
               editorRef={editorContainerRef}
@@ -485,6 +820,40 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
             <div className="text-sm text-slate-500 italic">No file selected</div>
           )}
           <div className="flex items-center gap-2">
+            {selectedFile && selectedProject && (
+              <button
+                onClick={() => setShowBatchPanel(prev => !prev)}
+                className={`flex items-center gap-1.5 px-2 py-1 text-xs font-medium rounded transition-colors ${showBatchPanel ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'}`}
+                title="Run an AI mode over many paragraphs"
+              >
+                <Layers size={14} />
+                Batch
+                {Object.keys(batchSuggestions).length > 0 && (
+                  <span className="px-1 rounded-full bg-indigo-600 text-white text-[10px]">{Object.keys(batchSuggestions).length}</span>
+                )}
+              </button>
+            )}
+            {selectedFile && selectedProject && (
+              <button
+                onClick={() => setShowCompressPanel(prev => !prev)}
+                className={`flex items-center gap-1.5 px-2 py-1 text-xs font-medium rounded transition-colors ${showCompressPanel ? 'bg-rose-100 text-rose-700' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'}`}
+                title="Shorten a section or the file to a word, percent, line or page budget"
+              >
+                <Shrink size={14} />
+                Compress
+              </button>
+            )}
+            {selectedFile && selectedProject && (
+              <button
+                onClick={handleReverseOutline}
+                disabled={isOutlining || items.length === 0}
+                className="flex items-center gap-1.5 px-2 py-1 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 text-slate-600 text-xs font-medium rounded transition-colors"
+                title="Summarize paragraphs without notes into FW_THOUGHTS, so the outline shows the argument"
+              >
+                {isOutlining ? <Loader2 size={14} className="animate-spin" /> : <ListTree size={14} />}
+                Reverse Outline
+              </button>
+            )}
             <button
               onClick={() => setShowBackupTimeline(true)}
               className="flex items-center gap-1.5 px-2 py-1 bg-slate-100 hover:bg-slate-200 text-slate-600 text-xs font-medium rounded transition-colors"
@@ -497,6 +866,39 @@ const MainEditor = forwardRef<MainEditorRef, MainEditorProps>(({ selectedFile, s
         </div>
       </div>
 
+      {thoughtsError && (
+        <div className="px-4 py-1.5 border-b border-red-100 bg-red-50 text-xs text-red-700 flex items-center justify-between shrink-0">
+          <span>{thoughtsError}</span>
+          <button onClick={() => setThoughtsError(null)} className="px-2 py-0.5 hover:bg-red-100 rounded">Dismiss</button>
+        </div>
+      )}
+
+      {showBatchPanel && selectedFile && selectedProject && (
+        <BatchJobPanel
+          projectId={selectedProject.project.id}
+          filePath={selectedFile.path}
+          items={items}
+          jobs={batchJobs}
+          onJobsChange={setBatchJobs}
+          selectedIds={batchSelection}
+          onSelectingChange={setIsSelectingForBatch}
+          onClose={() => setShowBatchPanel(false)}
+        />
+      )}
+
+      {showCompressPanel && selectedFile && selectedProject && (
+        <CompressPanel
+          projectId={selectedProject.project.id}
+          filePath={selectedFile.path}
+          items={items}
+          jobs={batchJobs}
+          onJobsChange={setBatchJobs}
+          onReview={handleBatchReview}
+          isLatexBlocked={(item, suggestion) => getBatchLatexViolations(item, suggestion).length > 0}
+          onClose={() => setShowCompressPanel(false)}
+        />
+      )}
+
       {/* Content Area - dynamic height when AI panel is open */}
       <div
         ref={editorContainerRef}
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Sparkles, Scissors, Shield, Languages, MessageSquareReply, PenLine, BookOpen, ListChecks, Target, Feather } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+
+// Icons offered for custom AI modes; the key is what gets stored in prompts.json
+export const MODE_ICONS: Record<string, LucideIcon> = {
+	sparkles: Sparkles,
+	scissors: Scissors,
+	shield: Shield,
+	languages: Languages,
+	reply: MessageSquareReply,
+	pen: PenLine,
+	book: BookOpen,
+	checklist: ListChecks,
+	target: Target,
+	feather: Feather
+};
+
+interface ModeIconProps {
+	icon: string;
+	size?: number;
+	className?: string;
+}
+
+const ModeIcon: React.FC<ModeIconProps> = ({ icon, size = 14, className }) => {
+	const Icon = MODE_ICONS[icon] || Sparkles;
+	return <Icon size={size} className={className} />;
+};
+
+export default ModeIcon;
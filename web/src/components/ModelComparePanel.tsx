@@ -0,0 +1,283 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Columns3, Loader2, Plus, Trash2, X, Check, AlertTriangle, Database } from 'lucide-react';
+import type { CompareCandidate, CompareTarget, LLMProvider } from '../types';
+import { api } from '../api';
+import { diffHunks, hunksConflict, applyHunks, hunkSegments, type Hunk } from '../utils/hunks';
+import { computeWordDiff } from '../utils/diff';
+import { checkLatexIntegrity, type LatexViolation } from '../utils/latexGuard';
+import DiffViewer from './DiffViewer';
+
+interface ModelComparePanelProps {
+  original: string; // The paragraph the candidates would replace
+  requestContent: string; // What was sent (the FW_SOURCE draft for Translate), for the LaTeX check
+  buildRequest: () => Record<string, unknown>;
+  onAccept: (content: string, model: string) => void;
+  onClose: () => void;
+}
+
+interface Pick {
+  candidate: number;
+  hunk: Hunk;
+}
+
+// Active provider's model first, then another provider (or another model of the same one)
+function defaultTargets(providers: LLMProvider[]): CompareTarget[] {
+  const targets: CompareTarget[] = [];
+  const active = providers.find(p => p.isActive) || providers[0];
+  if (active) targets.push({ providerId: active.id, model: active.selectedModel || active.models[0] || '' });
+  const other = providers.find(p => p !== active && (p.selectedModel || p.models[0]));
+  if (other) {
+    targets.push({ providerId: other.id, model: other.selectedModel || other.models[0]! });
+  } else if (active) {
+    const model = active.models.find(m => m !== targets[0]?.model);
+    if (model) targets.push({ providerId: active.id, model });
+  }
+  return targets;
+}
+
+const ModelComparePanel: React.FC<ModelComparePanelProps> = ({ original, requestContent, buildRequest, onAccept, onClose }) => {
+  const [providers, setProviders] = useState<LLMProvider[]>([]);
+  const [targets, setTargets] = useState<CompareTarget[]>([]);
+  const [candidates, setCandidates] = useState<CompareCandidate[]>([]);
+  const [picks, setPicks] = useState<Pick[]>([]);
+  const [allowedContents, setAllowedContents] = useState<Set<string>>(new Set()); // Accepted despite LaTeX warnings
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.getLLMProviders().then(list => {
+      setProviders(list);
+      setTargets(defaultTargets(list));
+    });
+  }, []);
+
+  const hunks = useMemo(() => candidates.map(c => c.content !== undefined ? diffHunks(original, c.content) : []), [candidates, original]);
+  const merged = useMemo(() => applyHunks(original, picks.map(p => p.hunk)), [original, picks]);
+  const mergedViolations = useMemo(() => checkLatexIntegrity(requestContent, merged), [requestContent, merged]);
+
+  // Same rule as the AI panel: text that breaks LaTeX structure needs an explicit override
+  const isBlocked = (content: string, violations: LatexViolation[]) => violations.length > 0 && !allowedContents.has(content);
+  const allow = (content: string) => setAllowedContents(prev => new Set(prev).add(content));
+
+  const handleAccept = (content: string, model: string) => {
+    if (isBlocked(content, checkLatexIntegrity(requestContent, content))) return;
+    onAccept(content, model);
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    setPicks([]);
+    setAllowedContents(new Set());
+    try {
+      setCandidates(await api.compareAI(buildRequest(), targets.filter(t => t.model)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Picking a hunk drops the picks it overlaps, so the merge stays unambiguous
+  const togglePick = (candidate: number, hunk: Hunk) => {
+    setPicks(prev => prev.some(p => p.hunk === hunk)
+      ? prev.filter(p => p.hunk !== hunk)
+      : [...prev.filter(p => !hunksConflict(p.hunk, hunk)), { candidate, hunk }]);
+  };
+
+  const mergedModel = [...new Set(picks.map(p => candidates[p.candidate]?.model).filter(Boolean))].join(' + ');
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden bg-white border-t border-slate-200">
+      <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-semibold text-slate-700 uppercase tracking-wider flex items-center gap-2">
+            <Columns3 size={14} />
+            Compare Models
+          </span>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded" title="Close comparison">
+            <X size={14} />
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {targets.map((target, index) => {
+            const provider = providers.find(p => p.id === target.providerId);
+            return (
+              <div key={index} className="flex items-center gap-1 px-1.5 py-1 bg-white border border-slate-200 rounded-lg">
+                <select
+                  value={target.providerId}
+                  onChange={(e) => {
+                    const next = providers.find(p => p.id === e.target.value);
+                    setTargets(targets.map((t, i) => i === index ? { providerId: e.target.value, model: next?.selectedModel || next?.models[0] || '' } : t));
+                  }}
+                  className="text-xs bg-transparent focus:outline-none"
+                >
+                  {providers.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                <select
+                  value={target.model}
+                  onChange={(e) => setTargets(targets.map((t, i) => i === index ? { ...t, model: e.target.value } : t))}
+                  className="text-xs bg-transparent focus:outline-none max-w-[10rem]"
+                >
+                  {!provider?.models.includes(target.model) && <option value={target.model}>{target.model || 'Select a model'}</option>}
+                  {provider?.models.map(m => <option key={m} value={m}>{m}</option>)}
+                </select>
+                <button
+                  onClick={() => setTargets(targets.filter((_, i) => i !== index))}
+                  className="p-0.5 text-slate-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            );
+          })}
+          <button
+            onClick={() => {
+              const provider = providers.find(p => p.isActive) || providers[0];
+              if (provider) setTargets([...targets, { providerId: provider.id, model: provider.selectedModel || provider.models[0] || '' }]);
+            }}
+            disabled={providers.length === 0}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-50"
+          >
+            <Plus size={12} />
+            Add Model
+          </button>
+          <button
+            onClick={handleRun}
+            disabled={isRunning || targets.filter(t => t.model).length < 2}
+            className="ml-auto flex items-center gap-1 px-3 py-1 bg-blue-600 text-white text-xs font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            title={targets.filter(t => t.model).length < 2 ? 'Pick at least two models' : undefined}
+          >
+            {isRunning ? <Loader2 size={12} className="animate-spin" /> : <Columns3 size={12} />}
+            Run Compare
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+
+      <div className="flex-1 overflow-auto min-h-[150px]">
+        {candidates.length === 0 ? (
+          <div className="h-full flex items-center justify-center p-8 text-xs text-slate-400">
+            {isRunning ? 'Waiting for the models...' : 'Pick two or more models and run the same request on each.'}
+          </div>
+        ) : (
+          <div className="grid gap-px bg-slate-200" style={{ gridTemplateColumns: `repeat(${candidates.length}, minmax(0, 1fr))` }}>
+            {candidates.map((candidate, index) => {
+              const violations = candidate.content !== undefined ? checkLatexIntegrity(requestContent, candidate.content) : [];
+              const blocked = candidate.content !== undefined && isBlocked(candidate.content, violations);
+              return (
+                <div key={index} className="bg-white flex flex-col min-w-0">
+                  <div className="px-3 py-2 border-b border-slate-100 flex items-center gap-2">
+                    <div className="min-w-0">
+                      <div className="text-xs font-medium text-slate-700 truncate">{candidate.model}</div>
+                      <div className="text-[10px] text-slate-400 truncate">{candidate.providerName}</div>
+                    </div>
+                    {candidate.cached && (
+                      <span className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 text-[10px] flex items-center gap-1" title="Reused a stored reply">
+                        <Database size={10} />
+                        Cached
+                      </span>
+                    )}
+                    {violations.length > 0 && (
+                      <span className={blocked ? 'text-red-600' : 'text-slate-400'} title={violations.map(v => v.message).join('; ')}>
+                        <AlertTriangle size={12} />
+                      </span>
+                    )}
+                    {blocked && (
+                      <button
+                        onClick={() => allow(candidate.content!)}
+                        className="shrink-0 px-1.5 py-0.5 text-[11px] text-red-600 hover:bg-red-50 rounded"
+                        title="The changes are intended; allow Accept"
+                      >
+                        Allow anyway
+                      </button>
+                    )}
+                    {candidate.content !== undefined && (
+                      <button
+                        onClick={() => handleAccept(candidate.content!, candidate.model)}
+                        disabled={blocked}
+                        className="ml-auto shrink-0 flex items-center gap-1 px-2 py-1 bg-green-600 text-white text-[11px] font-medium rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={blocked ? 'Resolve the LaTeX warnings first' : undefined}
+                      >
+                        <Check size={11} />
+                        Accept
+                      </button>
+                    )}
+                  </div>
+                  {candidate.error ? (
+                    <p className="p-3 text-xs text-red-600">{candidate.error}</p>
+                  ) : hunks[index]!.length === 0 ? (
+                    <p className="p-3 text-xs text-slate-400">No changes suggested.</p>
+                  ) : (
+                    <div className="p-3 text-sm font-mono leading-relaxed whitespace-pre-wrap break-words">
+                      {hunkSegments(original, hunks[index]!).map((segment, i) => {
+                        if (segment.type === 'text') return <span key={i}>{segment.text}</span>;
+                        const picked = picks.some(p => p.hunk === segment.hunk);
+                        return (
+                          <span
+                            key={i}
+                            onClick={() => togglePick(index, segment.hunk)}
+                            className={`cursor-pointer rounded ${picked ? 'ring-2 ring-blue-400' : 'hover:ring-1 hover:ring-blue-300'}`}
+                            title={picked ? 'Drop this change from the merge' : 'Use this change in the merge'}
+                          >
+                            {segment.hunk.removed && <span className="bg-red-100 text-red-800 line-through decoration-red-500">{segment.hunk.removed}</span>}
+                            {segment.hunk.added && <span className="bg-green-100 text-green-800">{segment.hunk.added}</span>}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {picks.length > 0 && (
+        <div className="border-t border-slate-200 max-h-[40%] flex flex-col">
+          <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 flex items-center gap-2">
+            <span className="text-xs font-semibold text-slate-700 uppercase tracking-wider">Merged</span>
+            <span className="text-xs text-slate-500">{picks.length} change{picks.length === 1 ? '' : 's'} from {mergedModel}</span>
+            <button onClick={() => setPicks([])} className="ml-auto text-xs text-slate-500 hover:text-slate-700 px-2 py-1 hover:bg-slate-100 rounded">
+              Clear
+            </button>
+            <button
+              onClick={() => handleAccept(merged, mergedModel)}
+              disabled={isBlocked(merged, mergedViolations)}
+              className="px-3 py-1 bg-green-600 text-white text-xs font-medium rounded hover:bg-green-700 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              title={isBlocked(merged, mergedViolations) ? 'Resolve the LaTeX warnings first' : undefined}
+            >
+              <Check size={12} />
+              Accept Merged
+            </button>
+          </div>
+          {mergedViolations.length > 0 && (
+            <div className={`px-3 py-1.5 border-b flex items-start gap-1.5 text-xs ${isBlocked(merged, mergedViolations) ? 'bg-red-50 border-red-200 text-red-700' : 'bg-slate-50 border-slate-200 text-slate-500'}`}>
+              <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+              <span className="flex-1">{mergedViolations.map(v => v.items?.length ? `${v.message}: ${v.items.join(', ')}` : v.message).join('; ')}</span>
+              {isBlocked(merged, mergedViolations) && (
+                <button onClick={() => allow(merged)} className="shrink-0 px-2 py-0.5 text-red-600 hover:bg-red-100 rounded" title="The changes are intended; allow Accept">
+                  Allow anyway
+                </button>
+              )}
+            </div>
+          )}
+          <div className="flex-1 overflow-auto">
+            <DiffViewer
+              originalContent={original}
+              modifiedContent={merged}
+              diff={computeWordDiff(original, merged)}
+              onAccept={() => handleAccept(merged, mergedModel)}
+              onReject={() => setPicks([])}
+              hideHeader={true}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelComparePanel;
@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { MessageSquareText, X, Loader2, Send, Trash2, FileText } from 'lucide-react';
+import type { PaperChatMessage, PaperChatSource } from '../types';
+import { splitAnchors, resolveAnchor } from '../utils/paperChat';
+import { api } from '../api';
+
+interface PaperChatPanelProps {
+  isOpen: boolean;
+  projectId: string;
+  onClose: () => void;
+  onJump?: (lineNumber: number, filePath?: string) => void;
+  onShowInPdf?: (filePath: string, line: number) => void;
+}
+
+const EXAMPLES = [
+  'Where do we claim the design needs no kernel changes?',
+  'Is the threat model consistent with Section 6?',
+  'Which evaluation backs contribution 3?'
+];
+
+// An answer with its [file.tex:line] anchors as links
+const AnswerText: React.FC<{ message: PaperChatMessage; onOpen: (filePath: string, line: number) => void }> = ({ message, onOpen }) => (
+  <p className="whitespace-pre-wrap">
+    {splitAnchors(message.content).map((segment, i) => {
+      if (!('anchor' in segment)) return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+      const source = resolveAnchor(segment.anchor, message.sources ?? []);
+      if (!source) return <span key={i} className="text-slate-400" title="Not one of the retrieved passages">[{segment.text}]</span>;
+      return (
+        <button
+          key={i}
+          onClick={() => onOpen(source.filePath, segment.anchor.line)}
+          className="mx-0.5 px-1 rounded bg-cyan-100 text-cyan-800 font-mono text-[11px] hover:bg-cyan-200"
+          title={source.section ? `Section ${source.section}` : source.excerpt}
+        >
+          {segment.text}
+        </button>
+      );
+    })}
+  </p>
+);
+
+const SourceList: React.FC<{ sources: PaperChatSource[]; onOpen: (filePath: string, line: number) => void }> = ({ sources, onOpen }) => {
+  const [expanded, setExpanded] = useState(false);
+  if (sources.length === 0) return null;
+  return (
+    <div className="mt-2 text-[11px]">
+      <button onClick={() => setExpanded(!expanded)} className="text-slate-400 hover:text-cyan-700">
+        {expanded ? 'Hide' : 'Show'} {sources.length} retrieved passage{sources.length === 1 ? '' : 's'} ({sources.filter(s => s.cited).length} cited)
+      </button>
+      {expanded && (
+        <div className="mt-1 space-y-1">
+          {sources.map(source => (
+            <button
+              key={source.label}
+              onClick={() => onOpen(source.filePath, source.lineStart)}
+              className={`w-full text-left px-2 py-1 rounded border ${source.cited ? 'border-cyan-200 bg-cyan-50/50' : 'border-slate-100'} hover:bg-slate-50`}
+            >
+              <span className="font-mono text-cyan-700">{source.label}</span>
+              {source.section && <span className="text-slate-400"> · {source.section}</span>}
+              <span className="text-slate-300"> · {source.score}</span>
+              <span className="block text-slate-500 truncate">{source.excerpt}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Questions about the whole paper, answered from retrieved paragraphs with file:line anchors
+const PaperChatPanel: React.FC<PaperChatPanelProps> = ({ isOpen, projectId, onClose, onJump, onShowInPdf }) => {
+  const [messages, setMessages] = useState<PaperChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    api.getPaperChat(projectId).then(setMessages);
+  }, [isOpen, projectId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages, isAsking]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleAsk = (text: string) => run(async () => {
+    if (!text.trim() || isAsking) return;
+    setIsAsking(true);
+    try {
+      setMessages(await api.askPaper(projectId, text));
+      setQuestion('');
+    } finally {
+      setIsAsking(false);
+    }
+  });
+
+  const handleClear = () => run(async () => {
+    if (!confirm('Clear the conversation?')) return;
+    await api.clearPaperChat(projectId);
+    setMessages([]);
+  });
+
+  // Open the anchor in the editor and show the same spot in the PDF
+  const handleOpen = (filePath: string, line: number) => {
+    onJump?.(line, filePath);
+    onShowInPdf?.(filePath, line);
+    onClose();
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex justify-end z-[110]" onClick={onClose}>
+      <div className="bg-white shadow-2xl w-full max-w-3xl h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-200 bg-gradient-to-r from-cyan-50 to-blue-50 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-cyan-100 rounded-lg">
+              <MessageSquareText size={20} className="text-cyan-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Ask the Paper</h2>
+              <p className="text-xs text-slate-500">Answers come from the best matching paragraphs, with anchors to the source and the PDF</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            {messages.length > 0 && (
+              <button onClick={handleClear} className="p-2 hover:bg-white/50 rounded-lg transition-colors" title="Clear the conversation">
+                <Trash2 size={16} className="text-slate-500" />
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-white/50 rounded-lg transition-colors">
+              <X size={20} className="text-slate-500" />
+            </button>
+          </div>
+        </div>
+        {error && <div className="px-6 py-2 text-xs text-red-600 bg-red-50 border-b border-red-100">{error}</div>}
+
+        {/* Conversation */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {messages.length === 0 && !isAsking && (
+            <div className="text-center text-sm text-slate-400 py-8 space-y-3">
+              <p>Ask about anything in the paper. Only the matching paragraphs are sent to the model.</p>
+              <div className="flex flex-col items-center gap-1">
+                {EXAMPLES.map(example => (
+                  <button key={example} onClick={() => setQuestion(example)} className="text-xs text-cyan-700 hover:underline">
+                    {example}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          {messages.map(message => message.role === 'user' ? (
+            <div key={message.id} className="flex justify-end">
+              <div className="max-w-[80%] px-3 py-2 rounded-lg bg-cyan-600 text-white text-sm whitespace-pre-wrap">{message.content}</div>
+            </div>
+          ) : (
+            <div key={message.id} className="flex gap-2">
+              <FileText size={16} className="text-cyan-600 shrink-0 mt-1" />
+              <div className="flex-1 min-w-0 text-sm text-slate-700">
+                <AnswerText message={message} onOpen={handleOpen} />
+                <SourceList sources={message.sources ?? []} onOpen={handleOpen} />
+                {message.model && <p className="mt-1 text-[10px] text-slate-300">{message.model}</p>}
+              </div>
+            </div>
+          ))}
+          {isAsking && (
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <Loader2 size={14} className="animate-spin" />
+              Searching the paper…
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        {/* Question */}
+        <div className="px-6 py-3 border-t border-slate-200 flex items-end gap-2">
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleAsk(question);
+              }
+            }}
+            rows={2}
+            placeholder="Where do we claim…? (Enter to send, Shift+Enter for a new line)"
+            className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-cyan-200"
+          />
+          <button
+            onClick={() => handleAsk(question)}
+            disabled={isAsking || !question.trim()}
+            className="flex items-center gap-1 px-3 py-2 bg-cyan-600 text-white text-xs font-medium rounded-lg hover:bg-cyan-700 disabled:opacity-50"
+          >
+            {isAsking ? <Loader2 size={12} className="animate-spin" /> : <Send size={12} />}
+            Ask
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PaperChatPanel;
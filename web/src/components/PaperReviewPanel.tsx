@@ -0,0 +1,350 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { ClipboardCheck, X, Loader2, Play, Trash2, Plus, Save, ArrowUp, ArrowDown } from 'lucide-react';
+import type { PaperReview, ReviewRubric } from '../types';
+import { api } from '../api';
+import { compareScores, parseRubricText, rubricToText } from '../utils/review';
+
+interface PaperReviewPanelProps {
+  isOpen: boolean;
+  projectId: string;
+  onClose: () => void;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_STYLES: Record<PaperReview['status'], string> = {
+  running: 'bg-blue-50 text-blue-700',
+  completed: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700'
+};
+
+function reviewTitle(review: PaperReview): string {
+  const name = review.version ? `v${review.version}` : review.status === 'running' ? 'Running' : 'Failed';
+  return review.label ? `${name} · ${review.label}` : name;
+}
+
+const ReportList: React.FC<{ title: string; items?: string[]; className: string }> = ({ title, items, className }) => (
+  <div>
+    <div className={`text-[10px] font-semibold uppercase tracking-wider mb-1 ${className}`}>{title}</div>
+    {items && items.length > 0 ? (
+      <ul className="list-disc pl-5 space-y-1 text-sm text-slate-700">
+        {items.map((item, i) => <li key={i}>{item}</li>)}
+      </ul>
+    ) : (
+      <p className="text-xs text-slate-400">None</p>
+    )}
+  </div>
+);
+
+// Edits the custom rubrics; built-in rubrics are read-only
+const RubricEditor: React.FC<{
+  rubrics: ReviewRubric[];
+  onSaved: (rubrics: ReviewRubric[]) => void;
+  onCancel: () => void;
+}> = ({ rubrics, onSaved, onCancel }) => {
+  const [drafts, setDrafts] = useState(() => rubrics
+    .filter(r => !r.builtIn)
+    .map(r => ({ id: r.id, name: r.name, text: rubricToText(r) })));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (index: number, patch: Partial<{ name: string; text: string }>) => {
+    setDrafts(list => list.map((d, i) => i === index ? { ...d, ...patch } : d));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await api.saveReviewRubrics(drafts.map(d => parseRubricText(d.id, d.name, d.text)));
+      if (saved) onSaved(saved);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">
+        One criterion per line: <code className="bg-slate-100 px-1 rounded">Name (1-5): what it measures</code>. Rubrics without criteria are dropped.
+      </p>
+      {drafts.map((draft, index) => (
+        <div key={draft.id} className="border border-slate-200 rounded-lg p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={draft.name}
+              onChange={(e) => update(index, { name: e.target.value })}
+              placeholder="Rubric name, e.g. ACM CCS"
+              className="flex-1 px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+            />
+            <button
+              onClick={() => setDrafts(list => list.filter((_, i) => i !== index))}
+              className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-slate-100 rounded"
+              title="Remove rubric"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <textarea
+            value={draft.text}
+            onChange={(e) => update(index, { text: e.target.value })}
+            rows={5}
+            className="w-full px-2 py-1.5 border border-slate-200 rounded-lg text-xs font-mono"
+          />
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setDrafts(list => [...list, { id: `rubric_${Date.now()}`, name: '', text: 'Overall merit (1-5): 1 reject .. 5 strong accept' }])}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs text-slate-600 hover:bg-slate-100 rounded-lg"
+        >
+          <Plus size={12} />
+          Add Rubric
+        </button>
+        <div className="flex items-center gap-2">
+          <button onClick={onCancel} className="px-3 py-1.5 text-xs text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white text-xs font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />}
+            Save Rubrics
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const PaperReviewPanel: React.FC<PaperReviewPanelProps> = ({ isOpen, projectId, onClose }) => {
+  const [rubrics, setRubrics] = useState<ReviewRubric[]>([]);
+  const [reviews, setReviews] = useState<PaperReview[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [baselineId, setBaselineId] = useState<string>('');
+  const [rubricId, setRubricId] = useState('sp');
+  const [label, setLabel] = useState('');
+  const [isEditingRubrics, setIsEditingRubrics] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    api.getReviewRubrics().then(setRubrics);
+    api.listPaperReviews(projectId).then(list => {
+      setReviews(list);
+      setSelectedId(current => current && list.some(r => r.id === current) ? current : list[0]?.id || null);
+    });
+  }, [isOpen, projectId]);
+
+  // Reviews run server-side; poll while one is in progress
+  const isRunning = reviews.some(r => r.status === 'running');
+  useEffect(() => {
+    if (!isOpen || !isRunning) return;
+    const timer = setInterval(async () => {
+      const list = await api.listPaperReviews(projectId);
+      setReviews(list);
+      // A finished review moves from memory to a saved version under the same id
+      setSelectedId(current => current && list.some(r => r.id === current) ? current : list[0]?.id || null);
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOpen, isRunning, projectId]);
+
+  const review = reviews.find(r => r.id === selectedId) || null;
+  const savedVersions = reviews.filter(r => r.version && r.id !== selectedId);
+  const baseline = reviews.find(r => r.id === baselineId) || null;
+  const scores = useMemo(() => review ? compareScores(review, baseline) : [], [review, baseline]);
+
+  if (!isOpen) return null;
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      const started = await api.startPaperReview(projectId, rubricId, label);
+      setReviews(list => [started, ...list]);
+      setSelectedId(started.id);
+      setLabel('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleDelete = async (target: PaperReview) => {
+    const prompt = target.status === 'running' ? 'Cancel this review?' : `Delete ${reviewTitle(target)}?`;
+    if (!confirm(prompt)) return;
+    if (await api.deletePaperReview(projectId, target.id)) {
+      const rest = reviews.filter(r => r.id !== target.id);
+      setReviews(rest);
+      if (selectedId === target.id) setSelectedId(rest[0]?.id || null);
+      if (baselineId === target.id) setBaselineId('');
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex justify-end z-[110]" onClick={onClose}>
+      <div className="bg-white shadow-2xl w-full max-w-3xl h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-200 bg-gradient-to-r from-emerald-50 to-blue-50 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-emerald-100 rounded-lg">
+              <ClipboardCheck size={20} className="text-emerald-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Paper Review</h2>
+              <p className="text-xs text-slate-500">Mock peer review of the whole paper from the main file, scored on a venue rubric</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/50 rounded-lg transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        {/* Start */}
+        <div className="px-6 py-3 border-b border-slate-100 flex items-center gap-2">
+          <select
+            value={rubricId}
+            onChange={(e) => setRubricId(e.target.value)}
+            className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+          >
+            {rubrics.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+          </select>
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label, e.g. before rebuttal (optional)"
+            className="flex-1 px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+          />
+          <button
+            onClick={() => setIsEditingRubrics(!isEditingRubrics)}
+            className="px-3 py-1.5 text-xs text-slate-600 hover:bg-slate-100 rounded-lg"
+          >
+            Rubrics
+          </button>
+          <button
+            onClick={handleStart}
+            disabled={isStarting || isRunning}
+            className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 text-white text-sm font-medium rounded-lg hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+          >
+            {isStarting ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+            Review Paper
+          </button>
+        </div>
+        {error && <div className="px-6 py-2 text-xs text-red-600 bg-red-50 border-b border-red-100">{error}</div>}
+
+        <div className="flex-1 flex min-h-0">
+          {/* Versions */}
+          <div className="w-48 border-r border-slate-100 overflow-y-auto p-2 space-y-1">
+            {reviews.length === 0 && <p className="p-2 text-xs text-slate-400">No reviews yet.</p>}
+            {reviews.map(r => (
+              <button
+                key={r.id}
+                onClick={() => setSelectedId(r.id)}
+                className={`w-full text-left px-2 py-1.5 rounded-lg text-xs transition-colors ${r.id === selectedId ? 'bg-slate-100' : 'hover:bg-slate-50'}`}
+              >
+                <div className="font-medium text-slate-700 truncate">{reviewTitle(r)}</div>
+                <div className="text-[10px] text-slate-400 truncate">{r.rubric.name} · {new Date(r.createdAt).toLocaleDateString()}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Report */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-5">
+            {isEditingRubrics ? (
+              <RubricEditor
+                rubrics={rubrics}
+                onSaved={(saved) => {
+                  setRubrics(saved);
+                  setIsEditingRubrics(false);
+                }}
+                onCancel={() => setIsEditingRubrics(false)}
+              />
+            ) : !review ? (
+              <p className="text-center text-sm text-slate-400 py-12">
+                Start a review to get a summary, strengths, weaknesses, questions and scores. Each finished review is saved as a new version.
+              </p>
+            ) : (
+              <>
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded text-[10px] font-semibold uppercase ${STATUS_STYLES[review.status]}`}>{review.status}</span>
+                  <span className="text-xs text-slate-500">
+                    {review.rubric.name}
+                    {review.words ? ` · ${review.words.toLocaleString()} words` : ''}
+                    {review.chunks && review.chunks > 1 ? ` in ${review.chunks} parts` : ''}
+                    {review.model ? ` · ${review.model}` : ''}
+                  </span>
+                  <button
+                    onClick={() => handleDelete(review)}
+                    className="ml-auto p-1 text-slate-400 hover:text-red-600 hover:bg-slate-100 rounded"
+                    title={review.status === 'running' ? 'Cancel review' : 'Delete review'}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+
+                {review.status === 'running' && (
+                  <div className="flex items-center gap-2 text-sm text-slate-500">
+                    <Loader2 size={14} className="animate-spin text-blue-500" />
+                    Reading the paper ({review.progress.done}/{review.progress.total} model calls)
+                  </div>
+                )}
+                {review.status === 'failed' && <p className="text-sm text-red-600">{review.error}</p>}
+
+                {review.status === 'completed' && (
+                  <>
+                    <div>
+                      <div className="text-[10px] font-semibold uppercase tracking-wider mb-1 text-slate-500">Summary</div>
+                      <p className="text-sm text-slate-700 whitespace-pre-wrap">{review.summary}</p>
+                    </div>
+
+                    <div>
+                      <div className="flex items-center justify-between mb-1">
+                        <div className="text-[10px] font-semibold uppercase tracking-wider text-slate-500">Scores</div>
+                        <select
+                          value={baselineId}
+                          onChange={(e) => setBaselineId(e.target.value)}
+                          className="px-2 py-1 border border-slate-200 rounded text-xs"
+                        >
+                          <option value="">Compare with...</option>
+                          {savedVersions.map(r => <option key={r.id} value={r.id}>{reviewTitle(r)}</option>)}
+                        </select>
+                      </div>
+                      <table className="w-full text-sm">
+                        <tbody>
+                          {scores.map(score => (
+                            <tr key={score.criterionId} className="border-t border-slate-100 align-top">
+                              <td className="py-1.5 pr-3 font-medium text-slate-700 whitespace-nowrap">{score.name}</td>
+                              <td className="py-1.5 pr-3 tabular-nums whitespace-nowrap">
+                                {score.score ?? '–'}/{score.max}
+                                {score.delta !== null && score.delta !== 0 && (
+                                  <span className={`ml-1 inline-flex items-center text-xs ${score.delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                    {score.delta > 0 ? <ArrowUp size={10} /> : <ArrowDown size={10} />}
+                                    {Math.abs(score.delta)}
+                                  </span>
+                                )}
+                              </td>
+                              <td className="py-1.5 text-xs text-slate-500">{score.justification}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    <ReportList title="Strengths" items={review.strengths} className="text-green-700" />
+                    <ReportList title="Weaknesses" items={review.weaknesses} className="text-red-700" />
+                    <ReportList title="Questions for the authors" items={review.questions} className="text-blue-700" />
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PaperReviewPanel;
\ No newline at end of file
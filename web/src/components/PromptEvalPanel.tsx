@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { FlaskConical, X, Loader2, Trash2, Play, Save, ChevronDown, ChevronRight } from 'lucide-react';
+import type { AIMode, EvalFixture, EvalRun, EvalStats, PromptEvals } from '../types';
+import { api } from '../api';
+
+interface PromptEvalPanelProps {
+  isOpen: boolean;
+  projectId: string;
+  draft: { mode: AIMode; modeLabel: string; system: string; user: string } | null; // Prompts being edited in the modal
+  onClose: () => void;
+}
+
+const fileName = (path: string) => path.split('/').pop() || path;
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signedPercent = (value: number) => `${value > 0 ? '+' : ''}${percent(value)}`;
+
+const StatCells: React.FC<{ stats: EvalStats }> = ({ stats }) => (
+  <>
+    <td className="px-2 py-1.5 text-right font-mono">{percent(stats.editRatio)}</td>
+    <td className="px-2 py-1.5 text-right font-mono">{signedPercent(stats.lengthDelta)}</td>
+    <td className={`px-2 py-1.5 text-right font-mono ${stats.preservedCommands < 1 ? 'text-amber-600' : ''}`}>{percent(stats.preservedCommands)}</td>
+    <td className={`px-2 py-1.5 text-right font-mono ${stats.violations > 0 ? 'text-red-600' : ''}`}>{stats.violations}</td>
+  </>
+);
+
+const RunOutputs: React.FC<{ run: EvalRun; fixtures: EvalFixture[] }> = ({ run, fixtures }) => (
+  <div className="space-y-2 p-3 bg-slate-50">
+    {run.outputs.map(output => {
+      const fixture = fixtures.find(f => f.id === output.fixtureId);
+      return (
+        <div key={output.fixtureId} className="border border-slate-200 rounded-lg bg-white p-2 space-y-1">
+          <div className="flex items-center gap-2 text-[11px] text-slate-500">
+            <span className="font-mono">{fixture ? `${fileName(fixture.filePath)}:${fixture.lineStart}` : 'Unpinned fixture'}</span>
+            {output.stats && (
+              <span className="ml-auto">
+                edit {percent(output.stats.editRatio)} · length {signedPercent(output.stats.lengthDelta)} · commands {percent(output.stats.preservedCommands)} · violations {output.stats.violations}
+              </span>
+            )}
+          </div>
+          {output.error ? (
+            <p className="text-xs text-red-600">{output.error}</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <pre className="whitespace-pre-wrap text-xs text-slate-600 bg-red-50/60 rounded p-2 font-sans">{fixture?.content ?? ''}</pre>
+              <pre className="whitespace-pre-wrap text-xs text-slate-700 bg-green-50/60 rounded p-2 font-sans">{output.content}</pre>
+            </div>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+// Pinned fixture paragraphs, saved prompt versions and the statistics of every run over them
+const PromptEvalPanel: React.FC<PromptEvalPanelProps> = ({ isOpen, projectId, draft, onClose }) => {
+  const [evals, setEvals] = useState<PromptEvals>({ fixtures: [], versions: [], runs: [] });
+  const [label, setLabel] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    api.getPromptEvals(projectId).then(setEvals);
+  }, [isOpen, projectId]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleSaveVersion = () => run(async () => {
+    if (!draft) return;
+    const version = await api.savePromptVersion(projectId, { label, mode: draft.mode, system: draft.system, user: draft.user });
+    setEvals(prev => ({ ...prev, versions: [...prev.versions, version] }));
+    setSelected(prev => new Set(prev).add(version.id));
+    setLabel('');
+  });
+
+  const handleDeleteVersion = async (id: string) => {
+    if (!confirm('Delete this prompt version? Its runs are kept.')) return;
+    if (await api.deletePromptVersion(projectId, id)) {
+      setEvals(prev => ({ ...prev, versions: prev.versions.filter(v => v.id !== id) }));
+      setSelected(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
+  const handleUnpin = async (id: string) => {
+    if (await api.unpinEvalFixture(projectId, id)) setEvals(prev => ({ ...prev, fixtures: prev.fixtures.filter(f => f.id !== id) }));
+  };
+
+  const handleRun = () => run(async () => {
+    setIsRunning(true);
+    try {
+      const runs = await api.runPromptEval(projectId, [...selected]);
+      setEvals(prev => ({ ...prev, runs: [...[...runs].reverse(), ...prev.runs] }));
+    } finally {
+      setIsRunning(false);
+    }
+  });
+
+  const handleDeleteRun = async (id: string) => {
+    if (await api.deleteEvalRun(projectId, id)) setEvals(prev => ({ ...prev, runs: prev.runs.filter(r => r.id !== id) }));
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex justify-end z-[110]" onClick={onClose}>
+      <div className="bg-white shadow-2xl w-full max-w-3xl h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-200 bg-gradient-to-r from-teal-50 to-blue-50 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-teal-100 rounded-lg">
+              <FlaskConical size={20} className="text-teal-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Prompt Evaluation</h2>
+              <p className="text-xs text-slate-500">Run prompt versions over pinned paragraphs and compare the edits they make</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/50 rounded-lg transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+        {error && <div className="px-6 py-2 text-xs text-red-600 bg-red-50 border-b border-red-100">{error}</div>}
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Fixtures */}
+          <section className="space-y-2">
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-500">Fixtures ({evals.fixtures.length})</h3>
+            {evals.fixtures.map(fixture => (
+              <div key={fixture.id} className="flex items-start gap-2 text-xs border border-slate-200 rounded-lg p-2">
+                <span className="font-mono text-teal-700 shrink-0">{fileName(fixture.filePath)}:{fixture.lineStart}</span>
+                <span className="flex-1 min-w-0 text-slate-600 line-clamp-2">{fixture.content}</span>
+                <button onClick={() => handleUnpin(fixture.id)} className="p-1 text-slate-400 hover:text-red-600 hover:bg-slate-100 rounded" title="Unpin">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+            {evals.fixtures.length === 0 && (
+              <p className="text-xs text-slate-400">No fixtures yet. Open the prompt preview and pin the paragraphs to evaluate on.</p>
+            )}
+          </section>
+
+          {/* Versions */}
+          <section className="space-y-2">
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-500">Prompt versions</h3>
+            {draft && (
+              <div className="flex items-center gap-2">
+                <input
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder={`Label, e.g. "${draft.modeLabel} shorter system prompt"`}
+                  className="flex-1 px-2 py-1.5 border border-slate-200 rounded-lg text-xs"
+                />
+                <button
+                  onClick={handleSaveVersion}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-teal-700 border border-teal-200 rounded-lg hover:bg-teal-50"
+                  title="Snapshot the system prompt and this mode's prompt as they are in the editor, saved or not"
+                >
+                  <Save size={12} />
+                  Save current {draft.modeLabel} prompts
+                </button>
+              </div>
+            )}
+            {evals.versions.map(version => (
+              <label key={version.id} className="flex items-center gap-2 text-xs border border-slate-200 rounded-lg px-2 py-1.5 cursor-pointer hover:bg-slate-50">
+                <input type="checkbox" checked={selected.has(version.id)} onChange={() => toggleSelected(version.id)} />
+                <span className="font-medium text-slate-700">{version.label}</span>
+                <span className="text-slate-400">{version.mode.replace(/^custom:/, '')}</span>
+                <span className="ml-auto text-[10px] text-slate-400">{new Date(version.createdAt).toLocaleString()}</span>
+                <button
+                  onClick={(e) => { e.preventDefault(); handleDeleteVersion(version.id); }}
+                  className="p-1 text-slate-400 hover:text-red-600 hover:bg-slate-100 rounded"
+                  title="Delete version"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </label>
+            ))}
+            <button
+              onClick={handleRun}
+              disabled={isRunning || selected.size === 0 || evals.fixtures.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 bg-teal-600 text-white text-xs font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+            >
+              {isRunning ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+              {isRunning ? 'Running...' : `Run ${selected.size || ''} selected`}
+            </button>
+          </section>
+
+          {/* Runs */}
+          <section className="space-y-2">
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-500">Runs</h3>
+            {evals.runs.length === 0 ? (
+              <p className="text-xs text-slate-400">No runs yet. Runs from the eval:prompts script show up here too.</p>
+            ) : (
+              <table className="w-full text-xs border border-slate-200 rounded-lg overflow-hidden">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="px-2 py-1.5 text-left font-medium">Version</th>
+                    <th className="px-2 py-1.5 text-left font-medium">Model</th>
+                    <th className="px-2 py-1.5 text-right font-medium" title="Share of words changed">Edit</th>
+                    <th className="px-2 py-1.5 text-right font-medium" title="Change in word count">Length</th>
+                    <th className="px-2 py-1.5 text-right font-medium" title="LaTeX commands and keys kept">Commands</th>
+                    <th className="px-2 py-1.5 text-right font-medium" title="LaTeX integrity violations">Violations</th>
+                    <th className="px-2 py-1.5 text-right font-medium">Failed</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {evals.runs.map(evalRun => (
+                    <React.Fragment key={evalRun.id}>
+                      <tr
+                        onClick={() => setExpandedRun(expandedRun === evalRun.id ? null : evalRun.id)}
+                        className="border-t border-slate-100 cursor-pointer hover:bg-slate-50"
+                      >
+                        <td className="px-2 py-1.5">
+                          <span className="flex items-center gap-1">
+                            {expandedRun === evalRun.id ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                            <span className="font-medium text-slate-700">{evalRun.versionLabel}</span>
+                            <span className="text-[10px] text-slate-400">{new Date(evalRun.createdAt).toLocaleString()}</span>
+                          </span>
+                        </td>
+                        <td className="px-2 py-1.5 text-slate-500">{evalRun.model}</td>
+                        <StatCells stats={evalRun.summary} />
+                        <td className={`px-2 py-1.5 text-right font-mono ${evalRun.summary.failures > 0 ? 'text-red-600' : ''}`}>{evalRun.summary.failures}</td>
+                        <td className="px-2 py-1.5 text-right">
+                          <button
+                            onClick={(e) => { e.stopPropagation(); handleDeleteRun(evalRun.id); }}
+                            className="p-1 text-slate-400 hover:text-red-600 hover:bg-slate-100 rounded"
+                            title="Delete run"
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        </td>
+                      </tr>
+                      {expandedRun === evalRun.id && (
+                        <tr>
+                          <td colSpan={8}>
+                            <RunOutputs run={evalRun} fixtures={evals.fixtures} />
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PromptEvalPanel;
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { Database, X, Trash2, Loader2, ChevronDown, ChevronRight } from 'lucide-react';
+import { api } from '../api';
+import type { CachedResponse } from '../types';
+
+interface ResponseCacheModalProps {
+	isOpen: boolean;
+	onClose: () => void;
+	projectId: string;
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const ResponseCacheModal: React.FC<ResponseCacheModalProps> = ({
+	isOpen,
+	onClose,
+	projectId
+}) => {
+	const [loading, setLoading] = useState(true);
+	const [entries, setEntries] = useState<CachedResponse[]>([]);
+	const [totalBytes, setTotalBytes] = useState(0);
+	const [maxBytes, setMaxBytes] = useState(0);
+	const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (isOpen && projectId) {
+			loadEntries();
+		}
+	}, [isOpen, projectId]);
+
+	const loadEntries = async () => {
+		setLoading(true);
+		try {
+			const data = await api.getResponseCache(projectId);
+			setEntries(data?.entries || []);
+			setTotalBytes(data?.totalBytes || 0);
+			setMaxBytes(data?.maxBytes || 0);
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const handleDelete = async (key: string) => {
+		if (await api.deleteResponseCacheEntry(projectId, key)) {
+			loadEntries();
+		}
+	};
+
+	const handleClear = async () => {
+		if (!confirm(`Delete all ${entries.length} cached replies? Identical requests will call the provider again.`)) return;
+		if (await api.clearResponseCache(projectId)) {
+			loadEntries();
+		}
+	};
+
+	if (!isOpen) return null;
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+			<div className="w-full max-w-2xl max-h-[80vh] flex flex-col bg-white rounded-xl shadow-2xl border border-slate-200 overflow-hidden transform transition-all animate-in fade-in zoom-in-95 duration-200">
+				<div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+					<h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+						<Database size={16} className="text-slate-500" />
+						Response Cache
+					</h3>
+					<button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded-lg hover:bg-slate-100 transition-colors">
+						<X size={16} />
+					</button>
+				</div>
+
+				<div className="flex-1 overflow-y-auto p-4 space-y-2">
+					{loading ? (
+						<div className="flex justify-center py-8">
+							<Loader2 className="animate-spin text-blue-500" size={24} />
+						</div>
+					) : entries.length === 0 ? (
+						<p className="py-8 text-center text-sm text-slate-400">
+							No cached replies yet. Identical AI requests in this project are answered from here.
+						</p>
+					) : (
+						entries.map(entry => {
+							const isExpanded = expandedKey === entry.key;
+							return (
+								<div key={entry.key} className="border border-slate-200 rounded-lg text-xs">
+									<div className="flex items-center gap-3 px-3 py-2">
+										<button
+											onClick={() => setExpandedKey(isExpanded ? null : entry.key)}
+											className="flex-1 min-w-0 flex items-center gap-2 text-left text-slate-700"
+										>
+											{isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+											<span className="font-medium">{entry.mode.replace(/^custom:/, '')}</span>
+											<span className="text-slate-400 truncate">{entry.model}</span>
+										</button>
+										<span className="text-slate-500 tabular-nums" title="Times reused">{entry.hits} hit{entry.hits === 1 ? '' : 's'}</span>
+										<span className="text-slate-500 tabular-nums w-16 text-right">{formatBytes(entry.bytes)}</span>
+										<span className="text-slate-400" title={`Created ${new Date(entry.createdAt).toLocaleString()}`}>
+											{new Date(entry.lastUsedAt).toLocaleString()}
+										</span>
+										<button
+											onClick={() => handleDelete(entry.key)}
+											className="p-1 text-slate-400 hover:text-red-600 hover:bg-slate-100 rounded"
+											title="Delete entry"
+										>
+											<Trash2 size={12} />
+										</button>
+									</div>
+									{isExpanded && (
+										<div className="px-3 pb-3 space-y-2 border-t border-slate-100 pt-2">
+											<div className="text-[10px] text-slate-400 font-mono truncate">{entry.provider}</div>
+											{[
+												{ label: 'System', text: entry.system },
+												{ label: 'User', text: entry.user },
+												{ label: 'Response', text: entry.response }
+											].map(part => (
+												<div key={part.label}>
+													<div className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider mb-1">{part.label}</div>
+													<pre className="max-h-40 overflow-y-auto whitespace-pre-wrap bg-slate-50 border border-slate-100 rounded p-2 font-mono text-[11px] text-slate-700">
+														{part.text || '(empty)'}
+													</pre>
+												</div>
+											))}
+											{entry.history.length > 0 && (
+												<div className="text-[10px] text-slate-400">
+													Includes {entry.history.length} earlier message{entry.history.length === 1 ? '' : 's'} of conversation history.
+												</div>
+											)}
+										</div>
+									)}
+								</div>
+							);
+						})
+					)}
+				</div>
+
+				<div className="px-4 py-3 bg-slate-50 border-t border-slate-100 flex items-center justify-between gap-2">
+					<span className="text-[10px] text-slate-400">
+						{entries.length} entr{entries.length === 1 ? 'y' : 'ies'}, {formatBytes(totalBytes)} of {formatBytes(maxBytes)}. Least recently used replies are evicted first.
+					</span>
+					<button
+						onClick={handleClear}
+						disabled={loading || entries.length === 0}
+						className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-50 rounded-lg transition-colors"
+					>
+						<Trash2 size={12} />
+						Clear Cache
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default ResponseCacheModal;
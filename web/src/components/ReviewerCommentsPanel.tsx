@@ -0,0 +1,367 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { MessagesSquare, X, Loader2, Upload, Trash2, FileText, Copy, Check, Sparkles } from 'lucide-react';
+import type { ReviewerComment, ReviewerCommentImport, ReviewerCommentStatus } from '../types';
+import { api } from '../api';
+import { groupByReviewer, countByStatus, describeBackup, type CommentFilter } from '../utils/reviewerComments';
+
+interface ReviewerCommentsPanelProps {
+  isOpen: boolean;
+  projectId: string;
+  onClose: () => void;
+  onJump?: (lineNumber: number, filePath?: string) => void; // Open a matched paragraph in the editor
+}
+
+const STATUS_OPTIONS: { status: ReviewerCommentStatus; label: string; active: string }[] = [
+  { status: 'open', label: 'Open', active: 'bg-amber-100 text-amber-700' },
+  { status: 'addressed', label: 'Addressed', active: 'bg-green-100 text-green-700' },
+  { status: 'wontfix', label: "Won't fix", active: 'bg-slate-200 text-slate-700' }
+];
+
+const FILTERS: { filter: CommentFilter; label: string }[] = [
+  { filter: 'all', label: 'All' },
+  { filter: 'open', label: 'Open' },
+  { filter: 'addressed', label: 'Addressed' },
+  { filter: 'wontfix', label: "Won't fix" }
+];
+
+const fileName = (path: string) => path.split('/').pop() || path;
+
+// Import form: a review file or pasted text
+const ImportForm: React.FC<{
+  onImport: (name: string, text: string) => Promise<void>;
+  onCancel?: () => void;
+}> = ({ onImport, onCancel }) => {
+  const [name, setName] = useState('');
+  const [text, setText] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    if (!name) setName(file.name.replace(/\.(md|markdown|txt)$/i, ''));
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onImport(name, text);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">
+        Paste the reviews or load a .txt/.md file. Lines like <code className="bg-slate-100 px-1 rounded">Reviewer #2</code> start a reviewer;
+        each list item or paragraph becomes one comment and is matched to the paragraphs it most likely refers to.
+      </p>
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name, e.g. S&P round 1"
+          className="flex-1 px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+        />
+        <label className="flex items-center gap-1 px-3 py-1.5 text-xs text-slate-600 hover:bg-slate-100 rounded-lg cursor-pointer">
+          <FileText size={12} />
+          Load file
+          <input type="file" accept=".txt,.md,.markdown,text/plain,text/markdown" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+        </label>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={12}
+        placeholder={'Reviewer #1\n\nWeaknesses:\n1. The evaluation ...'}
+        className="w-full px-2 py-1.5 border border-slate-200 rounded-lg text-xs font-mono"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && <button onClick={onCancel} className="px-3 py-1.5 text-xs text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>}
+        <button
+          onClick={handleImport}
+          disabled={isImporting || !text.trim()}
+          className="flex items-center gap-1 px-3 py-1.5 bg-teal-600 text-white text-xs font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          {isImporting ? <Loader2 size={12} className="animate-spin" /> : <Upload size={12} />}
+          Import Reviews
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const CommentCard: React.FC<{
+  comment: ReviewerComment;
+  onUpdate: (update: { status?: ReviewerCommentStatus; note?: string }) => void;
+  onJump?: (lineNumber: number, filePath?: string) => void;
+}> = ({ comment, onUpdate, onJump }) => {
+  const [note, setNote] = useState(comment.note || '');
+
+  useEffect(() => setNote(comment.note || ''), [comment.note]);
+
+  return (
+    <div className={`border rounded-lg p-3 space-y-2 ${comment.status === 'open' ? 'border-slate-200' : 'border-slate-100 bg-slate-50/60'}`}>
+      <div className="flex items-start gap-2">
+        <p className="flex-1 text-sm text-slate-700">
+          {comment.category && <span className="mr-1.5 text-[10px] font-semibold uppercase tracking-wider text-slate-400">{comment.category}</span>}
+          {comment.text}
+        </p>
+        <div className="flex shrink-0 rounded-lg border border-slate-200 overflow-hidden">
+          {STATUS_OPTIONS.map(option => (
+            <button
+              key={option.status}
+              onClick={() => onUpdate({ status: option.status })}
+              className={`px-2 py-1 text-[11px] font-medium transition-colors ${comment.status === option.status ? option.active : 'text-slate-500 hover:bg-slate-100'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {comment.matches.length > 0 ? (
+        <div className="space-y-1">
+          {comment.matches.map(match => (
+            <button
+              key={`${match.filePath}:${match.itemId}`}
+              onClick={() => onJump?.(match.lineStart, match.filePath)}
+              className="w-full text-left flex items-baseline gap-2 px-2 py-1 rounded hover:bg-teal-50 text-xs"
+              title="Open in the editor"
+            >
+              <span className="shrink-0 font-mono text-teal-700">{fileName(match.filePath)}:{match.lineStart}</span>
+              <span className="truncate text-slate-500">{match.excerpt}</span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400">No matching paragraph.</p>
+      )}
+
+      {comment.status !== 'open' && (
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={() => note !== (comment.note || '') && onUpdate({ note })}
+          rows={2}
+          placeholder={comment.status === 'addressed' ? 'What changed (used in the rebuttal)' : 'Why not (used in the rebuttal)'}
+          className="w-full px-2 py-1.5 border border-slate-200 rounded-lg text-xs"
+        />
+      )}
+
+      {comment.status === 'addressed' && (
+        <div className="text-[11px] text-slate-500">
+          {comment.backups && comment.backups.length > 0 ? (
+            <>Edits: {comment.backups.map(id => {
+              const backup = describeBackup(id);
+              return <span key={id} className="ml-1 px-1.5 py-0.5 bg-white border border-slate-200 rounded" title={id}>{backup.filename} · {backup.time}</span>;
+            })}</>
+          ) : 'No edits to the matched files since the import.'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ReviewerCommentsPanel: React.FC<ReviewerCommentsPanelProps> = ({ isOpen, projectId, onClose, onJump }) => {
+  const [imports, setImports] = useState<ReviewerCommentImport[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [filter, setFilter] = useState<CommentFilter>('all');
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    api.listReviewerComments(projectId).then(list => {
+      setImports(list);
+      setSelectedId(current => current && list.some(i => i.id === current) ? current : list[0]?.id || null);
+    });
+  }, [isOpen, projectId]);
+
+  const selected = imports.find(i => i.id === selectedId) || null;
+  const groups = useMemo(() => selected ? groupByReviewer(selected.comments, filter) : [], [selected, filter]);
+  const counts = useMemo(() => countByStatus(selected?.comments || []), [selected]);
+
+  if (!isOpen) return null;
+
+  const replace = (updated: ReviewerCommentImport) => setImports(list => list.map(i => i.id === updated.id ? updated : i));
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImport = (name: string, text: string) => run(async () => {
+    const imported = await api.importReviewerComments(projectId, name, text);
+    setImports(list => [imported, ...list]);
+    setSelectedId(imported.id);
+    setIsImporting(false);
+  });
+
+  const handleUpdate = (commentId: string, update: { status?: ReviewerCommentStatus; note?: string }) => run(async () => {
+    if (selected) replace(await api.updateReviewerComment(projectId, selected.id, commentId, update));
+  });
+
+  const handleRebuttal = () => run(async () => {
+    if (!selected) return;
+    setIsDrafting(true);
+    try {
+      replace(await api.draftRebuttal(projectId, selected.id));
+    } finally {
+      setIsDrafting(false);
+    }
+  });
+
+  const handleDelete = async (target: ReviewerCommentImport) => {
+    if (!confirm(`Delete "${target.name}" and its comment statuses?`)) return;
+    if (await api.deleteReviewerComments(projectId, target.id)) {
+      const rest = imports.filter(i => i.id !== target.id);
+      setImports(rest);
+      if (selectedId === target.id) setSelectedId(rest[0]?.id || null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!selected?.rebuttal) return;
+    await navigator.clipboard.writeText(selected.rebuttal.content);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex justify-end z-[110]" onClick={onClose}>
+      <div className="bg-white shadow-2xl w-full max-w-3xl h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-200 bg-gradient-to-r from-teal-50 to-blue-50 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-teal-100 rounded-lg">
+              <MessagesSquare size={20} className="text-teal-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Reviewer Comments</h2>
+              <p className="text-xs text-slate-500">Track each reviewer comment to the paragraphs it concerns, then draft the rebuttal</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/50 rounded-lg transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+        {error && <div className="px-6 py-2 text-xs text-red-600 bg-red-50 border-b border-red-100">{error}</div>}
+
+        <div className="flex-1 flex min-h-0">
+          {/* Imports */}
+          <div className="w-48 border-r border-slate-100 overflow-y-auto p-2 space-y-1">
+            <button
+              onClick={() => setIsImporting(true)}
+              className="w-full flex items-center gap-1.5 px-2 py-1.5 text-xs font-medium text-teal-700 hover:bg-teal-50 rounded-lg"
+            >
+              <Upload size={12} />
+              Import Reviews
+            </button>
+            {imports.map(i => {
+              const open = i.comments.filter(c => c.status === 'open').length;
+              return (
+                <button
+                  key={i.id}
+                  onClick={() => {
+                    setSelectedId(i.id);
+                    setIsImporting(false);
+                  }}
+                  className={`w-full text-left px-2 py-1.5 rounded-lg text-xs transition-colors ${i.id === selectedId && !isImporting ? 'bg-slate-100' : 'hover:bg-slate-50'}`}
+                >
+                  <div className="font-medium text-slate-700 truncate">{i.name}</div>
+                  <div className="text-[10px] text-slate-400 truncate">
+                    {open} of {i.comments.length} open · {new Date(i.importedAt).toLocaleDateString()}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Comments */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-5">
+            {isImporting || !selected ? (
+              <ImportForm onImport={handleImport} onCancel={selected ? () => setIsImporting(false) : undefined} />
+            ) : (
+              <>
+                <div className="flex items-center gap-2">
+                  <div className="flex rounded-lg border border-slate-200 overflow-hidden">
+                    {FILTERS.map(f => (
+                      <button
+                        key={f.filter}
+                        onClick={() => setFilter(f.filter)}
+                        className={`px-2.5 py-1 text-xs transition-colors ${filter === f.filter ? 'bg-slate-800 text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+                      >
+                        {f.label} <span className="opacity-70">{counts[f.filter]}</span>
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    onClick={handleRebuttal}
+                    disabled={isDrafting || counts.addressed + counts.wontfix === 0}
+                    className="ml-auto flex items-center gap-1 px-3 py-1.5 bg-teal-600 text-white text-xs font-medium rounded-lg hover:bg-teal-700 disabled:opacity-50"
+                    title="Draft a rebuttal from the addressed and won't-fix comments"
+                  >
+                    {isDrafting ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+                    Draft Rebuttal
+                  </button>
+                  <button
+                    onClick={() => handleDelete(selected)}
+                    className="p-1 text-slate-400 hover:text-red-600 hover:bg-slate-100 rounded"
+                    title="Delete import"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+
+                {groups.map(group => (
+                  <div key={group.reviewer} className="space-y-2">
+                    <div className="text-[10px] font-semibold uppercase tracking-wider text-slate-500">{group.reviewer}</div>
+                    {group.comments.map(comment => (
+                      <CommentCard
+                        key={comment.id}
+                        comment={comment}
+                        onUpdate={(update) => handleUpdate(comment.id, update)}
+                        onJump={onJump && ((line, file) => {
+                          onJump(line, file);
+                          onClose();
+                        })}
+                      />
+                    ))}
+                  </div>
+                ))}
+                {groups.length === 0 && <p className="text-center text-sm text-slate-400 py-8">No comments with this status.</p>}
+
+                {selected.rebuttal && (
+                  <div className="border-t border-slate-100 pt-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="text-[10px] font-semibold uppercase tracking-wider text-slate-500">
+                        Rebuttal draft · {selected.rebuttal.model} · {new Date(selected.rebuttal.createdAt).toLocaleString()}
+                      </div>
+                      <button onClick={handleCopy} className="flex items-center gap-1 px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 rounded">
+                        {copied ? <Check size={12} className="text-green-600" /> : <Copy size={12} />}
+                        {copied ? 'Copied' : 'Copy'}
+                      </button>
+                    </div>
+                    <pre className="whitespace-pre-wrap text-sm text-slate-700 font-sans bg-slate-50 rounded-lg p-4">{selected.rebuttal.content}</pre>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ReviewerCommentsPanel;
@@ -1,8 +1,18 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Folder, FolderOpen, ChevronRight, ChevronDown, FileText, Image as ImageIcon, Trash2, Settings, RefreshCw, Check, X, Edit2, FilePlus, FolderPlus, ExternalLink, FileCheck, GitBranch, Upload } from 'lucide-react';
-import type { Project, FileNode, SelectedProject, SectionNode } from '../types';
+import { Folder, FolderOpen, ChevronRight, ChevronDown, FileText, Image as ImageIcon, Trash2, Settings, RefreshCw, Check, X, Edit2, FilePlus, FolderPlus, ExternalLink, FileCheck, GitBranch, Upload, Database, Bot, ClipboardCheck, Lightbulb, MessagesSquare, ScrollText, SpellCheck, Feather, MessageSquareText, Scale, History } from 'lucide-react';
+import type { Project, FileNode, SelectedFile, SelectedProject, SectionNode } from '../types';
 import { api } from '../api';
 import SystemPromptModal from './SystemPromptModal';
+import ResponseCacheModal from './ResponseCacheModal';
+import AuditLogPanel from './AuditLogPanel';
+import AgentPanel from './AgentPanel';
+import PaperReviewPanel from './PaperReviewPanel';
+import ReviewerCommentsPanel from './ReviewerCommentsPanel';
+import ChangeLogPanel from './ChangeLogPanel';
+import GlossaryPanel from './GlossaryPanel';
+import StyleProfilePanel from './StyleProfilePanel';
+import PaperChatPanel from './PaperChatPanel';
+import ClaimCheckPanel from './ClaimCheckPanel';
 
 interface SidebarProps {
   projects: Project[];
@@ -12,6 +22,10 @@ interface SidebarProps {
   onFileSelect?: (file: FileNode) => void;
   onProjectDelete?: () => void;
   onSectionClick?: (lineNumber: number, filePath?: string) => void;
+  selectedFile?: SelectedFile | null; // Used by the prompt preview
+  onFilesChanged?: (paths: string[]) => void; // Files written outside the editor (research agent)
+  onShowInPdf?: (filePath: string, line: number) => void; // Forward SyncTeX to a source line
+  outlineVersion?: number; // Bumped when the editor saves, so headings and notes are re-read
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
@@ -22,13 +36,28 @@ const Sidebar: React.FC<SidebarProps> = ({
   onFileSelect,
   onProjectDelete,
   onSectionClick,
+  selectedFile,
+  onFilesChanged,
+  onShowInPdf,
+  outlineVersion,
 }) => {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
   const [sections, setSections] = useState<SectionNode[]>([]);
   const [files, setFiles] = useState<FileNode[]>([]);
   const [showSystemPromptModal, setShowSystemPromptModal] = useState(false);
+  const [showResponseCacheModal, setShowResponseCacheModal] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showAgentPanel, setShowAgentPanel] = useState(false);
+  const [showPaperReview, setShowPaperReview] = useState(false);
+  const [showReviewerComments, setShowReviewerComments] = useState(false);
+  const [showChangeLog, setShowChangeLog] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showStyleProfiles, setShowStyleProfiles] = useState(false);
+  const [showPaperChat, setShowPaperChat] = useState(false);
+  const [showClaimCheck, setShowClaimCheck] = useState(false);
   const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
   const [isOutlineCollapsed, setIsOutlineCollapsed] = useState(false);
+  const [showArgument, setShowArgument] = useState(false); // FW_THOUGHTS notes under each heading
   const [outlineHeight, setOutlineHeight] = useState(200);
   const [isOutlineResizing, setIsOutlineResizing] = useState(false);
   const [previewImage, setPreviewImage] = useState<{ name: string; url: string } | null>(null);
@@ -128,6 +157,13 @@ const Sidebar: React.FC<SidebarProps> = ({
     refreshProjectFiles();
   }, [refreshProjectFiles]);
 
+  useEffect(() => {
+    if (!outlineVersion || !selectedProject?.project) return;
+    api.getProjectConfig(selectedProject.project.id).then(config => {
+      if (config?.sectionsDir) parseLaTeXOutline(config.sectionsDir);
+    });
+  }, [outlineVersion]);
+
   // Load git status for github-type projects
   useEffect(() => {
     if (selectedProject?.project?.type === 'github') {
@@ -203,6 +239,16 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  const renderOutlineNotes = (thoughts: string[] | undefined, indent: string) => (
+    thoughts && thoughts.length > 0 ? (
+      <ul className={`pr-3 pb-1 space-y-0.5 ${indent}`}>
+        {thoughts.map((note, i) => (
+          <li key={i} className="text-xs text-slate-500 italic line-clamp-2" title={note}>{note}</li>
+        ))}
+      </ul>
+    ) : null
+  );
+
   const buildSectionTree = (flatSections: any[]): SectionNode[] => {
     const root: SectionNode[] = [];
     const stack: { node: SectionNode; level: number }[] = [];
@@ -215,6 +261,7 @@ const Sidebar: React.FC<SidebarProps> = ({
         line: section.lineStart || 0,
         lineStart: section.lineStart,
         filePath: section.filePath ? section.filePath.replace(/\/\.\//g, '/') : undefined,
+        thoughts: section.thoughts,
         children: []
       };
 
@@ -616,6 +663,96 @@ const Sidebar: React.FC<SidebarProps> = ({
                   <ChevronRight size={14} className="ml-auto" />
                 </button>
 
+                <button
+                  onClick={() => setShowResponseCacheModal(true)}
+                  className="flex items-center gap-2 text-sm text-slate-600 hover:text-blue-500 hover:bg-slate-100 px-3 py-2 rounded-lg w-full transition-colors"
+                >
+                  <Database size={16} />
+                  <span>Response Cache</span>
+                  <ChevronRight size={14} className="ml-auto" />
+                </button>
+
+                <button
+                  onClick={() => setShowAuditLog(true)}
+                  className="flex items-center gap-2 text-sm text-slate-600 hover:text-blue-500 hover:bg-slate-100 px-3 py-2 rounded-lg w-full transition-colors"
+                >
+                  <History size={16} />
+                  <span>Request Log</span>
+                  <ChevronRight size={14} className="ml-auto" />
+                </button>
+
+                <button
+                  onClick={() => setShowAgentPanel(true)}
+                  className="flex items-center gap-2 text-sm text-slate-600 hover:text-blue-500 hover:bg-slate-100 px-3 py-2 rounded-lg w-full transition-colors"
+                >
+                  <Bot size={16} />
+                  <span>Research Agent</span>
+                  <ChevronRight size={14} className="ml-auto" />
+                </button>
+
+                <button
+                  onClick={() => setShowPaperReview(true)}
+                  className="flex items-center gap-2 text-sm text-slate-600 hover:text-blue-500 hover:bg-slate-100 px-3 py-2 rounded-lg w-full transition-colors"
+                >
+                  <ClipboardCheck size={16} />
+                  <span>Review Paper</span>
+                  <ChevronRight size={14} className="ml-auto" />
+                </button>
+
+                <button
+                  onClick={() => setShowReviewerComments(true)}
+                  className="flex items-center gap-2 text-sm text-slate-600 hover:text-blue-500 hover:bg-slate-100 px-3 py-2 rounded-lg w-full transition-colors"
+                >
+                  <MessagesSquare size={16} />
+                  <span>Reviewer Comments</span>
+                  <ChevronRight size={14} className="ml-auto" />
+                </button>
+
+                <button
+                  onClick={() => setShowChangeLog(true)}
+                  className="flex items-center gap-2 text-sm text-slate-600 hover:text-blue-500 hover:bg-slate-100 px-3 py-2 rounded-lg w-full transition-colors"
+                >
+                  <ScrollText size={16} />
+                  <span>Changelog</span>
+                  <ChevronRight size={14} className="ml-auto" />
+                </button>
+
+                <button
+                  onClick={() => setShowGlossary(true)}
+                  className="flex items-center gap-2 text-sm text-slate-600 hover:text-blue-500 hover:bg-slate-100 px-3 py-2 rounded-lg w-full transition-colors"
+                >
+                  <SpellCheck size={16} />
+                  <span>Glossary</span>
+                  <ChevronRight size={14} className="ml-auto" />
+                </button>
+
+                <button
+                  onClick={() => setShowStyleProfiles(true)}
+                  className="flex items-center gap-2 text-sm text-slate-600 hover:text-blue-500 hover:bg-slate-100 px-3 py-2 rounded-lg w-full transition-colors"
+                >
+                  <Feather size={16} />
+                  <span>Style Profiles</span>
+                  <ChevronRight size={14} className="ml-auto" />
+                </button>
+
+                <button
+                  onClick={() => setShowPaperChat(true)}
+                  className="flex items-center gap-2 text-sm text-slate-600 hover:text-blue-500 hover:bg-slate-100 px-3 py-2 rounded-lg w-full transition-colors"
+                >
+                  <MessageSquareText size={16} />
+                  <span>Ask the Paper</span>
+                  <ChevronRight size={14} className="ml-auto" />
+                </button>
+
+                <button
+                  onClick={() => setShowClaimCheck(true)}
+                  className="flex items-center gap-2 text-sm text-slate-600 hover:text-blue-500 hover:bg-slate-100 px-3 py-2 rounded-lg w-full transition-colors"
+                >
+                  <Scale size={16} />
+                  <span>Claim Check</span>
+                  <ChevronRight size={14} className="ml-auto" />
+                </button>
+
                 {selectedProject.project.type === 'github' && (
                   <button
                     onClick={() => {
@@ -673,16 +810,25 @@ const Sidebar: React.FC<SidebarProps> = ({
             )}
 
             {/* Collapsible Header */}
-            <button
-              onClick={() => setIsOutlineCollapsed(!isOutlineCollapsed)}
-              className="flex items-center gap-2 text-xs font-semibold text-slate-600 uppercase tracking-wider px-4 py-2 bg-slate-100 hover:bg-slate-200 transition-colors w-full text-left"
-            >
-              <ChevronDown
-                size={14}
-                className={`transition-transform ${isOutlineCollapsed ? '-rotate-90' : ''}`}
-              />
-              Document Outline
-            </button>
+            <div className="flex items-center bg-slate-100">
+              <button
+                onClick={() => setIsOutlineCollapsed(!isOutlineCollapsed)}
+                className="flex-1 flex items-center gap-2 text-xs font-semibold text-slate-600 uppercase tracking-wider px-4 py-2 hover:bg-slate-200 transition-colors text-left"
+              >
+                <ChevronDown
+                  size={14}
+                  className={`transition-transform ${isOutlineCollapsed ? '-rotate-90' : ''}`}
+                />
+                Document Outline
+              </button>
+              <button
+                onClick={() => setShowArgument(!showArgument)}
+                className={`p-2 transition-colors ${showArgument ? 'text-yellow-600 bg-yellow-50' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-200'}`}
+                title={showArgument ? 'Hide paragraph notes' : 'Show the argument: FW_THOUGHTS notes under each heading'}
+              >
+                <Lightbulb size={14} />
+              </button>
+            </div>
 
             {/* Outline Content */}
             {!isOutlineCollapsed && (
@@ -731,25 +877,28 @@ const Sidebar: React.FC<SidebarProps> = ({
                             L{section.lineStart}
                           </span>
                         </div>
+                        {showArgument && renderOutlineNotes(section.thoughts, 'pl-6')}
                         {!isSectionCollapsed && hasChildren && (
                           <div className="ml-4">
                             {section.children!.map(child => (
-                              <div
-                                key={child.id}
-                                className="flex items-center gap-1 px-3 py-1 hover:bg-slate-50 cursor-pointer pl-5"
-                                onClick={() => {
-                                  if (onSectionClick && child.lineStart) {
-                                    onSectionClick(child.lineStart, child.filePath);
-                                  }
-                                }}
-                              >
-                                <span className="text-sm text-slate-600 text-left flex-1">
-                                  {child.title}
-                                </span>
-                                <span className="text-xs text-slate-400 whitespace-nowrap flex-shrink-0">
-                                  L{child.lineStart}
-                                </span>
-                              </div>
+                              <React.Fragment key={child.id}>
+                                <div
+                                  className="flex items-center gap-1 px-3 py-1 hover:bg-slate-50 cursor-pointer pl-5"
+                                  onClick={() => {
+                                    if (onSectionClick && child.lineStart) {
+                                      onSectionClick(child.lineStart, child.filePath);
+                                    }
+                                  }}
+                                >
+                                  <span className="text-sm text-slate-600 text-left flex-1">
+                                    {child.title}
+                                  </span>
+                                  <span className="text-xs text-slate-400 whitespace-nowrap flex-shrink-0">
+                                    L{child.lineStart}
+                                  </span>
+                                </div>
+                                {showArgument && renderOutlineNotes(child.thoughts, 'pl-5')}
+                              </React.Fragment>
                             ))}
                           </div>
                         )}
@@ -958,10 +1107,135 @@ const Sidebar: React.FC<SidebarProps> = ({
           <SystemPromptModal
             isOpen={showSystemPromptModal}
             projectId={selectedProject.project.id}
+            previewFile={selectedFile}
             onClose={() => setShowSystemPromptModal(false)}
           />
         )
       }
+
+      {/* Response Cache Modal */}
+      {
+        selectedProject && (
+          <ResponseCacheModal
+            isOpen={showResponseCacheModal}
+            projectId={selectedProject.project.id}
+            onClose={() => setShowResponseCacheModal(false)}
+          />
+        )
+      }
+
+      {/* LLM request log */}
+      {
+        selectedProject && (
+          <AuditLogPanel
+            isOpen={showAuditLog}
+            projectId={selectedProject.project.id}
+            onClose={() => setShowAuditLog(false)}
+          />
+        )
+      }
+
+      {/* Research Agent */}
+      {
+        selectedProject && (
+          <AgentPanel
+            isOpen={showAgentPanel}
+            projectId={selectedProject.project.id}
+            onClose={() => setShowAgentPanel(false)}
+            onFilesChanged={(paths) => {
+              refreshProjectFiles();
+              onFilesChanged?.(paths);
+            }}
+          />
+        )
+      }
+
+      {/* Paper Review */}
+      {
+        selectedProject && (
+          <PaperReviewPanel
+            isOpen={showPaperReview}
+            projectId={selectedProject.project.id}
+            onClose={() => setShowPaperReview(false)}
+          />
+        )
+      }
+
+      {/* Reviewer Comments */}
+      {
+        selectedProject && (
+          <ReviewerCommentsPanel
+            isOpen={showReviewerComments}
+            projectId={selectedProject.project.id}
+            onClose={() => setShowReviewerComments(false)}
+            onJump={onSectionClick}
+          />
+        )
+      }
+
+      {/* Changelog */}
+      {
+        selectedProject && (
+          <ChangeLogPanel
+            isOpen={showChangeLog}
+            projectId={selectedProject.project.id}
+            onClose={() => setShowChangeLog(false)}
+            onJump={onSectionClick}
+          />
+        )
+      }
+
+      {/* Glossary and terminology scan */}
+      {
+        selectedProject && (
+          <GlossaryPanel
+            isOpen={showGlossary}
+            projectId={selectedProject.project.id}
+            onClose={() => setShowGlossary(false)}
+            onJump={onSectionClick}
+            onFilesChanged={onFilesChanged}
+          />
+        )
+      }
+
+      {/* Style profiles from exemplar papers */}
+      {
+        selectedProject && (
+          <StyleProfilePanel
+            isOpen={showStyleProfiles}
+            projectId={selectedProject.project.id}
+            selectedFile={selectedFile}
+            onClose={() => setShowStyleProfiles(false)}
+            onJump={onSectionClick}
+          />
+        )
+      }
+
+      {/* Chat with the whole paper */}
+      {
+        selectedProject && (
+          <PaperChatPanel
+            isOpen={showPaperChat}
+            projectId={selectedProject.project.id}
+            onClose={() => setShowPaperChat(false)}
+            onJump={onSectionClick}
+            onShowInPdf={onShowInPdf}
+          />
+        )
+      }
+
+      {/* Claim-evidence check */}
+      {
+        selectedProject && (
+          <ClaimCheckPanel
+            isOpen={showClaimCheck}
+            projectId={selectedProject.project.id}
+            onClose={() => setShowClaimCheck(false)}
+            onJump={onSectionClick}
+            onShowInPdf={onShowInPdf}
+          />
+        )
+      }
     </>
   );
 };
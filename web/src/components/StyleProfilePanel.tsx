@@ -0,0 +1,304 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { Feather, X, Loader2, Trash2, Upload, Check, Gauge } from 'lucide-react';
+import type { SelectedFile, StyleProfile } from '../types';
+import { SENTENCE_LENGTH_BUCKETS, compareToProfile, type StyleMetrics } from '../utils/style';
+import { parseContent } from '../utils/parser';
+import { api } from '../api';
+
+interface StyleProfilePanelProps {
+  isOpen: boolean;
+  projectId: string;
+  selectedFile?: SelectedFile | null; // Scored against the chosen profile
+  onClose: () => void;
+  onJump?: (lineNumber: number, filePath?: string) => void;
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+const scoreColor = (score: number) =>
+  score >= 75 ? 'text-green-700 bg-green-50' : score >= 50 ? 'text-amber-700 bg-amber-50' : 'text-red-700 bg-red-50';
+
+const MetricsView: React.FC<{ metrics: StyleMetrics }> = ({ metrics }) => {
+  const { sentenceLength, connectors, voice, hedging, structure } = metrics;
+  const peak = Math.max(...sentenceLength.histogram, 0.01);
+  return (
+    <div className="grid grid-cols-2 gap-4 text-xs text-slate-600">
+      <div>
+        <p className="font-semibold text-slate-700 mb-1">Sentence length</p>
+        <p>Mean {sentenceLength.mean} words, median {sentenceLength.median}, most {sentenceLength.p10}-{sentenceLength.p90}</p>
+        <div className="flex items-end gap-1 h-12 mt-2">
+          {sentenceLength.histogram.map((share, i) => (
+            <div key={i} className="flex-1 flex flex-col items-center gap-0.5" title={`${percent(share)} of sentences`}>
+              <div className="w-full bg-violet-300 rounded-t" style={{ height: `${Math.round((share / peak) * 36)}px` }} />
+              <span className="text-[9px] text-slate-400">
+                {i === SENTENCE_LENGTH_BUCKETS.length - 1 ? `${SENTENCE_LENGTH_BUCKETS[i]}+` : `${SENTENCE_LENGTH_BUCKETS[i]}-${SENTENCE_LENGTH_BUCKETS[i + 1]! - 1}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-1">
+        <p className="font-semibold text-slate-700">Voice and hedging</p>
+        <p>{percent(voice.firstPerson)} of sentences use "we"/"our"; {percent(voice.passive)} are passive</p>
+        <p>{hedging.per100} hedges per 100 sentences{hedging.common.length > 0 && ` (${hedging.common.join(', ')})`}</p>
+      </div>
+      <div>
+        <p className="font-semibold text-slate-700 mb-1">Sentence openers</p>
+        {connectors.length === 0 ? (
+          <p className="text-slate-400">None</p>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {connectors.slice(0, 10).map(c => (
+              <span key={c.phrase} className="px-1.5 py-0.5 bg-slate-100 rounded" title={`${c.per100} per 100 sentences`}>
+                {c.phrase}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="space-y-1">
+        <p className="font-semibold text-slate-700">Structure</p>
+        <p>
+          {structure.sectionsPerPaper} sections per paper, {structure.subsectionsPerSection} subsections and {structure.paragraphsPerSection} paragraphs per section
+        </p>
+        {structure.commonSections.length > 0 && (
+          <p className="text-slate-500">{structure.commonSections.map(s => s.title).join(' → ')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Style profiles from exemplar papers, and a local score of the open file against one
+const StyleProfilePanel: React.FC<StyleProfilePanelProps> = ({ isOpen, projectId, selectedFile, onClose, onJump }) => {
+  const [profiles, setProfiles] = useState<StyleProfile[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [viewedId, setViewedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    api.getStyleProfiles(projectId).then(data => {
+      setProfiles(data.profiles);
+      setActiveId(data.activeId);
+      setViewedId(data.activeId ?? data.profiles[0]?.id ?? null);
+    });
+  }, [isOpen, projectId]);
+
+  const viewed = profiles.find(p => p.id === viewedId) ?? null;
+
+  // Paragraphs of the open file, lowest score first
+  const fileScore = useMemo(() => {
+    if (!viewed || !selectedFile?.content) return null;
+    const scored = parseContent(selectedFile.content)
+      .filter(item => item.type === 'paragraph')
+      .map(item => ({ item, comparison: compareToProfile(viewed.metrics, item.content) }))
+      .filter(({ comparison }) => comparison.sentences > 0);
+    return {
+      overall: compareToProfile(viewed.metrics, scored.map(({ item }) => item.content).join('\n\n')),
+      paragraphs: scored.sort((a, b) => a.comparison.score - b.comparison.score)
+    };
+  }, [viewed, selectedFile]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImport = (files: FileList | null) => run(async () => {
+    if (!files || files.length === 0) return;
+    setIsImporting(true);
+    try {
+      const sources = await Promise.all([...files].map(async file => ({ name: file.name, content: await file.text() })));
+      const profile = await api.createStyleProfile(projectId, name, sources);
+      const data = await api.getStyleProfiles(projectId);
+      setProfiles(data.profiles);
+      setActiveId(data.activeId);
+      setViewedId(profile.id);
+      setName('');
+    } finally {
+      setIsImporting(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  });
+
+  const handleActivate = (profileId: string | null) => run(async () => {
+    const data = await api.setActiveStyleProfile(projectId, profileId);
+    setActiveId(data.activeId);
+  });
+
+  const handleDelete = (profile: StyleProfile) => run(async () => {
+    if (!confirm(`Delete the style profile "${profile.name}"?`)) return;
+    await api.deleteStyleProfile(projectId, profile.id);
+    const data = await api.getStyleProfiles(projectId);
+    setProfiles(data.profiles);
+    setActiveId(data.activeId);
+    if (viewedId === profile.id) setViewedId(data.activeId ?? data.profiles[0]?.id ?? null);
+  });
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex justify-end z-[110]" onClick={onClose}>
+      <div className="bg-white shadow-2xl w-full max-w-3xl h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-200 bg-gradient-to-r from-violet-50 to-blue-50 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-violet-100 rounded-lg">
+              <Feather size={20} className="text-violet-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Style Profiles</h2>
+              <p className="text-xs text-slate-500">Learn a writing style from exemplar papers; the active profile fills the {'{{style}}'} prompt variable</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/50 rounded-lg transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+        {error && <div className="px-6 py-2 text-xs text-red-600 bg-red-50 border-b border-red-100">{error}</div>}
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {/* Import */}
+          <div className="flex items-center gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Profile name, e.g. OSDI or Advisor"
+              className="flex-1 px-3 py-1.5 border border-slate-200 rounded-lg text-sm"
+            />
+            <input ref={fileInput} type="file" accept=".tex" multiple className="hidden" onChange={(e) => handleImport(e.target.files)} />
+            <button
+              onClick={() => fileInput.current?.click()}
+              disabled={isImporting || !name.trim()}
+              className="flex items-center gap-1 px-3 py-1.5 bg-violet-600 text-white text-xs font-medium rounded-lg hover:bg-violet-700 disabled:opacity-50"
+              title="Pick one .tex file per exemplar paper"
+            >
+              {isImporting ? <Loader2 size={12} className="animate-spin" /> : <Upload size={12} />}
+              Import Exemplars
+            </button>
+          </div>
+
+          {/* Profiles */}
+          {profiles.length === 0 ? (
+            <p className="text-center text-sm text-slate-400 py-6">
+              No style profiles yet. Name a profile, then import the .tex sources of a few papers whose style you want to match.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {profiles.map(profile => (
+                <div
+                  key={profile.id}
+                  onClick={() => setViewedId(profile.id)}
+                  className={`flex items-center gap-3 px-3 py-2 border rounded-lg cursor-pointer ${viewedId === profile.id ? 'border-violet-300 bg-violet-50/50' : 'border-slate-200 hover:bg-slate-50'}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-800">{profile.name}</p>
+                    <p className="text-[11px] text-slate-400 truncate">
+                      {profile.sources.map(s => `${s.name} (${s.words} words)`).join(', ')}
+                    </p>
+                  </div>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleActivate(activeId === profile.id ? null : profile.id); }}
+                    className={`flex items-center gap-1 px-2 py-1 text-xs rounded border ${activeId === profile.id ? 'border-violet-300 bg-violet-100 text-violet-700' : 'border-slate-200 text-slate-500 hover:text-violet-700'}`}
+                    title={activeId === profile.id ? 'Stop using this profile in prompts' : 'Use this profile for {{style}}'}
+                  >
+                    <Check size={12} />
+                    {activeId === profile.id ? 'Active' : 'Activate'}
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDelete(profile); }}
+                    className="p-1 text-slate-400 hover:text-red-600 hover:bg-slate-100 rounded"
+                    title="Delete profile"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {viewed && (
+            <>
+              <div className="border border-slate-200 rounded-lg p-4">
+                <p className="text-xs font-semibold uppercase tracking-wider text-slate-400 mb-3">
+                  {viewed.name}: {viewed.metrics.papers} paper{viewed.metrics.papers === 1 ? '' : 's'}, {viewed.metrics.sentences} sentences
+                </p>
+                <MetricsView metrics={viewed.metrics} />
+              </div>
+
+              {/* Local style metric for the open file */}
+              <div className="border border-slate-200 rounded-lg">
+                <div className="px-4 py-2 bg-slate-50 flex items-center gap-2 text-xs">
+                  <Gauge size={14} className="text-violet-600" />
+                  <span className="font-medium text-slate-700">{selectedFile ? selectedFile.name : 'No file open'}</span>
+                  {fileScore && fileScore.overall.sentences > 0 && (
+                    <span className={`ml-auto px-2 py-0.5 rounded font-semibold ${scoreColor(fileScore.overall.score)}`}>
+                      {fileScore.overall.score}/100
+                    </span>
+                  )}
+                </div>
+                {!fileScore || fileScore.overall.sentences === 0 ? (
+                  <p className="px-4 py-4 text-xs text-slate-400">Open a .tex file with prose to score it against {viewed.name}.</p>
+                ) : (
+                  <div className="p-4 space-y-4">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-slate-400">
+                          <th className="font-medium pb-1">Dimension</th>
+                          <th className="font-medium pb-1 text-right">{viewed.name}</th>
+                          <th className="font-medium pb-1 text-right">This file</th>
+                          <th className="font-medium pb-1 text-right">Closeness</th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-slate-600">
+                        {fileScore.overall.dimensions.map(d => (
+                          <tr key={d.name} className="border-t border-slate-100">
+                            <td className="py-1">{d.name}</td>
+                            <td className="py-1 text-right">{d.profile}</td>
+                            <td className="py-1 text-right">{d.text}</td>
+                            <td className="py-1 text-right">{percent(d.closeness)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <div>
+                      <p className="text-xs font-semibold text-slate-700 mb-1">Furthest from the profile</p>
+                      <div className="divide-y divide-slate-100">
+                        {fileScore.paragraphs.slice(0, 5).map(({ item, comparison }) => (
+                          <div key={item.id} className="flex items-start gap-2 py-1.5 text-xs">
+                            <button
+                              onClick={onJump && (() => { onJump(item.lineStart, selectedFile?.path); onClose(); })}
+                              className="font-mono text-violet-700 hover:underline shrink-0"
+                              title="Open in the editor"
+                            >
+                              L{item.lineStart}
+                            </button>
+                            <p className="flex-1 min-w-0 text-slate-500 truncate">{item.content}</p>
+                            <span className={`shrink-0 px-1.5 rounded ${scoreColor(comparison.score)}`}>{comparison.score}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default StyleProfilePanel;
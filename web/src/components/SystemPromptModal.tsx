@@ -1,42 +1,63 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { X, FileText, Save, Loader2, CheckCircle, RotateCcw, Search, Wand2, Zap } from 'lucide-react';
-
-type AIMode = 'diagnose' | 'refine' | 'quickfix';
-
-interface ProjectPrompts {
-	system: string;
-	diagnose: { user: string };
-	refine: { user: string };
-	quickfix: { user: string };
-}
+import { X, FileText, Save, Loader2, CheckCircle, RotateCcw, Search, Wand2, Zap, Languages, Shrink, Plus, Trash2, Eye, EyeOff, FlaskConical, Pin } from 'lucide-react';
+import type { AIMode, BuiltinAIMode, CustomAIMode, PaperContext, ProjectPrompts, PromptPreview, SelectedFile } from '../types';
+import { parseContent } from '../utils/parser';
+import ModeIcon, { MODE_ICONS } from './ModeIcon';
+import PromptEvalPanel from './PromptEvalPanel';
+import { api } from '../api';
 
 interface SystemPromptModalProps {
 	isOpen: boolean;
 	projectId: string;
+	previewFile?: SelectedFile | null; // Paragraphs from this file fill the preview
 	onClose: () => void;
 }
 
+// {{variables}} the server expands from the paper before sending a prompt
+const PROMPT_VARIABLES: { name: string; description: string }[] = [
+	{ name: 'section_title', description: 'Title of the section that contains the paragraph' },
+	{ name: 'previous_paragraph', description: 'The paragraph before this one in the same file' },
+	{ name: 'next_paragraph', description: 'The paragraph after this one in the same file' },
+	{ name: 'abstract', description: "The paper's abstract" },
+	{ name: 'venue', description: 'Target venue (Paper Context)' },
+	{ name: 'glossary', description: 'Project glossary terms (Glossary panel); added to every prompt that does not place it' },
+	{ name: 'thoughts', description: "The paragraph's FW_THOUGHTS notes" },
+	{ name: 'style', description: 'Active style profile, learned from exemplar papers (Style Profiles)' }
+];
 
-
-const SystemPromptModal: React.FC<SystemPromptModalProps> = ({ isOpen, projectId, onClose }) => {
+const SystemPromptModal: React.FC<SystemPromptModalProps> = ({ isOpen, projectId, previewFile, onClose }) => {
 	const [prompts, setPrompts] = useState<ProjectPrompts | null>(null);
 	// Use 'system' as a special tab, plus the AIMode values
 	const [activeTab, setActiveTab] = useState<'system' | AIMode>('system');
 	const [isLoading, setIsLoading] = useState(false);
 	const [isSaving, setIsSaving] = useState(false);
 	const [saved, setSaved] = useState(false);
+	const [showPreview, setShowPreview] = useState(false);
+	const [previewItemIndex, setPreviewItemIndex] = useState(0);
+	const [preview, setPreview] = useState<PromptPreview | null>(null);
+	const [previewError, setPreviewError] = useState<string | null>(null);
+	const [isPreviewing, setIsPreviewing] = useState(false);
+	const [showEval, setShowEval] = useState(false);
+	const [pinnedContent, setPinnedContent] = useState<string | null>(null); // Last paragraph pinned as a fixture
+	const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+	const previewItems = useMemo(
+		() => (previewFile?.content ? parseContent(previewFile.content) : []),
+		[previewFile?.content]
+	);
+	const previewItem = previewItems[previewItemIndex] ?? previewItems[0];
 
 	// ESC key handler
 	useEffect(() => {
 		const handleEsc = (e: KeyboardEvent) => {
-			if (e.key === 'Escape' && isOpen && !isSaving) {
+			if (e.key === 'Escape' && isOpen && !isSaving && !showEval) {
 				onClose();
 			}
 		};
 		window.addEventListener('keydown', handleEsc);
 		return () => window.removeEventListener('keydown', handleEsc);
-	}, [isOpen, isSaving, onClose]);
+	}, [isOpen, isSaving, showEval, onClose]);
 
 	useEffect(() => {
 		if (isOpen && projectId) {
@@ -108,12 +129,128 @@ const SystemPromptModal: React.FC<SystemPromptModalProps> = ({ isOpen, projectId
 
 	const updateModePrompt = (mode: AIMode, value: string) => {
 		if (!prompts) return;
+		if (mode.startsWith('custom:')) {
+			updateCustomMode(mode, { userPrompt: value });
+			return;
+		}
 		setPrompts({
 			...prompts,
 			[mode]: { user: value }
 		});
 	};
 
+	const updateCustomMode = (id: AIMode, updates: Partial<CustomAIMode>) => {
+		if (!prompts) return;
+		setPrompts({
+			...prompts,
+			customModes: prompts.customModes.map(m => m.id === id ? { ...m, ...updates } : m)
+		});
+	};
+
+	const handleAddCustomMode = () => {
+		if (!prompts) return;
+		const mode: CustomAIMode = {
+			id: `custom:mode-${Date.now().toString(36)}`,
+			name: 'New Mode',
+			icon: 'sparkles',
+			userPrompt: '',
+			temperature: 0.3,
+			output: 'rewrite'
+		};
+		setPrompts({ ...prompts, customModes: [...prompts.customModes, mode] });
+		setActiveTab(mode.id);
+	};
+
+	const updatePaperContext = (updates: Partial<PaperContext>) => {
+		if (!prompts) return;
+		setPrompts({ ...prompts, context: { ...prompts.context, ...updates } });
+	};
+
+	// Insert {{name}} at the cursor of the active prompt
+	const insertVariable = (name: string) => {
+		if (!prompts) return;
+		const current = activeTab === 'system' ? prompts.system : getModePrompt(activeTab);
+		const textarea = textareaRef.current;
+		const start = textarea?.selectionStart ?? current.length;
+		const end = textarea?.selectionEnd ?? current.length;
+		const token = `{{${name}}}`;
+		const next = current.slice(0, start) + token + current.slice(end);
+
+		if (activeTab === 'system') updateSystemPrompt(next);
+		else updateModePrompt(activeTab, next);
+
+		requestAnimationFrame(() => {
+			textarea?.focus();
+			textarea?.setSelectionRange(start + token.length, start + token.length);
+		});
+	};
+
+	const getModePrompt = (mode: AIMode) => {
+		if (!prompts) return '';
+		const custom = prompts.customModes.find(m => m.id === mode);
+		return custom ? custom.userPrompt : prompts[mode as BuiltinAIMode]?.user ?? '';
+	};
+
+	// Re-expand the draft prompts shortly after each edit while the preview is open
+	useEffect(() => {
+		if (!isOpen || !showPreview || !prompts || !previewItem) return;
+
+		// The system tab previews as Refine, the default editing mode
+		const mode: AIMode = activeTab === 'system' ? 'refine' : activeTab;
+		const timer = setTimeout(async () => {
+			setIsPreviewing(true);
+			try {
+				const response = await fetch(`/api/prompts/${projectId}/preview`, {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({
+						mode,
+						content: previewItem.content,
+						systemPrompt: prompts.system,
+						userPrompt: getModePrompt(mode),
+						context: { filePath: previewFile?.path, lineStart: previewItem.lineStart, thoughts: previewItem.thoughts },
+						paperContext: prompts.context
+					})
+				});
+				const data = await response.json();
+				if (response.ok) {
+					setPreview(data);
+					setPreviewError(null);
+				} else {
+					setPreview(null);
+					setPreviewError(mode.startsWith('custom:') ? `${data.error}. Save the new mode to preview it.` : data.error);
+				}
+			} catch (error) {
+				setPreviewError(error instanceof Error ? error.message : String(error));
+			} finally {
+				setIsPreviewing(false);
+			}
+		}, 400);
+		return () => clearTimeout(timer);
+	}, [isOpen, showPreview, prompts, previewItem, activeTab, projectId, previewFile?.path]);
+
+	// Pin the previewed paragraph as a fixture for prompt evaluation
+	const handlePinFixture = async () => {
+		if (!previewItem || !previewFile?.path) return;
+		try {
+			await api.pinEvalFixture(projectId, {
+				filePath: previewFile.path,
+				lineStart: previewItem.lineStart,
+				content: previewItem.content,
+				thoughts: previewItem.thoughts
+			});
+			setPinnedContent(previewItem.content);
+		} catch (error) {
+			setPreviewError(error instanceof Error ? error.message : String(error));
+		}
+	};
+
+	const handleDeleteCustomMode = (id: AIMode) => {
+		if (!prompts || !confirm('Delete this mode?')) return;
+		setPrompts({ ...prompts, customModes: prompts.customModes.filter(m => m.id !== id) });
+		setActiveTab('system');
+	};
+
 	if (!isOpen) return null;
 
 	// Define all tabs including System
@@ -145,10 +282,40 @@ const SystemPromptModal: React.FC<SystemPromptModalProps> = ({ isOpen, projectId
 			icon: <Zap size={14} />,
 			color: 'green',
 			description: 'Check syntax and grammar errors only. Do not change meaning or sentence order.'
-		}
+		},
+		{
+			id: 'translate',
+			label: 'Translate',
+			icon: <Languages size={14} />,
+			color: 'sky',
+			description: 'Translate a Chinese or mixed draft into English LaTeX. The draft is kept above the paragraph as FW_SOURCE.'
+		},
+		{
+			id: 'compress',
+			label: 'Compress',
+			icon: <Shrink size={14} />,
+			color: 'rose',
+			description: 'Shorten text to fit the page limit while keeping its claims. Used per paragraph by Compress to budget.'
+		},
+		...(prompts?.customModes || []).map(mode => ({
+			id: mode.id,
+			label: mode.name || 'Untitled',
+			icon: <ModeIcon icon={mode.icon} size={14} />,
+			color: 'orange',
+			description: mode.output === 'rewrite'
+				? 'Custom mode: the reply replaces the text and is shown as a diff.'
+				: 'Custom mode: the reply is commentary and is shown as text.'
+		}))
 	];
 
-	const activeTabConfig = TABS.find(t => t.id === activeTab)!;
+	const activeTabConfig = TABS.find(t => t.id === activeTab) || TABS[0]!;
+	const activeCustomMode = prompts?.customModes.find(m => m.id === activeTab);
+
+	// Only modes that rewrite the paragraph can be evaluated; the system tab evaluates as Refine
+	const evalMode: AIMode = activeTab === 'system' ? 'refine' : activeTab;
+	const evalDraft = prompts && evalMode !== 'diagnose' && activeCustomMode?.output !== 'commentary'
+		? { mode: evalMode, modeLabel: TABS.find(t => t.id === evalMode)?.label ?? evalMode, system: prompts.system, user: getModePrompt(evalMode) }
+		: null;
 
 	return createPortal(
 		<div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-[100]">
@@ -161,7 +328,10 @@ const SystemPromptModal: React.FC<SystemPromptModalProps> = ({ isOpen, projectId
 							<div className={`p-2 rounded-lg shrink-0 mt-0.5 self-start ${activeTab === 'system' ? 'bg-blue-100 text-blue-600' :
 								activeTab === 'diagnose' ? 'bg-amber-100 text-amber-600' :
 									activeTab === 'refine' ? 'bg-purple-100 text-purple-600' :
-										'bg-green-100 text-green-600'
+										activeTab === 'quickfix' ? 'bg-green-100 text-green-600' :
+											activeTab === 'translate' ? 'bg-sky-100 text-sky-600' :
+												activeTab === 'compress' ? 'bg-rose-100 text-rose-600' :
+													'bg-orange-100 text-orange-600'
 								}`}>
 								{activeTabConfig.icon}
 							</div>
@@ -224,7 +394,10 @@ const SystemPromptModal: React.FC<SystemPromptModalProps> = ({ isOpen, projectId
 										blue: 'text-blue-700 border-blue-500 bg-blue-50',
 										amber: 'text-amber-700 border-amber-500 bg-amber-50',
 										purple: 'text-purple-700 border-purple-500 bg-purple-50',
-										green: 'text-green-700 border-green-500 bg-green-50'
+										green: 'text-green-700 border-green-500 bg-green-50',
+										sky: 'text-sky-700 border-sky-500 bg-sky-50',
+										rose: 'text-rose-700 border-rose-500 bg-rose-50',
+										orange: 'text-orange-700 border-orange-500 bg-orange-50'
 									}[tab.color] || 'text-slate-700 border-slate-500';
 
 									return (
@@ -241,26 +414,185 @@ const SystemPromptModal: React.FC<SystemPromptModalProps> = ({ isOpen, projectId
 										</button>
 									);
 								})}
+								<button
+									onClick={handleAddCustomMode}
+									disabled={isSaving}
+									className="flex items-center gap-1.5 px-3 py-2.5 text-sm font-medium text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-t-lg transition-colors whitespace-nowrap disabled:opacity-50"
+									title="Add a custom AI mode"
+								>
+									<Plus size={14} />
+									New Mode
+								</button>
 							</div>
 
 							{/* Input Area - Takes remaining height */}
 							<div className="flex-1 p-6 bg-slate-50 overflow-hidden flex flex-col">
-								<div className="flex-1 flex flex-col relative">
-									<textarea
-										value={activeTab === 'system' ? prompts.system : prompts[activeTab].user}
-										onChange={(e) => activeTab === 'system'
-											? updateSystemPrompt(e.target.value)
-											: updateModePrompt(activeTab as AIMode, e.target.value)
-										}
-										placeholder={`Enter ${activeTab === 'system' ? 'System' : activeTabConfig.label} prompt...`}
-										className="w-full h-full p-6 text-sm font-mono border border-slate-200 rounded-xl resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white shadow-sm leading-relaxed"
-										disabled={isSaving}
-										spellCheck={false}
-									/>
+								{/* Paper context: value for {{venue}} */}
+								{activeTab === 'system' && (
+									<div className="mb-4 flex flex-wrap items-start gap-4">
+										<label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+											Venue
+											<input
+												type="text"
+												value={prompts.context.venue}
+												onChange={(e) => updatePaperContext({ venue: e.target.value })}
+												disabled={isSaving}
+												placeholder="e.g. USENIX Security 2026"
+												className="w-56 px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+											/>
+										</label>
+										<p className="flex-1 min-w-[240px] self-end pb-2 text-xs text-slate-500">
+											Terms for <span className="font-mono">{'{{glossary}}'}</span> are kept in the Glossary panel.
+										</p>
+									</div>
+								)}
+								{/* Custom mode settings */}
+								{activeCustomMode && (
+									<div className="mb-4 flex flex-wrap items-end gap-4">
+										<label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+											Name
+											<input
+												type="text"
+												value={activeCustomMode.name}
+												onChange={(e) => updateCustomMode(activeCustomMode.id, { name: e.target.value })}
+												disabled={isSaving}
+												className="w-56 px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+											/>
+										</label>
+										<div className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+											Icon
+											<div className="flex items-center gap-1 bg-white border border-slate-200 rounded-lg p-1">
+												{Object.keys(MODE_ICONS).map(icon => (
+													<button
+														key={icon}
+														onClick={() => updateCustomMode(activeCustomMode.id, { icon })}
+														className={`p-1 rounded transition-colors ${activeCustomMode.icon === icon ? 'bg-orange-100 text-orange-600' : 'text-slate-400 hover:text-slate-700 hover:bg-slate-100'}`}
+														title={icon}
+													>
+														<ModeIcon icon={icon} size={14} />
+													</button>
+												))}
+											</div>
+										</div>
+										<label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+											Temperature ({activeCustomMode.temperature.toFixed(1)})
+											<input
+												type="range"
+												min={0}
+												max={1.5}
+												step={0.1}
+												value={activeCustomMode.temperature}
+												onChange={(e) => updateCustomMode(activeCustomMode.id, { temperature: parseFloat(e.target.value) })}
+												disabled={isSaving}
+												className="w-32"
+											/>
+										</label>
+										<label className="flex flex-col gap-1 text-xs font-medium text-slate-600">
+											Output
+											<select
+												value={activeCustomMode.output}
+												onChange={(e) => updateCustomMode(activeCustomMode.id, { output: e.target.value as CustomAIMode['output'] })}
+												disabled={isSaving}
+												className="px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+											>
+												<option value="rewrite">Rewrite (diff)</option>
+												<option value="commentary">Commentary</option>
+											</select>
+										</label>
+										<button
+											onClick={() => handleDeleteCustomMode(activeCustomMode.id)}
+											disabled={isSaving}
+											className="ml-auto px-3 py-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors text-sm font-medium flex items-center gap-1.5 disabled:opacity-50"
+										>
+											<Trash2 size={14} />
+											Delete Mode
+										</button>
+									</div>
+								)}
+								<div className="flex-1 flex flex-col relative min-h-0">
+									<div className="flex-1 flex gap-4 min-h-0">
+										<textarea
+											ref={textareaRef}
+											value={activeTab === 'system' ? prompts.system : activeCustomMode ? activeCustomMode.userPrompt : prompts[activeTab as BuiltinAIMode].user}
+											onChange={(e) => activeTab === 'system'
+												? updateSystemPrompt(e.target.value)
+												: updateModePrompt(activeTab as AIMode, e.target.value)
+											}
+											placeholder={`Enter ${activeTab === 'system' ? 'System' : activeTabConfig.label} prompt...`}
+											className="flex-1 min-w-0 h-full p-6 text-sm font-mono border border-slate-200 rounded-xl resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white shadow-sm leading-relaxed"
+											disabled={isSaving}
+											spellCheck={false}
+										/>
+										{showPreview && (
+											<div className="w-1/2 shrink-0 flex flex-col border border-slate-200 rounded-xl bg-white shadow-sm overflow-hidden">
+												<div className="px-4 py-2 border-b border-slate-100 flex items-center gap-2 text-xs text-slate-500">
+													<span className="font-medium text-slate-600 shrink-0">
+														Preview{activeTab === 'system' ? ' (as Refine)' : ''}
+													</span>
+													{previewItems.length > 0 && (
+														<select
+															value={Math.min(previewItemIndex, previewItems.length - 1)}
+															onChange={(e) => setPreviewItemIndex(parseInt(e.target.value, 10))}
+															className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded text-xs"
+														>
+															{previewItems.map((item, index) => (
+																<option key={item.id} value={index}>
+																	L{item.lineStart}: {item.content.slice(0, 60)}
+																</option>
+															))}
+														</select>
+													)}
+													{previewItem && previewFile?.path && (
+														<button
+															onClick={handlePinFixture}
+															disabled={pinnedContent === previewItem.content}
+															className="p-1 shrink-0 rounded text-slate-400 hover:text-teal-600 hover:bg-slate-100 disabled:text-teal-600 disabled:hover:bg-transparent"
+															title={pinnedContent === previewItem.content ? 'Pinned as an evaluation fixture' : 'Pin this paragraph as an evaluation fixture'}
+														>
+															<Pin size={12} />
+														</button>
+													)}
+													{isPreviewing && <Loader2 size={12} className="animate-spin shrink-0" />}
+												</div>
+												<div className="flex-1 overflow-auto p-4 space-y-4">
+													{!previewItem ? (
+														<p className="text-xs text-slate-400">Open a .tex file in the editor to preview prompts against its paragraphs.</p>
+													) : previewError ? (
+														<p className="text-xs text-red-600">{previewError}</p>
+													) : preview?.messages.map((message, index) => (
+														<div key={index}>
+															<div className="text-[10px] font-bold uppercase tracking-wide text-slate-400 mb-1">{message.role}</div>
+															<pre className="text-xs font-mono text-slate-700 whitespace-pre-wrap break-words leading-relaxed">{message.content}</pre>
+														</div>
+													))}
+												</div>
+											</div>
+										)}
+									</div>
 									{/* Context Helper Text */}
-									<div className="mt-2 text-xs text-slate-400 flex justify-end px-1">
-										<span className="font-mono">
-											{activeTab === 'system' ? prompts.system.length : prompts[activeTab as AIMode].user.length} characters
+									<div className="mt-2 text-xs text-slate-400 flex items-center justify-between gap-4 px-1">
+										<div className="flex flex-wrap items-center gap-1.5">
+											{PROMPT_VARIABLES.map(variable => (
+												<button
+													key={variable.name}
+													onClick={() => insertVariable(variable.name)}
+													disabled={isSaving}
+													className="px-1.5 py-0.5 font-mono bg-white border border-slate-200 rounded hover:border-blue-300 hover:text-blue-600 transition-colors disabled:opacity-50"
+													title={variable.description}
+												>
+													{`{{${variable.name}}}`}
+												</button>
+											))}
+											<button
+												onClick={() => setShowPreview(prev => !prev)}
+												className="ml-2 px-2 py-0.5 flex items-center gap-1 text-slate-500 hover:text-blue-600 hover:bg-white rounded transition-colors"
+											>
+												{showPreview ? <EyeOff size={12} /> : <Eye size={12} />}
+												{showPreview ? 'Hide preview' : 'Preview'}
+											</button>
+										</div>
+										<span className="font-mono shrink-0">
+											{(activeTab === 'system' ? prompts.system : activeCustomMode ? activeCustomMode.userPrompt : prompts[activeTab as BuiltinAIMode].user).length} characters
 										</span>
 									</div>
 								</div>
@@ -283,6 +615,15 @@ const SystemPromptModal: React.FC<SystemPromptModalProps> = ({ isOpen, projectId
 						<RotateCcw size={16} />
 						Reset to Defaults
 					</button>
+					<button
+						onClick={() => setShowEval(true)}
+						disabled={isLoading || !prompts}
+						className="mr-auto ml-2 px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+						title="Run prompt versions over pinned paragraphs and compare the results"
+					>
+						<FlaskConical size={16} />
+						Evaluate
+					</button>
 					<div className="flex gap-3">
 						<button
 							onClick={onClose}
@@ -316,6 +657,12 @@ const SystemPromptModal: React.FC<SystemPromptModalProps> = ({ isOpen, projectId
 					</div>
 				</div>
 			</div>
+			<PromptEvalPanel
+				isOpen={showEval}
+				projectId={projectId}
+				draft={evalDraft}
+				onClose={() => setShowEval(false)}
+			/>
 		</div>,
 		document.body
 	);
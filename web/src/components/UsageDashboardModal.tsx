@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X, BarChart3, Loader2 } from 'lucide-react';
+import { api } from '../api';
+import type { Project, UsageGroup, UsageReport } from '../types';
+
+interface UsageDashboardModalProps {
+	isOpen: boolean;
+	onClose: () => void;
+}
+
+function formatCost(cost: number): string {
+	return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+	if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+	if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+	return String(tokens);
+}
+
+const UsageTable: React.FC<{ title: string; rows: UsageGroup[]; label: (key: string) => string }> = ({ title, rows, label }) => (
+	<div>
+		<h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">{title}</h4>
+		{rows.length === 0 ? (
+			<p className="text-xs text-slate-400">No calls.</p>
+		) : (
+			<table className="w-full text-xs">
+				<thead>
+					<tr className="text-slate-400 text-left">
+						<th className="font-medium py-1"></th>
+						<th className="font-medium py-1 text-right">Calls</th>
+						<th className="font-medium py-1 text-right">Tokens in / out</th>
+						<th className="font-medium py-1 text-right">Cost</th>
+					</tr>
+				</thead>
+				<tbody>
+					{rows.map(row => (
+						<tr key={row.key} className="border-t border-slate-100 text-slate-700">
+							<td className="py-1.5 pr-2 truncate max-w-[180px]" title={label(row.key)}>{label(row.key)}</td>
+							<td className="py-1.5 text-right tabular-nums">{row.calls}</td>
+							<td className="py-1.5 text-right tabular-nums">{formatTokens(row.promptTokens)} / {formatTokens(row.completionTokens)}</td>
+							<td className="py-1.5 text-right tabular-nums font-medium">{formatCost(row.cost)}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		)}
+	</div>
+);
+
+const UsageDashboardModal: React.FC<UsageDashboardModalProps> = ({ isOpen, onClose }) => {
+	const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+	const [projectId, setProjectId] = useState('');
+	const [projects, setProjects] = useState<Project[]>([]);
+	const [report, setReport] = useState<UsageReport | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+
+	useEffect(() => {
+		if (isOpen) {
+			api.getProjects().then(data => setProjects(data || []));
+		}
+	}, [isOpen]);
+
+	useEffect(() => {
+		if (!isOpen || !month) return;
+		setIsLoading(true);
+		api.getUsage(month, projectId || undefined)
+			.then(setReport)
+			.finally(() => setIsLoading(false));
+	}, [isOpen, month, projectId]);
+
+	if (!isOpen) return null;
+
+	const projectName = (id: string) => (id ? projects.find(p => p.id === id)?.name || id : 'No project');
+	const modeName = (mode: string) => mode.replace(/^custom:/, '');
+
+	// Bars show cost; when nothing is priced, fall back to tokens so the chart is still useful
+	const byDay = report?.byDay || [];
+	const hasCost = byDay.some(d => d.cost > 0);
+	const dayValue = (d: UsageGroup) => (hasCost ? d.cost : d.promptTokens + d.completionTokens);
+	const maxDayValue = Math.max(...byDay.map(dayValue), 0);
+
+	return createPortal(
+		<div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-[110]">
+			<div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden">
+				{/* Header */}
+				<div className="px-6 py-4 border-b border-slate-200 bg-gradient-to-r from-purple-50 to-blue-50 flex items-center justify-between">
+					<div className="flex items-center gap-3">
+						<div className="p-2 bg-purple-100 rounded-lg">
+							<BarChart3 size={20} className="text-purple-600" />
+						</div>
+						<div>
+							<h2 className="text-lg font-bold text-slate-800">Usage</h2>
+							<p className="text-xs text-slate-500">Tokens and cost of every AI call</p>
+						</div>
+					</div>
+					<div className="flex items-center gap-2">
+						<input
+							type="month"
+							value={month}
+							onChange={(e) => setMonth(e.target.value)}
+							className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm"
+						/>
+						<select
+							value={projectId}
+							onChange={(e) => setProjectId(e.target.value)}
+							className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm max-w-[180px]"
+						>
+							<option value="">All projects</option>
+							{projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+						</select>
+						<button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+							<X size={20} className="text-slate-500" />
+						</button>
+					</div>
+				</div>
+
+				{/* Content */}
+				<div className="flex-1 overflow-y-auto p-6 space-y-6">
+					{isLoading && !report ? (
+						<div className="flex justify-center py-12">
+							<Loader2 size={24} className="animate-spin text-blue-500" />
+						</div>
+					) : !report ? (
+						<p className="text-sm text-slate-400 text-center py-12">Failed to load usage.</p>
+					) : (
+						<>
+							<div className="grid grid-cols-4 gap-3">
+								{[
+									{ label: 'Calls', value: String(report.totals.calls) },
+									{ label: 'Prompt tokens', value: formatTokens(report.totals.promptTokens) },
+									{ label: 'Completion tokens', value: formatTokens(report.totals.completionTokens) },
+									{ label: 'Cost', value: formatCost(report.totals.cost) }
+								].map(stat => (
+									<div key={stat.label} className="p-3 bg-slate-50 border border-slate-200 rounded-lg">
+										<div className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">{stat.label}</div>
+										<div className="text-lg font-bold text-slate-800 tabular-nums">{stat.value}</div>
+									</div>
+								))}
+							</div>
+
+							{/* Budgets are per provider and ignore the project filter */}
+							{report.budgets.some(b => b.monthlyBudget) && (
+								<div>
+									<h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Monthly budgets</h4>
+									<div className="space-y-2">
+										{report.budgets.filter(b => b.monthlyBudget).map(b => {
+											const ratio = Math.min(b.spent / b.monthlyBudget!, 1);
+											return (
+												<div key={b.providerId} className="flex items-center gap-3 text-xs">
+													<span className="w-32 truncate text-slate-700 font-medium">{b.name}</span>
+													<div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+														<div
+															className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-green-500'}`}
+															style={{ width: `${ratio * 100}%` }}
+														/>
+													</div>
+													<span className="tabular-nums text-slate-500">{formatCost(b.spent)} / {formatCost(b.monthlyBudget!)}</span>
+												</div>
+											);
+										})}
+									</div>
+								</div>
+							)}
+
+							<div>
+								<h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
+									Per day {hasCost ? '(cost)' : '(tokens)'}
+								</h4>
+								{byDay.length === 0 ? (
+									<p className="text-xs text-slate-400">No calls this month.</p>
+								) : (
+									<div className="flex items-end gap-1 h-28">
+										{byDay.map(day => (
+											<div
+												key={day.key}
+												className="flex-1 min-w-[6px] bg-blue-500/80 hover:bg-blue-600 rounded-t"
+												style={{ height: `${maxDayValue ? Math.max((dayValue(day) / maxDayValue) * 100, 2) : 2}%` }}
+												title={`${day.key}: ${day.calls} calls, ${formatTokens(day.promptTokens + day.completionTokens)} tokens, ${formatCost(day.cost)}`}
+											/>
+										))}
+									</div>
+								)}
+							</div>
+
+							<div className="grid grid-cols-2 gap-6">
+								<UsageTable title="Per mode" rows={report.byMode} label={modeName} />
+								<UsageTable title="Per model" rows={report.byModel} label={key => key} />
+							</div>
+							{!projectId && <UsageTable title="Per project" rows={report.byProject} label={projectName} />}
+						</>
+					)}
+				</div>
+			</div>
+		</div>,
+		document.body
+	);
+};
+
+export default UsageDashboardModal;
@@ -0,0 +1,85 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Check } from 'lucide-react';
+import { diffHunks, sentenceHunks, hunksConflict, applyHunks, hunkSegments, type Hunk } from '../utils/hunks';
+
+interface VariantMixerProps {
+  original: string;
+  variants: { content: string; temperature: number }[];
+  onChange: (finalText: string) => void; // The text Accept will apply
+}
+
+interface Pick {
+  variant: number;
+  hunk: Hunk;
+}
+
+// Tabs over the variants of one request. The final text is the open variant,
+// or, once sentences are picked, the original with the picked sentences in.
+const VariantMixer: React.FC<VariantMixerProps> = ({ original, variants, onChange }) => {
+  const [active, setActive] = useState(0);
+  const [picks, setPicks] = useState<Pick[]>([]);
+
+  const hunks = useMemo(() => variants.map(v => sentenceHunks(original, diffHunks(original, v.content))), [original, variants]);
+  const finalText = picks.length > 0 ? applyHunks(original, picks.map(p => p.hunk)) : variants[active]?.content ?? original;
+
+  useEffect(() => onChange(finalText), [finalText]);
+
+  // A sentence can only come from one variant
+  const togglePick = (hunk: Hunk) => {
+    setPicks(prev => prev.some(p => p.hunk === hunk)
+      ? prev.filter(p => p.hunk !== hunk)
+      : [...prev.filter(p => !hunksConflict(p.hunk, hunk)), { variant: active, hunk }]);
+  };
+
+  const pickedFrom = [...new Set(picks.map(p => p.variant + 1))].sort((a, b) => a - b);
+
+  return (
+    <div className="border-b border-slate-200">
+      <div className="flex items-center gap-1 px-3 pt-2 border-b border-slate-100">
+        {variants.map((variant, index) => {
+          const count = picks.filter(p => p.variant === index).length;
+          return (
+            <button
+              key={index}
+              onClick={() => setActive(index)}
+              className={`px-3 py-1.5 text-xs rounded-t-lg border-b-2 transition-colors ${index === active ? 'border-blue-500 text-blue-700 bg-blue-50/50' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+              title={`Temperature ${variant.temperature}`}
+            >
+              Variant {index + 1}
+              {count > 0 && <span className="ml-1 px-1 rounded bg-blue-100 text-blue-700 text-[10px]">{count}</span>}
+            </button>
+          );
+        })}
+        <span className="ml-auto text-[11px] text-slate-500">
+          {picks.length > 0 ? (
+            <>
+              Final: {picks.length} sentence{picks.length === 1 ? '' : 's'} from variant{pickedFrom.length === 1 ? '' : 's'} {pickedFrom.join(', ')}
+              <button onClick={() => setPicks([])} className="ml-2 text-blue-600 hover:text-blue-700">Reset</button>
+            </>
+          ) : `Final: variant ${active + 1}`}
+        </span>
+      </div>
+      <div className="max-h-48 overflow-auto px-3 py-2 text-sm font-mono leading-relaxed whitespace-pre-wrap break-words">
+        {hunks[active]!.length === 0 ? (
+          <span className="text-xs text-slate-400 font-sans">No changes in this variant.</span>
+        ) : hunkSegments(original, hunks[active]!).map((segment, i) => {
+          if (segment.type === 'text') return <span key={i} className="text-slate-500">{segment.text}</span>;
+          const picked = picks.some(p => p.hunk === segment.hunk);
+          return (
+            <span
+              key={i}
+              onClick={() => togglePick(segment.hunk)}
+              className={`cursor-pointer rounded ${picked ? 'bg-blue-50 ring-2 ring-blue-400' : 'hover:ring-1 hover:ring-blue-300'}`}
+              title={picked ? 'Drop this sentence from the final text' : 'Use this sentence in the final text'}
+            >
+              {picked ? <Check size={11} className="inline mr-0.5 text-blue-600" /> : <Plus size={11} className="inline mr-0.5 text-slate-400" />}
+              <span className="text-slate-800">{segment.hunk.added || <span className="line-through text-red-700">{segment.hunk.removed}</span>}</span>
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VariantMixer;
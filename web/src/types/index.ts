@@ -1,3 +1,5 @@
+import type { StyleMetrics } from '../utils/style';
+
 // Project Types
 export interface Project {
   id: string;
@@ -52,12 +54,47 @@ export interface SectionNode {
   lineStart?: number;
   filePath?: string;
   parentId?: string;
+  thoughts?: string[]; // FW_THOUGHTS of the paragraphs under this heading
   children?: SectionNode[];
 }
 
 // Editor Types
 export type ViewMode = 'section' | 'paragraph' | 'sentence';
-export type AIMode = 'diagnose' | 'refine' | 'quickfix';
+export type BuiltinAIMode = 'diagnose' | 'refine' | 'quickfix' | 'translate' | 'compress';
+// Custom modes are defined per project (prompts.json) and referenced by "custom:<slug>"
+export type AIMode = BuiltinAIMode | `custom:${string}`;
+
+export interface CustomAIMode {
+  id: `custom:${string}`;
+  name: string;
+  icon: string; // Key of MODE_ICONS in ModeIcon.tsx
+  userPrompt: string;
+  temperature: number;
+  output: 'rewrite' | 'commentary'; // rewrite = diffable replacement text
+}
+
+// Project-specific prompts: shared system prompt + per-mode user prompts
+export interface ProjectPrompts {
+  system: string;
+  diagnose: { user: string };
+  refine: { user: string };
+  quickfix: { user: string };
+  translate: { user: string };
+  compress: { user: string };
+  customModes: CustomAIMode[];
+  context: PaperContext;
+}
+
+// Project-wide value for the {{venue}} prompt variable; {{glossary}} comes from the Glossary panel
+export interface PaperContext {
+  venue: string;
+}
+
+// Prompt preview: the messages a request would send, with {{variables}} expanded
+export interface PromptPreview {
+  messages: { role: 'system' | 'user' | 'assistant'; content: string }[];
+  variables: Record<string, string>;
+}
 
 export interface TextItem {
   id: string;
@@ -69,10 +106,333 @@ export interface TextItem {
   aiMode?: AIMode;
   aiTimestamp?: string;
   thoughts?: string;
+  source?: string; // FW_SOURCE: the draft a translated paragraph was made from
   level?: number;
   children?: TextItem[];
 }
 
+// Batch AI jobs (mirrors src/batchJobs.ts)
+export type BatchJobStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+export type BatchReview = 'pending' | 'accepted' | 'rejected';
+
+export interface BatchJobItem {
+  itemId: string;
+  content: string; // The paragraph as it was sent
+  lineStart: number;
+  thoughts?: string;
+  status: BatchItemStatus;
+  result?: string;
+  error?: string;
+  review: BatchReview;
+}
+
+export interface BatchJob {
+  id: string;
+  projectId: string;
+  filePath: string;
+  mode: AIMode;
+  userPrompt?: string;
+  concurrency: number;
+  status: BatchJobStatus;
+  items: BatchJobItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Research agent sessions (mirrors src/researchAgent.ts)
+export type AgentTool = 'list' | 'read' | 'write' | 'edit' | 'finish';
+export type AgentStepStatus = 'done' | 'failed' | 'awaiting-approval' | 'approved' | 'rejected';
+export type AgentSessionStatus = 'running' | 'awaiting-approval' | 'finished' | 'failed' | 'stopped';
+
+export interface AgentProposal {
+  path: string; // Relative to the project root
+  before: string;
+  after: string;
+}
+
+export interface AgentStep {
+  id: string;
+  tool: AgentTool;
+  thought: string;
+  args: Record<string, string>;
+  status: AgentStepStatus;
+  result?: string;
+  proposal?: AgentProposal;
+  feedback?: string;
+  createdAt: string;
+}
+
+export interface AgentSession {
+  id: string;
+  projectId: string;
+  goal: string;
+  status: AgentSessionStatus;
+  steps: AgentStep[];
+  summary?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Whole-paper mock review (mirrors src/paperReview.ts)
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string;
+  max: number; // Scores run from 1 to max
+}
+
+export interface ReviewRubric {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  criteria: RubricCriterion[];
+}
+
+export interface ReviewScore {
+  criterionId: string;
+  name: string;
+  score: number | null;
+  max: number;
+  justification: string;
+}
+
+export interface PaperReview {
+  id: string;
+  projectId: string;
+  version?: number; // Set once the review is saved
+  label?: string;
+  status: 'running' | 'completed' | 'failed';
+  progress: { done: number; total: number };
+  rubric: ReviewRubric;
+  model?: string;
+  chunks?: number;
+  words?: number;
+  summary?: string;
+  strengths?: string[];
+  weaknesses?: string[];
+  questions?: string[];
+  scores?: ReviewScore[];
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+// Imported reviewer comments (mirrors src/reviewerComments.ts)
+export type ReviewerCommentStatus = 'open' | 'addressed' | 'wontfix';
+
+export interface CommentMatch {
+  filePath: string;
+  itemId: string;
+  lineStart: number;
+  excerpt: string;
+  score: number;
+}
+
+export interface ReviewerComment {
+  id: string;
+  reviewer: string;
+  category?: string;
+  text: string;
+  status: ReviewerCommentStatus;
+  note?: string;
+  matches: CommentMatch[];
+  backups?: string[]; // Backup ids of the edits that addressed it
+  resolvedAt?: string;
+}
+
+export interface ReviewerCommentImport {
+  id: string;
+  name: string;
+  importedAt: string;
+  comments: ReviewerComment[];
+  rebuttal?: { content: string; model: string; createdAt: string };
+}
+
+// Chat with the whole paper (mirrors src/paperChat.ts)
+export interface PaperChatSource {
+  label: string; // Anchor, e.g. "sections/eval.tex:42"
+  filePath: string;
+  lineStart: number;
+  section?: string;
+  excerpt: string;
+  score: number;
+  cited: boolean;
+}
+
+export interface PaperChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources?: PaperChatSource[];
+  model?: string;
+  createdAt: string;
+}
+
+// Claim-evidence check (mirrors src/claimCheck.ts)
+export type ClaimStatus = 'supported' | 'contradicted' | 'missing' | 'unchecked';
+
+export interface ClaimEvidence {
+  label: string;
+  filePath: string;
+  line: number;
+  section?: string;
+  excerpt: string;
+}
+
+export interface QuantityCheck {
+  claimed: string;
+  status: Exclude<ClaimStatus, 'unchecked'>;
+  found?: string;
+  evidence?: ClaimEvidence;
+  byValueOnly?: boolean;
+}
+
+export interface ClaimFinding {
+  id: string;
+  text: string;
+  label: string;
+  filePath: string;
+  line: number;
+  origin: 'abstract' | 'introduction';
+  kind: 'numeric' | 'contribution';
+  status: ClaimStatus;
+  method?: 'numeric' | 'semantic';
+  quantities: QuantityCheck[];
+  evidence: ClaimEvidence[];
+  note?: string;
+}
+
+export interface ClaimReport {
+  createdAt: string;
+  model?: string;
+  claims: ClaimFinding[];
+  summary: Record<ClaimStatus, number>;
+}
+
+// Log of accepted AI edits (mirrors src/changeLog.ts)
+export interface ChangeLogEntry {
+  id: string;
+  timestamp: string;
+  filePath: string;
+  lineStart: number;
+  lineEnd: number;
+  section?: { title: string; level: number };
+  mode: string; // AI mode, or "thoughts" for paragraphs drafted from FW_THOUGHTS
+  model?: string;
+  before: string;
+  after: string;
+  reason?: string;
+}
+
+export type ChangeExportFormat = 'markdown' | 'latex';
+export type ChangeExportKind = 'changelog' | 'summary';
+
+// Style profile learned from exemplar papers (mirrors src/styleProfile.ts)
+export interface StyleProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+  sources: { name: string; words: number }[];
+  metrics: StyleMetrics;
+}
+
+// Prompt evaluation harness (mirrors src/promptEval.ts)
+export interface EvalFixture {
+  id: string;
+  filePath: string;
+  lineStart: number;
+  content: string;
+  thoughts?: string;
+  pinnedAt: string;
+}
+
+export interface PromptVersion {
+  id: string;
+  label: string;
+  mode: AIMode;
+  system: string;
+  user: string;
+  createdAt: string;
+}
+
+export interface EvalStats {
+  editRatio: number; // Share of words changed, 0 to 1
+  lengthDelta: number; // Relative change in word count
+  preservedCommands: number; // Share of LaTeX commands and keys kept, 0 to 1
+  violations: number;
+}
+
+export interface EvalRun {
+  id: string;
+  versionId: string;
+  versionLabel: string;
+  mode: AIMode;
+  model: string;
+  createdAt: string;
+  outputs: { fixtureId: string; content?: string; error?: string; stats?: EvalStats }[];
+  summary: EvalStats & { failures: number };
+}
+
+export interface PromptEvals {
+  fixtures: EvalFixture[];
+  versions: PromptVersion[];
+  runs: EvalRun[]; // Newest first
+}
+
+// LLM audit log (mirrors src/auditLog.ts)
+export type AuditStatus = 'ok' | 'cached' | 'error' | 'aborted';
+
+export interface AuditMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AuditSummary {
+  id: string;
+  timestamp: string;
+  mode: string;
+  stream: boolean;
+  providerId?: string;
+  providerName: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  status: AuditStatus;
+  error?: string;
+  latencyMs: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  cost?: number;
+  estimated?: boolean;
+  failovers?: number;
+  replayOf?: string;
+  preview: string;
+}
+
+export interface AuditEntry extends Omit<AuditSummary, 'preview'> {
+  messages: AuditMessage[];
+  response?: string;
+}
+
+// Response cache entry (mirrors src/responseCache.ts)
+export interface CachedResponse {
+  key: string;
+  provider: string;
+  model: string;
+  mode: string;
+  temperature?: number;
+  system: string;
+  user: string;
+  history: { role: string; content: string }[];
+  response: string;
+  createdAt: string;
+  lastUsedAt: string;
+  hits: number;
+  bytes: number;
+}
+
 // Diff Types
 export interface DiffChange {
   type: 'addition' | 'deletion' | 'modification';
@@ -101,16 +461,109 @@ export interface Backup {
   content: string;
 }
 
+// Wire protocol of an LLM provider ('openai' covers any OpenAI-compatible server)
+export type ProviderKind = 'openai' | 'anthropic' | 'ollama' | 'azure';
+
 // LLM Provider for multi-API management
 export interface LLMProvider {
   id: string;
   name: string;
+  kind?: ProviderKind;
   baseUrl: string;
   apiKey: string;
+  apiVersion?: string;
   models: string[];
   selectedModel: string;
   isActive: boolean;
   createdAt: number;
+  pricing?: Record<string, ModelPricing>; // Per model
+  monthlyBudget?: number; // USD
+}
+
+// Side-by-side model comparison (mirrors src/llmService.ts)
+export interface CompareTarget {
+  providerId: string;
+  model: string;
+}
+
+export interface CompareCandidate extends CompareTarget {
+  providerName: string;
+  content?: string;
+  error?: string; // Set instead of content when this target failed
+  cached?: boolean;
+}
+
+// Several rewrites of one request (mirrors src/llmService.ts)
+export interface AIVariants {
+  variants: { content: string; temperature: number }[];
+  model: string;
+  sampling: 'n' | 'parallel'; // One call with the provider's n parameter, or one call per variant
+  failovers?: FailoverEvent[];
+}
+
+// Provider failover (mirrors src/llmFailover.ts)
+export interface FailoverTarget {
+  providerId: string;
+  model: string;
+}
+
+export interface FailoverSettings {
+  enabled: boolean;
+  chain: FailoverTarget[];
+  maxRetries: number;
+  baseDelayMs: number;
+}
+
+export interface FailoverEvent {
+  timestamp: string;
+  provider: string;
+  model: string;
+  reason: string;
+  status?: number;
+  attempts: number;
+  next?: string;
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// Token and cost usage (mirrors src/usageTracker.ts)
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export type UsageGroup = UsageTotals & { key: string };
+
+export interface UsageReport {
+  month: string;
+  totals: UsageTotals;
+  byDay: UsageGroup[];
+  byMode: UsageGroup[];
+  byProject: UsageGroup[];
+  byModel: UsageGroup[];
+  budgets: { providerId: string; name: string; monthlyBudget?: number; spent: number }[];
+}
+
+// Structured Diagnose output: one issue anchored to an exact quote of a paragraph
+export type IssueSeverity = 'high' | 'medium' | 'low';
+export type IssueCategory = 'logic' | 'clarity' | 'claim' | 'structure';
+export type IssueStatus = 'open' | 'resolved' | 'dismissed';
+
+export interface DiagnoseIssue {
+  id: string;
+  severity: IssueSeverity;
+  category: IssueCategory;
+  quote: string;
+  message: string;
+  suggestion?: string;
+  status: IssueStatus;
+  createdAt: string;
 }
 
 export interface ChatMessage {
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getChangedRegion } from './agent';
+
+const lines = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}`);
+
+describe('agent', () => {
+  describe('getChangedRegion', () => {
+    it('should keep only the changed lines and their context', () => {
+      const before = lines(20);
+      const after = [...before];
+      after[9] = 'line 10 rewritten';
+
+      const region = getChangedRegion({ path: 'main.tex', before: before.join('\n'), after: after.join('\n') }, 2);
+      expect(region.before).toBe('line 8\nline 9\nline 10\nline 11\nline 12');
+      expect(region.after).toBe('line 8\nline 9\nline 10 rewritten\nline 11\nline 12');
+      expect(region).toMatchObject({ startLine: 8, hiddenAbove: 7, hiddenBelow: 8 });
+    });
+
+    it('should handle insertions and new files', () => {
+      const region = getChangedRegion({ path: 'main.tex', before: 'a\nb', after: 'a\nnew\nb' }, 0);
+      expect(region).toMatchObject({ before: '', after: 'new', startLine: 2, hiddenAbove: 1, hiddenBelow: 1 });
+
+      expect(getChangedRegion({ path: 'PLAN.md', before: '', after: '- [ ] Step' })).toMatchObject({ before: '', after: '- [ ] Step', hiddenAbove: 0 });
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import type { AgentProposal } from '../types';
+
+export interface ChangedRegion {
+  before: string;
+  after: string;
+  startLine: number; // 1-based line of the region in the original file
+  hiddenAbove: number;
+  hiddenBelow: number;
+}
+
+// Cut a whole-file proposal down to the changed lines plus some context, so the
+// word diff stays small and readable for long files
+export function getChangedRegion(proposal: AgentProposal, context = 3): ChangedRegion {
+  const beforeLines = proposal.before.split('\n');
+  const afterLines = proposal.after.split('\n');
+
+  let prefix = 0;
+  while (prefix < beforeLines.length && prefix < afterLines.length && beforeLines[prefix] === afterLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < beforeLines.length - prefix &&
+    suffix < afterLines.length - prefix &&
+    beforeLines[beforeLines.length - 1 - suffix] === afterLines[afterLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const start = Math.max(0, prefix - context);
+  const keepBelow = Math.min(suffix, context);
+  return {
+    before: beforeLines.slice(start, beforeLines.length - suffix + keepBelow).join('\n'),
+    after: afterLines.slice(start, afterLines.length - suffix + keepBelow).join('\n'),
+    startLine: start + 1,
+    hiddenAbove: start,
+    hiddenBelow: suffix - keepBelow
+  };
+}
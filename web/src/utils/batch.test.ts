@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { getSectionScopes, getPendingSuggestions, getBatchProgress } from './batch';
+import type { BatchJob, BatchJobItem, TextItem } from '../types';
+
+function item(id: string, content: string): TextItem {
+  return { id, content, type: 'paragraph', lineStart: 1, status: 'unchanged' };
+}
+
+function job(id: string, createdAt: string, items: Partial<BatchJobItem>[]): BatchJob {
+  return {
+    id,
+    projectId: 'p',
+    filePath: '/paper/intro.tex',
+    mode: 'refine',
+    concurrency: 2,
+    status: 'completed',
+    createdAt,
+    updatedAt: createdAt,
+    items: items.map(i => ({ itemId: 'para-1', content: '', lineStart: 1, status: 'done', review: 'pending', ...i }))
+  };
+}
+
+describe('batch', () => {
+  describe('getSectionScopes', () => {
+    it('should include subsections in their parent section', () => {
+      const items = [
+        item('para-1', 'Preamble text.'),
+        item('para-2', '\\section{Design}\nOverview.'),
+        item('para-3', 'Details.'),
+        item('para-4', '\\subsection{Isolation}'),
+        item('para-5', 'More details.'),
+        item('para-6', '\\section*{Evaluation}')
+      ];
+
+      expect(getSectionScopes(items)).toEqual([
+        { title: 'Design', level: 1, itemIds: ['para-2', 'para-3', 'para-4', 'para-5'] },
+        { title: 'Isolation', level: 2, itemIds: ['para-4', 'para-5'] },
+        { title: 'Evaluation', level: 1, itemIds: ['para-6'] }
+      ]);
+    });
+  });
+
+  describe('getPendingSuggestions', () => {
+    it('should match items by sent content, skip reviewed results and prefer the newest job', () => {
+      const items = [item('para-1', 'Inserted paragraph.'), item('para-2', 'Original text.'), item('para-3', 'Other.')];
+      const older = job('old', '2025-01-01T00:00:00Z', [
+        { itemId: 'para-1', content: 'Original text.', result: 'Old rewrite.' },
+        { itemId: 'para-2', content: 'Other.', result: 'Rejected.', review: 'rejected' }
+      ]);
+      const newer = job('new', '2025-01-02T00:00:00Z', [
+        { itemId: 'para-1', content: 'Original text.', result: 'New rewrite.' },
+        { itemId: 'para-3', content: 'Gone.', status: 'failed' }
+      ]);
+
+      const suggestions = getPendingSuggestions([older, newer], items);
+
+      expect(Object.keys(suggestions)).toEqual(['para-2']);
+      expect(suggestions['para-2']?.jobItem.result).toBe('New rewrite.');
+    });
+  });
+
+  describe('getBatchProgress', () => {
+    it('should count settled and failed items', () => {
+      const progress = getBatchProgress(job('j', '2025-01-01T00:00:00Z', [{ status: 'done' }, { status: 'failed' }, { status: 'running' }]));
+      expect(progress).toEqual({ finished: 2, failed: 1, total: 3 });
+    });
+  });
+});
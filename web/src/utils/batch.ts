@@ -0,0 +1,70 @@
+import type { BatchJob, BatchJobItem, TextItem } from '../types';
+
+export interface SectionScope {
+  title: string;
+  level: number;
+  itemIds: string[];
+}
+
+const HEADING_RE = /^\s*\\(section|subsection|subsubsection)\*?\s*\{([^}]*)\}/;
+const HEADING_LEVELS: Record<string, number> = { section: 1, subsection: 2, subsubsection: 3 };
+
+/**
+ * Sections of one file as ranges of items: from a heading item up to the next
+ * heading of the same or a higher level, so a section includes its subsections.
+ */
+export function getSectionScopes(items: TextItem[]): SectionScope[] {
+  const headings = items
+    .map((item, index) => {
+      const match = HEADING_RE.exec(item.content);
+      return match ? { index, title: (match[2] || '').trim(), level: HEADING_LEVELS[match[1] || ''] ?? 1 } : null;
+    })
+    .filter((h): h is { index: number; title: string; level: number } => h !== null);
+
+  return headings.map((heading, i) => {
+    const next = headings.slice(i + 1).find(h => h.level <= heading.level);
+    const end = next ? next.index : items.length;
+    return {
+      title: heading.title,
+      level: heading.level,
+      itemIds: items.slice(heading.index, end).map(item => item.id)
+    };
+  });
+}
+
+export interface BatchSuggestion {
+  job: BatchJob;
+  jobItem: BatchJobItem;
+}
+
+// Item ids are positional, so an item is matched by the content that was sent before falling back to its id
+export function findJobItemTarget(jobItem: BatchJobItem, items: TextItem[]): TextItem | undefined {
+  return items.find(item => item.content === jobItem.content) ?? items.find(item => item.id === jobItem.itemId);
+}
+
+/**
+ * Finished, unreviewed batch results keyed by the editor item they apply to.
+ * When several jobs cover an item, the newest wins.
+ */
+export function getPendingSuggestions(jobs: BatchJob[], items: TextItem[]): Record<string, BatchSuggestion> {
+  const suggestions: Record<string, BatchSuggestion> = {};
+  const newestFirst = [...jobs].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  for (const job of newestFirst) {
+    for (const jobItem of job.items) {
+      if (jobItem.status !== 'done' || jobItem.review !== 'pending' || jobItem.result === undefined) continue;
+
+      const target = findJobItemTarget(jobItem, items);
+      if (target && !suggestions[target.id]) suggestions[target.id] = { job, jobItem };
+    }
+  }
+  return suggestions;
+}
+
+export function getBatchProgress(job: BatchJob): { finished: number; failed: number; total: number } {
+  return {
+    finished: job.items.filter(i => i.status === 'done' || i.status === 'failed' || i.status === 'cancelled').length,
+    failed: job.items.filter(i => i.status === 'failed').length,
+    total: job.items.length
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { extractQuantities, supportsClaim, crossCheckQuantity, formatQuantity, type Quantity } from './claims';
+
+const quantity = (text: string): Quantity => extractQuantities(text)[0]!;
+
+describe('claims', () => {
+  it('should extract speedups and percentages with their bounds', () => {
+    const found = extractQuantities('We are 5$\\times$ faster with $<$1\\% overhead, up to 3.5x on Redis and about 30 percent less memory. % 9x in a comment');
+    expect(found.map(q => [q.value, q.unit, q.bound, formatQuantity(q)])).toEqual([
+      [5, 'x', 'exact', '5×'],
+      [1, '%', 'below', '<1%'],
+      [3.5, 'x', 'max', 'up to 3.5×'],
+      [30, '%', 'approx', '~30%']
+    ]);
+    expect(found[2]!.raw).toBe('up to 3.5x');
+    expect(extractQuantities('a 10 x 10 grid of $3\\times10^4$ cells, 2xl instances')).toEqual([]);
+  });
+
+  it('should allow the rounding of the claimed number only', () => {
+    expect(supportsClaim(quantity('5x'), quantity('4.8x'))).toBe(true);
+    expect(supportsClaim(quantity('5x'), quantity('4.2x'))).toBe(false);
+    expect(supportsClaim(quantity('4.2x'), quantity('4.3x'))).toBe(false);
+    expect(supportsClaim(quantity('30\\%'), quantity('32\\%'))).toBe(true);
+    expect(supportsClaim(quantity('less than 1\\%'), quantity('0.7\\%'))).toBe(true);
+    expect(supportsClaim(quantity('less than 1\\%'), quantity('1.3\\%'))).toBe(false);
+    expect(supportsClaim(quantity('over 2x'), quantity('2.6x'))).toBe(true);
+    expect(supportsClaim(quantity('5x'), quantity('5\\%'))).toBe(false);
+  });
+
+  it('should report the closest number when none backs the claim', () => {
+    const candidates = [{ quantity: quantity('12\\%'), line: 3 }, { quantity: quantity('4.2x'), line: 7 }, { quantity: quantity('1.9x'), line: 9 }];
+    expect(crossCheckQuantity(quantity('5x'), candidates)).toEqual({ status: 'contradicted', match: candidates[1] });
+    expect(crossCheckQuantity(quantity('2x'), candidates)).toEqual({ status: 'supported', match: candidates[2] });
+    expect(crossCheckQuantity(quantity('5x'), candidates.slice(0, 1))).toEqual({ status: 'missing' });
+  });
+});
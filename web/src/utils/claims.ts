@@ -0,0 +1,101 @@
+// Numeric claims in LaTeX prose: speedup factors ("5$\times$", "5x") and
+// percentages ("<1\% overhead"), with the bound the wording puts on them, and
+// a deterministic check of a claimed number against numbers found elsewhere.
+
+export type QuantityUnit = 'x' | '%';
+export type QuantityBound = 'exact' | 'approx' | 'max' | 'below' | 'above';
+
+export interface Quantity {
+  value: number;
+  unit: QuantityUnit;
+  bound: QuantityBound; // "up to 5x" is max, "<1%" below, "over 2x" above, "about 30%" approx
+  raw: string; // As written, including the bound
+  index: number; // Offset of raw in the text
+}
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+// 5x, 5X, 5×, 5$\times$, $5\times$, but not 3\times10^4 or 10 x 10
+const QUANTITY_RE = new RegExp(
+  String.raw`${NUMBER}(?:[xX×](?![a-zA-Z0-9])|\s*\$?\s*\\times\b(?!\s*\$?\s*\d)\$?|\s*(?:\\%|%|percent\b))`,
+  'g'
+);
+
+const BOUNDS: [QuantityBound, RegExp][] = [
+  ['max', /(?:up to|as much as|as high as)\s*$/],
+  ['below', /(?:less than|fewer than|under|below|at most|within|<|\\le|\\leq|\\lt)\s*$/],
+  ['above', /(?:more than|over|above|at least|exceeding|>|\\ge|\\geq|\\gt)\s*$/],
+  ['approx', /(?:about|around|approximately|roughly|nearly|almost|\\sim|\\approx)\s*$/]
+];
+
+function boundBefore(text: string, index: number): { bound: QuantityBound; length: number } {
+  const before = text.slice(Math.max(0, index - 24), index);
+  const plain = before.replace(/[$~{}]/g, ' ').replace(/\s+/g, ' ').toLowerCase();
+  for (const [bound, re] of BOUNDS) {
+    const match = plain.match(re);
+    if (match) {
+      // Length of the bound in the original text, for raw
+      const start = before.toLowerCase().lastIndexOf(match[0].trim().split(' ')[0]!);
+      return { bound, length: start === -1 ? 0 : before.length - start };
+    }
+  }
+  return { bound: 'exact', length: 0 };
+}
+
+export function extractQuantities(tex: string): Quantity[] {
+  const text = tex.replace(/(?<!\\)%.*$/gm, '');
+  const quantities: Quantity[] = [];
+  for (const match of text.matchAll(QUANTITY_RE)) {
+    const { bound, length } = boundBefore(text, match.index!);
+    const unit: QuantityUnit = /%|percent/.test(match[0]) ? '%' : 'x';
+    quantities.push({
+      value: Number(match[1]),
+      unit,
+      bound,
+      raw: text.slice(match.index! - length, match.index! + match[0].length).trim(),
+      index: match.index! - length
+    });
+  }
+  return quantities;
+}
+
+// Rounding slack of a claimed number: half its last significant digit, at most 10%
+function tolerance(quantity: Quantity): number {
+  const digits = String(quantity.value).split('.');
+  const decimals = digits[1]?.length ?? 0;
+  const trailingZeros = decimals === 0 ? (digits[0]!.match(/0+$/)?.[0].length ?? 0) : 0;
+  const slack = 0.5 * 10 ** (trailingZeros - decimals);
+  const bound = quantity.bound === 'approx' ? Math.max(slack, quantity.value * 0.1) : Math.min(slack, quantity.value * 0.1);
+  return Math.max(bound, 1e-9);
+}
+
+// Whether a reported number backs a claimed one of the same unit
+export function supportsClaim(claim: Quantity, evidence: Quantity): boolean {
+  if (claim.unit !== evidence.unit) return false;
+  switch (claim.bound) {
+    case 'below': return evidence.value <= claim.value;
+    case 'above': return evidence.value >= claim.value;
+    default: return Math.abs(evidence.value - claim.value) <= tolerance(claim);
+  }
+}
+
+/**
+ * Check a claimed number against the numbers of the passages that discuss it:
+ * supported when one of them backs it, contradicted when they report the same
+ * unit but none backs it (the closest is returned), missing otherwise.
+ */
+export function crossCheckQuantity<T extends { quantity: Quantity }>(
+  claim: Quantity,
+  candidates: T[]
+): { status: 'supported' | 'contradicted' | 'missing'; match?: T } {
+  const supporting = candidates.find(c => supportsClaim(claim, c.quantity));
+  if (supporting) return { status: 'supported', match: supporting };
+  const sameUnit = candidates.filter(c => c.quantity.unit === claim.unit);
+  if (sameUnit.length === 0) return { status: 'missing' };
+  const closest = sameUnit.reduce((best, c) => Math.abs(c.quantity.value - claim.value) < Math.abs(best.quantity.value - claim.value) ? c : best);
+  return { status: 'contradicted', match: closest };
+}
+
+export function formatQuantity(quantity: Quantity): string {
+  const prefix = { exact: '', approx: '~', max: 'up to ', below: '<', above: '>' }[quantity.bound];
+  return `${prefix}${quantity.value}${quantity.unit === 'x' ? '×' : '%'}`;
+}
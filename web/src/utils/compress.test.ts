@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { countWords, getSectionRanges, getItemsInRange, getWordsToCut, rankCompressions, getAcceptedSavings } from './compress';
+import type { BatchJob, BatchJobItem, TextItem } from '../types';
+
+function job(items: Partial<BatchJobItem>[]): BatchJob {
+  return {
+    id: 'batch-1',
+    projectId: 'p',
+    filePath: '/paper/eval.tex',
+    mode: 'compress',
+    concurrency: 2,
+    status: 'completed',
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    items: items.map((i, n) => ({ itemId: `para-${n + 1}`, content: '', lineStart: 1, status: 'done', review: 'pending', ...i }))
+  };
+}
+
+describe('compress', () => {
+  it('should count prose words but not commands, comments or citation keys', () => {
+    expect(countWords('% note to self\nX is \\emph{fast}~\\cite{smith2020,lee-21} (see Section~\\ref{sec:eval}).')).toBe(5);
+  });
+
+  it('should range sections of the current file up to the next heading of the same level', () => {
+    const sections = [
+      { level: 1, title: 'Intro', lineStart: 1, filePath: '/paper/intro.tex' },
+      { level: 1, title: 'Evaluation', lineStart: 3, filePath: '/paper/eval.tex' },
+      { level: 2, title: 'Setup', lineStart: 10, filePath: '/paper/eval.tex' },
+      { level: 2, title: 'Results', lineStart: 30, filePath: '/paper/eval.tex' }
+    ];
+    expect(getSectionRanges(sections, '/paper/eval.tex')).toEqual([
+      { title: 'Evaluation', level: 1, lineStart: 3, lineEnd: Infinity },
+      { title: 'Setup', level: 2, lineStart: 10, lineEnd: 30 },
+      { title: 'Results', level: 2, lineStart: 30, lineEnd: Infinity }
+    ]);
+
+    const items = [5, 8, 12, 30].map((lineStart, i): TextItem => ({ id: `para-${i + 1}`, content: '', type: 'paragraph', lineStart, status: 'unchanged' }));
+    expect(getItemsInRange(items, { lineStart: 10, lineEnd: 30 }).map(i => i.id)).toEqual(['para-2', 'para-3']);
+  });
+
+  it('should turn words, percent, lines and pages into words to cut', () => {
+    const estimate = { lines: 50, linesPerPage: 100, pages: 12 };
+    expect(getWordsToCut('words', 80, 500)).toBe(80);
+    expect(getWordsToCut('percent', 10, 500)).toBe(50);
+    expect(getWordsToCut('lines', 5, 500, estimate)).toBe(50);
+    expect(getWordsToCut('pages', 0.5, 500, estimate)).toBe(500);
+    expect(getWordsToCut('lines', 5, 500, null)).toBeNull();
+  });
+
+  it('should rank plain cuts above rewrites and total the accepted savings', () => {
+    const candidates = rankCompressions(job([
+      { content: 'We really do present a new system.', result: 'We introduce an original design.', review: 'accepted' },
+      { content: 'In this section, we describe the setup.', result: 'We describe the setup.' },
+      { content: 'X is fast.', result: 'X is very fast.' },
+      { content: 'Still running.', status: 'running' }
+    ]));
+
+    expect(candidates.map(c => c.jobItem.itemId)).toEqual(['para-2', 'para-1', 'para-3']);
+    expect(candidates[0]).toMatchObject({ saved: 3, changed: 4, score: 0.75 });
+    expect(getAcceptedSavings(candidates)).toBe(2);
+  });
+});
@@ -0,0 +1,116 @@
+import type { BatchJob, BatchJobItem, TextItem } from '../types';
+
+export type CompressUnit = 'words' | 'percent' | 'lines' | 'pages';
+
+// Typeset lines of a source range in the last compiled PDF
+export interface LineEstimate {
+  lines: number;
+  linesPerPage: number;
+  pages: number;
+}
+
+export interface SectionRange {
+  title: string;
+  level: number;
+  lineStart: number;
+  lineEnd: number; // Exclusive; Infinity when the section runs to the end of the file
+}
+
+export interface CompressCandidate {
+  jobItem: BatchJobItem;
+  saved: number;   // Words removed
+  changed: number; // Words of the original that were dropped or rewritten
+  score: number;   // Saved per changed word: plain cuts rank above rewrites
+}
+
+const REFERENCE_RE = /\\(?:cite|ref|eqref|autoref|cref|Cref|label|url)[A-Za-z]*\*?(?:\[[^\]]*\])*\{[^}]*\}/g;
+const COMMAND_RE = /\\[A-Za-z]+\*?/g;
+
+// Words of prose: comment lines, command names and citation or reference keys do not count
+export function countWords(content: string): number {
+  const prose = content
+    .split('\n')
+    .filter(line => !line.trim().startsWith('%'))
+    .join(' ')
+    .replace(REFERENCE_RE, ' ')
+    .replace(COMMAND_RE, ' ');
+  return prose.match(/[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*|[\u4e00-\u9fff]/g)?.length ?? 0;
+}
+
+/**
+ * Line ranges of the sections of one file, from /api/parse-sections. A section
+ * runs to the next heading of the same or a higher level, so it includes its
+ * subsections; the last one in the file runs to the end of the file.
+ */
+export function getSectionRanges(
+  sections: { level: number; title: string; lineStart: number; filePath: string }[],
+  filePath: string
+): SectionRange[] {
+  const inFile = sections.filter(s => s.filePath === filePath);
+  return inFile.map((section, i) => {
+    const next = inFile.slice(i + 1).find(s => s.level <= section.level);
+    return { title: section.title, level: section.level, lineStart: section.lineStart, lineEnd: next ? next.lineStart : Infinity };
+  });
+}
+
+// Items that overlap a line range; a heading item may start earlier with its FW_THOUGHTS
+export function getItemsInRange(items: TextItem[], range: { lineStart: number; lineEnd: number }): TextItem[] {
+  return items.filter((item, i) => {
+    const nextStart = items[i + 1]?.lineStart ?? Infinity;
+    return nextStart > range.lineStart && item.lineStart < range.lineEnd;
+  });
+}
+
+/**
+ * Words to cut for a target. Lines and pages are converted with the words per
+ * typeset line of the scope, so they need an estimate from the compiled PDF.
+ */
+export function getWordsToCut(unit: CompressUnit, value: number, words: number, estimate?: LineEstimate | null): number | null {
+  if (!(value > 0) || words === 0) return null;
+  switch (unit) {
+    case 'words': return Math.min(words, Math.round(value));
+    case 'percent': return Math.round(words * Math.min(value, 100) / 100);
+    case 'lines':
+    case 'pages': {
+      if (!estimate || estimate.lines === 0) return null;
+      const lines = unit === 'pages' ? value * estimate.linesPerPage : value;
+      return Math.min(words, Math.round(lines * words / estimate.lines));
+    }
+  }
+}
+
+// Length of the longest common subsequence of two word lists
+function commonWords(a: string[], b: string[]): number {
+  let prev = new Array<number>(b.length + 1).fill(0);
+  for (const word of a) {
+    const row = [0];
+    for (let j = 0; j < b.length; j++) {
+      row.push(word === b[j] ? prev[j]! + 1 : Math.max(prev[j + 1]!, row[j]!));
+    }
+    prev = row;
+  }
+  return prev[b.length]!;
+}
+
+/**
+ * Finished shortenings of a compress job, best first. Each paragraph is asked
+ * to cut more than the overall target, so the author can accept the cheapest
+ * cuts and stop once the budget is met.
+ */
+export function rankCompressions(job: BatchJob): CompressCandidate[] {
+  return job.items
+    .filter(item => item.status === 'done' && item.result !== undefined)
+    .map(item => {
+      const original = item.content.split(/\s+/).filter(Boolean);
+      const saved = countWords(item.content) - countWords(item.result!);
+      const changed = original.length - commonWords(original, item.result!.split(/\s+/).filter(Boolean));
+      return { jobItem: item, saved, changed, score: saved / Math.max(1, changed) };
+    })
+    .sort((a, b) => (b.saved > 0 ? 1 : 0) - (a.saved > 0 ? 1 : 0) || b.score - a.score || b.saved - a.saved);
+}
+
+export function getAcceptedSavings(candidates: CompressCandidate[]): number {
+  return candidates
+    .filter(c => c.jobItem.review === 'accepted')
+    .reduce((sum, c) => sum + c.saved, 0);
+}
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { stripMarkdownCodeFences } from './fences';
+
+describe('fences', () => {
+  describe('stripMarkdownCodeFences', () => {
+    it('should remove a fence around a complete reply', () => {
+      expect(stripMarkdownCodeFences('```latex\nWe show \\cite{a}.\n```\n')).toBe('We show \\cite{a}.');
+      expect(stripMarkdownCodeFences('Plain text with ``quotes``')).toBe('Plain text with ``quotes``');
+    });
+
+    it('should remove the fence of a reply cut off mid-stream', () => {
+      expect(stripMarkdownCodeFences('```latex\nWe show')).toBe('We show');
+      expect(stripMarkdownCodeFences('```latex\nWe show.\n``')).toBe('We show.');
+      expect(stripMarkdownCodeFences('```lat')).toBe('');
+    });
+  });
+});
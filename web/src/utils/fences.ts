@@ -0,0 +1,10 @@
+/**
+ * Models often wrap a rewrite in a ```latex fence. Removes it, including from a
+ * reply cut off by Stop, where the closing fence (or part of the opener) never arrived.
+ */
+export function stripMarkdownCodeFences(text: string): string {
+  const trimmed = text.trim();
+  if (/^`{1,3}[\w-]*$/.test(trimmed)) return '';
+  const match = trimmed.match(/^```[\w-]*[ \t]*\n([\s\S]*?)(?:\n`{1,3}\s*)?$/);
+  return (match?.[1] ?? trimmed).trim();
+}
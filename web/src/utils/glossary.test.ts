@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { findGlossaryViolations, applyGlossaryFixes, formatGlossaryPrompt, type GlossaryTerm } from './glossary';
+
+const terms: GlossaryTerm[] = [
+  { id: 'dataset', term: 'dataset', variants: ['data set', 'data-set'] },
+  { id: 'ebpf', term: 'eBPF program', variants: ['BPF program'] },
+  { id: 'tee', term: 'trusted execution environment', variants: [], acronym: 'TEE' }
+];
+
+describe('glossary', () => {
+  it('should flag variants as whole words, keeping sentence case, outside comments and keys', () => {
+    const content = [
+      'Data sets are scarce. Our data\nset holds every eBPF program.',
+      'A BPF program runs in the kernel. % a data set in a comment',
+      'See \\label{sec:data set} and \\cite{data-set}.'
+    ].join('\n');
+
+    const violations = findGlossaryViolations([{ path: 'intro.tex', content }], terms);
+    expect(violations.map(v => [v.line, v.column, v.match, v.replacement])).toEqual([
+      [1, 0, 'Data sets', 'Datasets'],
+      [1, 26, 'data\nset', 'dataset'],
+      [3, 2, 'BPF program', 'eBPF program']
+    ]);
+    expect(violations[2]!.context).toBe('A BPF program runs in the kernel. % a data set in a comment');
+  });
+
+  it('should flag an acronym used before it is spelled out anywhere earlier in the document', () => {
+    const files = [
+      { path: 'intro.tex', content: 'A TEE isolates code.' },
+      { path: 'design.tex', content: 'The TEE again. A trusted execution environment (TEE) is defined late.' }
+    ];
+    const violations = findGlossaryViolations(files, terms);
+    expect(violations.map(v => [v.filePath, v.match, v.replacement])).toEqual([['intro.tex', 'TEE', 'trusted execution environment (TEE)']]);
+
+    const defined = [{ path: 'intro.tex', content: 'A Trusted Execution Environment (TEE) isolates code. The TEE is small.' }];
+    expect(findGlossaryViolations(defined, terms)).toEqual([]);
+  });
+
+  it('should apply fixes from the end and skip ones whose text moved', () => {
+    const content = 'One data set.\nTwo data set and an BPF program.';
+    const violations = findGlossaryViolations([{ path: 'a.tex', content }], terms);
+    expect(violations).toHaveLength(3);
+
+    expect(applyGlossaryFixes(content, violations)).toEqual({ content: 'One dataset.\nTwo dataset and an eBPF program.', applied: 3, skipped: 0 });
+    expect(applyGlossaryFixes(`X ${content}`, violations.slice(0, 1))).toMatchObject({ applied: 0, skipped: 1 });
+  });
+
+  it('should describe the glossary for the system prompt', () => {
+    expect(formatGlossaryPrompt([])).toBe('');
+    const prompt = formatGlossaryPrompt(terms);
+    expect(prompt).toContain('- "dataset": never write "data set", "data-set"');
+    expect(prompt).toContain('- "trusted execution environment" (TEE): spell out as "trusted execution environment (TEE)" at first use');
+  });
+});
@@ -0,0 +1,147 @@
+// Project glossary: canonical terms with their forbidden variants and acronyms.
+// Used by the server to brief the model and by the offline terminology scanner.
+
+export interface GlossaryTerm {
+  id: string;
+  term: string; // Canonical spelling, e.g. "dataset" or "trusted execution environment"
+  variants: string[]; // Spellings to replace with the term, e.g. "data set"
+  acronym?: string; // e.g. "TEE"; spelled out as "term (ACRONYM)" at first use
+  notes?: string;
+}
+
+export type GlossaryViolationKind = 'variant' | 'acronym';
+
+export interface GlossaryViolation {
+  kind: GlossaryViolationKind;
+  termId: string;
+  term: string;
+  filePath: string;
+  line: number; // 1-based
+  column: number; // 0-based, within the line
+  match: string; // Text at that position; a fix is skipped if it no longer matches
+  replacement: string;
+  context: string; // The line the match starts on
+}
+
+// Text where a term is not prose: comments, math, and keys of \cite, \ref, \label and friends
+const PROTECTED_RE = /(?<!\\)%.*|(?<!\\)\$[^$]*(?<!\\)\$|\\(?:[a-zA-Z]*cite[a-zA-Z]*|[a-zA-Z]*ref|label|url|href|input|include|includegraphics|bibliography|bibliographystyle|usepackage|documentclass|begin|end)\*?(?:\[[^\]]*\])*\{[^}]*\}/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole words only, so "BPF program" does not match inside "eBPF program"; any whitespace between words
+function phrasePattern(phrase: string, plural = false): string {
+  return `(?<![\\w-])${phrase.trim().split(/\s+/).map(escapeRegExp).join('\\s+')}${plural ? '(s?)' : ''}(?![\\w-])`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function protectedRanges(content: string): [number, number][] {
+  return [...content.matchAll(PROTECTED_RE)].map(m => [m.index!, m.index! + m[0].length]);
+}
+
+function isProtected(ranges: [number, number][], start: number, end: number): boolean {
+  return ranges.some(([from, to]) => start < to && from < end);
+}
+
+function position(content: string, offset: number): { line: number; column: number; context: string } {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  const lineEnd = content.indexOf('\n', offset);
+  return {
+    line: content.slice(0, offset).split('\n').length,
+    column: offset - lineStart,
+    context: content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd)
+  };
+}
+
+/**
+ * The glossary as an instruction block for the system prompt; empty when the
+ * glossary has no terms.
+ */
+export function formatGlossaryPrompt(terms: GlossaryTerm[]): string {
+  const lines = terms.filter(t => t.term.trim()).map(t => {
+    let line = `- "${t.term}"`;
+    if (t.acronym) line += ` (${t.acronym}): spell out as "${t.term} (${t.acronym})" at first use, then write "${t.acronym}"`;
+    if (t.variants.length > 0) line += `${t.acronym ? ';' : ':'} never write ${t.variants.map(v => `"${v}"`).join(', ')}`;
+    if (t.notes) line += ` (${t.notes})`;
+    return line;
+  });
+  if (lines.length === 0) return '';
+  return `**Project Glossary (Strictly Follow):** use these terms exactly as written; do not introduce other spellings.\n${lines.join('\n')}`;
+}
+
+/**
+ * Variants of glossary terms, and acronyms used before they are spelled out.
+ * Files are read as one document in the order given, so an acronym defined in
+ * the introduction is not flagged in later sections.
+ */
+export function findGlossaryViolations(files: { path: string; content: string }[], terms: GlossaryTerm[]): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = [];
+  const definedAcronyms = new Set<string>();
+
+  for (const file of files) {
+    const ranges = protectedRanges(file.content);
+    const found: { start: number; end: number; violation: GlossaryViolation }[] = [];
+    const add = (kind: GlossaryViolationKind, term: GlossaryTerm, start: number, match: string, replacement: string) => {
+      const end = start + match.length;
+      if (isProtected(ranges, start, end) || found.some(f => start < f.end && f.start < end)) return;
+      found.push({ start, end, violation: { kind, termId: term.id, term: term.term, filePath: file.path, ...position(file.content, start), match, replacement } });
+    };
+
+    for (const term of terms) {
+      for (const variant of term.variants) {
+        if (!variant.trim()) continue;
+        // Plurals too: "data sets" becomes "datasets"
+        for (const m of file.content.matchAll(new RegExp(phrasePattern(variant, true), 'gi'))) {
+          const plural = m[1] ?? '';
+          // A variant that differs from the term only by case still lets the term itself through
+          if (m[0] === term.term + plural || m[0] === capitalize(term.term) + plural) continue;
+          // Sentence case: "Data set" at the start of a sentence becomes "Dataset"
+          const sentenceCase = /^[A-Z]/.test(m[0]) && /^[a-z]/.test(variant.trim()) && /^[a-z]/.test(term.term);
+          add('variant', term, m.index!, m[0], (sentenceCase ? capitalize(term.term) : term.term) + plural);
+        }
+      }
+    }
+
+    for (const term of terms) {
+      if (!term.acronym || definedAcronyms.has(term.id)) continue;
+      const definition = new RegExp(`${phrasePattern(term.term)}\\s*\\(${escapeRegExp(term.acronym)}\\)`, 'i').exec(file.content);
+      const use = [...file.content.matchAll(new RegExp(phrasePattern(term.acronym), 'g'))]
+        .find(m => !isProtected(ranges, m.index!, m.index! + m[0].length) && !(definition && m.index! >= definition.index && m.index! < definition.index + definition[0].length));
+      if (use && (!definition || use.index! < definition.index)) {
+        add('acronym', term, use.index!, use[0], `${term.term} (${term.acronym})`);
+      }
+      if (use || definition) definedAcronyms.add(term.id);
+    }
+
+    violations.push(...found.sort((a, b) => a.start - b.start).map(f => f.violation));
+  }
+  return violations;
+}
+
+/**
+ * Apply fixes to one file's content. A fix whose match is no longer at its line
+ * and column (the file changed since the scan) is skipped.
+ */
+export function applyGlossaryFixes(content: string, fixes: GlossaryViolation[]): { content: string; applied: number; skipped: number } {
+  const lineOffsets = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) lineOffsets.push(i + 1);
+
+  const located = fixes.map(fix => ({ fix, offset: (lineOffsets[fix.line - 1] ?? -1) + fix.column }))
+    .filter(({ fix, offset }) => fix.line >= 1 && offset >= 0 && content.startsWith(fix.match, offset))
+    .sort((a, b) => b.offset - a.offset);
+
+  let result = content;
+  let applied = 0;
+  let lastStart = Infinity;
+  for (const { fix, offset } of located) {
+    if (offset + fix.match.length > lastStart) continue; // Overlaps a fix already applied
+    result = result.slice(0, offset) + fix.replacement + result.slice(offset + fix.match.length);
+    lastStart = offset;
+    applied++;
+  }
+  return { content: result, applied, skipped: fixes.length - applied };
+}
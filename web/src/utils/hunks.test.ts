@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { diffHunks, hunksConflict, applyHunks, hunkSegments, sentenceHunks } from './hunks';
+
+describe('hunks', () => {
+  const original = 'The quick brown fox jumps.';
+
+  it('should diff a rewrite into word hunks against the original', () => {
+    expect(diffHunks(original, 'The fast brown fox jumps.')).toEqual([{ start: 2, end: 3, removed: 'quick', added: 'fast' }]);
+    expect(diffHunks(original, 'The quick brown fox leaps over.')).toEqual([{ start: 8, end: 9, removed: 'jumps.', added: 'leaps over.' }]);
+    // Changes only a space apart are one hunk
+    expect(diffHunks(original, 'A slow brown fox jumps.')).toEqual([{ start: 0, end: 3, removed: 'The quick', added: 'A slow' }]);
+    expect(diffHunks(original, original)).toEqual([]);
+  });
+
+  it('should merge hunks from several candidates and skip conflicting ones', () => {
+    const [fast] = diffHunks(original, 'The fast brown fox jumps.');
+    const [leaps] = diffHunks(original, 'The quick brown fox leaps over.');
+    const [slow] = diffHunks(original, 'A slow brown fox jumps.');
+
+    expect(applyHunks(original, [leaps!, fast!])).toBe('The fast brown fox leaps over.');
+    expect(hunksConflict(fast!, slow!)).toBe(true);
+    expect(hunksConflict(fast!, leaps!)).toBe(false);
+    expect(applyHunks(original, [slow!, fast!])).toBe('A slow brown fox jumps.');
+    expect(applyHunks(original, [])).toBe(original);
+  });
+
+  it('should split the original around the hunks', () => {
+    const hunks = diffHunks(original, 'The fast brown fox jumps.');
+    expect(hunkSegments(original, hunks)).toEqual([
+      { type: 'text', text: 'The ' },
+      { type: 'hunk', hunk: hunks[0] },
+      { type: 'text', text: ' brown fox jumps.' }
+    ]);
+  });
+
+  it('should widen hunks to whole sentences so candidates mix sentence by sentence', () => {
+    const text = 'We study caches. The overhead is low. Results hold on ARM.';
+    const a = 'We study CPU caches. The overhead is small. Results hold on ARM.';
+    const b = 'We study caches. The cost is low. Results also hold on ARM.';
+
+    const fromA = sentenceHunks(text, diffHunks(text, a));
+    expect(fromA.map(h => [h.removed, h.added])).toEqual([
+      ['We study caches. ', 'We study CPU caches. '],
+      ['The overhead is low. ', 'The overhead is small. ']
+    ]);
+    const fromB = sentenceHunks(text, diffHunks(text, b));
+    expect(hunksConflict(fromA[1]!, fromB[0]!)).toBe(true);
+    expect(applyHunks(text, [fromA[0]!, fromB[0]!, fromB[1]!])).toBe('We study CPU caches. The cost is low. Results also hold on ARM.');
+    expect(sentenceHunks(text, diffHunks(text, `${text} It scales.`)).map(h => h.added)).toEqual(['Results hold on ARM. It scales.']);
+  });
+});
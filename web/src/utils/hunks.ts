@@ -0,0 +1,146 @@
+// Word-level hunks of a rewrite against the original, so changes from several
+// candidates can be picked one by one and merged into a single text
+
+export interface Hunk {
+  start: number; // Original tokens [start, end) the hunk replaces; start === end for an insertion
+  end: number;
+  removed: string;
+  added: string;
+}
+
+// Words and the whitespace between them; joining the tokens gives the text back
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(t => t !== '');
+}
+
+export function diffHunks(original: string, modified: string): Hunk[] {
+  const a = tokenize(original);
+  const b = tokenize(modified);
+  const width = b.length + 1;
+
+  // lcs[i * width + j]: longest common subsequence of a[i..] and b[j..]
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1]! + 1
+        : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) hunks.push(current = { start: i, end: i, removed: '', added: '' });
+    // Deletions first, so a replaced word reads "old" then "new"
+    if (i < a.length && (j >= b.length || lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!)) {
+      current.removed += a[i];
+      current.end = ++i;
+    } else {
+      current.added += b[j];
+      j++;
+    }
+  }
+
+  // Hunks only a space apart read as one change
+  const merged: Hunk[] = [];
+  for (const hunk of hunks) {
+    const last = merged[merged.length - 1];
+    const gap = last ? a.slice(last.end, hunk.start).join('') : '';
+    if (last && !gap.trim()) {
+      merged[merged.length - 1] = { start: last.start, end: hunk.end, removed: last.removed + gap + hunk.removed, added: last.added + gap + hunk.added };
+    } else {
+      merged.push(hunk);
+    }
+  }
+  return merged;
+}
+
+// Token index where each sentence of the original starts; same rule as the
+// sentence parser: [.!?], whitespace, then a capital letter
+function sentenceStarts(tokens: string[]): number[] {
+  const starts = [0];
+  for (let i = 1; i + 1 < tokens.length; i++) {
+    if (!tokens[i]!.trim() && /[.!?]$/.test(tokens[i - 1]!) && /^[A-Z]/.test(tokens[i + 1]!)) starts.push(i + 1);
+  }
+  return starts;
+}
+
+/**
+ * Widen hunks to whole sentences of the original, so a candidate's rewrite of
+ * a sentence is picked as one piece. Hunks in the same sentence become one.
+ */
+export function sentenceHunks(original: string, hunks: Hunk[]): Hunk[] {
+  const tokens = tokenize(original);
+  const starts = sentenceStarts(tokens);
+  const sentenceStart = (index: number) => starts.filter(s => s <= index).pop() ?? 0;
+  const sentenceEnd = (index: number) => starts.find(s => s > index) ?? tokens.length;
+
+  const groups: { start: number; end: number; hunks: Hunk[] }[] = [];
+  for (const hunk of hunks) {
+    // An insertion belongs to the sentence it is inserted into (or after, at the very end)
+    const start = sentenceStart(Math.min(hunk.start, Math.max(0, tokens.length - 1)));
+    const end = Math.max(sentenceEnd(Math.max(hunk.start, hunk.end - 1)), hunk.end);
+    const last = groups[groups.length - 1];
+    if (last && start < last.end) {
+      last.end = Math.max(last.end, end);
+      last.hunks.push(hunk);
+    } else {
+      groups.push({ start, end, hunks: [hunk] });
+    }
+  }
+
+  return groups.map(({ start, end, hunks: inside }) => {
+    let added = '';
+    let position = start;
+    for (const hunk of inside) {
+      added += tokens.slice(position, hunk.start).join('') + hunk.added;
+      position = hunk.end;
+    }
+    return { start, end, removed: tokens.slice(start, end).join(''), added: added + tokens.slice(position, end).join('') };
+  });
+}
+
+// Two hunks touch the same original words (or insert at the same place)
+export function hunksConflict(a: Hunk, b: Hunk): boolean {
+  return a.start === b.start || (a.start < b.end && b.start < a.end);
+}
+
+// The original with the given hunks applied; a hunk that conflicts with an earlier one is skipped
+export function applyHunks(original: string, hunks: Hunk[]): string {
+  const tokens = tokenize(original);
+  const applied: Hunk[] = [];
+  for (const hunk of [...hunks].sort((x, y) => x.start - y.start || x.end - y.end)) {
+    if (!applied.some(h => hunksConflict(h, hunk))) applied.push(hunk);
+  }
+
+  let result = '';
+  let position = 0;
+  for (const hunk of applied) {
+    result += tokens.slice(position, hunk.start).join('') + hunk.added;
+    position = hunk.end;
+  }
+  return result + tokens.slice(position).join('');
+}
+
+// The original split around a candidate's hunks, for rendering it as an inline diff
+export function hunkSegments(original: string, hunks: Hunk[]): ({ type: 'text'; text: string } | { type: 'hunk'; hunk: Hunk })[] {
+  const tokens = tokenize(original);
+  const segments: ({ type: 'text'; text: string } | { type: 'hunk'; hunk: Hunk })[] = [];
+  let position = 0;
+  for (const hunk of hunks) {
+    if (hunk.start > position) segments.push({ type: 'text', text: tokens.slice(position, hunk.start).join('') });
+    segments.push({ type: 'hunk', hunk });
+    position = hunk.end;
+  }
+  if (position < tokens.length) segments.push({ type: 'text', text: tokens.slice(position).join('') });
+  return segments;
+}
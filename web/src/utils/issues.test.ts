@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { splitAICache, mergeAICache, issuesForContent, getIssueSegments } from './issues';
+import type { DiagnoseIssue } from '../types';
+
+function issue(id: string, quote: string, overrides: Partial<DiagnoseIssue> = {}): DiagnoseIssue {
+  return {
+    id,
+    severity: 'medium',
+    category: 'clarity',
+    quote,
+    message: `Issue ${id}`,
+    status: 'open',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('issues', () => {
+  describe('splitAICache / mergeAICache', () => {
+    it('should round-trip histories and per-file issues through one cache object', () => {
+      const cache = {
+        'sections/intro.tex:refine': [{ id: 'm1', role: 'user', content: 'hi', timestamp: '2025-01-01' }],
+        'issues:sections/intro.tex': [issue('a', 'quote')]
+      };
+
+      const { histories, issues } = splitAICache(cache);
+      expect(Object.keys(histories)).toEqual(['sections/intro.tex:refine']);
+      expect(issues['sections/intro.tex']?.[0]?.id).toBe('a');
+
+      expect(mergeAICache(histories, issues)).toEqual(cache);
+    });
+
+    it('should not write empty issue lists', () => {
+      expect(mergeAICache({}, { 'a.tex': [] })).toEqual({});
+    });
+  });
+
+  describe('issuesForContent', () => {
+    it('should keep only issues whose quote is still present', () => {
+      const all = [issue('a', 'fast'), issue('b', 'slow')];
+      expect(issuesForContent(all, 'The system is fast.').map(i => i.id)).toEqual(['a']);
+    });
+  });
+
+  describe('getIssueSegments', () => {
+    it('should highlight open issues in order and skip resolved ones', () => {
+      const content = 'We are very fast and quite robust.';
+      const segments = getIssueSegments(content, [
+        issue('b', 'quite robust'),
+        issue('a', 'very fast'),
+        issue('c', 'We are', { status: 'dismissed' })
+      ]);
+
+      expect(segments.map(s => s.text).join('')).toBe(content);
+      expect(segments.filter(s => s.issue).map(s => s.issue?.id)).toEqual(['a', 'b']);
+      expect(segments[0]).toEqual({ text: 'We are ' });
+    });
+
+    it('should let the more severe issue win when quotes overlap', () => {
+      const segments = getIssueSegments('very fast system', [
+        issue('low', 'very fast', { severity: 'low' }),
+        issue('high', 'fast system', { severity: 'high' })
+      ]);
+
+      expect(segments).toEqual([
+        { text: 'very ' },
+        { text: 'fast system', issue: expect.objectContaining({ id: 'high' }) }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import type { ChatMessage, DiagnoseIssue } from '../types';
+
+// Diagnose issues share the project's AI cache file with chat histories,
+// stored under one "issues:<filePath>" key per file.
+const ISSUES_KEY_PREFIX = 'issues:';
+
+export function splitAICache(cache: Record<string, unknown[]>): {
+  histories: Record<string, ChatMessage[]>;
+  issues: Record<string, DiagnoseIssue[]>;
+} {
+  const histories: Record<string, ChatMessage[]> = {};
+  const issues: Record<string, DiagnoseIssue[]> = {};
+
+  for (const [key, value] of Object.entries(cache)) {
+    if (!Array.isArray(value)) continue;
+    if (key.startsWith(ISSUES_KEY_PREFIX)) {
+      issues[key.slice(ISSUES_KEY_PREFIX.length)] = value as DiagnoseIssue[];
+    } else {
+      histories[key] = value as ChatMessage[];
+    }
+  }
+
+  return { histories, issues };
+}
+
+export function mergeAICache(
+  histories: Record<string, ChatMessage[]>,
+  issues: Record<string, DiagnoseIssue[]>
+): Record<string, unknown[]> {
+  const cache: Record<string, unknown[]> = { ...histories };
+  for (const [filePath, fileIssues] of Object.entries(issues)) {
+    if (fileIssues.length > 0) cache[`${ISSUES_KEY_PREFIX}${filePath}`] = fileIssues;
+  }
+  return cache;
+}
+
+// Issues are anchored by their quote, so they follow a paragraph across re-parses
+export function issuesForContent(issues: DiagnoseIssue[], content: string): DiagnoseIssue[] {
+  return issues.filter(issue => issue.quote && content.includes(issue.quote));
+}
+
+export interface IssueSegment {
+  text: string;
+  issue?: DiagnoseIssue;
+}
+
+const SEVERITY_RANK: Record<DiagnoseIssue['severity'], number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Split content into plain and highlighted segments for the open issues.
+ * Each issue marks the first occurrence of its quote; when quotes overlap,
+ * the more severe issue wins and the other is left unhighlighted.
+ */
+export function getIssueSegments(content: string, issues: DiagnoseIssue[]): IssueSegment[] {
+  const ranges: { start: number; end: number; issue: DiagnoseIssue }[] = [];
+  const open = issues
+    .filter(issue => issue.status === 'open')
+    .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+
+  for (const issue of open) {
+    const start = content.indexOf(issue.quote);
+    if (start === -1 || !issue.quote) continue;
+    const end = start + issue.quote.length;
+    if (ranges.some(r => start < r.end && end > r.start)) continue;
+    ranges.push({ start, end, issue });
+  }
+  ranges.sort((a, b) => a.start - b.start);
+
+  const segments: IssueSegment[] = [];
+  let pos = 0;
+  for (const range of ranges) {
+    if (range.start > pos) segments.push({ text: content.slice(pos, range.start) });
+    segments.push({ text: content.slice(range.start, range.end), issue: range.issue });
+    pos = range.end;
+  }
+  if (pos < content.length) segments.push({ text: content.slice(pos) });
+
+  return segments;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { checkLatexIntegrity, buildConstraintReminder } from './latexGuard';
+
+const original = 'We build on prior work~\\cite{smith20,lee21} and extend \\emph{X} (Section~\\ref{sec:design}). ' +
+  'The cost is $O(n \\log n)$ with 5\\% overhead.\n\\begin{equation}\\label{eq:cost} c = a + b \\end{equation}';
+
+describe('latexGuard', () => {
+  describe('checkLatexIntegrity', () => {
+    it('should accept a rewrite that preserves all LaTeX structure', () => {
+      const modified = 'Building on prior work~\\cite{smith20,lee21}, we extend \\emph{X} (Section~\\ref{sec:design}). ' +
+        'It costs $O(n \\log n)$ with 5\\% overhead.\n\\begin{equation}\\label{eq:cost}  c = a + b \\end{equation}';
+
+      expect(checkLatexIntegrity(original, modified)).toEqual([]);
+    });
+
+    it('should flag dropped, renamed and invented citation keys and refs', () => {
+      const modified = original
+        .replace('\\cite{smith20,lee21}', '\\citep{smith2020}')
+        .replace('\\ref{sec:design}', '\\ref{sec:impl}');
+
+      const types = checkLatexIntegrity(original, modified);
+
+      expect(types.find(v => v.message.startsWith('Citation keys'))?.items).toEqual(['smith20', 'lee21']);
+      expect(types.find(v => v.message.startsWith('New citation'))?.items).toEqual(['smith2020']);
+      expect(types.find(v => v.type === 'ref')?.items).toEqual(['sec:design']);
+    });
+
+    it('should flag changed math, dropped labels and dropped commands', () => {
+      const modified = 'We build on prior work~\\cite{smith20,lee21} and extend X (Section~\\ref{sec:design}). ' +
+        'The cost is $O(n log n)$ with 5\\% overhead.\n\\begin{equation} c = a + b \\end{equation}';
+
+      const violations = checkLatexIntegrity(original, modified);
+      const byType = Object.fromEntries(violations.map(v => [v.type, v]));
+
+      expect(byType.math?.items).toHaveLength(2);
+      expect(byType.label?.items).toEqual(['eq:cost']);
+      expect(byType.command?.items).toEqual(['\\emph']);
+    });
+
+    it('should flag unbalanced braces and a bare % sign', () => {
+      const violations = checkLatexIntegrity('In \\emph{all} runs, overhead is 5\\%.', 'In \\emph{all runs, overhead is 5%.');
+      expect(violations.map(v => v.type).sort()).toEqual(['brace', 'comment']);
+    });
+
+    it('should flag a comment that was escaped and an escape that lost its backslash', () => {
+      const original = 'Overhead is 5\\%. % TODO: rerun\nThe rest holds. % keep';
+      const escapedComment = checkLatexIntegrity(original, 'Overhead is 5\\%. \\% TODO: rerun\nThe rest holds. % keep');
+      expect(escapedComment.map(v => v.message)).toEqual([expect.stringContaining('comment was removed or escaped')]);
+
+      // The bare count stays the same: one % lost its backslash while a comment was dropped
+      const droppedBackslash = checkLatexIntegrity(original, 'Overhead is 5%. % TODO: rerun\nThe rest holds.');
+      expect(droppedBackslash.map(v => v.message)).toEqual([expect.stringContaining('escaped \\% was removed')]);
+
+      expect(checkLatexIntegrity('A line break\\\\% note', 'A line break\\\\% note')).toEqual([]);
+    });
+  });
+
+  describe('buildConstraintReminder', () => {
+    it('should list the offending items', () => {
+      const reminder = buildConstraintReminder([{ type: 'citation', message: 'Citation keys were removed or changed', items: ['a', 'b'] }]);
+      expect(reminder).toContain('- Citation keys were removed or changed: a, b');
+      expect(reminder).toContain('\\cite key');
+    });
+  });
+});
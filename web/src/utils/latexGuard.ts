@@ -0,0 +1,180 @@
+/**
+ * LaTeX integrity guard: compares an AI rewrite against the original and reports
+ * structural LaTeX that was dropped, renamed or broken. A plain word diff makes
+ * these easy to miss (a changed cite key is one "modified word").
+ */
+
+export type LatexViolationType = 'citation' | 'label' | 'ref' | 'math' | 'command' | 'brace' | 'comment';
+
+export interface LatexViolation {
+  type: LatexViolationType;
+  message: string;
+  items?: string[];
+}
+
+const CITE_RE = /\\(?:[a-zA-Z]*cite[a-zA-Z]*|nocite)\*?(?:\[[^\]]*\]){0,2}\{([^}]*)\}/g;
+const LABEL_RE = /\\label\{([^}]*)\}/g;
+const REF_RE = /\\(?:ref|eqref|pageref|autoref|cref|Cref|vref|nameref)\*?\{([^}]*)\}/g;
+const MATH_ENV_NAMES = 'equation|align|gather|multline|eqnarray|flalign|alignat|math|displaymath';
+const MATH_RE = new RegExp(
+  `\\\\begin\\{(${MATH_ENV_NAMES})\\*?\\}[\\s\\S]*?\\\\end\\{\\1\\*?\\}|\\$\\$[\\s\\S]+?\\$\\$|\\\\\\[[\\s\\S]+?\\\\\\]|\\\\\\([\\s\\S]+?\\\\\\)|(?<!\\\\)\\$(?:\\\\\\$|[^$])+?\\$`,
+  'g'
+);
+const COMMAND_RE = /\\([a-zA-Z]+)/g;
+
+function collectKeys(text: string, re: RegExp): string[] {
+  const keys: string[] = [];
+  for (const match of text.matchAll(re)) {
+    for (const key of (match[1] ?? '').split(',')) {
+      if (key.trim()) keys.push(key.trim());
+    }
+  }
+  return keys;
+}
+
+// Multiset difference: items of `a` not matched one-for-one in `b`
+function missingFrom(a: string[], b: string[]): string[] {
+  const remaining = new Map<string, number>();
+  for (const item of b) remaining.set(item, (remaining.get(item) ?? 0) + 1);
+
+  const missing: string[] = [];
+  for (const item of a) {
+    const count = remaining.get(item) ?? 0;
+    if (count > 0) {
+      remaining.set(item, count - 1);
+    } else {
+      missing.push(item);
+    }
+  }
+  return missing;
+}
+
+function unique(items: string[]): string[] {
+  return [...new Set(items)];
+}
+
+function collectMath(text: string): string[] {
+  return [...text.matchAll(MATH_RE)].map(m => m[0].replace(/\s+/g, ' ').trim());
+}
+
+function collectCommands(text: string): string[] {
+  // Math is checked as a whole, so commands inside it are not counted twice
+  const withoutMath = text.replace(MATH_RE, ' ');
+  return [...withoutMath.matchAll(COMMAND_RE)].map(m => m[1]!);
+}
+
+// Returns the depth at the end, or -1 as soon as a closing brace has no opener
+function braceDepth(text: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\') {
+      i++; // Skip the escaped character (\{, \}, \\)
+      continue;
+    }
+    if (ch === '%') {
+      // Rest of the line is a comment
+      const eol = text.indexOf('\n', i);
+      if (eol === -1) break;
+      i = eol;
+      continue;
+    }
+    if (ch === '{') depth++;
+    if (ch === '}' && --depth < 0) return -1;
+  }
+  return depth;
+}
+
+// Escaped \% signs and bare % comment starts; \\% is a line break followed by a comment
+function countPercents(text: string): { escaped: number; bare: number } {
+  let escaped = 0;
+  let bare = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      if (text[i + 1] === '%') escaped++;
+      i++;
+    } else if (text[i] === '%') {
+      bare++;
+    }
+  }
+  return { escaped, bare };
+}
+
+// One violation at most: a changed escape shows up in both counts
+function checkPercents(original: string, modified: string): LatexViolation | null {
+  const before = countPercents(original);
+  const after = countPercents(modified);
+  if (after.bare > before.bare) {
+    return { type: 'comment', message: 'An unescaped % was introduced; the rest of that line would be commented out' };
+  }
+  if (after.bare < before.bare) {
+    return { type: 'comment', message: 'A % comment was removed or escaped; commented-out text would now be typeset' };
+  }
+  if (after.escaped < before.escaped) {
+    return { type: 'comment', message: 'An escaped \\% was removed; if only its backslash was dropped, the rest of that line is now a comment' };
+  }
+  return null;
+}
+
+export function checkLatexIntegrity(original: string, modified: string): LatexViolation[] {
+  const violations: LatexViolation[] = [];
+
+  const origCites = collectKeys(original, CITE_RE);
+  const modCites = collectKeys(modified, CITE_RE);
+  const droppedCites = unique(missingFrom(unique(origCites), modCites));
+  const addedCites = unique(missingFrom(unique(modCites), origCites));
+  if (droppedCites.length > 0) {
+    violations.push({ type: 'citation', message: 'Citation keys were removed or changed', items: droppedCites });
+  }
+  if (addedCites.length > 0) {
+    violations.push({ type: 'citation', message: 'New citation keys appeared that are not in the original', items: addedCites });
+  }
+
+  const droppedLabels = missingFrom(collectKeys(original, LABEL_RE), collectKeys(modified, LABEL_RE));
+  if (droppedLabels.length > 0) {
+    violations.push({ type: 'label', message: 'Labels were removed or renamed', items: unique(droppedLabels) });
+  }
+
+  const origRefs = unique(collectKeys(original, REF_RE));
+  const droppedRefs = missingFrom(origRefs, collectKeys(modified, REF_RE));
+  if (droppedRefs.length > 0) {
+    violations.push({ type: 'ref', message: 'Cross-references were removed or renamed', items: unique(droppedRefs) });
+  }
+
+  const changedMath = missingFrom(collectMath(original), collectMath(modified));
+  if (changedMath.length > 0) {
+    violations.push({ type: 'math', message: 'Math was changed or removed', items: changedMath });
+  }
+
+  const droppedCommands = unique(missingFrom(unique(collectCommands(original)), collectCommands(modified)))
+    // Covered by the citation / label / ref checks above
+    .filter(cmd => !/^(?:[a-zA-Z]*cite[a-zA-Z]*|label|ref|eqref|pageref|autoref|cref|Cref|vref|nameref)$/.test(cmd));
+  if (droppedCommands.length > 0) {
+    violations.push({ type: 'command', message: 'LaTeX commands were removed', items: droppedCommands.map(c => `\\${c}`) });
+  }
+
+  if (braceDepth(original) === 0 && braceDepth(modified) !== 0) {
+    violations.push({ type: 'brace', message: 'Braces are no longer balanced' });
+  }
+
+  const percent = checkPercents(original, modified);
+  if (percent) violations.push(percent);
+
+  return violations;
+}
+
+/**
+ * Extra instruction for re-prompting after a violation. It names the exact items
+ * so the model restores them instead of guessing.
+ */
+export function buildConstraintReminder(violations: LatexViolation[]): string {
+  const lines = violations.map(v => `- ${v.message}${v.items?.length ? `: ${v.items.join(', ')}` : ''}`);
+  return `IMPORTANT: Your previous revision broke the LaTeX source:
+${lines.join('\n')}
+
+Revise the ORIGINAL text again and strictly preserve:
+- every \\cite key, \\label and \\ref exactly as written (do not add, remove or rename keys)
+- all math ($...$, \\[...\\], equation/align environments) character for character
+- all LaTeX commands, and balanced braces
+- escaped characters such as \\% and % comments (never add, remove or escape a bare %)`;
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { splitAnchors, resolveAnchor } from './paperChat';
+
+describe('paperChat', () => {
+  it('should split an answer into text and source anchors', () => {
+    expect(splitAnchors('The kernel is trusted [sections/threat.tex:12]; see [1] and [intro.tex:4, eval.tex:40-42].')).toEqual([
+      { text: 'The kernel is trusted ' },
+      { anchor: { path: 'sections/threat.tex', line: 12 }, text: 'sections/threat.tex:12' },
+      { text: '; see [1] and ' },
+      { anchor: { path: 'intro.tex', line: 4 }, text: 'intro.tex:4' },
+      { anchor: { path: 'eval.tex', line: 40 }, text: 'eval.tex:40' },
+      { text: '.' }
+    ]);
+    expect(splitAnchors('No anchors here.')).toEqual([{ text: 'No anchors here.' }]);
+  });
+
+  it('should resolve an anchor to the passage it falls in', () => {
+    const sources = [
+      { label: 'sections/eval.tex:10', lineStart: 10 },
+      { label: 'sections/eval.tex:30', lineStart: 30 },
+      { label: 'intro.tex:3', lineStart: 3 }
+    ];
+    expect(resolveAnchor({ path: 'sections/eval.tex', line: 34 }, sources)).toBe(sources[1]);
+    expect(resolveAnchor({ path: 'eval.tex', line: 10 }, sources)).toBe(sources[0]);
+    expect(resolveAnchor({ path: 'intro.tex', line: 1 }, sources)).toBe(sources[2]);
+    expect(resolveAnchor({ path: 'related.tex', line: 1 }, sources)).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+// Source anchors in paper chat answers: "[sections/eval.tex:42]", or several in
+// one bracket, "[intro.tex:12; eval.tex:40]".
+
+export interface SourceAnchor {
+  path: string; // As written, relative to the project root
+  line: number; // 1-based
+}
+
+export type AnswerSegment = { text: string } | { anchor: SourceAnchor; text: string };
+
+const BRACKET_RE = /\[([^\[\]\n]+)\]/g;
+const ANCHOR_RE = /^\s*([^\s:;,\]]+\.(?:tex|ltx)):(\d+)(?:-\d+)?\s*$/;
+
+function parseBracket(inner: string): SourceAnchor[] | null {
+  const anchors: SourceAnchor[] = [];
+  for (const part of inner.split(/[;,]/)) {
+    const match = part.match(ANCHOR_RE);
+    if (!match) return null;
+    anchors.push({ path: match[1]!, line: Number(match[2]) });
+  }
+  return anchors;
+}
+
+// Split an answer into text and anchors; brackets that are not all anchors stay text
+export function splitAnchors(answer: string): AnswerSegment[] {
+  const segments: AnswerSegment[] = [];
+  let last = 0;
+  for (const match of answer.matchAll(BRACKET_RE)) {
+    const anchors = parseBracket(match[1]!);
+    if (!anchors) continue;
+    if (match.index! > last) segments.push({ text: answer.slice(last, match.index) });
+    for (const anchor of anchors) segments.push({ anchor, text: `${anchor.path}:${anchor.line}` });
+    last = match.index! + match[0].length;
+  }
+  if (last < answer.length) segments.push({ text: answer.slice(last) });
+  return segments;
+}
+
+// The source an anchor points into: same file, and the passage starting closest before the line
+export function resolveAnchor<T extends { label: string; lineStart: number }>(anchor: SourceAnchor, sources: T[]): T | null {
+  const inFile = sources.filter(s => {
+    const path = s.label.slice(0, s.label.lastIndexOf(':'));
+    return path === anchor.path || path.endsWith(`/${anchor.path}`);
+  });
+  const before = inFile.filter(s => s.lineStart <= anchor.line).sort((a, b) => b.lineStart - a.lineStart);
+  return before[0] ?? inFile[0] ?? null;
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseContent } from './parser';
+import { parseContent, serializeContent } from './parser';
 
 describe('parser', () => {
   // parseContent doesn't parse sections hierarchically anymore in parser.ts
@@ -56,4 +56,33 @@ describe('parser', () => {
     });
   });
 
+  describe('sourceBlocks', () => {
+    const content = [
+      '% [FW_THOUGHTS]',
+      '% Stress the overhead',
+      '% [/FW_THOUGHTS]',
+      '% [FW_SOURCE]',
+      '% 我们提出了 X，开销低于 \\SI{5}{\\percent}。',
+      '%',
+      '% % 旧版本',
+      '% [/FW_SOURCE]',
+      'We present X, whose overhead stays below \\SI{5}{\\percent}.'
+    ].join('\n');
+
+    it('should attach an FW_SOURCE block to the paragraph below it', () => {
+      const result = parseContent(`Earlier text.\n\n${content}`);
+      expect(result).toHaveLength(2);
+      expect(result[1]).toMatchObject({
+        content: 'We present X, whose overhead stays below \\SI{5}{\\percent}.',
+        thoughts: 'Stress the overhead',
+        source: '我们提出了 X，开销低于 \\SI{5}{\\percent}。\n\n% 旧版本',
+        lineStart: 3
+      });
+    });
+
+    it('should write source blocks back unchanged', () => {
+      expect(serializeContent(parseContent(content))).toBe(content);
+    });
+  });
+
 });
@@ -1,13 +1,16 @@
 import type { TextItem, ViewMode } from '../types';
 
 /**
- * Parses content into a list of Paragraphs, extracting "Thoughts" metadata if present.
+ * Parses content into a list of Paragraphs, extracting "Thoughts" and "Source" metadata if present.
  * Implements "Smart Chunking" to group LaTeX tags with text blocks.
  * 
  * Format:
  * % [FW_THOUGHTS]
  * % My thought content here...
  * % [/FW_THOUGHTS]
+ * % [FW_SOURCE]
+ * % The draft the paragraph was translated from...
+ * % [/FW_SOURCE]
  * Actual paragraph text...
  */
 export function parseContent(content: string): TextItem[] {
@@ -17,6 +20,8 @@ export function parseContent(content: string): TextItem[] {
   let currentBlockLines: string[] = [];
   let currentThoughts: string[] = [];
   let isReadingThoughts = false;
+  let currentSource: string[] = [];
+  let isReadingSource = false;
   let blockStartLine = 1;
 
   // Helper to commit the current accumulated lines as a single TextItem
@@ -27,13 +32,14 @@ export function parseContent(content: string): TextItem[] {
     // Let's trim the *result* to avoid start/end whitespace issues in the editor card
     const trimmedContent = blockContent.trim();
 
-    // Only push if we have actual content or thoughts
-    if (trimmedContent || currentThoughts.length > 0) {
+    // Only push if we have actual content, thoughts or a source
+    if (trimmedContent || currentThoughts.length > 0 || currentSource.length > 0) {
       items.push({
         id: `para-${items.length + 1}`,
         content: trimmedContent, // Use trimmed content for the editor value
         type: 'paragraph',
         thoughts: currentThoughts.length > 0 ? currentThoughts.join('\n').trim() : undefined,
+        source: currentSource.length > 0 ? currentSource.join('\n').trim() : undefined,
         lineStart: blockStartLine,
         status: 'unchanged'
       });
@@ -41,6 +47,7 @@ export function parseContent(content: string): TextItem[] {
 
     currentBlockLines = [];
     currentThoughts = [];
+    currentSource = [];
     blockStartLine = nextStartLine;
   };
 
@@ -71,6 +78,26 @@ export function parseContent(content: string): TextItem[] {
       continue;
     }
 
+    // Source text of a translated paragraph; follows the thoughts block if there is one
+    if (trimmed === '% [FW_SOURCE]') {
+      if (currentBlockLines.length > 0) {
+        commitBlock(lineNum);
+      }
+      isReadingSource = true;
+      if (currentThoughts.length === 0) blockStartLine = lineNum;
+      continue;
+    }
+
+    if (trimmed === '% [/FW_SOURCE]') {
+      isReadingSource = false;
+      continue;
+    }
+
+    if (isReadingSource) {
+      currentSource.push(line.replace(/^\s*%\s?/, ''));
+      continue;
+    }
+
     // --- 2. Content Grouping Logic ---
 
     // We want to group structure commands with subsequent text if possible.
@@ -100,7 +127,7 @@ export function parseContent(content: string): TextItem[] {
 
     // Append current line to buffer
     // If it's the *start* of a new block (buffer empty), set start line
-    if (currentBlockLines.length === 0 && currentThoughts.length === 0) {
+    if (currentBlockLines.length === 0 && currentThoughts.length === 0 && currentSource.length === 0) {
       blockStartLine = lineNum;
     }
 
@@ -158,7 +185,7 @@ export function parseContent(content: string): TextItem[] {
       const prev = mergedItems[mergedItems.length - 1];
 
       // Criteria for merging:
-      // 1. Current has NO thoughts (thoughts imply a distinct unit/task).
+      // 1. Current has NO thoughts or source (both imply a distinct unit/task).
       // 2. Current is "small" (e.g. < 3 lines of text).
       // 3. Previous block exists (handled by loop start).
       // 4. Ideally, we don't merge a Section Header *into* a previous text block? 
@@ -169,7 +196,7 @@ export function parseContent(content: string): TextItem[] {
       const lineCount = current.content.split('\n').length;
       const isSmall = lineCount < 3 && current.content.length < 300; // Heuristic
 
-      if (!current.thoughts && isSmall && !isStructure) {
+      if (!current.thoughts && !current.source && isSmall && !isStructure) {
         // Merge into previous
         // We add a blank line separator to preserve LaTeX structure
         prev.content += '\n\n' + current.content;
@@ -186,6 +213,31 @@ export function parseContent(content: string): TextItem[] {
   return items;
 }
 
+/**
+ * Writes items back as file content, the inverse of parseContent: each item's
+ * FW_THOUGHTS and FW_SOURCE blocks as comments above its text.
+ */
+export function serializeContent(items: TextItem[]): string {
+  return items.map(item => {
+    let block = '';
+    if (item.thoughts) {
+      block += `% [FW_THOUGHTS]\n`;
+      // Prefix each line with % if not already
+      const lines = item.thoughts.split('\n');
+      block += lines.map(l => l.trim().startsWith('%') ? l : `% ${l}`).join('\n') + '\n';
+      block += `% [/FW_THOUGHTS]\n`;
+    }
+    if (item.source) {
+      // Always prefixed, so LaTeX comments in the source survive the round trip
+      block += `% [FW_SOURCE]\n`;
+      block += item.source.split('\n').map(l => (l ? `% ${l}` : '%')).join('\n') + '\n';
+      block += `% [/FW_SOURCE]\n`;
+    }
+    block += item.content;
+    return block;
+  }).join('\n\n'); // Separate paragraphs with blank lines
+}
+
 /**
  * Splits a single paragraph's content into sentences for the "Focus Mode".
  * This does NOT parse the whole document, just the text passed to it.
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { compareScores, parseRubricText, rubricToText } from './review';
+import type { PaperReview, ReviewScore } from '../types';
+
+function review(scores: [string, number | null][]): PaperReview {
+  return {
+    id: 'r',
+    projectId: 'p',
+    status: 'completed',
+    progress: { done: 1, total: 1 },
+    rubric: { id: 'sp', name: 'IEEE S&P', criteria: [] },
+    createdAt: '2026-01-01T00:00:00Z',
+    scores: scores.map(([criterionId, score]): ReviewScore => ({ criterionId, name: criterionId, score, max: 5, justification: '' }))
+  };
+}
+
+describe('review', () => {
+  describe('compareScores', () => {
+    it('should report the change per criterion only where both reviews scored it', () => {
+      const current = review([['overall', 4], ['novelty', 3], ['evaluation', null], ['impact', 2]]);
+      const baseline = review([['overall', 2], ['novelty', 3], ['evaluation', 4]]);
+      expect(compareScores(current, baseline).map(s => s.delta)).toEqual([2, 0, null, null]);
+      expect(compareScores(current, null).map(s => s.delta)).toEqual([null, null, null, null]);
+    });
+  });
+
+  describe('parseRubricText', () => {
+    it('should read one criterion per line and round-trip through rubricToText', () => {
+      const rubric = parseRubricText('ccs', 'CCS', 'Overall merit (1-6): 1 reject .. 6 strong accept\n\nNovelty\nPresentation: clear writing');
+      expect(rubric.criteria).toEqual([
+        { id: 'overall_merit', name: 'Overall merit', description: '1 reject .. 6 strong accept', max: 6 },
+        { id: 'novelty', name: 'Novelty', description: '', max: 5 },
+        { id: 'presentation', name: 'Presentation', description: 'clear writing', max: 5 }
+      ]);
+      expect(parseRubricText('ccs', 'CCS', rubricToText(rubric))).toEqual(rubric);
+    });
+  });
+});
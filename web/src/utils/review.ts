@@ -0,0 +1,36 @@
+import type { PaperReview, ReviewRubric, ReviewScore } from '../types';
+
+export interface ScoreComparison extends ReviewScore {
+  delta: number | null; // Change since the baseline; null when either side has no score
+}
+
+// Scores are compared by criterion, so reviews on different rubrics only share what overlaps
+export function compareScores(current: PaperReview, baseline: PaperReview | null): ScoreComparison[] {
+  return (current.scores || []).map(score => {
+    const before = baseline?.scores?.find(s => s.criterionId === score.criterionId);
+    const delta = score.score !== null && typeof before?.score === 'number' ? score.score - before.score : null;
+    return { ...score, delta };
+  });
+}
+
+// One criterion per line: "Name (1-5): what it measures"
+export function rubricToText(rubric: ReviewRubric): string {
+  return rubric.criteria.map(c => `${c.name} (1-${c.max}): ${c.description}`).join('\n');
+}
+
+export function parseRubricText(id: string, name: string, text: string): ReviewRubric {
+  const criteria = text.split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const match = line.match(/^(.*?)\s*(?:\(1\s*-\s*(\d+)\))?\s*(?::\s*(.*))?$/);
+      const criterionName = (match?.[1] || line).trim();
+      return {
+        id: criterionName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || `criterion_${index + 1}`,
+        name: criterionName,
+        description: (match?.[3] || '').trim(),
+        max: match?.[2] ? parseInt(match[2], 10) : 5
+      };
+    });
+  return { id, name: name.trim(), criteria };
+}
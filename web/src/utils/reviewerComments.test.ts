@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { groupByReviewer, countByStatus, describeBackup } from './reviewerComments';
+import type { ReviewerComment } from '../types';
+
+const comment = (id: string, reviewer: string, status: ReviewerComment['status']): ReviewerComment => ({
+  id,
+  reviewer,
+  text: `Comment ${id}`,
+  status,
+  matches: []
+});
+
+describe('reviewerComments', () => {
+  const comments = [comment('c1', 'Reviewer B', 'open'), comment('c2', '', 'addressed'), comment('c3', 'Reviewer B', 'wontfix')];
+
+  it('should group comments by reviewer in file order and filter by status', () => {
+    expect(groupByReviewer(comments).map(g => [g.reviewer, g.comments.map(c => c.id)])).toEqual([
+      ['Reviewer B', ['c1', 'c3']],
+      ['General', ['c2']]
+    ]);
+    expect(groupByReviewer(comments, 'open').map(g => g.reviewer)).toEqual(['Reviewer B']);
+    expect(countByStatus(comments)).toEqual({ all: 3, open: 1, addressed: 1, wontfix: 1 });
+  });
+
+  it('should read the file and time from a backup id', () => {
+    expect(describeBackup('eval.tex.202610190451051.bak')).toEqual({ filename: 'eval.tex', time: '2026-10-19 04:51' });
+    expect(describeBackup('notes.txt')).toEqual({ filename: 'notes.txt', time: '' });
+  });
+});
@@ -0,0 +1,29 @@
+import type { ReviewerComment, ReviewerCommentStatus } from '../types';
+
+export type CommentFilter = ReviewerCommentStatus | 'all';
+
+// Comments per reviewer, in the order the reviewers appear in the file
+export function groupByReviewer(comments: ReviewerComment[], filter: CommentFilter = 'all'): { reviewer: string; comments: ReviewerComment[] }[] {
+  const groups: { reviewer: string; comments: ReviewerComment[] }[] = [];
+  for (const comment of comments) {
+    if (filter !== 'all' && comment.status !== filter) continue;
+    const reviewer = comment.reviewer || 'General';
+    let group = groups.find(g => g.reviewer === reviewer);
+    if (!group) groups.push(group = { reviewer, comments: [] });
+    group.comments.push(comment);
+  }
+  return groups;
+}
+
+export function countByStatus(comments: ReviewerComment[]): Record<CommentFilter, number> {
+  const counts: Record<CommentFilter, number> = { all: comments.length, open: 0, addressed: 0, wontfix: 0 };
+  for (const comment of comments) counts[comment.status]++;
+  return counts;
+}
+
+// "eval.tex.202610190451051.bak" -> { filename: "eval.tex", time: "2026-10-19 04:51" }
+export function describeBackup(backupId: string): { filename: string; time: string } {
+  const match = backupId.match(/^(.*)\.(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})\d*\.bak$/);
+  if (!match) return { filename: backupId, time: '' };
+  return { filename: match[1]!, time: `${match[2]}-${match[3]}-${match[4]} ${match[5]}:${match[6]}` };
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { parseSSEEvents } from './sse';
+
+describe('sse', () => {
+  describe('parseSSEEvents', () => {
+    it('should parse complete events', () => {
+      const buffer = 'event: delta\ndata: {"text":"Hel"}\n\nevent: delta\ndata: {"text":"lo"}\n\n';
+      const { events, rest } = parseSSEEvents(buffer);
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toEqual({ event: 'delta', data: '{"text":"Hel"}' });
+      expect(events[1]?.data).toBe('{"text":"lo"}');
+      expect(rest).toBe('');
+    });
+
+    it('should keep a trailing partial event for the next read', () => {
+      const { events, rest } = parseSSEEvents('event: delta\ndata: {"text":"a"}\n\nevent: done\ndata: {"con');
+
+      expect(events).toHaveLength(1);
+      expect(rest).toBe('event: done\ndata: {"con');
+
+      const next = parseSSEEvents(rest + 'tent":"a"}\n\n');
+      expect(next.events).toEqual([{ event: 'done', data: '{"content":"a"}' }]);
+    });
+
+    it('should default to the message event and skip comments', () => {
+      const { events } = parseSSEEvents(': ping\n\ndata: hello\n\n');
+      expect(events).toEqual([{ event: 'message', data: 'hello' }]);
+    });
+
+    it('should handle CRLF line endings and multi-line data', () => {
+      const { events } = parseSSEEvents('event: error\r\ndata: line one\r\ndata: line two\r\n\r\n');
+      expect(events).toEqual([{ event: 'error', data: 'line one\nline two' }]);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Splits a Server-Sent Events buffer into complete events.
+ * Returns the parsed events plus the trailing partial chunk, which the caller
+ * should prepend to the next read.
+ */
+export function parseSSEEvents(buffer: string): { events: SSEEvent[]; rest: string } {
+  const normalized = buffer.replace(/\r\n/g, '\n');
+  const blocks = normalized.split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events: SSEEvent[] = [];
+
+  for (const block of blocks) {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith(':')) continue; // Comment / keep-alive
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    if (dataLines.length > 0) {
+      events.push({ event, data: dataLines.join('\n') });
+    }
+  }
+
+  return { events, rest };
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { partialStreamContent } from './stream';
+
+describe('stream', () => {
+  describe('partialStreamContent', () => {
+    it('should keep a cut-off rewrite without its fence', () => {
+      expect(partialStreamContent('```latex\nWe show', 'refine')).toBe('We show');
+      expect(partialStreamContent('We show', 'my-custom-mode')).toBe('We show');
+    });
+
+    it('should drop a cut-off Diagnose reply', () => {
+      expect(partialStreamContent('{"summary": "Two issues", "issues": [{"quote": "We', 'diagnose')).toBe('');
+    });
+  });
+});
@@ -0,0 +1,10 @@
+import { stripMarkdownCodeFences } from './fences';
+
+/**
+ * What an aborted stream leaves to show and accept.
+ * A cut-off Diagnose reply is truncated JSON, not text for the paragraph, so it is dropped.
+ */
+export function partialStreamContent(partial: string, mode: unknown): string {
+  if (mode === 'diagnose') return '';
+  return stripMarkdownCodeFences(partial);
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeStyle, compareToProfile, formatStylePrompt } from './style';
+
+const paperA = `\\documentclass{article}
+% Preamble comment with many words that should not count at all here
+\\begin{document}
+\\section{Introduction}
+We build a fast system~\\cite{key}. However, existing tools are slow.
+Thus we may need a new design.
+
+\\begin{figure}Figure text is skipped. It has sentences.\\end{figure}
+\\section{Design}
+\\subsection{Overview}
+The cache is updated by the \\emph{loader}. In addition, we keep $x+y$ small.
+\\section{Evaluation}
+Results suggest that the approach is likely fast.
+\\end{document}`;
+
+const paperB = `\\begin{document}
+\\section{Introduction}
+However, prior work is limited. We present a tool.
+\\section{Evaluation}
+The tool is evaluated on ten workloads.
+\\end{document}`;
+
+describe('style', () => {
+  it('should measure sentences, openers, voice and hedging from the document body', () => {
+    const metrics = analyzeStyle([paperA]);
+
+    expect(metrics.sentences).toBe(6);
+    expect(metrics.sentenceLength).toMatchObject({ median: 7, p10: 5, p90: 8 });
+    expect(metrics.sentenceLength.histogram).toEqual([1, 0, 0, 0, 0]);
+    expect(metrics.connectors.map(c => c.phrase)).toEqual(['however', 'thus', 'in addition']);
+    expect(metrics.voice.firstPerson).toBe(0.5); // 3 of 6 sentences
+    expect(metrics.voice.passive).toBe(0.17); // "is updated"
+    expect(metrics.hedging.common).toEqual(['may', 'suggest', 'likely']);
+    expect(metrics.structure).toMatchObject({ sectionsPerPaper: 3, subsectionsPerSection: 0.3 });
+  });
+
+  it('should keep the sections most papers share, in their usual order', () => {
+    const { structure, papers } = analyzeStyle([paperA, paperB]);
+    expect(papers).toBe(2);
+    expect(structure.commonSections).toEqual([
+      { title: 'introduction', share: 1 },
+      { title: 'design', share: 0.5 },
+      { title: 'evaluation', share: 1 }
+    ]);
+  });
+
+  it('should score a passage by how close it is to the profile', () => {
+    const profile = analyzeStyle([paperA, paperB]);
+    const similar = compareToProfile(profile, 'However, we keep it simple. The cache is updated by us.');
+    const different = compareToProfile(profile, 'It has been observed over the course of many years of practical experience with large deployments that systems of this kind are typically deployed without careful consideration of their long-term maintenance costs and operational complexity.');
+
+    expect(similar.sentences).toBe(2);
+    expect(similar.score).toBeGreaterThan(different.score);
+    expect(different.dimensions[0]!.closeness).toBe(0);
+    expect(compareToProfile(profile, '').score).toBe(0);
+  });
+
+  it('should describe the profile for a prompt', () => {
+    const prompt = formatStylePrompt('OSDI', analyzeStyle([paperA, paperB]));
+    expect(prompt).toContain('**Target Style (OSDI, learned from 2 exemplar papers):**');
+    expect(prompt).toContain('Favored sentence openers: "however"');
+    expect(prompt).toContain('Typical sections, in order: introduction, design, evaluation');
+  });
+});
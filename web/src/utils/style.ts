@@ -0,0 +1,285 @@
+// Writing style measured from LaTeX sources: sentence lengths, sentence openers,
+// voice, hedging and section structure. Exemplar papers give a profile; a
+// paragraph is then scored against it.
+
+export interface StyleMetrics {
+  papers: number;
+  sentences: number;
+  words: number;
+  sentenceLength: {
+    mean: number;
+    median: number;
+    p10: number;
+    p90: number;
+    histogram: number[]; // Share of sentences per SENTENCE_LENGTH_BUCKETS bucket
+  };
+  connectors: { phrase: string; per100: number }[]; // Sentence openers per 100 sentences, most used first
+  voice: {
+    firstPerson: number; // Share of sentences with we/our/us
+    passive: number; // Share of sentences with a passive construction
+  };
+  hedging: { per100: number; common: string[] }; // Hedge words per 100 sentences
+  structure: {
+    sectionsPerPaper: number;
+    subsectionsPerSection: number;
+    paragraphsPerSection: number;
+    commonSections: { title: string; share: number }[]; // Share of papers with the section, in typical order
+  };
+}
+
+export interface StyleDimension {
+  name: string;
+  profile: number;
+  text: number;
+  closeness: number; // 0 (far off) to 1 (matches the profile)
+}
+
+export interface StyleComparison {
+  score: number; // 0 to 100
+  sentences: number;
+  dimensions: StyleDimension[];
+}
+
+// Lower bounds of the sentence length buckets, in words
+export const SENTENCE_LENGTH_BUCKETS = [0, 10, 20, 30, 40];
+
+const CONNECTORS = [
+  'however', 'moreover', 'furthermore', 'in addition', 'additionally', 'therefore', 'thus', 'hence',
+  'consequently', 'as a result', 'in contrast', 'instead', 'meanwhile', 'specifically', 'in particular',
+  'for example', 'for instance', 'notably', 'finally', 'first', 'second', 'overall', 'to this end',
+  'in summary', 'similarly', 'nevertheless', 'in practice', 'intuitively'
+];
+
+const HEDGES = [
+  'may', 'might', 'could', 'likely', 'unlikely', 'possibly', 'perhaps', 'potentially', 'suggest', 'suggests',
+  'appear', 'appears', 'seem', 'seems', 'approximately', 'roughly', 'generally', 'typically', 'largely',
+  'relatively', 'somewhat', 'arguably'
+];
+
+const FIRST_PERSON_RE = /\b(?:we|our|us|ours)\b/i;
+const PASSIVE_RE = /\b(?:is|are|was|were|be|been|being)\s+(?:\w+ly\s+)?\w+(?:ed|en)\b/i;
+const HEDGE_RE = new RegExp(`\\b(?:${HEDGES.join('|')})\\b`, 'gi');
+const HEADING_RE = /\\(section|subsection)\*?\s*\{([^}]*)\}/g;
+const SKIPPED_ENVIRONMENTS = ['figure', 'table', 'equation', 'align', 'algorithm', 'lstlisting', 'verbatim', 'tikzpicture', 'thebibliography'];
+const SKIPPED_ENV_RE = new RegExp(`\\\\begin\\{(${SKIPPED_ENVIRONMENTS.join('|')})\\*?\\}[\\s\\S]*?\\\\end\\{\\1\\*?\\}`, 'g');
+const REFERENCE_RE = /~?\\(?:[a-zA-Z]*cite[a-zA-Z]*|[a-zA-Z]*ref|label|url)\*?(?:\[[^\]]*\])*\{[^}]*\}/g;
+const FORMATTING_RE = /\\(?:emph|textbf|textit|texttt|textsc|underline|mbox)\{([^{}]*)\}/g;
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]!;
+}
+
+// The document body without comments, headings, floats, math and references
+function documentBody(tex: string): string {
+  const uncommented = tex.replace(/(?<!\\)%.*$/gm, '');
+  const begin = uncommented.indexOf('\\begin{document}');
+  const end = uncommented.indexOf('\\end{document}');
+  return begin === -1 ? uncommented : uncommented.slice(begin + '\\begin{document}'.length, end === -1 ? undefined : end);
+}
+
+function toProse(body: string): string {
+  return body
+    .replace(SKIPPED_ENV_RE, ' ')
+    .replace(HEADING_RE, '\n\n')
+    .replace(/(?<!\\)\$[^$]*(?<!\\)\$/g, 'X')
+    .replace(REFERENCE_RE, '')
+    .replace(FORMATTING_RE, '$1')
+    .replace(FORMATTING_RE, '$1') // Again, for \emph inside \textbf
+    .replace(/\\(?:begin|end)\{[^}]*\}(?:\[[^\]]*\])?/g, '\n\n')
+    .replace(/\\item\b/g, '\n\n')
+    .replace(/\\[a-zA-Z]+\*?(?:\[[^\]]*\])?/g, ' ')
+    .replace(/[{}~]/g, ' ');
+}
+
+function paragraphs(prose: string): string[] {
+  return prose.split(/\n\s*\n/).map(p => p.replace(/\s+/g, ' ').trim()).filter(p => /[a-zA-Z]/.test(p));
+}
+
+// Same rule as the sentence parser: [.!?], whitespace, then a capital letter
+function sentences(paragraph: string): string[] {
+  return paragraph.split(/(?<=[.!?])\s+(?=[A-Z])/).map(s => s.trim()).filter(s => /[a-zA-Z]/.test(s));
+}
+
+function wordCount(sentence: string): number {
+  return sentence.match(/[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*/g)?.length ?? 0;
+}
+
+function opener(sentence: string): string | null {
+  const lower = sentence.toLowerCase();
+  return CONNECTORS.find(c => lower.startsWith(c) && /^[\s,]/.test(lower.slice(c.length))) ?? null;
+}
+
+function normalizeTitle(title: string): string {
+  return title.replace(/\\[a-zA-Z]+/g, '').replace(/[{}]/g, '').trim().toLowerCase();
+}
+
+interface SentenceStats {
+  lengths: number[];
+  connectors: Map<string, number>;
+  firstPerson: number;
+  passive: number;
+  hedges: Map<string, number>;
+}
+
+function measureSentences(list: string[]): SentenceStats {
+  const stats: SentenceStats = { lengths: [], connectors: new Map(), firstPerson: 0, passive: 0, hedges: new Map() };
+  for (const sentence of list) {
+    stats.lengths.push(wordCount(sentence));
+    const connector = opener(sentence);
+    if (connector) stats.connectors.set(connector, (stats.connectors.get(connector) ?? 0) + 1);
+    if (FIRST_PERSON_RE.test(sentence)) stats.firstPerson++;
+    if (PASSIVE_RE.test(sentence)) stats.passive++;
+    for (const m of sentence.matchAll(HEDGE_RE)) {
+      const hedge = m[0].toLowerCase();
+      stats.hedges.set(hedge, (stats.hedges.get(hedge) ?? 0) + 1);
+    }
+  }
+  return stats;
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const value of values) total += value;
+  return total;
+}
+
+/**
+ * Profile a set of exemplar papers, each given as its LaTeX source (a paper
+ * split over files can be passed as the files joined in order).
+ */
+export function analyzeStyle(sources: string[]): StyleMetrics {
+  const allSentences: string[] = [];
+  let sections = 0;
+  let subsections = 0;
+  let paragraphCount = 0;
+  const titlePapers = new Map<string, { papers: number; positions: number[] }>();
+
+  for (const source of sources) {
+    const body = documentBody(source);
+    const seen = new Set<string>();
+    let position = 0;
+    for (const [, kind, title] of body.matchAll(HEADING_RE)) {
+      if (kind === 'subsection') {
+        subsections++;
+        continue;
+      }
+      sections++;
+      const key = normalizeTitle(title ?? '');
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      const entry = titlePapers.get(key) ?? { papers: 0, positions: [] };
+      entry.papers++;
+      entry.positions.push(position++);
+      titlePapers.set(key, entry);
+    }
+    const paras = paragraphs(toProse(body));
+    paragraphCount += paras.length;
+    allSentences.push(...paras.flatMap(sentences));
+  }
+
+  const stats = measureSentences(allSentences);
+  const sorted = [...stats.lengths].sort((a, b) => a - b);
+  const count = Math.max(1, sorted.length);
+  const papers = Math.max(1, sources.length);
+  const histogram = SENTENCE_LENGTH_BUCKETS.map((low, i) => {
+    const high = SENTENCE_LENGTH_BUCKETS[i + 1] ?? Infinity;
+    return round(sorted.filter(n => n >= low && n < high).length / count);
+  });
+  const mean = (positions: number[]) => sum(positions) / positions.length;
+
+  return {
+    papers: sources.length,
+    sentences: sorted.length,
+    words: sum(sorted),
+    sentenceLength: {
+      mean: round(sum(sorted) / count, 1),
+      median: percentile(sorted, 0.5),
+      p10: percentile(sorted, 0.1),
+      p90: percentile(sorted, 0.9),
+      histogram
+    },
+    connectors: [...stats.connectors.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 12)
+      .map(([phrase, n]) => ({ phrase, per100: round((n / count) * 100, 1) })),
+    voice: {
+      firstPerson: round(stats.firstPerson / count),
+      passive: round(stats.passive / count)
+    },
+    hedging: {
+      per100: round((sum(stats.hedges.values()) / count) * 100, 1),
+      common: [...stats.hedges.entries()].sort((a, b) => b[1] - a[1]).slice(0, 6).map(([hedge]) => hedge)
+    },
+    structure: {
+      sectionsPerPaper: round(sections / papers, 1),
+      subsectionsPerSection: round(subsections / Math.max(1, sections), 1),
+      paragraphsPerSection: round(paragraphCount / Math.max(1, sections), 1),
+      // Sections in at least half of the papers (or every section, for one paper), ordered by where they appear
+      commonSections: [...titlePapers.entries()]
+        .filter(([, e]) => e.papers / papers >= 0.5)
+        .sort((a, b) => mean(a[1].positions) - mean(b[1].positions))
+        .map(([title, e]) => ({ title, share: round(e.papers / papers) }))
+    }
+  };
+}
+
+/**
+ * Score a passage against a profile. Each dimension is close when the passage
+ * is within the spread the exemplars show; the score is the mean closeness.
+ */
+export function compareToProfile(profile: StyleMetrics, text: string): StyleComparison {
+  const list = paragraphs(toProse(documentBody(text))).flatMap(sentences);
+  const stats = measureSentences(list);
+  const count = Math.max(1, list.length);
+  const meanLength = sum(stats.lengths) / count;
+  const connectorRate = (sum(stats.connectors.values()) / count) * 100;
+  const profileConnectorRate = sum(profile.connectors.map(c => c.per100));
+
+  const dimension = (name: string, profileValue: number, textValue: number, tolerance: number): StyleDimension => ({
+    name,
+    profile: round(profileValue, 1),
+    text: round(textValue, 1),
+    closeness: round(Math.max(0, 1 - Math.abs(textValue - profileValue) / Math.max(tolerance, 1e-6)))
+  });
+
+  const dimensions = [
+    dimension('Sentence length (words)', profile.sentenceLength.mean, meanLength, Math.max(4, profile.sentenceLength.p90 - profile.sentenceLength.p10)),
+    dimension('First person (% of sentences)', profile.voice.firstPerson * 100, (stats.firstPerson / count) * 100, 40),
+    dimension('Passive (% of sentences)', profile.voice.passive * 100, (stats.passive / count) * 100, 40),
+    dimension('Hedges per 100 sentences', profile.hedging.per100, (sum(stats.hedges.values()) / count) * 100, Math.max(20, profile.hedging.per100)),
+    dimension('Connectors per 100 sentences', profileConnectorRate, connectorRate, Math.max(20, profileConnectorRate))
+  ];
+
+  return {
+    score: list.length === 0 ? 0 : Math.round((sum(dimensions.map(d => d.closeness)) / dimensions.length) * 100),
+    sentences: list.length,
+    dimensions
+  };
+}
+
+/**
+ * The profile as a prompt component, for the {{style}} variable
+ */
+export function formatStylePrompt(name: string, metrics: StyleMetrics): string {
+  const { sentenceLength, connectors, voice, hedging, structure } = metrics;
+  const percent = (share: number) => `${Math.round(share * 100)}%`;
+  const lines = [
+    `**Target Style (${name}, learned from ${metrics.papers} exemplar paper${metrics.papers === 1 ? '' : 's'}):**`,
+    `- Sentences average ${sentenceLength.mean} words; most run ${sentenceLength.p10}-${sentenceLength.p90} words.`,
+    `- Voice: ${percent(voice.firstPerson)} of sentences use "we"/"our"; ${percent(voice.passive)} are passive.`,
+    `- Hedging: about ${hedging.per100} hedge words per 100 sentences${hedging.common.length ? ` (mostly ${hedging.common.map(h => `"${h}"`).join(', ')})` : ''}; do not hedge more than this.`
+  ];
+  if (connectors.length > 0) {
+    lines.push(`- Favored sentence openers: ${connectors.slice(0, 8).map(c => `"${c.phrase}"`).join(', ')}.`);
+  }
+  if (structure.commonSections.length > 0) {
+    lines.push(`- Typical sections, in order: ${structure.commonSections.map(s => s.title).join(', ')}; about ${structure.paragraphsPerSection} paragraphs per section.`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { applyOutlineNotes, getOutlineTargets, isStubParagraph } from './thoughts';
+import type { TextItem } from '../types';
+
+const item = (id: string, content: string, thoughts?: string): TextItem => ({
+  id,
+  content,
+  thoughts,
+  type: 'paragraph',
+  lineStart: 1,
+  status: 'unchanged'
+});
+
+const PROSE = 'We present X, a system that enforces memory safety with negligible overhead on unmodified binaries.';
+
+describe('thoughts', () => {
+  describe('isStubParagraph', () => {
+    it('should treat headings and placeholders as stubs but not prose', () => {
+      expect(isStubParagraph('')).toBe(true);
+      expect(isStubParagraph('\\subsection{Threat Model}\\label{sec:threat}\nTODO: attacker capabilities...')).toBe(true);
+      expect(isStubParagraph(`\\section{Introduction}\n${PROSE}`)).toBe(false);
+    });
+  });
+
+  describe('reverse outline', () => {
+    it('should only outline prose without notes and never overwrite existing notes', () => {
+      const items = [item('para-1', PROSE), item('para-2', PROSE, 'Mine'), item('para-3', 'TBD')];
+      expect(getOutlineTargets(items).map(t => t.itemId)).toEqual(['para-1']);
+
+      const updated = applyOutlineNotes(items, [{ itemId: 'para-1', thoughts: 'X is safe and fast' }, { itemId: 'para-2', thoughts: 'Other' }]);
+      expect(updated.map(i => i.thoughts)).toEqual(['X is safe and fast', 'Mine', undefined]);
+    });
+  });
+});
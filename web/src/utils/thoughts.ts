@@ -0,0 +1,34 @@
+import type { TextItem } from '../types';
+
+const STUB_MAX_WORDS = 12;
+const STRUCTURE_RE = /\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph|label)\*?\s*\{[^}]*\}/g;
+const PLACEHOLDER_RE = /\\todo\s*\{[^}]*\}|\b(TODO|TBD|XXX|FIXME)\b:?|\.{3}|…/g;
+
+// Words of prose once headings, labels and placeholders are removed
+function proseWords(content: string): number {
+  const prose = content
+    .split('\n')
+    .filter(line => !line.trim().startsWith('%'))
+    .join(' ')
+    .replace(STRUCTURE_RE, ' ')
+    .replace(PLACEHOLDER_RE, ' ');
+  // Each CJK character counts as a word, so Chinese drafts are not mistaken for stubs
+  return prose.match(/[A-Za-z]+|[\u4e00-\u9fff]/g)?.length ?? 0;
+}
+
+// Empty, a bare heading, or a placeholder like "TODO: motivation..."
+export function isStubParagraph(content: string): boolean {
+  return proseWords(content) < STUB_MAX_WORDS;
+}
+
+// Paragraphs worth a reverse-outline note: real prose that has no notes yet
+export function getOutlineTargets(items: TextItem[]): { itemId: string; content: string }[] {
+  return items
+    .filter(item => !item.thoughts && !isStubParagraph(item.content))
+    .map(item => ({ itemId: item.id, content: item.content }));
+}
+
+export function applyOutlineNotes(items: TextItem[], summaries: { itemId: string; thoughts: string }[]): TextItem[] {
+  const notes = new Map(summaries.map(s => [s.itemId, s.thoughts]));
+  return items.map(item => (notes.has(item.id) && !item.thoughts ? { ...item, thoughts: notes.get(item.id) } : item));
+}